@@ -7,6 +7,9 @@ import runsController from './modules/runs/runs.controller.js'; // Register runs
 import mcpPlugin from './mcp-server/mcp.plugin.js'; // Import MCP Plugin
 import errorsModule from './modules/errors/errors.module.js'; // Import errors module
 import scrapesModule from './modules/scrapes/scrapes.module.js'; // Import scrapes module
+import packagesController from './modules/packages/packages.controller.js'; // Import packages endpoints
+import toolsController from './modules/tools/tools.controller.js'; // Import tool discovery endpoints
+import proxiesController from './modules/proxies/proxies.controller.js'; // Import proxy stats endpoint
 import { apiKeyAuth } from './hooks/apiKeyAuth.js'; // Import hook
 import dependenciesPlugin from './plugins/dependencies.plugin.js'; // Ensure .js
 
@@ -66,6 +69,9 @@ export async function buildApp(opts: BuildAppOptions = {}): Promise<FastifyInsta
     await instance.register(mcpPlugin, { prefix: '/mcp' }); // Register MCP service routes
     await instance.register(errorsModule); // Register error reporting module
     await instance.register(scrapesModule); // Register scrapes module
+    await instance.register(packagesController, { prefix: '/packages' }); // Register package validation
+    await instance.register(toolsController, { prefix: '/tools' }); // Register tool discovery and invocation
+    await instance.register(proxiesController, { prefix: '/proxies' }); // Register proxy health stats
   });
 
   // Health check endpoint (does not require auth)
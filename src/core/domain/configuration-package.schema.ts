@@ -0,0 +1,220 @@
+/**
+ * JSON Schemas for the Universal Configuration Package Format.
+ * The package schema covers the structure shared by all versions; the scraper
+ * parameter schemas cover the version-specific extraction settings.
+ */
+
+import { Type, TProperties } from '@sinclair/typebox';
+
+// Tool parameters are open-ended; each tool's own inputSchema checks them further
+const ToolParametersSchema = Type.Object({}, { additionalProperties: true });
+
+// Configuration of a single tool (scraper, proxy, anti-blocking, captcha solver)
+const ToolConfigurationSchema = Type.Object({
+  tool_id: Type.String({ minLength: 1, description: 'Identifier of a registered tool' }),
+  parameters: ToolParametersSchema
+});
+
+/**
+ * A post-processing transform; the options of each transform type are checked loosely
+ */
+export const PostProcessingTransformSchema = Type.Object({
+  type: Type.Union([
+    Type.Literal('trim'),
+    Type.Literal('regex'),
+    Type.Literal('number'),
+    Type.Literal('currency'),
+    Type.Literal('date'),
+    Type.Literal('absolute_url'),
+    Type.Literal('split'),
+    Type.Literal('join')
+  ]),
+  field: Type.Optional(Type.Union([Type.String(), Type.Array(Type.String())])),
+  target: Type.Optional(Type.String()),
+  pattern: Type.Optional(Type.String({ minLength: 1 })),
+  flags: Type.Optional(Type.String({ pattern: '^[dgimsuvy]*$' })),
+  group: Type.Optional(Type.Union([Type.Integer({ minimum: 0 }), Type.String()])),
+  decimal_separator: Type.Optional(Type.Union([Type.Literal('.'), Type.Literal(',')])),
+  separator: Type.Optional(Type.String())
+}, { additionalProperties: true });
+
+/**
+ * Crawl mode settings
+ */
+export const CrawlConfigSchema = Type.Object({
+  max_depth: Type.Optional(Type.Integer({ minimum: 0 })),
+  include_patterns: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  exclude_patterns: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  same_domain: Type.Optional(Type.Boolean()),
+  max_urls: Type.Optional(Type.Integer({ minimum: 1 })),
+  link_selector: Type.Optional(Type.String({ minLength: 1 })),
+  scrape_seeds: Type.Optional(Type.Boolean())
+}, { additionalProperties: false });
+
+/**
+ * Runtime variable declarations, keyed by the name used in {{name}} placeholders
+ */
+export const PackageVariablesSchema = Type.Record(
+  Type.String({ pattern: '^[A-Za-z_][A-Za-z0-9_]*$' }),
+  Type.Object({
+    description: Type.Optional(Type.String()),
+    default: Type.Optional(Type.String())
+  }, { additionalProperties: false })
+);
+
+/**
+ * Structure shared by every package version (1.0 and 2.0)
+ */
+export const ConfigurationPackageSchema = Type.Object({
+  schemaVersion: Type.Union([Type.Literal('1.0'), Type.Literal('2.0')]),
+  packageId: Type.Optional(Type.String()),
+  description: Type.Optional(Type.String()),
+  scraper: ToolConfigurationSchema,
+  proxy: Type.Optional(ToolConfigurationSchema),
+  antiBlocking: Type.Optional(Type.Array(ToolConfigurationSchema)),
+  captchaSolver: Type.Optional(ToolConfigurationSchema),
+  postProcessing: Type.Optional(Type.Array(PostProcessingTransformSchema)),
+  crawl: Type.Optional(CrawlConfigSchema),
+  variables: Type.Optional(PackageVariablesSchema),
+  expectedOutputSchema: Type.Optional(Type.Object({
+    type: Type.Literal('object'),
+    properties: Type.Record(Type.String(), Type.Object({
+      type: Type.String(),
+      description: Type.Optional(Type.String())
+    })),
+    required: Type.Optional(Type.Array(Type.String()))
+  }))
+}, { additionalProperties: true });
+
+/**
+ * Pagination settings of a scraper, identical in both versions
+ */
+export const PaginationSchema = Type.Object({
+  next_selector: Type.Optional(Type.String({ minLength: 1 })),
+  url_template: Type.Optional(Type.String({ pattern: '\\{page\\}' })),
+  start_page: Type.Optional(Type.Integer({ minimum: 0 })),
+  load_more_selector: Type.Optional(Type.String({ minLength: 1 })),
+  max_pages: Type.Optional(Type.Integer({ minimum: 1 })),
+  stop_selector: Type.Optional(Type.String({ minLength: 1 })),
+  stop_on_empty: Type.Optional(Type.Boolean()),
+  delay_ms: Type.Optional(Type.Integer({ minimum: 0 }))
+}, { additionalProperties: false });
+
+// Options shared by every interaction step
+const InteractionStepOptions = {
+  timeout_ms: Type.Optional(Type.Integer({ minimum: 1 })),
+  optional: Type.Optional(Type.Boolean()),
+  description: Type.Optional(Type.String())
+};
+
+const stepSchema = (action: string, properties: TProperties) =>
+  Type.Object({ action: Type.Literal(action), ...properties, ...InteractionStepOptions }, { additionalProperties: false });
+
+/**
+ * A single step of an interaction script (Playwright scraper)
+ */
+export const InteractionStepSchema = Type.Union([
+  stepSchema('click', {
+    selector: Type.String({ minLength: 1 }),
+    button: Type.Optional(Type.Union([Type.Literal('left'), Type.Literal('right'), Type.Literal('middle')])),
+    click_count: Type.Optional(Type.Integer({ minimum: 1 }))
+  }),
+  stepSchema('fill', { selector: Type.String({ minLength: 1 }), value: Type.String() }),
+  stepSchema('press', { key: Type.String({ minLength: 1 }), selector: Type.Optional(Type.String({ minLength: 1 })) }),
+  stepSchema('scroll_to_bottom', {
+    max_scrolls: Type.Optional(Type.Integer({ minimum: 1 })),
+    delay_ms: Type.Optional(Type.Integer({ minimum: 0 }))
+  }),
+  stepSchema('wait_for_selector', {
+    selector: Type.String({ minLength: 1 }),
+    state: Type.Optional(Type.Union([
+      Type.Literal('attached'),
+      Type.Literal('detached'),
+      Type.Literal('visible'),
+      Type.Literal('hidden')
+    ]))
+  }),
+  stepSchema('wait_for_network_idle', {}),
+  stepSchema('select_option', {
+    selector: Type.String({ minLength: 1 }),
+    value: Type.Union([Type.String(), Type.Array(Type.String(), { minItems: 1 })])
+  }),
+  stepSchema('hover', { selector: Type.String({ minLength: 1 }) })
+]);
+
+/**
+ * Navigation options of the Playwright scraper
+ */
+export const GotoOptionsSchema = Type.Object({
+  waitUntil: Type.Optional(Type.Union([
+    Type.Literal('load'),
+    Type.Literal('domcontentloaded'),
+    Type.Literal('networkidle'),
+    Type.Literal('commit')
+  ])),
+  timeout: Type.Optional(Type.Integer({ minimum: 0 })),
+  referer: Type.Optional(Type.String())
+}, { additionalProperties: false });
+
+/**
+ * Network capture settings of the Playwright scraper
+ */
+export const NetworkCaptureSchema = Type.Object({
+  url_patterns: Type.Array(Type.String({ minLength: 1 }), { minItems: 1 }),
+  resource_types: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })),
+  item_path: Type.Optional(Type.String({ minLength: 1 })),
+  wait_timeout_ms: Type.Optional(Type.Integer({ minimum: 0 })),
+  max_responses: Type.Optional(Type.Integer({ minimum: 1 })),
+  max_body_bytes: Type.Optional(Type.Integer({ minimum: 1 }))
+}, { additionalProperties: false });
+
+// List mode, pagination and page preparation settings, identical in both versions
+const ListModeParameters = {
+  item_selector: Type.Optional(Type.String({ minLength: 1 })),
+  max_items: Type.Optional(Type.Integer({ minimum: 1 })),
+  pagination: Type.Optional(PaginationSchema),
+  goto_options: Type.Optional(GotoOptionsSchema),
+  wait_selector: Type.Optional(Type.String({ minLength: 1 })),
+  interaction_script: Type.Optional(Type.Array(InteractionStepSchema)),
+  evaluate_script: Type.Optional(Type.String({ minLength: 1 })),
+  evaluate_timeout_ms: Type.Optional(Type.Integer({ minimum: 1 })),
+  capture_network: Type.Optional(NetworkCaptureSchema)
+};
+
+/**
+ * Scraper parameters of a 1.0 package (flat selectors)
+ */
+export const ScraperParametersV1Schema = Type.Object({
+  selectors: Type.Record(Type.String(), Type.String({ minLength: 1 })),
+  attribute: Type.Optional(Type.String()),
+  ...ListModeParameters
+}, { additionalProperties: true });
+
+/**
+ * Extraction spec of a single field in a 2.0 package
+ */
+export const FieldExtractionSpecSchema = Type.Object({
+  selector: Type.Union([
+    Type.String({ minLength: 1 }),
+    Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })
+  ]),
+  attribute: Type.Optional(Type.String()),
+  property: Type.Optional(Type.String()),
+  multiple: Type.Optional(Type.Boolean()),
+  type: Type.Optional(Type.Union([
+    Type.Literal('string'),
+    Type.Literal('number'),
+    Type.Literal('integer'),
+    Type.Literal('boolean')
+  ])),
+  default: Type.Optional(Type.Union([Type.String(), Type.Number(), Type.Boolean(), Type.Null()])),
+  source: Type.Optional(Type.Union([Type.Literal('dom'), Type.Literal('network'), Type.Literal('structured_data')]))
+}, { additionalProperties: false });
+
+/**
+ * Scraper parameters of a 2.0 package (per-field extraction specs)
+ */
+export const ScraperParametersV2Schema = Type.Object({
+  fields: Type.Record(Type.String(), FieldExtractionSpecSchema),
+  ...ListModeParameters
+}, { additionalProperties: true });
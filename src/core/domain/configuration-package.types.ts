@@ -2,7 +2,7 @@
  * Defines the structure for the Universal Configuration Package Format.
  * This package describes the complete set of tools and their configurations
  * needed to execute a specific scraping build or run.
- * Version: 1.0
+ * Versions: 1.0 (flat selectors) and 2.0 (per-field extraction specs)
  */
 
 /**
@@ -18,10 +18,12 @@ export interface ToolConfiguration {
     timeout_ms?: number;
 
     // Scraper-specific (example for playwright_stealth_v1)
-    goto_options?: any; // Playwright goto options
-    wait_selector?: string;
-    interaction_script?: string; // Sequence of clicks, scrolls, waits
-    evaluate_script?: string; // JS code to run in page context for extraction
+    goto_options?: GotoOptions; // Playwright goto options
+    wait_selector?: string; // Selector to wait for after navigation (late-rendering pages)
+    interaction_script?: InteractionStep[]; // Sequence of clicks, scrolls, waits run before extraction
+    evaluate_script?: string; // Async function body run in page context; its returned object is merged into the record
+    evaluate_timeout_ms?: number; // Time limit of evaluate_script (default: 5000)
+    capture_network?: NetworkCaptureConfig; // Record JSON API responses for fields with source 'network'
     output_mapping?: { [key: string]: string }; // Map extracted data to output fields
 
     // Proxy-specific (example for proxy:manager_rotating_v1)
@@ -29,8 +31,14 @@ export interface ToolConfiguration {
     rotation_mode?: 'round-robin' | 'random';
 
     // Anti-block specific (example for antiblock:fingerprint_v1)
-    screen?: { width: number; height: number };
+    strategies?: AntiBlockingStrategy[]; // Strategies to apply (default: all)
+    locale?: string; // Fixed locale, e.g. 'de-DE' (default: en-US)
+    timezone_id?: string; // Overrides the timezone of the locale
+    min_delay_ms?: number; // Human-like pause before each request (default: 800-2500ms)
+    max_delay_ms?: number;
+    screen?: { width: number; height: number }; // Overrides of the fingerprint strategy
     webglVendor?: string;
+    webglRenderer?: string;
     // ... other fingerprint overrides
 
     // Add other tool-specific parameter examples as needed
@@ -38,6 +46,63 @@ export interface ToolConfiguration {
   };
 }
 
+/**
+ * Strategies of the anti-blocking tool:
+ * - user_agent: a realistic user agent, rotated per URL (Chromium ones for browser scrapers)
+ * - client_hints: Sec-CH-UA headers matching the user agent (Chromium profiles only)
+ * - locale: Accept-Language, browser locale and timezone of one consistent locale
+ * - human_delays: a randomized pause before each request
+ * - fingerprint: screen, viewport, platform and WebGL values matching the user agent
+ */
+export type AntiBlockingStrategy = 'user_agent' | 'client_hints' | 'locale' | 'human_delays' | 'fingerprint';
+
+/**
+ * Navigation options of the Playwright scraper (subset of Playwright's page.goto options).
+ */
+export interface GotoOptions {
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle' | 'commit'; // Default: 'domcontentloaded'
+  timeout?: number; // Navigation timeout in milliseconds (default: 20000)
+  referer?: string;
+}
+
+/**
+ * Network capture of the Playwright scraper: JSON responses of the page's XHR/fetch
+ * requests are recorded while it loads and runs its interaction script, and fields
+ * with source 'network' are extracted from them with JSONPath.
+ */
+export interface NetworkCaptureConfig {
+  url_patterns: string[]; // Response URLs to record: globs ('*' matches anything, e.g. '*/api/products*') or /regular expressions/
+  resource_types?: string[]; // Request resource types to record (default: ['xhr', 'fetch'])
+  item_path?: string; // JSONPath of the items in the captured responses; each item yields one record
+  wait_timeout_ms?: number; // How long to wait for a first matching response before extraction (default: 5000)
+  max_responses?: number; // Responses recorded per page (default: 50)
+  max_body_bytes?: number; // Larger response bodies are skipped (default: 5 MB)
+}
+
+/**
+ * Options shared by all interaction steps.
+ */
+interface InteractionStepBase {
+  timeout_ms?: number; // Step timeout (default: 10000)
+  optional?: boolean; // A failing optional step does not stop the remaining steps
+  description?: string; // Free-text note on what the step is for
+}
+
+/**
+ * A single step of a scraper's interaction script. Steps run in order after
+ * the page has loaded and before extraction (Playwright scraper only).
+ */
+export type InteractionStep = InteractionStepBase & (
+  | { action: 'click'; selector: string; button?: 'left' | 'right' | 'middle'; click_count?: number }
+  | { action: 'fill'; selector: string; value: string } // Replace the value of an input
+  | { action: 'press'; key: string; selector?: string } // Key (e.g., 'Enter'), on the element or the page
+  | { action: 'scroll_to_bottom'; max_scrolls?: number; delay_ms?: number } // Scroll until the page stops growing
+  | { action: 'wait_for_selector'; selector: string; state?: 'attached' | 'detached' | 'visible' | 'hidden' }
+  | { action: 'wait_for_network_idle' }
+  | { action: 'select_option'; selector: string; value: string | string[] } // Option value(s) of a <select>
+  | { action: 'hover'; selector: string }
+);
+
 /**
  * Represents the key-value pairs extracted by a scraper tool.
  * Keys are the user-defined names for the data points.
@@ -47,6 +112,28 @@ export type SelectorResult = {
   [key: string]: string | null;
 };
 
+/**
+ * Represents the records extracted by a scraper tool running in list mode
+ * (one SelectorResult per element matched by `item_selector`).
+ */
+export type SelectorResultList = SelectorResult[];
+
+/**
+ * Describes how a scraper follows a paginated listing from one target URL.
+ * Exactly one way of reaching the next page should be set; records of every
+ * page are concatenated into a single result.
+ */
+export interface PaginationConfig {
+  next_selector?: string; // Selector of the "next page" link; its href is followed
+  url_template?: string; // Page URL with a {page} placeholder, e.g. 'https://example.com/list?page={page}'
+  start_page?: number; // Page number of the target URL when using url_template (default: 1)
+  load_more_selector?: string; // Playwright only: "load more" button clicked until no more items appear
+  max_pages?: number; // Maximum number of pages (or "load more" rounds + 1) to scrape (default: 10)
+  stop_selector?: string; // Stop after a page on which this selector matches (e.g., an "end of results" marker)
+  stop_on_empty?: boolean; // Stop when a page yields no records (default: true)
+  delay_ms?: number; // Optional pause between pages
+}
+
 /**
  * Represents the specific configuration for a Scraper tool.
  * Extends the base ToolConfiguration and may add scraper-specific requirements.
@@ -55,6 +142,14 @@ export interface ScraperToolConfiguration extends ToolConfiguration {
   parameters: ToolConfiguration['parameters'] & { // Ensure base parameters + scraper specific
     selectors: { [key: string]: string }; // Map of output key to CSS selector
     attribute?: 'text' | 'innerText' | 'innerHTML' | string; // Attribute to extract (default: innerText)
+
+    // List mode: when set, each element matching item_selector yields one record and
+    // the selectors above are resolved relative to that element instead of the page.
+    item_selector?: string;
+    max_items?: number; // Optional cap on records extracted per page in list mode
+
+    // Pagination: scrape the following pages of the target URL as well
+    pagination?: PaginationConfig;
     // Add other common scraper parameters here if needed
   };
 }
@@ -75,6 +170,15 @@ export interface UniversalConfigurationPackageFormatV1 {
   antiBlocking?: ToolConfiguration[]; // Can have multiple anti-blocking techniques
   captchaSolver?: ToolConfiguration;
 
+  // Declarative transforms applied to every extracted record, in order, before results are stored
+  postProcessing?: PostProcessingTransform[];
+
+  // Crawl mode: treat the build's target URLs as seeds and scrape the pages discovered from them
+  crawl?: CrawlConfig;
+
+  // Runtime variables referenced as {{name}} in target URLs and package strings (selectors, steps, ...)
+  variables?: { [name: string]: PackageVariableDefinition };
+
   // Metadata about the expected output (optional but recommended)
   expectedOutputSchema?: {
     // Define expected fields and types, e.g., using JSON Schema object structure
@@ -83,3 +187,108 @@ export interface UniversalConfigurationPackageFormatV1 {
     required?: string[];
   };
 }
+
+/**
+ * Declares a runtime variable of a package. Values are supplied per run; a variable
+ * without a default must be supplied by every run.
+ */
+export interface PackageVariableDefinition {
+  description?: string; // What the variable stands for (e.g., 'Search query typed into the site search')
+  default?: string; // Value used when a run does not supply one
+}
+
+/**
+ * Describes how a full scrape discovers target URLs by following links from seed URLs.
+ * Discovered URLs are canonicalized and deduplicated before they are scraped.
+ */
+export interface CrawlConfig {
+  max_depth?: number; // Link hops to follow from the seeds (default: 1; 0 scrapes the seeds only)
+  include_patterns?: string[]; // Regular expressions; a discovered URL must match one of them (default: any)
+  exclude_patterns?: string[]; // Regular expressions; discovered URLs matching any of them are skipped
+  same_domain?: boolean; // Only follow links to the seeds' hosts (default: true)
+  max_urls?: number; // Cap on the number of URLs scraped, seeds included (default: 1000)
+  link_selector?: string; // Selector of the links to follow (default: 'a[href]')
+  scrape_seeds?: boolean; // Scrape the seed pages too, not only use them for discovery (default: true)
+}
+
+/**
+ * Options shared by all post-processing transforms.
+ */
+interface PostProcessingTransformBase {
+  field?: string | string[]; // Field(s) to transform (default: every field of the record)
+  target?: string; // Write the output to this field instead of overwriting the source (single field only)
+}
+
+/**
+ * A single post-processing transform. Transforms run in order on each record;
+ * array values (multi-valued fields) are transformed element by element, except for 'join'.
+ */
+export type PostProcessingTransform = PostProcessingTransformBase & (
+  | { type: 'trim'; collapse_whitespace?: boolean } // Trim, and collapse inner whitespace (default: true)
+  | { type: 'regex'; pattern: string; flags?: string; group?: number | string } // Capture group (default: 1, or the whole match)
+  | { type: 'number'; decimal_separator?: '.' | ',' } // Parse numbers like "1,234.50" or "1.234,50"
+  | { type: 'currency'; decimal_separator?: '.' | ','; currency_field?: string } // Amount, plus the detected ISO code in currency_field
+  | { type: 'date'; day_first?: boolean; date_only?: boolean } // Parse to ISO 8601 (YYYY-MM-DD with date_only)
+  | { type: 'absolute_url'; base_url?: string } // Resolve against base_url or the scraped page URL
+  | { type: 'split'; separator: string; keep_empty?: boolean } // Split into a trimmed list
+  | { type: 'join'; separator?: string } // Join a list into a string (default separator: ', ')
+);
+
+/**
+ * Output type an extracted field value is converted to (Version 2).
+ */
+export type FieldOutputType = 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * A single converted field value. Multi-valued fields hold an array of these.
+ */
+export type FieldValue = string | number | boolean | null;
+
+/**
+ * Describes how to extract one output field (Version 2).
+ */
+export interface FieldExtractionSpec {
+  selector: string | string[]; // CSS selector, or ordered fallbacks (the first selector that matches wins)
+  attribute?: 'text' | 'html' | string; // What to read: 'text' (default), 'html', or an HTML attribute name
+  property?: string; // DOM property to read instead of an attribute (e.g., 'value', 'checked')
+  multiple?: boolean; // Collect every match into an array instead of only the first match
+  type?: FieldOutputType; // Output type for the extracted value (default: 'string')
+  default?: FieldValue; // Used when nothing matches or the value cannot be converted
+  // Where the value comes from (default: 'dom'). 'network': the selector is a JSONPath over the responses recorded
+  // with capture_network (Playwright); 'structured_data': a JSONPath over the page's JSON-LD, microdata, RDFa and
+  // OpenGraph/Twitter data ({ entities, opengraph, twitter })
+  source?: 'dom' | 'network' | 'structured_data';
+}
+
+/**
+ * Scraper tool configuration using per-field extraction specs (Version 2).
+ */
+export interface ScraperToolConfigurationV2 extends ToolConfiguration {
+  parameters: ToolConfiguration['parameters'] & {
+    fields: { [outputKey: string]: FieldExtractionSpec }; // Map of output key to extraction spec
+
+    // List mode (same semantics as Version 1)
+    item_selector?: string;
+    max_items?: number;
+
+    // Pagination (same semantics as Version 1)
+    pagination?: PaginationConfig;
+  };
+}
+
+/**
+ * The Universal Configuration Package Format structure (Version 2).
+ * Identical to Version 1 except for the scraper's per-field extraction specs.
+ */
+export interface UniversalConfigurationPackageFormatV2 extends Omit<UniversalConfigurationPackageFormatV1, 'schemaVersion' | 'scraper'> {
+  schemaVersion: '2.0';
+  scraper: ScraperToolConfigurationV2;
+}
+
+/**
+ * Any supported version of the Universal Configuration Package Format.
+ * Stored 1.0 packages can be upgraded with the package upgrade service.
+ */
+export type UniversalConfigurationPackageFormat =
+  | UniversalConfigurationPackageFormatV1
+  | UniversalConfigurationPackageFormatV2;
@@ -0,0 +1,37 @@
+/**
+ * Types for expectedOutputSchema enforcement
+ *
+ * These types describe how extracted records conform to a package's
+ * expectedOutputSchema, per record and aggregated per run.
+ */
+
+/**
+ * Kinds of schema violations found in a record
+ */
+export enum OutputViolationCode {
+  REQUIRED_MISSING = 'required_missing', // A required field is null, empty or absent
+  TYPE_MISMATCH = 'type_mismatch' // A value could not be coerced to the declared type
+}
+
+/**
+ * A single schema violation in an extracted record
+ */
+export interface OutputSchemaViolation {
+  field: string;
+  code: OutputViolationCode;
+  message: string;
+  expected?: string; // Declared type
+  actual?: string; // Type of the value that failed coercion
+}
+
+/**
+ * Run-level summary of how extracted records conform to the expectedOutputSchema
+ */
+export interface OutputConformanceSummary {
+  totalRecords: number;
+  conformingRecords: number;
+  nonConformingRecords: number;
+  conformanceRate: number; // conformingRecords / totalRecords (1 when there are no records)
+  violationsByField: { [field: string]: number };
+  violationsByCode: { [code: string]: number };
+}
@@ -0,0 +1,54 @@
+/**
+ * Types for package revision history
+ *
+ * Every package generated or refined for a build is kept as an immutable,
+ * numbered revision together with what produced it and the sample results it gave.
+ */
+
+import { UniversalConfigurationPackageFormat } from './configuration-package.types.js';
+
+/**
+ * What produced a revision
+ */
+export enum PackageRevisionTrigger {
+  INITIAL_ANALYSIS = 'initial_analysis', // Generated by the LLM from the user objective
+  PROPOSAL_FEEDBACK = 'proposal_feedback', // Refined from feedback on the proposed package
+  SAMPLE_FEEDBACK = 'sample_feedback', // Refined from feedback on the sample results
+  MANUAL_EDIT = 'manual_edit', // Supplied by the user
+  IMPORT = 'import', // Imported from an exported package file
+  TEMPLATE = 'template', // Started from a saved package template
+  ROLLBACK = 'rollback' // Copy of an earlier revision restored by the user
+}
+
+/**
+ * An immutable package revision of a build
+ */
+export interface PackageRevision {
+  revision: number; // 1-based, increasing
+  trigger: PackageRevisionTrigger;
+  createdAt: string; // ISO timestamp
+  package: UniversalConfigurationPackageFormat;
+  sampleResults?: unknown; // Sample execution result of this package, once generated
+  feedback?: string; // User feedback that led to this revision
+  sourceRevision?: number; // Revision restored by a rollback
+}
+
+/**
+ * Details recorded with a new revision
+ */
+export interface PackageRevisionDetails {
+  trigger: PackageRevisionTrigger;
+  feedback?: string;
+  sourceRevision?: number;
+}
+
+/**
+ * A single difference between two packages, addressed by its dotted path
+ * (e.g., "scraper.parameters.fields.price.selector", "postProcessing[0].type")
+ */
+export interface PackageDiffEntry {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  from?: unknown; // Value in the older revision
+  to?: unknown; // Value in the newer revision
+}
@@ -0,0 +1,55 @@
+/**
+ * Types for portable packages and the package template library
+ *
+ * A confirmed build's package can be exported as a self-describing file and
+ * imported again, or saved as a named template that new builds start from,
+ * in both cases without a new LLM analysis.
+ */
+
+import { UniversalConfigurationPackageFormat } from './configuration-package.types.js';
+
+/**
+ * Format identifier and version of exported package files
+ */
+export const PACKAGE_FILE_FORMAT = 'the-brain/configuration-package';
+export const PACKAGE_FILE_FORMAT_VERSION = 1;
+
+/**
+ * An exported package file
+ */
+export interface PortablePackageFile {
+  format: typeof PACKAGE_FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: string; // ISO timestamp
+  source?: {
+    buildId?: string;
+    userObjective?: string;
+    templateId?: string;
+  };
+  package: UniversalConfigurationPackageFormat;
+}
+
+/**
+ * A saved package template
+ */
+export interface PackageTemplate {
+  id: string; // Slug derived from the name, e.g. "shopify-product-page"
+  name: string; // e.g. "Shopify product page"
+  description?: string;
+  tags: string[]; // e.g. ["shopify", "e-commerce"]
+  package: UniversalConfigurationPackageFormat;
+  sourceBuildId?: string; // Build the template was saved from
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Data for saving a new template
+ */
+export interface CreatePackageTemplateData {
+  name: string;
+  description?: string;
+  tags?: string[];
+  package: UniversalConfigurationPackageFormat;
+  sourceBuildId?: string;
+}
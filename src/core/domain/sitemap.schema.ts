@@ -0,0 +1,39 @@
+/**
+ * JSON Schema for seeding a build's target URLs from a sitemap.
+ * Shared by POST /builds and POST /scrapes.
+ */
+
+import { Static, Type } from '@sinclair/typebox';
+
+/**
+ * A sitemap to harvest target URLs from, with optional entry filters
+ */
+export const SitemapSourceSchema = Type.Object({
+  url: Type.String({
+    format: 'uri',
+    description: 'Sitemap (XML, gzipped XML or sitemap index) or robots.txt URL; robots.txt "Sitemap:" entries are followed'
+  }),
+  include_patterns: Type.Optional(Type.Array(Type.String({ minLength: 1 }), {
+    description: 'Regular expressions; an entry URL must match one of them'
+  })),
+  exclude_patterns: Type.Optional(Type.Array(Type.String({ minLength: 1 }), {
+    description: 'Regular expressions; entry URLs matching any of them are skipped'
+  })),
+  lastmod_after: Type.Optional(Type.String({
+    format: 'date-time',
+    description: 'Only keep entries modified at or after this time (entries without lastmod are kept)'
+  })),
+  lastmod_before: Type.Optional(Type.String({
+    format: 'date-time',
+    description: 'Only keep entries modified at or before this time (entries without lastmod are kept)'
+  })),
+  max_urls: Type.Optional(Type.Integer({
+    minimum: 1,
+    maximum: 50000,
+    description: 'Maximum number of URLs to take from the sitemap (default: 1000)'
+  }))
+}, {
+  description: 'Harvest target URLs from a sitemap instead of, or in addition to, target_urls'
+});
+
+export type SitemapSource = Static<typeof SitemapSourceSchema>;
@@ -30,4 +30,10 @@ export class BadRequestError extends BaseError {
     }
 }
 
+export class ConflictError extends BaseError {
+    constructor(message: string = 'Conflict') {
+        super(message, 409);
+    }
+}
+
 // Add more specific errors as needed
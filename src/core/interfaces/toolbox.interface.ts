@@ -1,4 +1,5 @@
 import { ITool } from '../../infrastructure/execution/tool.interface.js';
+import type { McpToolDefinition } from '../../infrastructure/toolbox/toolbox.service.js';
 
 /**
  * Defines the contract for the Toolbox service/registry.
@@ -13,12 +14,30 @@ export interface IToolbox {
   registerTool(tool: ITool): void;
 
   /**
-   * Retrieves a registered tool instance by its unique identifier.
+   * Removes a registered tool, e.g. when its plugin file is deleted.
+   * Optional: registries without dynamic tools don't need to support it.
+   * @param toolId - The unique ID of the tool to remove.
+   * @returns The removed tool instance, or undefined if it was not registered.
+   */
+  unregisterTool?(toolId: string): ITool | undefined;
+
+  /**
+   * Retrieves the registered (shared) tool instance by its unique identifier.
+   * Use it for metadata only; executions should use createTool.
    * @param toolId - The unique ID of the tool to retrieve.
    * @returns {Promise<ITool | undefined>} The tool instance or undefined if not found.
    */
   getTool(toolId: string): Promise<ITool | undefined>;
 
+  /**
+   * Creates an isolated instance of a registered tool for one execution.
+   * Unlike getTool, the returned instance is not shared: the caller initializes it
+   * and is responsible for calling its cleanup().
+   * @param toolId - The unique ID of the tool to create.
+   * @returns {Promise<ITool | undefined>} A new tool instance or undefined if not found.
+   */
+  createTool(toolId: string): Promise<ITool | undefined>;
+
   /**
    * Lists all registered tools, potentially filtered by type.
    * Useful for discovery endpoints (e.g., GET /tools).
@@ -26,4 +45,11 @@ export interface IToolbox {
    * @returns An array of available tool instances.
    */
   listTools(type?: string): ITool[];
+
+  /**
+   * Lists the MCP definitions (including inputSchema) of all registered tools.
+   * Optional: used for schema validation of tool parameters when available.
+   * @returns An array of MCP tool definitions.
+   */
+  listMcpTools?(): McpToolDefinition[];
 }
@@ -0,0 +1,210 @@
+/**
+ * Output Schema Service
+ *
+ * Enforces a package's expectedOutputSchema on extracted records: coerces values
+ * to the declared types, flags required fields without a value, and summarizes
+ * conformance across a run.
+ */
+
+import { UniversalConfigurationPackageFormat } from '../domain/configuration-package.types.js';
+import {
+  OutputConformanceSummary,
+  OutputSchemaViolation,
+  OutputViolationCode
+} from '../domain/output-conformance.types.js';
+import { ToolExecutionResult } from '../../infrastructure/execution/tool.interface.js';
+
+type ExpectedOutputSchema = NonNullable<UniversalConfigurationPackageFormat['expectedOutputSchema']>;
+type ExtractedRecord = Record<string, unknown>;
+
+// Sentinel returned when a value cannot be coerced to the declared type
+const COERCION_FAILED = Symbol('coercion-failed');
+
+/**
+ * Applies expectedOutputSchema to execution results
+ */
+export class OutputSchemaService {
+  /**
+   * Coerces every record of a result to the schema and attaches the violations of
+   * each record to `metadata.schemaViolations` (one list per record, in record order).
+   * Declared fields missing from a record are added as null, and values that cannot be
+   * coerced are kept as extracted. The result is not mutated.
+   *
+   * @param result - The tool execution result
+   * @param schema - The package's expectedOutputSchema
+   */
+  enforce(result: ToolExecutionResult, schema: ExpectedOutputSchema | undefined): ToolExecutionResult {
+    if (!schema?.properties || !result.data) {
+      return result;
+    }
+
+    const records = Array.isArray(result.data) ? result.data : [result.data];
+    const schemaViolations: OutputSchemaViolation[][] = [];
+    const coerced = records.map(record => {
+      const { record: output, violations } = this.enforceRecord(record, schema);
+      schemaViolations.push(violations);
+      return output;
+    });
+
+    return {
+      ...result,
+      data: Array.isArray(result.data) ? coerced : coerced[0],
+      metadata: { ...result.metadata, schemaViolations }
+    };
+  }
+
+  /**
+   * Builds the run-level conformance summary from enforced results
+   *
+   * @param results - Results previously passed through `enforce`
+   */
+  summarize(results: ToolExecutionResult[]): OutputConformanceSummary {
+    const summary = this.emptySummary();
+
+    for (const result of results) {
+      const perRecord: OutputSchemaViolation[][] = result.metadata?.schemaViolations ?? [];
+      for (const violations of perRecord) {
+        summary.totalRecords++;
+        if (violations.length === 0) {
+          summary.conformingRecords++;
+          continue;
+        }
+        summary.nonConformingRecords++;
+        for (const violation of violations) {
+          summary.violationsByField[violation.field] = (summary.violationsByField[violation.field] ?? 0) + 1;
+          summary.violationsByCode[violation.code] = (summary.violationsByCode[violation.code] ?? 0) + 1;
+        }
+      }
+    }
+
+    return this.withRate(summary);
+  }
+
+  /**
+   * Combines the summaries of several runs into one
+   */
+  mergeSummaries(summaries: OutputConformanceSummary[]): OutputConformanceSummary {
+    const merged = this.emptySummary();
+
+    for (const summary of summaries) {
+      merged.totalRecords += summary.totalRecords;
+      merged.conformingRecords += summary.conformingRecords;
+      merged.nonConformingRecords += summary.nonConformingRecords;
+      for (const [field, count] of Object.entries(summary.violationsByField)) {
+        merged.violationsByField[field] = (merged.violationsByField[field] ?? 0) + count;
+      }
+      for (const [code, count] of Object.entries(summary.violationsByCode)) {
+        merged.violationsByCode[code] = (merged.violationsByCode[code] ?? 0) + count;
+      }
+    }
+
+    return this.withRate(merged);
+  }
+
+  /**
+   * Coerces a single record and collects its violations
+   */
+  private enforceRecord(
+    record: ExtractedRecord,
+    schema: ExpectedOutputSchema
+  ): { record: ExtractedRecord; violations: OutputSchemaViolation[] } {
+    const output: ExtractedRecord = { ...record };
+    const violations: OutputSchemaViolation[] = [];
+
+    for (const [field, definition] of Object.entries(schema.properties)) {
+      const value = output[field];
+      if (value === null || value === undefined) {
+        output[field] = null;
+        continue;
+      }
+
+      const coerced = this.coerce(value, definition.type);
+      if (coerced === COERCION_FAILED) {
+        violations.push({
+          field,
+          code: OutputViolationCode.TYPE_MISMATCH,
+          message: `Value of '${field}' cannot be converted to ${definition.type}`,
+          expected: definition.type,
+          actual: Array.isArray(value) ? 'array' : typeof value
+        });
+      } else {
+        output[field] = coerced;
+      }
+    }
+
+    for (const field of schema.required ?? []) {
+      const value = output[field];
+      const alreadyFlagged = violations.some(v => v.field === field);
+      if (!alreadyFlagged && (value === null || value === undefined || value === '')) {
+        violations.push({
+          field,
+          code: OutputViolationCode.REQUIRED_MISSING,
+          message: `Required field '${field}' has no value`,
+          expected: schema.properties[field]?.type
+        });
+      }
+    }
+
+    return { record: output, violations };
+  }
+
+  /**
+   * Coerces a non-null value to a JSON Schema type. Unknown types are left as-is.
+   */
+  private coerce(value: unknown, type: string): unknown {
+    switch (type) {
+      case 'string':
+        if (typeof value === 'string') return value;
+        return typeof value === 'number' || typeof value === 'boolean' ? String(value) : COERCION_FAILED;
+      case 'number':
+      case 'integer': {
+        let numeric: number;
+        if (typeof value === 'number') {
+          numeric = value;
+        } else if (typeof value === 'string' && value.trim() !== '') {
+          numeric = Number(value.trim().replace(/,/g, ''));
+        } else {
+          return COERCION_FAILED;
+        }
+        if (Number.isNaN(numeric) || (type === 'integer' && !Number.isInteger(numeric))) {
+          return COERCION_FAILED;
+        }
+        return numeric;
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') return value;
+        const text = String(value).trim().toLowerCase();
+        if (['true', '1', 'yes', 'on'].includes(text)) return true;
+        if (['false', '0', 'no', 'off'].includes(text)) return false;
+        return COERCION_FAILED;
+      }
+      case 'array':
+        return Array.isArray(value) ? value : [value];
+      case 'object':
+        return typeof value === 'object' && !Array.isArray(value) ? value : COERCION_FAILED;
+      default:
+        return value;
+    }
+  }
+
+  private emptySummary(): OutputConformanceSummary {
+    return {
+      totalRecords: 0,
+      conformingRecords: 0,
+      nonConformingRecords: 0,
+      conformanceRate: 1,
+      violationsByField: {},
+      violationsByCode: {}
+    };
+  }
+
+  private withRate(summary: OutputConformanceSummary): OutputConformanceSummary {
+    summary.conformanceRate = summary.totalRecords === 0
+      ? 1
+      : Number((summary.conformingRecords / summary.totalRecords).toFixed(4));
+    return summary;
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const outputSchemaService = new OutputSchemaService();
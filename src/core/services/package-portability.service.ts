@@ -0,0 +1,85 @@
+/**
+ * Package Portability Service
+ *
+ * Wraps configuration packages into portable export files and reads imported
+ * files (or bare packages) back, validating and upgrading them to the current
+ * schema so they can seed a build without LLM analysis.
+ */
+
+import { BadRequestError } from '../errors/index.js';
+import { UniversalConfigurationPackageFormat, UniversalConfigurationPackageFormatV2 } from '../domain/configuration-package.types.js';
+import { PACKAGE_FILE_FORMAT, PACKAGE_FILE_FORMAT_VERSION, PortablePackageFile } from '../domain/package-template.types.js';
+import { packageUpgradeService } from './package-upgrade.service.js';
+import { packageValidationService, PackageValidationOptions } from './package-validation.service.js';
+
+// Number of validation issues quoted in an import error
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * A package read from an imported file
+ */
+export interface ImportedPackage {
+  package: UniversalConfigurationPackageFormatV2;
+  source?: PortablePackageFile['source']; // Provenance recorded in the file, if any
+}
+
+/**
+ * Exports and imports configuration packages
+ */
+export class PackagePortabilityService {
+  /**
+   * Wraps a package into an export file
+   *
+   * @param pkg - The package to export (upgraded to 2.0 if needed)
+   * @param source - Where the package comes from
+   */
+  exportPackage(pkg: UniversalConfigurationPackageFormat, source?: PortablePackageFile['source']): PortablePackageFile {
+    return {
+      format: PACKAGE_FILE_FORMAT,
+      formatVersion: PACKAGE_FILE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...(source ? { source } : {}),
+      package: packageUpgradeService.upgrade(pkg)
+    };
+  }
+
+  /**
+   * Reads an imported export file or bare package
+   *
+   * @param input - The parsed file content
+   * @param options - Tool definitions to validate tool parameters against
+   * @throws BadRequestError if the file format is unsupported or the package is invalid
+   */
+  importPackage(input: unknown, options: PackageValidationOptions = {}): ImportedPackage {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new BadRequestError('Package file must contain a JSON object');
+    }
+
+    const file = input as Partial<PortablePackageFile>;
+    const isExportFile = 'format' in file;
+    if (isExportFile) {
+      if (file.format !== PACKAGE_FILE_FORMAT) {
+        throw new BadRequestError(`Unsupported package file format '${String(file.format)}'`);
+      }
+      if (typeof file.formatVersion !== 'number' || file.formatVersion > PACKAGE_FILE_FORMAT_VERSION) {
+        throw new BadRequestError(`Unsupported package file version '${String(file.formatVersion)}'`);
+      }
+    }
+
+    const pkg: unknown = isExportFile ? file.package : input;
+    const { valid, errors } = packageValidationService.validate(pkg, options);
+    if (!valid) {
+      const issues = errors.slice(0, MAX_REPORTED_ISSUES).map(issue => `${issue.path || '/'}: ${issue.message}`);
+      const more = errors.length > MAX_REPORTED_ISSUES ? ` (and ${errors.length - MAX_REPORTED_ISSUES} more)` : '';
+      throw new BadRequestError(`Invalid configuration package: ${issues.join('; ')}${more}`);
+    }
+
+    return {
+      package: packageUpgradeService.upgrade(pkg as UniversalConfigurationPackageFormat),
+      ...(isExportFile && file.source ? { source: file.source } : {})
+    };
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const packagePortabilityService = new PackagePortabilityService();
@@ -0,0 +1,176 @@
+/**
+ * Package Revision Service
+ *
+ * Keeps the package revision history of a build in the build's metadata
+ * (under "packageRevisions") and compares revisions field by field.
+ */
+
+import { UniversalConfigurationPackageFormat } from '../domain/configuration-package.types.js';
+import { PackageDiffEntry, PackageRevision, PackageRevisionDetails } from '../domain/package-revision.types.js';
+import { packageUpgradeService } from './package-upgrade.service.js';
+
+// Key of the revision list in Build.metadata
+const REVISIONS_KEY = 'packageRevisions';
+
+/**
+ * Build metadata with a revision list
+ */
+export type BuildMetadata = Record<string, unknown>;
+
+/**
+ * Manages build package revisions and their differences
+ */
+export class PackageRevisionService {
+  /**
+   * Reads the revisions stored in build metadata, oldest first.
+   * Stored 1.0 packages are upgraded like the build's own package columns.
+   *
+   * @param metadata - The Build.metadata value (object or JSON string)
+   */
+  readRevisions(metadata: unknown): PackageRevision[] {
+    const revisions = this.toMetadata(metadata)[REVISIONS_KEY];
+    if (!Array.isArray(revisions)) {
+      return [];
+    }
+    return (revisions as PackageRevision[]).map(revision => ({
+      ...revision,
+      package: packageUpgradeService.upgradeStored(revision.package) as UniversalConfigurationPackageFormat
+    }));
+  }
+
+  /**
+   * Appends a revision to the build metadata
+   *
+   * @param metadata - The current Build.metadata value
+   * @param pkg - The package of the new revision
+   * @param details - What produced the revision
+   * @returns The new metadata and the revision that was added
+   */
+  appendRevision(
+    metadata: unknown,
+    pkg: UniversalConfigurationPackageFormat,
+    details: PackageRevisionDetails
+  ): { metadata: BuildMetadata; revision: PackageRevision } {
+    const current = this.toMetadata(metadata);
+    const revisions = this.readStoredRevisions(current);
+    const revision: PackageRevision = {
+      revision: revisions.length > 0 ? revisions[revisions.length - 1].revision + 1 : 1,
+      trigger: details.trigger,
+      createdAt: new Date().toISOString(),
+      // Deep copy, so later changes to the caller's object cannot alter the revision
+      package: JSON.parse(JSON.stringify(pkg)),
+      ...(details.feedback !== undefined ? { feedback: details.feedback } : {}),
+      ...(details.sourceRevision !== undefined ? { sourceRevision: details.sourceRevision } : {})
+    };
+
+    return { metadata: { ...current, [REVISIONS_KEY]: [...revisions, revision] }, revision };
+  }
+
+  /**
+   * Records sample results on the latest revision (the package they were generated with)
+   *
+   * @param metadata - The current Build.metadata value
+   * @param sampleResults - The sample execution result
+   * @returns The new metadata, or null if the build has no revisions
+   */
+  attachSampleResults(metadata: unknown, sampleResults: unknown): BuildMetadata | null {
+    const current = this.toMetadata(metadata);
+    const revisions = this.readStoredRevisions(current);
+    if (revisions.length === 0) {
+      return null;
+    }
+
+    const latest = { ...revisions[revisions.length - 1], sampleResults: JSON.parse(JSON.stringify(sampleResults)) };
+    return { ...current, [REVISIONS_KEY]: [...revisions.slice(0, -1), latest] };
+  }
+
+  /**
+   * Finds a revision by number
+   */
+  findRevision(revisions: PackageRevision[], revision: number): PackageRevision | undefined {
+    return revisions.find(candidate => candidate.revision === revision);
+  }
+
+  /**
+   * Compares two packages field by field. Objects are compared key by key and
+   * arrays index by index; any other difference is reported at the value's path.
+   *
+   * @param from - The older package
+   * @param to - The newer package
+   * @returns The differences, in document order
+   */
+  diff(from: unknown, to: unknown): PackageDiffEntry[] {
+    const entries: PackageDiffEntry[] = [];
+    this.collectDifferences(from, to, '', entries);
+    return entries;
+  }
+
+  private collectDifferences(from: unknown, to: unknown, path: string, entries: PackageDiffEntry[]): void {
+    if (Array.isArray(from) && Array.isArray(to)) {
+      for (let index = 0; index < Math.max(from.length, to.length); index++) {
+        this.compareMember(from, to, index, `${path}[${index}]`, entries);
+      }
+      return;
+    }
+    if (this.isObject(from) && this.isObject(to)) {
+      for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        this.compareMember(from, to, key, path ? `${path}.${key}` : key, entries);
+      }
+      return;
+    }
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      entries.push({ path: path || '$', change: 'changed', from, to });
+    }
+  }
+
+  private compareMember(
+    from: Record<string, unknown> | unknown[],
+    to: Record<string, unknown> | unknown[],
+    key: string | number,
+    path: string,
+    entries: PackageDiffEntry[]
+  ): void {
+    const inFrom = Object.prototype.hasOwnProperty.call(from, key);
+    const inTo = Object.prototype.hasOwnProperty.call(to, key);
+    const fromValue = (from as Record<string, unknown>)[key];
+    const toValue = (to as Record<string, unknown>)[key];
+
+    if (inFrom && !inTo) {
+      entries.push({ path, change: 'removed', from: fromValue });
+    } else if (!inFrom && inTo) {
+      entries.push({ path, change: 'added', to: toValue });
+    } else {
+      this.collectDifferences(fromValue, toValue, path, entries);
+    }
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Reads the stored revision list without upgrading it, for rewriting
+   */
+  private readStoredRevisions(metadata: BuildMetadata): PackageRevision[] {
+    const revisions = metadata[REVISIONS_KEY];
+    return Array.isArray(revisions) ? revisions as PackageRevision[] : [];
+  }
+
+  /**
+   * Normalizes Build.metadata, which older code paths store as a JSON string
+   */
+  private toMetadata(metadata: unknown): BuildMetadata {
+    let value = metadata;
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return {};
+      }
+    }
+    return this.isObject(value) ? value : {};
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const packageRevisionService = new PackageRevisionService();
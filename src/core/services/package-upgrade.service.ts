@@ -0,0 +1,120 @@
+/**
+ * Package Upgrade Service
+ *
+ * Converts Universal Configuration Packages from older schema versions to the
+ * current one (2.0), so consumers only need to understand a single format.
+ */
+
+import {
+  FieldExtractionSpec,
+  ScraperToolConfiguration,
+  ScraperToolConfigurationV2,
+  UniversalConfigurationPackageFormat,
+  UniversalConfigurationPackageFormatV1,
+  UniversalConfigurationPackageFormatV2
+} from '../domain/configuration-package.types.js';
+
+/**
+ * Current schema version produced by the upgrader
+ */
+export const CURRENT_PACKAGE_SCHEMA_VERSION = '2.0';
+
+/**
+ * Upgrades configuration packages between schema versions
+ */
+export class PackageUpgradeService {
+  /**
+   * Checks whether a package already uses the 2.0 schema
+   *
+   * @param pkg - The package to check
+   */
+  isV2(pkg: UniversalConfigurationPackageFormat): pkg is UniversalConfigurationPackageFormatV2 {
+    return pkg.schemaVersion === '2.0';
+  }
+
+  /**
+   * Checks whether an arbitrary stored value looks like a 1.0 package that can be upgraded
+   *
+   * @param value - Any value, typically read from a JSON column
+   */
+  isUpgradeableV1(value: unknown): value is UniversalConfigurationPackageFormatV1 {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const candidate = value as Partial<UniversalConfigurationPackageFormatV1>;
+    return candidate.schemaVersion === '1.0'
+      && typeof candidate.scraper === 'object'
+      && candidate.scraper !== null
+      && typeof candidate.scraper.parameters?.selectors === 'object';
+  }
+
+  /**
+   * Upgrades a package to the 2.0 schema. 2.0 packages are returned unchanged.
+   *
+   * @param pkg - The package to upgrade
+   * @returns A 2.0 package (a new object when an upgrade was needed)
+   */
+  upgrade(pkg: UniversalConfigurationPackageFormat): UniversalConfigurationPackageFormatV2 {
+    if (this.isV2(pkg)) {
+      return pkg;
+    }
+
+    return {
+      ...pkg,
+      schemaVersion: '2.0',
+      scraper: {
+        ...pkg.scraper,
+        parameters: this.upgradeScraperParameters(pkg.scraper.parameters)
+      }
+    };
+  }
+
+  /**
+   * Converts scraper parameters to the 2.0 shape. Each 1.0 selector becomes a
+   * field spec carrying the package-wide attribute; all other parameters are kept.
+   *
+   * @param parameters - 1.0 or 2.0 scraper parameters
+   * @returns Parameters with a `fields` map and without `selectors`/`attribute`
+   */
+  upgradeScraperParameters(
+    parameters: ScraperToolConfiguration['parameters'] | ScraperToolConfigurationV2['parameters']
+  ): ScraperToolConfigurationV2['parameters'] {
+    if (parameters.fields && typeof parameters.fields === 'object') {
+      return parameters as ScraperToolConfigurationV2['parameters'];
+    }
+
+    const { selectors, attribute, ...rest } = parameters as ScraperToolConfiguration['parameters'];
+    const fields: { [outputKey: string]: FieldExtractionSpec } = {};
+
+    for (const key of Object.keys(selectors || {})) {
+      fields[key] = attribute ? { selector: selectors[key], attribute } : { selector: selectors[key] };
+    }
+
+    return { ...rest, fields };
+  }
+
+  /**
+   * Upgrades a package as stored in a JSON column, preserving its representation:
+   * JSON strings stay strings, objects stay objects, and anything that is not a
+   * recognizable 1.0 package is returned untouched.
+   *
+   * @param stored - The raw column value (e.g., initialPackageJson or finalPackageJson)
+   */
+  upgradeStored<T>(stored: T): T {
+    if (typeof stored === 'string') {
+      try {
+        const parsed: unknown = JSON.parse(stored);
+        return this.isUpgradeableV1(parsed)
+          ? JSON.stringify(this.upgrade(parsed)) as unknown as T
+          : stored;
+      } catch {
+        return stored;
+      }
+    }
+
+    return this.isUpgradeableV1(stored) ? this.upgrade(stored) as unknown as T : stored;
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const packageUpgradeService = new PackageUpgradeService();
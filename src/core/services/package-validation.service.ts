@@ -0,0 +1,237 @@
+/**
+ * Package Validation Service
+ *
+ * Schema-driven validation of Universal Configuration Packages: checks the
+ * package structure, the version-specific scraper parameters and, when tool
+ * definitions are provided, each tool's parameters against its MCP inputSchema.
+ */
+
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+import {
+  ConfigurationPackageSchema,
+  ScraperParametersV1Schema,
+  ScraperParametersV2Schema
+} from '../domain/configuration-package.schema.js';
+import type { McpToolDefinition } from '../../infrastructure/toolbox/toolbox.service.js';
+
+/**
+ * A single validation problem, located by a JSON pointer into the package
+ */
+export interface PackageValidationIssue {
+  path: string; // e.g., '/scraper/parameters/fields/price/type'
+  message: string;
+  keyword?: string; // JSON Schema keyword that failed (e.g., 'required', 'type')
+}
+
+/**
+ * Result of validating a package
+ */
+export interface PackageValidationResult {
+  valid: boolean;
+  errors: PackageValidationIssue[];
+}
+
+/**
+ * Options for package validation
+ */
+export interface PackageValidationOptions {
+  // Definitions of the registered tools. When provided, unknown tool IDs are
+  // reported and tool parameters are checked against each tool's inputSchema.
+  toolDefinitions?: McpToolDefinition[];
+}
+
+// Tool inputs supplied at execution time rather than through package parameters
+// (the captcha solver receives the detected challenge)
+const RUNTIME_INPUT_KEYS = ['url', 'targetUrl', 'context', 'challenge'];
+
+/**
+ * Validates configuration packages against their JSON Schemas
+ */
+export class PackageValidationService {
+  private ajv = new Ajv({ allErrors: true, strict: false, verbose: true }); // verbose: expose parentSchema for union messages
+  private validatePackageStructure: ValidateFunction = this.ajv.compile(ConfigurationPackageSchema);
+  private validateScraperV1: ValidateFunction = this.ajv.compile(ScraperParametersV1Schema);
+  private validateScraperV2: ValidateFunction = this.ajv.compile(ScraperParametersV2Schema);
+  private toolValidators = new Map<string, ValidateFunction>();
+
+  /**
+   * Validates a package and returns every problem found
+   *
+   * @param pkg - The package to validate (any parsed JSON value)
+   * @param options - Optional tool definitions for parameter validation
+   */
+  validate(pkg: unknown, options: PackageValidationOptions = {}): PackageValidationResult {
+    const errors: PackageValidationIssue[] = [];
+
+    if (!this.validatePackageStructure(pkg)) {
+      errors.push(...this.toIssues(this.validatePackageStructure.errors, ''));
+    }
+
+    if (typeof pkg !== 'object' || pkg === null || Array.isArray(pkg)) {
+      return { valid: false, errors };
+    }
+
+    const candidate = pkg as Record<string, unknown>;
+    const scraper = candidate.scraper as { parameters?: unknown } | undefined;
+
+    // Version-specific scraper parameters
+    if (this.isObject(scraper?.parameters)) {
+      const validateScraper = candidate.schemaVersion === '2.0'
+        ? this.validateScraperV2
+        : candidate.schemaVersion === '1.0' ? this.validateScraperV1 : undefined;
+      if (validateScraper && !validateScraper(scraper.parameters)) {
+        errors.push(...this.toIssues(validateScraper.errors, '/scraper/parameters'));
+      }
+    }
+
+    // Tool parameters against each tool's published inputSchema
+    if (options.toolDefinitions) {
+      for (const { path, config } of this.collectToolConfigurations(candidate)) {
+        errors.push(...this.validateToolConfiguration(config, path, options.toolDefinitions));
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Formats issues as a single human-readable line (e.g., for build error messages)
+   */
+  formatIssues(issues: PackageValidationIssue[]): string {
+    return issues.map(issue => `${issue.path || '/'}: ${issue.message}`).join('; ');
+  }
+
+  /**
+   * Lists the tool configurations of a package together with their JSON pointers
+   */
+  private collectToolConfigurations(pkg: Record<string, unknown>): { path: string; config: Record<string, unknown> }[] {
+    const configs: { path: string; config: Record<string, unknown> }[] = [];
+
+    for (const key of ['scraper', 'proxy', 'captchaSolver']) {
+      const config = pkg[key];
+      if (this.isObject(config)) {
+        configs.push({ path: `/${key}`, config });
+      }
+    }
+    if (Array.isArray(pkg.antiBlocking)) {
+      pkg.antiBlocking.forEach((config, index) => {
+        if (this.isObject(config)) {
+          configs.push({ path: `/antiBlocking/${index}`, config });
+        }
+      });
+    }
+
+    return configs;
+  }
+
+  /**
+   * Validates one tool configuration against the matching tool definition
+   */
+  private validateToolConfiguration(
+    config: Record<string, unknown>,
+    path: string,
+    toolDefinitions: McpToolDefinition[]
+  ): PackageValidationIssue[] {
+    const toolId = config.tool_id;
+    if (typeof toolId !== 'string' || !toolId) {
+      return []; // Already reported by the structural check
+    }
+
+    const definition = toolDefinitions.find(def => def.name === toolId || def.id === toolId);
+    if (!definition) {
+      return [{ path: `${path}/tool_id`, message: `unknown tool '${toolId}'`, keyword: 'tool' }];
+    }
+
+    const validateParameters = this.getToolValidator(toolId, definition);
+    if (!validateParameters || !this.isObject(config.parameters) || validateParameters(config.parameters)) {
+      return [];
+    }
+    return this.toIssues(validateParameters.errors, `${path}/parameters`);
+  }
+
+  /**
+   * Compiles (and caches) the parameter validator for a tool from its inputSchema.
+   * Runtime inputs such as the target URL are not expected in package parameters.
+   */
+  private getToolValidator(toolId: string, definition: McpToolDefinition): ValidateFunction | undefined {
+    const inputSchema = definition.inputSchema;
+    if (!inputSchema || Object.keys(inputSchema).length === 0) {
+      return undefined;
+    }
+
+    let validator = this.toolValidators.get(toolId);
+    if (!validator) {
+      const schema = { ...inputSchema };
+      if (Array.isArray(schema.required)) {
+        schema.required = schema.required.filter((key: string) => !RUNTIME_INPUT_KEYS.includes(key));
+      }
+      validator = this.ajv.compile(schema);
+      this.toolValidators.set(toolId, validator);
+    }
+    return validator;
+  }
+
+  /**
+   * Converts Ajv errors to issues, resolving paths relative to the given base pointer
+   */
+  private toIssues(ajvErrors: ErrorObject[] | null | undefined, basePath: string): PackageValidationIssue[] {
+    const allErrors = ajvErrors || [];
+    // Report a failed union (anyOf) once instead of once per alternative
+    const unionPaths = new Set(allErrors.filter(e => e.keyword === 'anyOf').map(e => e.instancePath));
+    const relevantErrors = allErrors.filter(e =>
+      e.keyword === 'anyOf' || !(unionPaths.has(e.instancePath) && e.schemaPath.includes('/anyOf/'))
+    );
+
+    return relevantErrors.map(error => {
+      const missing = error.keyword === 'required' ? `/${error.params.missingProperty}` : '';
+      const extra = error.keyword === 'additionalProperties' ? `/${error.params.additionalProperty}` : '';
+      return {
+        path: `${basePath}${error.instancePath}${missing}${extra}` || '/',
+        message: this.describeError(error),
+        keyword: error.keyword
+      };
+    });
+  }
+
+  /**
+   * Builds a readable message for an Ajv error
+   */
+  private describeError(error: ErrorObject): string {
+    // The path already names the missing or unexpected property
+    if (error.keyword === 'required') {
+      return 'is required';
+    }
+    if (error.keyword === 'additionalProperties') {
+      return 'is not allowed';
+    }
+    if (error.keyword === 'enum') {
+      return `${error.message}: ${(error.params.allowedValues as unknown[]).join(', ')}`;
+    }
+    if (error.keyword === 'anyOf') {
+      const alternatives = this.describeAlternatives(error.parentSchema);
+      return alternatives ? `must be one of: ${alternatives}` : error.message || 'is invalid';
+    }
+    return error.message || 'is invalid';
+  }
+
+  /**
+   * Summarizes the alternatives of a union schema (e.g., "'1.0', '2.0'" or "string, array")
+   */
+  private describeAlternatives(parentSchema: unknown): string | undefined {
+    const alternatives = (parentSchema as { anyOf?: { const?: unknown; type?: string }[] } | undefined)?.anyOf;
+    if (!Array.isArray(alternatives)) {
+      return undefined;
+    }
+    return alternatives
+      .map(alt => alt.const !== undefined ? `'${String(alt.const)}'` : alt.type)
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const packageValidationService = new PackageValidationService();
@@ -0,0 +1,142 @@
+/**
+ * Package Variables Service
+ *
+ * Resolves the runtime variables of a parameterized package and substitutes their
+ * `{{name}}` placeholders in the package and in a run's target URLs. Values are
+ * inserted as given everywhere; a placeholder URL-encodes its value with the `url`
+ * filter: `{{search_term|url}}`.
+ */
+
+import { UniversalConfigurationPackageFormat } from '../domain/configuration-package.types.js';
+import { BadRequestError } from '../errors/index.js';
+
+/**
+ * Variable values of a run, keyed by variable name
+ */
+export type PackageVariableValues = Record<string, string>;
+
+// {{name}} or {{name|url}}, whitespace allowed inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:\|\s*([a-z]+)\s*)?\}\}/g;
+
+/**
+ * Finds and substitutes `{{name}}` placeholders
+ */
+export class PackageVariablesService {
+  /**
+   * Lists the variable names referenced by a value, in order of first use.
+   * The package's own `variables` declarations are not searched.
+   *
+   * @param value - A package, a list of URLs or any other JSON value
+   */
+  findVariables(value: unknown): string[] {
+    const names = new Set<string>();
+    this.visitStrings(this.withoutDeclarations(value), text => {
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+      }
+      return text;
+    });
+    return [...names];
+  }
+
+  /**
+   * Resolves the values of every variable used by the package or the target URLs.
+   * Supplied values win over the package's declared defaults.
+   *
+   * @param pkg - The package to run
+   * @param targetUrls - The run's target URLs, which may contain placeholders too
+   * @param supplied - Values supplied with the run
+   * @throws BadRequestError when a used variable has neither a value nor a default
+   */
+  resolve(
+    pkg: UniversalConfigurationPackageFormat,
+    targetUrls: string[],
+    supplied: PackageVariableValues = {}
+  ): PackageVariableValues {
+    const declared = pkg.variables ?? {};
+    const used = this.findVariables([pkg, targetUrls]);
+    const values: PackageVariableValues = {};
+    const missing: string[] = [];
+
+    for (const name of used) {
+      const value = Object.prototype.hasOwnProperty.call(supplied, name) ? supplied[name] : declared[name]?.default;
+      if (value === undefined) {
+        missing.push(name);
+      } else {
+        values[name] = value;
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new BadRequestError(`Missing values for package variables: ${missing.join(', ')}`);
+    }
+    return values;
+  }
+
+  /**
+   * Returns a copy of the package with every placeholder replaced. The `variables`
+   * declarations are kept so the run's package still documents its inputs.
+   *
+   * @param pkg - The package to substitute
+   * @param values - Resolved variable values (see resolve)
+   */
+  applyToPackage<T extends UniversalConfigurationPackageFormat>(pkg: T, values: PackageVariableValues): T {
+    const { variables, ...rest } = pkg;
+    const substituted = this.visitStrings(rest, text => this.substitute(text, values)) as Omit<T, 'variables'>;
+    return (variables ? { ...substituted, variables } : substituted) as T;
+  }
+
+  /**
+   * Replaces the placeholders of target URLs, encoding values like in the package
+   * (only with the `url` filter), so a variable may hold a whole base URL.
+   *
+   * @param targetUrls - The run's target URLs
+   * @param values - Resolved variable values (see resolve)
+   */
+  applyToUrls(targetUrls: string[], values: PackageVariableValues): string[] {
+    return targetUrls.map(url => this.substitute(url, values));
+  }
+
+  private substitute(text: string, values: PackageVariableValues): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, filter: string | undefined) => {
+      const value = values[name];
+      if (value === undefined) {
+        throw new BadRequestError(`Missing value for package variable '${name}'`);
+      }
+      if (filter !== undefined && filter !== 'url') {
+        throw new BadRequestError(`Unknown filter '${filter}' in placeholder ${placeholder}`);
+      }
+      return filter === 'url' ? encodeURIComponent(value) : value;
+    });
+  }
+
+  private withoutDeclarations(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.withoutDeclarations(item));
+    }
+    if (typeof value === 'object' && value !== null && 'schemaVersion' in value) {
+      const rest: Record<string, unknown> = { ...value };
+      delete rest.variables;
+      return rest;
+    }
+    return value;
+  }
+
+  private visitStrings(value: unknown, visit: (text: string) => string): unknown {
+    if (typeof value === 'string') {
+      return visit(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.visitStrings(item, visit));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.visitStrings(item, visit)])
+      );
+    }
+    return value;
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const packageVariablesService = new PackageVariablesService();
@@ -0,0 +1,287 @@
+/**
+ * Post-Processing Service
+ *
+ * Applies the declarative `postProcessing` transforms of a configuration package
+ * to the records of a tool execution result (trim, regex capture, number/currency/date
+ * parsing, absolute URL resolution, split/join).
+ */
+
+import { PostProcessingTransform } from '../domain/configuration-package.types.js';
+import { ToolExecutionResult } from '../../infrastructure/execution/tool.interface.js';
+
+type ExtractedRecord = Record<string, unknown>;
+
+// Currency symbols mapped to ISO 4217 codes (longest symbols first when matching)
+const CURRENCY_SYMBOLS: { [symbol: string]: string } = {
+  'US$': 'USD',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  'R$': 'BRL',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₽': 'RUB',
+  '₺': 'TRY',
+  '₪': 'ILS',
+  'zł': 'PLN',
+  'kr': 'SEK'
+};
+
+/**
+ * Applies post-processing transforms to extracted records
+ */
+export class PostProcessingService {
+  private regexCache = new Map<string, RegExp>();
+
+  /**
+   * Applies the transforms to every record of a result. The result is not mutated.
+   * Transform failures are recorded in `metadata.postProcessingErrors` and leave the
+   * affected value unchanged.
+   *
+   * @param result - The tool execution result
+   * @param transforms - The package's postProcessing transforms
+   * @param sourceUrl - URL the result was scraped from (base for relative URLs)
+   */
+  apply(result: ToolExecutionResult, transforms: PostProcessingTransform[] | undefined, sourceUrl?: string): ToolExecutionResult {
+    if (!transforms || transforms.length === 0 || !result.data) {
+      return result;
+    }
+
+    const errors: string[] = [];
+    const baseUrl = sourceUrl ?? result.url ?? result.metadata?.url;
+    const processRecord = (record: ExtractedRecord) => this.applyToRecord(record, transforms, baseUrl, errors);
+
+    const data = Array.isArray(result.data)
+      ? result.data.map(record => processRecord(record))
+      : processRecord(result.data);
+
+    return {
+      ...result,
+      data,
+      ...(errors.length > 0 && { metadata: { ...result.metadata, postProcessingErrors: errors } })
+    };
+  }
+
+  /**
+   * Applies all transforms, in order, to a single record
+   */
+  private applyToRecord(
+    record: ExtractedRecord,
+    transforms: PostProcessingTransform[],
+    baseUrl: string | undefined,
+    errors: string[]
+  ): ExtractedRecord {
+    const output: ExtractedRecord = { ...record };
+
+    transforms.forEach((transform, index) => {
+      const fields = transform.field === undefined
+        ? Object.keys(output)
+        : Array.isArray(transform.field) ? transform.field : [transform.field];
+
+      for (const field of fields) {
+        if (!(field in output)) {
+          continue;
+        }
+        try {
+          const source = output[field];
+          const targetField = transform.target && fields.length === 1 ? transform.target : field;
+          output[targetField] = this.applyTransform(transform, source, baseUrl);
+
+          if (transform.type === 'currency' && transform.currency_field) {
+            output[transform.currency_field] = this.mapValue(source, v =>
+              typeof v === 'string' ? this.detectCurrency(v) : null);
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          const message = `Transform #${index} (${transform.type}) failed for field '${field}': ${reason}`;
+          if (!errors.includes(message)) {
+            errors.push(message);
+          }
+        }
+      }
+    });
+
+    return output;
+  }
+
+  /**
+   * Applies a single transform to a field value
+   */
+  private applyTransform(transform: PostProcessingTransform, value: unknown, baseUrl: string | undefined): unknown {
+    switch (transform.type) {
+      case 'trim':
+        return this.mapValue(value, v => {
+          const text = String(v).trim();
+          return transform.collapse_whitespace === false ? text : text.replace(/\s+/g, ' ');
+        });
+      case 'regex': {
+        const regex = this.getRegex(transform.pattern, transform.flags);
+        return this.mapValue(value, v => {
+          const match = regex.exec(String(v));
+          regex.lastIndex = 0; // Reset state for global/sticky patterns
+          if (!match) return null;
+          if (typeof transform.group === 'string') return match.groups?.[transform.group] ?? null;
+          const group = transform.group ?? (match.length > 1 ? 1 : 0);
+          return match[group] ?? null;
+        });
+      }
+      case 'number':
+        return this.mapValue(value, v => typeof v === 'number' ? v : this.parseNumber(String(v), transform.decimal_separator));
+      case 'currency':
+        return this.mapValue(value, v => typeof v === 'number' ? v : this.parseNumber(String(v), transform.decimal_separator));
+      case 'date':
+        return this.mapValue(value, v => this.parseDate(v, transform.day_first, transform.date_only));
+      case 'absolute_url': {
+        const base = transform.base_url ?? baseUrl;
+        return this.mapValue(value, v => {
+          try {
+            return new URL(String(v), base).href;
+          } catch {
+            return v; // Leave values that cannot be resolved untouched
+          }
+        });
+      }
+      case 'split':
+        return this.mapValue(value, v => String(v)
+          .split(transform.separator)
+          .map(part => part.trim())
+          .filter(part => transform.keep_empty || part !== ''));
+      case 'join':
+        return Array.isArray(value)
+          ? value.flat().filter(v => v !== null && v !== undefined).join(transform.separator ?? ', ')
+          : value;
+      default:
+        throw new Error(`Unknown transform type '${(transform as { type: string }).type}'`);
+    }
+  }
+
+  /**
+   * Applies a function to a scalar value, or to each element of an array value.
+   * Null/undefined values pass through unchanged.
+   */
+  private mapValue(value: unknown, fn: (value: string | number | boolean) => unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(element => this.mapValue(element, fn));
+    }
+    if (value === null || value === undefined) {
+      return value;
+    }
+    return fn(value as string | number | boolean);
+  }
+
+  /**
+   * Parses a localized number such as "1,234.50", "1.234,50", "-12 %" or "€ 9,99".
+   * The decimal separator is inferred when not given. Returns null if no number is found.
+   */
+  parseNumber(text: string, decimalSeparator?: '.' | ','): number | null {
+    const match = text.replace(/[\s']/g, '').match(/-?[\d.,]*\d/);
+    if (!match) {
+      return null;
+    }
+    let numeric = match[0];
+
+    const separator = decimalSeparator ?? this.inferDecimalSeparator(numeric);
+    const thousands = separator === '.' ? ',' : '.';
+    numeric = numeric.split(thousands).join('');
+    if (separator === ',') {
+      numeric = numeric.replace(',', '.');
+    }
+
+    const parsed = Number(numeric);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Guesses the decimal separator of a numeric string: the last separator is decimal
+   * unless it is followed by exactly three digits (after a non-zero integer part)
+   * and is the only one of its kind.
+   */
+  private inferDecimalSeparator(numeric: string): '.' | ',' {
+    const lastDot = numeric.lastIndexOf('.');
+    const lastComma = numeric.lastIndexOf(',');
+    if (lastDot === -1 && lastComma === -1) {
+      return '.';
+    }
+    if (lastDot !== -1 && lastComma !== -1) {
+      return lastDot > lastComma ? '.' : ',';
+    }
+    const separator = lastDot !== -1 ? '.' : ',';
+    if (/^-?0$/.test(numeric.slice(0, numeric.indexOf(separator)))) {
+      return separator; // "0.125" is a fraction, not a thousands group
+    }
+    const occurrences = numeric.split(separator).length - 1;
+    const decimals = numeric.length - numeric.lastIndexOf(separator) - 1;
+    return occurrences === 1 && decimals !== 3 ? separator : (separator === '.' ? ',' : '.');
+  }
+
+  /**
+   * Detects the ISO 4217 code of a price string from an explicit code or a symbol
+   */
+  detectCurrency(text: string): string | null {
+    const code = text.match(/\b([A-Z]{3})\b/);
+    if (code) {
+      return code[1];
+    }
+    const symbols = Object.keys(CURRENCY_SYMBOLS).sort((a, b) => b.length - a.length);
+    const symbol = symbols.find(s => text.includes(s));
+    return symbol ? CURRENCY_SYMBOLS[symbol] : null;
+  }
+
+  /**
+   * Parses a date (numeric d/m/y or m/d/y, anything Date can parse, or a Unix timestamp)
+   * into an ISO 8601 string. Returns null when the value is not a valid date.
+   */
+  parseDate(value: string | number | boolean, dayFirst = false, dateOnly = false): string | null {
+    let date: Date;
+    const text = String(value).trim();
+
+    const numericDate = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+    if (typeof value === 'number' || /^\d{10}(\d{3})?$/.test(text)) {
+      const timestamp = Number(text);
+      date = new Date(text.length <= 10 ? timestamp * 1000 : timestamp);
+    } else if (numericDate && numericDate[1].length <= 2) {
+      const [first, second, yearText] = [Number(numericDate[1]), Number(numericDate[2]), numericDate[3]];
+      const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+      const [day, month] = dayFirst ? [first, second] : [second, first];
+      date = new Date(Date.UTC(year, month - 1, day));
+      if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null; // Reject overflowing dates such as 31/02
+      }
+    } else {
+      const parsed = Date.parse(text);
+      if (Number.isNaN(parsed)) {
+        return null;
+      }
+      date = new Date(parsed);
+      // Date.parse reads text like "March 5, 2024" as local time; keep the calendar day it names
+      if (dateOnly && !/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+      }
+    }
+
+    if (Number.isNaN(date.getTime())) {
+      return null;
+    }
+    return dateOnly ? date.toISOString().slice(0, 10) : date.toISOString();
+  }
+
+  /**
+   * Compiles (and caches) a transform's regular expression
+   */
+  private getRegex(pattern: string, flags = ''): RegExp {
+    const key = `${flags}/${pattern}`;
+    let regex = this.regexCache.get(key);
+    if (!regex) {
+      regex = new RegExp(pattern, flags);
+      this.regexCache.set(key, regex);
+    }
+    return regex;
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const postProcessingService = new PostProcessingService();
@@ -140,6 +140,7 @@ exports.Prisma.RunScalarFieldEnum = {
   targetUrls: 'targetUrls',
   status: 'status',
   resultJson: 'resultJson',
+  variables: 'variables',
   error: 'error',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -2230,6 +2230,7 @@ export namespace Prisma {
     targetUrls: number
     status: number
     resultJson: number
+    variables: number
     error: number
     createdAt: number
     updatedAt: number
@@ -2263,6 +2264,7 @@ export namespace Prisma {
     targetUrls?: true
     status?: true
     resultJson?: true
+    variables?: true
     error?: true
     createdAt?: true
     updatedAt?: true
@@ -2347,6 +2349,7 @@ export namespace Prisma {
     targetUrls: string
     status: $Enums.RunStatus
     resultJson: JsonValue | null
+    variables: JsonValue | null
     error: string | null
     createdAt: Date
     updatedAt: Date
@@ -2375,6 +2378,7 @@ export namespace Prisma {
     targetUrls?: boolean
     status?: boolean
     resultJson?: boolean
+    variables?: boolean
     error?: boolean
     createdAt?: boolean
     updatedAt?: boolean
@@ -2387,6 +2391,7 @@ export namespace Prisma {
     targetUrls?: boolean
     status?: boolean
     resultJson?: boolean
+    variables?: boolean
     error?: boolean
     createdAt?: boolean
     updatedAt?: boolean
@@ -2399,6 +2404,7 @@ export namespace Prisma {
     targetUrls?: boolean
     status?: boolean
     resultJson?: boolean
+    variables?: boolean
     error?: boolean
     createdAt?: boolean
     updatedAt?: boolean
@@ -2411,12 +2417,13 @@ export namespace Prisma {
     targetUrls?: boolean
     status?: boolean
     resultJson?: boolean
+    variables?: boolean
     error?: boolean
     createdAt?: boolean
     updatedAt?: boolean
   }
 
-  export type RunOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "buildId" | "targetUrls" | "status" | "resultJson" | "error" | "createdAt" | "updatedAt", ExtArgs["result"]["run"]>
+  export type RunOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "buildId" | "targetUrls" | "status" | "resultJson" | "variables" | "error" | "createdAt" | "updatedAt", ExtArgs["result"]["run"]>
   export type RunInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     build?: boolean | BuildDefaultArgs<ExtArgs>
   }
@@ -2438,6 +2445,7 @@ export namespace Prisma {
       targetUrls: string
       status: $Enums.RunStatus
       resultJson: Prisma.JsonValue | null
+      variables: Prisma.JsonValue | null
       error: string | null
       createdAt: Date
       updatedAt: Date
@@ -2870,6 +2878,7 @@ export namespace Prisma {
     readonly targetUrls: FieldRef<"Run", 'String'>
     readonly status: FieldRef<"Run", 'RunStatus'>
     readonly resultJson: FieldRef<"Run", 'Json'>
+    readonly variables: FieldRef<"Run", 'Json'>
     readonly error: FieldRef<"Run", 'String'>
     readonly createdAt: FieldRef<"Run", 'DateTime'>
     readonly updatedAt: FieldRef<"Run", 'DateTime'>
@@ -3327,6 +3336,7 @@ export namespace Prisma {
     targetUrls: 'targetUrls',
     status: 'status',
     resultJson: 'resultJson',
+    variables: 'variables',
     error: 'error',
     createdAt: 'createdAt',
     updatedAt: 'updatedAt'
@@ -3577,6 +3587,7 @@ export namespace Prisma {
     targetUrls?: StringFilter<"Run"> | string
     status?: EnumRunStatusFilter<"Run"> | $Enums.RunStatus
     resultJson?: JsonNullableFilter<"Run">
+    variables?: JsonNullableFilter<"Run">
     error?: StringNullableFilter<"Run"> | string | null
     createdAt?: DateTimeFilter<"Run"> | Date | string
     updatedAt?: DateTimeFilter<"Run"> | Date | string
@@ -3589,6 +3600,7 @@ export namespace Prisma {
     targetUrls?: SortOrder
     status?: SortOrder
     resultJson?: SortOrderInput | SortOrder
+    variables?: SortOrderInput | SortOrder
     error?: SortOrderInput | SortOrder
     createdAt?: SortOrder
     updatedAt?: SortOrder
@@ -3604,6 +3616,7 @@ export namespace Prisma {
     targetUrls?: StringFilter<"Run"> | string
     status?: EnumRunStatusFilter<"Run"> | $Enums.RunStatus
     resultJson?: JsonNullableFilter<"Run">
+    variables?: JsonNullableFilter<"Run">
     error?: StringNullableFilter<"Run"> | string | null
     createdAt?: DateTimeFilter<"Run"> | Date | string
     updatedAt?: DateTimeFilter<"Run"> | Date | string
@@ -3616,6 +3629,7 @@ export namespace Prisma {
     targetUrls?: SortOrder
     status?: SortOrder
     resultJson?: SortOrderInput | SortOrder
+    variables?: SortOrderInput | SortOrder
     error?: SortOrderInput | SortOrder
     createdAt?: SortOrder
     updatedAt?: SortOrder
@@ -3633,6 +3647,7 @@ export namespace Prisma {
     targetUrls?: StringWithAggregatesFilter<"Run"> | string
     status?: EnumRunStatusWithAggregatesFilter<"Run"> | $Enums.RunStatus
     resultJson?: JsonNullableWithAggregatesFilter<"Run">
+    variables?: JsonNullableWithAggregatesFilter<"Run">
     error?: StringNullableWithAggregatesFilter<"Run"> | string | null
     createdAt?: DateTimeWithAggregatesFilter<"Run"> | Date | string
     updatedAt?: DateTimeWithAggregatesFilter<"Run"> | Date | string
@@ -3766,6 +3781,7 @@ export namespace Prisma {
     targetUrls: string
     status?: $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
@@ -3778,6 +3794,7 @@ export namespace Prisma {
     targetUrls: string
     status?: $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
@@ -3788,6 +3805,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
@@ -3800,6 +3818,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
@@ -3811,6 +3830,7 @@ export namespace Prisma {
     targetUrls: string
     status?: $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
@@ -3821,6 +3841,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
@@ -3832,6 +3853,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
@@ -4066,6 +4088,7 @@ export namespace Prisma {
     targetUrls?: SortOrder
     status?: SortOrder
     resultJson?: SortOrder
+    variables?: SortOrder
     error?: SortOrder
     createdAt?: SortOrder
     updatedAt?: SortOrder
@@ -4348,6 +4371,7 @@ export namespace Prisma {
     targetUrls: string
     status?: $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
@@ -4358,6 +4382,7 @@ export namespace Prisma {
     targetUrls: string
     status?: $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
@@ -4398,6 +4423,7 @@ export namespace Prisma {
     targetUrls?: StringFilter<"Run"> | string
     status?: EnumRunStatusFilter<"Run"> | $Enums.RunStatus
     resultJson?: JsonNullableFilter<"Run">
+    variables?: JsonNullableFilter<"Run">
     error?: StringNullableFilter<"Run"> | string | null
     createdAt?: DateTimeFilter<"Run"> | Date | string
     updatedAt?: DateTimeFilter<"Run"> | Date | string
@@ -4492,6 +4518,7 @@ export namespace Prisma {
     targetUrls: string
     status?: $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
@@ -4502,6 +4529,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
@@ -4512,6 +4540,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
@@ -4522,6 +4551,7 @@ export namespace Prisma {
     targetUrls?: StringFieldUpdateOperationsInput | string
     status?: EnumRunStatusFieldUpdateOperationsInput | $Enums.RunStatus
     resultJson?: NullableJsonNullValueInput | InputJsonValue
+    variables?: NullableJsonNullValueInput | InputJsonValue
     error?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
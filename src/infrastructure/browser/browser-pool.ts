@@ -0,0 +1,336 @@
+/**
+ * Browser Pool
+ *
+ * Shares a bounded set of Chromium browsers between all Playwright executions.
+ * Callers lease an isolated browser context; when every browser is at its context
+ * limit and no more browsers may be launched, callers wait for a free slot.
+ * Crashed browsers are replaced on demand and idle browsers are closed.
+ */
+
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+
+/**
+ * Pool limits and timings
+ */
+export interface BrowserPoolOptions {
+  maxBrowsers: number; // Browsers running at the same time
+  maxContextsPerBrowser: number; // Concurrent contexts (pages being scraped) per browser
+  idleTimeoutMs: number; // Browsers without contexts for this long are closed
+  healthCheckIntervalMs: number; // How often crashed and idle browsers are looked for
+  acquireTimeoutMs: number; // How long a caller waits for a free context slot
+  launch: () => Promise<Browser>; // Starts a browser (injectable for tests)
+}
+
+/**
+ * A leased browser context. Call release() exactly when done; it closes the context.
+ */
+export interface BrowserLease {
+  context: BrowserContext;
+  release(): Promise<void>;
+}
+
+/**
+ * Counters reported by the pool
+ */
+export interface BrowserPoolStats {
+  browsers: number; // Running browsers
+  launching: number; // Browsers being started
+  activeContexts: number; // Leased contexts
+  waiting: number; // Callers waiting for a slot
+  launched: number; // Browsers started since the pool was created
+  crashed: number; // Browsers that disconnected unexpectedly
+  recycled: number; // Idle browsers closed by the health check
+}
+
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  activeContexts: number;
+  lastUsedAt: number;
+  closing: boolean; // Closed by the pool, so a disconnect is not a crash
+}
+
+interface Waiter {
+  resolve: (slot: PooledBrowser) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_OPTIONS: BrowserPoolOptions = {
+  maxBrowsers: 2,
+  maxContextsPerBrowser: 4,
+  idleTimeoutMs: 60000,
+  healthCheckIntervalMs: 15000,
+  acquireTimeoutMs: 120000,
+  launch: () => chromium.launch({ headless: true })
+};
+
+/**
+ * Pool of Chromium browsers with bounded concurrency
+ */
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions;
+  private browsers: PooledBrowser[] = [];
+  private waiters: Waiter[] = [];
+  private launching = 0;
+  private nextId = 1;
+  private closed = false;
+  private healthCheckTimer?: NodeJS.Timeout;
+  private counters = { launched: 0, crashed: 0, recycled: 0 };
+
+  constructor(options: Partial<BrowserPoolOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Leases a new browser context, waiting for a free slot if the pool is saturated
+   * @param contextOptions - Options of the new context (user agent, proxy, viewport, ...)
+   * @throws Error when no slot frees up within acquireTimeoutMs or the pool is closed
+   */
+  async acquireContext(contextOptions?: BrowserContextOptions): Promise<BrowserLease> {
+    const slot = await this.reserveSlot();
+
+    let context: BrowserContext;
+    try {
+      context = await slot.browser.newContext(contextOptions);
+    } catch (error) {
+      this.releaseSlot(slot);
+      throw error;
+    }
+
+    let released = false;
+    return {
+      context,
+      release: async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        try {
+          await context.close();
+        } catch {
+          // The browser may have crashed; the slot is freed either way
+        }
+        this.releaseSlot(slot);
+      }
+    };
+  }
+
+  /**
+   * Runs a function with a leased context and always releases it
+   */
+  async withContext<T>(fn: (context: BrowserContext) => Promise<T>, contextOptions?: BrowserContextOptions): Promise<T> {
+    const lease = await this.acquireContext(contextOptions);
+    try {
+      return await fn(lease.context);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  /**
+   * Returns how many contexts can be leased at the same time
+   */
+  getCapacity(): number {
+    return this.options.maxBrowsers * this.options.maxContextsPerBrowser;
+  }
+
+  /**
+   * Returns the current pool counters
+   */
+  getStats(): BrowserPoolStats {
+    return {
+      browsers: this.browsers.length,
+      launching: this.launching,
+      activeContexts: this.browsers.reduce((sum, pooled) => sum + pooled.activeContexts, 0),
+      waiting: this.waiters.length,
+      ...this.counters
+    };
+  }
+
+  /**
+   * Removes crashed browsers and closes browsers idle for longer than idleTimeoutMs.
+   * Runs periodically while the pool has browsers.
+   */
+  async runHealthCheck(): Promise<void> {
+    const now = Date.now();
+    for (const pooled of [...this.browsers]) {
+      if (!pooled.browser.isConnected()) {
+        this.discard(pooled, true);
+      } else if (pooled.activeContexts === 0 && now - pooled.lastUsedAt >= this.options.idleTimeoutMs) {
+        console.log(`[BrowserPool] Closing browser ${pooled.id} after ${now - pooled.lastUsedAt}ms idle.`);
+        this.counters.recycled++;
+        await this.closeBrowser(pooled);
+      }
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Closes every browser and rejects waiting callers. The pool cannot be used afterwards.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.stopHealthCheck();
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is closed'));
+    }
+    await Promise.all([...this.browsers].map(pooled => this.closeBrowser(pooled)));
+  }
+
+  private async reserveSlot(): Promise<PooledBrowser> {
+    if (this.closed) {
+      throw new Error('Browser pool is closed');
+    }
+
+    const available = this.findAvailable();
+    if (available) {
+      available.activeContexts++;
+      return available;
+    }
+
+    if (this.canLaunch()) {
+      const pooled = await this.launchBrowser();
+      pooled.activeContexts++;
+      this.dispatch(); // The new browser may have room for callers that queued meanwhile
+      return pooled;
+    }
+
+    return new Promise<PooledBrowser>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error(`Timed out after ${this.options.acquireTimeoutMs}ms waiting for a browser context`));
+        }, this.options.acquireTimeoutMs)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private releaseSlot(slot: PooledBrowser): void {
+    slot.activeContexts = Math.max(0, slot.activeContexts - 1);
+    slot.lastUsedAt = Date.now();
+    this.dispatch();
+  }
+
+  /**
+   * Hands free slots to waiting callers, launching browsers when allowed
+   */
+  private dispatch(): void {
+    while (this.waiters.length > 0) {
+      const available = this.findAvailable();
+      if (!available) {
+        break;
+      }
+      const waiter = this.waiters.shift() as Waiter;
+      clearTimeout(waiter.timer);
+      available.activeContexts++;
+      waiter.resolve(available);
+    }
+
+    if (this.waiters.length > 0 && this.canLaunch()) {
+      this.launchBrowser()
+        .then(() => this.dispatch())
+        .catch(error => {
+          // Fail the longest-waiting caller instead of letting it wait for the timeout
+          const waiter = this.waiters.shift();
+          if (waiter) {
+            clearTimeout(waiter.timer);
+            waiter.reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+    }
+  }
+
+  private findAvailable(): PooledBrowser | undefined {
+    return this.browsers
+      .filter(pooled => !pooled.closing && pooled.browser.isConnected() && pooled.activeContexts < this.options.maxContextsPerBrowser)
+      .sort((a, b) => a.activeContexts - b.activeContexts)[0];
+  }
+
+  private canLaunch(): boolean {
+    return !this.closed && this.browsers.length + this.launching < this.options.maxBrowsers;
+  }
+
+  private async launchBrowser(): Promise<PooledBrowser> {
+    this.launching++;
+    let browser: Browser;
+    try {
+      browser = await this.options.launch();
+    } finally {
+      this.launching--;
+    }
+
+    const pooled: PooledBrowser = { id: this.nextId++, browser, activeContexts: 0, lastUsedAt: Date.now(), closing: false };
+    browser.on('disconnected', () => {
+      if (!pooled.closing) {
+        this.discard(pooled, true);
+      }
+    });
+    this.browsers.push(pooled);
+    this.counters.launched++;
+    this.startHealthCheck();
+    console.log(`[BrowserPool] Launched browser ${pooled.id} (${this.browsers.length}/${this.options.maxBrowsers}).`);
+    return pooled;
+  }
+
+  /**
+   * Removes a browser from the pool; a replacement is launched on demand
+   */
+  private discard(pooled: PooledBrowser, crashed: boolean): void {
+    if (!this.browsers.includes(pooled)) {
+      return;
+    }
+    this.browsers = this.browsers.filter(b => b !== pooled);
+    if (crashed) {
+      this.counters.crashed++;
+      console.warn(`[BrowserPool] Browser ${pooled.id} disconnected with ${pooled.activeContexts} active contexts. It will be replaced on demand.`);
+    }
+    if (this.browsers.length === 0) {
+      this.stopHealthCheck();
+    }
+    this.dispatch();
+  }
+
+  private async closeBrowser(pooled: PooledBrowser): Promise<void> {
+    pooled.closing = true;
+    this.discard(pooled, false);
+    try {
+      await pooled.browser.close();
+    } catch (error) {
+      console.error(`[BrowserPool] Error closing browser ${pooled.id}:`, error);
+    }
+  }
+
+  private startHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      return;
+    }
+    this.healthCheckTimer = setInterval(() => {
+      this.runHealthCheck().catch(error => console.error('[BrowserPool] Health check failed:', error));
+    }, this.options.healthCheckIntervalMs);
+    this.healthCheckTimer.unref(); // Never keep the process alive for the pool alone
+  }
+
+  private stopHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Export a singleton instance for use throughout the application
+export const browserPool = new BrowserPool({
+  maxBrowsers: readPositiveInt('PLAYWRIGHT_MAX_BROWSERS', DEFAULT_OPTIONS.maxBrowsers),
+  maxContextsPerBrowser: readPositiveInt('PLAYWRIGHT_MAX_CONTEXTS_PER_BROWSER', DEFAULT_OPTIONS.maxContextsPerBrowser),
+  idleTimeoutMs: readPositiveInt('PLAYWRIGHT_BROWSER_IDLE_MS', DEFAULT_OPTIONS.idleTimeoutMs)
+});
@@ -0,0 +1,153 @@
+/**
+ * Captcha Detection
+ *
+ * Heuristics shared by the scrapers to recognize challenge pages in fetched or rendered
+ * HTML, and the common flow of handing a detected challenge to the configured solver.
+ */
+
+import { CaptchaChallenge, CaptchaKind, CaptchaReport, CaptchaSolution } from './captcha.types.js';
+import { ExecutionContext } from '../execution/execution-context.js';
+
+interface MarkerRule {
+  kind: CaptchaKind;
+  pattern: RegExp;
+}
+
+// Iframes served by challenge vendors
+const IFRAME_RULES: MarkerRule[] = [
+  { kind: 'recaptcha', pattern: /(?:google\.com|recaptcha\.net)\/recaptcha\// },
+  { kind: 'hcaptcha', pattern: /hcaptcha\.com\// },
+  { kind: 'turnstile', pattern: /challenges\.cloudflare\.com\// },
+  { kind: 'datadome', pattern: /captcha-delivery\.com\// },
+  { kind: 'arkose', pattern: /(?:arkoselabs|funcaptcha)\.com\// },
+  { kind: 'geetest', pattern: /geetest\.com\// }
+];
+
+// Markup of interstitial block pages, which never carry the requested content
+const INTERSTITIAL_RULES: MarkerRule[] = [
+  { kind: 'cloudflare_challenge', pattern: /_cf_chl_opt|cf-browser-verification|cf_chl_prog|<title>\s*Just a moment\.\.\.\s*<\/title>|Attention Required! \| Cloudflare/i },
+  { kind: 'datadome', pattern: /geo\.captcha-delivery\.com|dd_captcha/i },
+  { kind: 'perimeterx', pattern: /id=["']px-captcha["']|_pxCaptcha/i }
+];
+
+// Embedded widgets: only a challenge when the response itself was blocked
+const WIDGET_RULES: MarkerRule[] = [
+  { kind: 'recaptcha', pattern: /class=["'][^"']*\bg-recaptcha\b/i },
+  { kind: 'hcaptcha', pattern: /class=["'][^"']*\bh-captcha\b/i },
+  { kind: 'turnstile', pattern: /class=["'][^"']*\bcf-turnstile\b/i }
+];
+
+const BLOCKED_STATUSES = [403, 429, 503];
+const CHALLENGE_TEXT = /captcha|verify (?:that )?you are (?:a )?human|are you a robot|unusual traffic|security check|checking your browser/i;
+// Challenge wording of a page shown with a success status; unlike CHALLENGE_TEXT not 'captcha' alone ("protected by reCAPTCHA")
+const CHALLENGE_PROMPT = /verify (?:that )?you are (?:a )?human|are you a robot|unusual traffic|security check|checking your browser|solve the (?:captcha|challenge)/i;
+
+/**
+ * Looks for a captcha or bot challenge in a page
+ * @param html - The fetched or rendered HTML
+ * @param pageUrl - URL of the page
+ * @param statusCode - HTTP status of the response, when known
+ * @returns The challenge, or null when the page looks like regular content
+ */
+export function detectCaptcha(html: string, pageUrl: string, statusCode?: number): CaptchaChallenge | null {
+  const siteKey = extractSiteKey(html);
+  const challenge = (kind: CaptchaKind, signal: CaptchaChallenge['signal'], evidence: string): CaptchaChallenge => ({
+    kind,
+    signal,
+    pageUrl,
+    ...(siteKey ? { siteKey } : {}),
+    ...(statusCode !== undefined ? { statusCode } : {}),
+    evidence: evidence.slice(0, 200)
+  });
+
+  const blocked = statusCode !== undefined && BLOCKED_STATUSES.includes(statusCode);
+  const interstitial = INTERSTITIAL_RULES.map(rule => ({ rule, match: html.match(rule.pattern) })).find(({ match }) => match);
+
+  // Like widgets, vendor iframes are also embedded in regular pages (contact forms, the
+  // reCAPTCHA v3 badge): they only count on a blocked or challenge page
+  if (blocked || interstitial || CHALLENGE_PROMPT.test(visibleText(html))) {
+    for (const match of html.matchAll(/<iframe\b[^>]*\bsrc=["']([^"']+)["']/gi)) {
+      const rule = IFRAME_RULES.find(candidate => candidate.pattern.test(match[1]));
+      if (rule) {
+        return challenge(rule.kind, 'challenge_iframe', match[1]);
+      }
+    }
+  }
+
+  if (interstitial) {
+    return challenge(interstitial.rule.kind, 'interstitial_marker', (interstitial.match as RegExpMatchArray)[0]);
+  }
+
+  if (blocked) {
+    const widget = WIDGET_RULES.find(rule => rule.pattern.test(html));
+    const text = html.match(CHALLENGE_TEXT);
+    if (widget || text) {
+      return challenge(widget?.kind ?? 'unknown', 'blocked_status', widget ? (html.match(widget.pattern) as RegExpMatchArray)[0] : (text as RegExpMatchArray)[0]);
+    }
+  }
+
+  return null;
+}
+
+// Text of the page without markup, scripts and styles
+function visibleText(html: string): string {
+  return html.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]*>/g, ' ');
+}
+
+/**
+ * Thrown by a scraper when a page stays behind a challenge
+ */
+export class CaptchaBlockedError extends Error {
+  constructor(public readonly report: CaptchaReport) {
+    super(`Blocked by a ${report.kind} captcha on ${report.pageUrl}${report.error ? ` (${report.error})` : ''}`);
+    this.name = 'CaptchaBlockedError';
+  }
+}
+
+/**
+ * Hands a detected challenge to the solver of the execution context and lets the scraper
+ * apply the solution
+ * @param challenge - The detected challenge
+ * @param context - Execution context; without a solver the page stays blocked
+ * @param applySolution - Applies the solution (submits the token, retries with the cookies)
+ *                        and returns the challenge still shown afterwards, or null
+ * @returns The report of a cleared challenge
+ * @throws CaptchaBlockedError when there is no solver, it fails, or the challenge remains
+ */
+export async function resolveCaptcha(
+  challenge: CaptchaChallenge,
+  context: ExecutionContext | undefined,
+  applySolution: (solution: CaptchaSolution) => Promise<CaptchaChallenge | null>
+): Promise<CaptchaReport> {
+  const report: CaptchaReport = {
+    kind: challenge.kind,
+    signal: challenge.signal,
+    pageUrl: challenge.pageUrl,
+    ...(challenge.siteKey ? { siteKey: challenge.siteKey } : {}),
+    solverInvoked: false,
+    solved: false
+  };
+
+  if (!context?.solveCaptcha) {
+    throw new CaptchaBlockedError({ ...report, error: 'no captcha solver configured' });
+  }
+
+  report.solverInvoked = true;
+  try {
+    const solution = await context.solveCaptcha(challenge);
+    const remaining = await applySolution(solution);
+    if (remaining) {
+      throw new Error(`the ${remaining.kind} challenge remained after applying the solution`);
+    }
+  } catch (error) {
+    throw new CaptchaBlockedError({ ...report, error: error instanceof Error ? error.message : String(error) });
+  }
+
+  report.solved = true;
+  return report;
+}
+
+function extractSiteKey(html: string): string | undefined {
+  return html.match(/data-sitekey=["']([^"']+)["']/i)?.[1]
+    ?? html.match(/<iframe\b[^>]*\bsrc=["'][^"']*[?&](?:k|sitekey)=([^&"']+)/i)?.[1];
+}
@@ -0,0 +1,36 @@
+/**
+ * Captcha Provider Registry
+ *
+ * Solving services available to the captcha solver tool, by name. Integrations with
+ * commercial services register here; the mock provider is always available.
+ */
+
+import { ICaptchaSolverProvider } from './captcha.types.js';
+import { MockCaptchaProvider } from './mock-captcha.provider.js';
+
+export class CaptchaProviderRegistry {
+  private providers = new Map<string, ICaptchaSolverProvider>();
+
+  register(provider: ICaptchaSolverProvider): void {
+    if (this.providers.has(provider.name)) {
+      console.warn(`[CaptchaProviderRegistry] Replacing captcha provider '${provider.name}'.`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  get(name: string): ICaptchaSolverProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  listNames(): string[] {
+    return [...this.providers.keys()];
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const captchaProviderRegistry = new CaptchaProviderRegistry();
+captchaProviderRegistry.register(new MockCaptchaProvider());
@@ -0,0 +1,71 @@
+/**
+ * Types shared by captcha detection, the captcha solver tool and its providers
+ */
+
+import { ExecutionCookie } from '../execution/execution-context.js';
+
+/**
+ * Known challenge vendors; 'unknown' is a blocked page with a generic challenge text
+ */
+export type CaptchaKind =
+  | 'recaptcha'
+  | 'hcaptcha'
+  | 'turnstile'
+  | 'cloudflare_challenge'
+  | 'datadome'
+  | 'perimeterx'
+  | 'arkose'
+  | 'geetest'
+  | 'unknown';
+
+/**
+ * What gave the challenge away
+ * - challenge_iframe: an iframe served by a challenge vendor on a blocked or challenge page
+ * - interstitial_marker: markup of a vendor's interstitial (block) page
+ * - blocked_status: a 403/429/503 response whose body asks to prove being human
+ */
+export type CaptchaSignal = 'challenge_iframe' | 'interstitial_marker' | 'blocked_status';
+
+/**
+ * A detected challenge, handed to the solver
+ */
+export interface CaptchaChallenge {
+  kind: CaptchaKind;
+  signal: CaptchaSignal;
+  pageUrl: string;
+  siteKey?: string; // data-sitekey / k parameter, needed by most solving services
+  statusCode?: number;
+  evidence: string; // The matched marker, for debugging false positives
+}
+
+/**
+ * What a solver returns: a response token to submit in the page, and/or clearance
+ * cookies (with the user agent they are bound to) to retry the request with
+ */
+export interface CaptchaSolution {
+  token?: string;
+  cookies?: ExecutionCookie[];
+  userAgent?: string;
+}
+
+/**
+ * Outcome of a detected challenge, reported in the result metadata under `captcha`
+ */
+export interface CaptchaReport {
+  kind: CaptchaKind;
+  signal: CaptchaSignal;
+  pageUrl: string;
+  siteKey?: string;
+  solverInvoked: boolean;
+  solved: boolean; // The page no longer showed a challenge after applying the solution
+  error?: string;
+}
+
+/**
+ * A captcha solving service. The captcha solver tool picks one by name and passes it
+ * the provider options of the package.
+ */
+export interface ICaptchaSolverProvider {
+  readonly name: string;
+  solve(challenge: CaptchaChallenge, options: Record<string, unknown>): Promise<CaptchaSolution>;
+}
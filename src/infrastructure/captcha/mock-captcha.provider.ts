@@ -0,0 +1,33 @@
+/**
+ * Mock Captcha Provider
+ *
+ * Solves every challenge locally without a solving service, so the detection and
+ * solving flow can be exercised offline. Options:
+ * - outcome: 'solve' (default) or 'fail'
+ * - token: token to return (default: mock-<kind>-token)
+ * - cookies: clearance cookies to return, e.g. [{ name: 'cf_clearance', value: 'ok' }]
+ * - delay_ms: simulated solving time (default 0)
+ */
+
+import { CaptchaChallenge, CaptchaSolution, ICaptchaSolverProvider } from './captcha.types.js';
+import { ExecutionCookie } from '../execution/execution-context.js';
+
+export class MockCaptchaProvider implements ICaptchaSolverProvider {
+  readonly name = 'mock';
+
+  async solve(challenge: CaptchaChallenge, options: Record<string, unknown>): Promise<CaptchaSolution> {
+    const delayMs = typeof options.delay_ms === 'number' ? options.delay_ms : 0;
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    if (options.outcome === 'fail') {
+      throw new Error(`Mock provider could not solve the ${challenge.kind} challenge`);
+    }
+
+    return {
+      token: typeof options.token === 'string' ? options.token : `mock-${challenge.kind}-token`,
+      ...(Array.isArray(options.cookies) ? { cookies: options.cookies as ExecutionCookie[] } : {})
+    };
+  }
+}
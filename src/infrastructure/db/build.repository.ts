@@ -1,7 +1,10 @@
-import { PrismaClient, Build, BuildStatus } from '../../generated/prisma/index.js';
-import { UniversalConfigurationPackageFormatV1 } from '../../core/domain/configuration-package.types.js';
+import { PrismaClient, Prisma, Build, BuildStatus } from '../../generated/prisma/index.js';
+import { UniversalConfigurationPackageFormat } from '../../core/domain/configuration-package.types.js';
 import { ExecutionResult } from '../execution/execution.service.js'; // Assuming this path
 import { ErrorDetails } from '../../core/domain/error-reporting.types.js'; // Import error reporting types
+import { packageUpgradeService } from '../../core/services/package-upgrade.service.js';
+import { packageRevisionService } from '../../core/services/package-revision.service.js';
+import { PackageRevision, PackageRevisionDetails, PackageRevisionTrigger } from '../../core/domain/package-revision.types.js';
 
 // Interface for data required to create a build
 export interface CreateBuildData {
@@ -16,10 +19,12 @@ export interface IBuildRepository {
   findBuildById(id: string): Promise<(Build & { targetUrlsList?: string[] }) | null>; // Add deserialized URLs
   updateBuildStatus(id: string, status: BuildStatus, error?: string): Promise<Build | null>;
   updateBuildError(id: string, errorDetails: ErrorDetails): Promise<Build | null>; // Add structured error details
-  updateTempPackage(id: string, pkg: UniversalConfigurationPackageFormatV1): Promise<Build | null>;
-  updateSampleResults(id: string, results: ExecutionResult): Promise<Build | null>;
-  updateFinalConfiguration(id: string, pkg: UniversalConfigurationPackageFormatV1): Promise<Build | null>;
+  updateTempPackage(id: string, pkg: UniversalConfigurationPackageFormat, revision?: PackageRevisionDetails): Promise<Build | null>;
+  updateSampleResults(id: string, results: ExecutionResult, recordOnRevision?: boolean): Promise<Build | null>;
+  updateFinalConfiguration(id: string, pkg: UniversalConfigurationPackageFormat): Promise<Build | null>;
   updateUserFeedback(id: string, feedback: string): Promise<Build | null>;
+  rollbackToRevision(id: string, revision: PackageRevision): Promise<{ build: Build; revision: PackageRevision } | null>;
+  replacePackage(id: string, pkg: UniversalConfigurationPackageFormat): Promise<{ build: Build; revision: PackageRevision } | null>;
 }
 
 export class BuildRepository implements IBuildRepository {
@@ -63,7 +68,13 @@ export class BuildRepository implements IBuildRepository {
           // Handle cases where parsing fails (e.g., corrupted data)
           targetUrlsList = undefined;
         }
-        return { ...build, targetUrlsList };
+        // Upgrade stored 1.0 packages so callers always receive the current schema
+        return {
+          ...build,
+          initialPackageJson: packageUpgradeService.upgradeStored(build.initialPackageJson),
+          finalPackageJson: packageUpgradeService.upgradeStored(build.finalPackageJson),
+          targetUrlsList
+        };
       }
       return null;
     } catch (error) {
@@ -133,14 +144,30 @@ export class BuildRepository implements IBuildRepository {
     }
   }
 
-  async updateTempPackage(id: string, pkg: UniversalConfigurationPackageFormatV1): Promise<Build | null> {
+  /**
+   * Replaces the build's working package
+   *
+   * @param id - Build ID
+   * @param pkg - The new package
+   * @param revision - When given, the package is also recorded as a new revision
+   * @returns The updated Build or null if update fails
+   */
+  async updateTempPackage(id: string, pkg: UniversalConfigurationPackageFormat, revision?: PackageRevisionDetails): Promise<Build | null> {
     try {
       // Convert to plain object if needed
       const packageObject: Record<string, any> = { ...pkg };
-      
+      const data: Prisma.BuildUpdateInput = { initialPackageJson: packageObject }; // Use initialPackageJson from the schema
+
+      if (revision) {
+        return await this.updateWithMetadata(id, metadata => ({
+          ...data,
+          metadata: packageRevisionService.appendRevision(metadata, pkg, revision).metadata as Prisma.InputJsonObject
+        }));
+      }
+
       const build = await this.prisma.build.update({
         where: { id },
-        data: { initialPackageJson: packageObject }, // Use initialPackageJson from the schema
+        data,
       });
       return build;
     } catch (error) {
@@ -149,12 +176,29 @@ export class BuildRepository implements IBuildRepository {
     }
   }
 
-  async updateSampleResults(id: string, results: ExecutionResult): Promise<Build | null> {
+  /**
+   * Stores the sample (or full execution) results of a build
+   *
+   * @param id - Build ID
+   * @param results - The execution result
+   * @param recordOnRevision - Also record the results on the latest package revision (false for full executions)
+   * @returns The updated Build or null if update fails
+   */
+  async updateSampleResults(id: string, results: ExecutionResult, recordOnRevision: boolean = true): Promise<Build | null> {
     try {
       const resultsJson = JSON.stringify(results);
+      const data: Prisma.BuildUpdateInput = { sampleResultsJson: resultsJson };
+
+      if (recordOnRevision) {
+        return await this.updateWithMetadata(id, current => {
+          const metadata = packageRevisionService.attachSampleResults(current, results);
+          return metadata ? { ...data, metadata: metadata as Prisma.InputJsonObject } : data;
+        });
+      }
+
       const build = await this.prisma.build.update({
         where: { id },
-        data: { sampleResultsJson: resultsJson },
+        data,
       });
       return build;
     } catch (error) {
@@ -163,7 +207,7 @@ export class BuildRepository implements IBuildRepository {
     }
   }
 
-   async updateFinalConfiguration(id: string, pkg: UniversalConfigurationPackageFormatV1): Promise<Build | null> {
+   async updateFinalConfiguration(id: string, pkg: UniversalConfigurationPackageFormat): Promise<Build | null> {
     try {
       // Convert to plain object if needed
       const packageObject: Record<string, any> = { ...pkg };
@@ -198,6 +242,97 @@ export class BuildRepository implements IBuildRepository {
       return null;
     }
   }
+
+  /**
+   * Restores an earlier package revision. The restored package is recorded as a new
+   * revision (history stays immutable) and becomes the working package together with
+   * its sample results; the build goes back to awaiting user feedback. A revision
+   * without sample results sends the build back to sample generation instead.
+   *
+   * @param id - Build ID
+   * @param revision - The revision to restore
+   * @returns The updated Build and the new revision, or null if the update fails
+   */
+  async rollbackToRevision(id: string, revision: PackageRevision): Promise<{ build: Build; revision: PackageRevision } | null> {
+    try {
+      const hasSamples = revision.sampleResults !== undefined;
+      let appended: PackageRevision | undefined;
+
+      const build = await this.updateWithMetadata(id, current => {
+        const result = packageRevisionService.appendRevision(current, revision.package, {
+          trigger: PackageRevisionTrigger.ROLLBACK,
+          sourceRevision: revision.revision
+        });
+        appended = result.revision;
+        const metadata = hasSamples
+          ? packageRevisionService.attachSampleResults(result.metadata, revision.sampleResults) ?? result.metadata
+          : result.metadata;
+        return {
+          initialPackageJson: revision.package as unknown as Prisma.InputJsonObject,
+          sampleResultsJson: hasSamples ? JSON.stringify(revision.sampleResults) : Prisma.DbNull,
+          finalPackageJson: Prisma.DbNull, // Must be confirmed again
+          metadata: metadata as Prisma.InputJsonObject,
+          status: hasSamples ? BuildStatus.PENDING_USER_FEEDBACK : BuildStatus.GENERATING_SAMPLES,
+          error: null
+        };
+      });
+      return { build, revision: appended! };
+    } catch (error) {
+      console.error(`Error rolling back build ${id} to revision ${revision.revision}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Replaces the working package with a hand-edited one, recorded as a manual_edit
+   * revision. The sample results of the previous package are dropped and the build
+   * goes back to sample generation; it must be confirmed again.
+   *
+   * @param id - Build ID
+   * @param pkg - The edited package
+   * @returns The updated Build and the new revision, or null if the update fails
+   */
+  async replacePackage(id: string, pkg: UniversalConfigurationPackageFormat): Promise<{ build: Build; revision: PackageRevision } | null> {
+    try {
+      let appended: PackageRevision | undefined;
+
+      const build = await this.updateWithMetadata(id, current => {
+        const result = packageRevisionService.appendRevision(current, pkg, { trigger: PackageRevisionTrigger.MANUAL_EDIT });
+        appended = result.revision;
+        return {
+          initialPackageJson: pkg as unknown as Prisma.InputJsonObject,
+          sampleResultsJson: Prisma.DbNull,
+          finalPackageJson: Prisma.DbNull, // Must be confirmed again
+          metadata: result.metadata as Prisma.InputJsonObject,
+          status: BuildStatus.GENERATING_SAMPLES,
+          error: null
+        };
+      });
+      return { build, revision: appended! };
+    } catch (error) {
+      console.error(`Error replacing the package of build ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Updates a build from its current metadata (where the package revisions live) in one
+   * transaction. The build row stays locked until the update is written, so concurrent
+   * revision appends cannot overwrite each other.
+   *
+   * @param id - Build ID
+   * @param buildData - Builds the update from the current metadata
+   */
+  private async updateWithMetadata(
+    id: string,
+    buildData: (metadata: Prisma.JsonValue | undefined) => Prisma.BuildUpdateInput
+  ): Promise<Build> {
+    return this.prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM "Build" WHERE id = ${id} FOR UPDATE`;
+      const current = await tx.build.findUnique({ where: { id }, select: { metadata: true } });
+      return tx.build.update({ where: { id }, data: buildData(current?.metadata) });
+    });
+  }
 }
 
 // Potential: Export a singleton instance if not using DI
@@ -2,7 +2,8 @@ import { PrismaClient, Run, RunStatus } from '../../generated/prisma/index.js';
 
 export interface CreateRunData {
   buildId: string;
-  targetUrls: string[];
+  targetUrls: string[]; // With package variables already substituted
+  variables?: Record<string, string>; // Package variable values the run is executed with
 }
 
 export interface IRunRepository {
@@ -20,7 +21,8 @@ export class RunRepository implements IRunRepository {
         data: {
           buildId: data.buildId,
           targetUrls: JSON.stringify(data.targetUrls),
-          status: RunStatus.PENDING
+          status: RunStatus.PENDING,
+          ...(data.variables && Object.keys(data.variables).length > 0 ? { variables: data.variables } : {})
         }
       });
       return run;
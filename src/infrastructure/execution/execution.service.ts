@@ -1,9 +1,14 @@
-import { UniversalConfigurationPackageFormatV1 } from '../../core/domain/configuration-package.types.js';
-import { ITool, IScraperTool, IAuxiliaryTool, ToolExecutionResult, IProxyManagerTool, IAntiBlockingTool } from './tool.interface.js';
+import { UniversalConfigurationPackageFormat } from '../../core/domain/configuration-package.types.js';
+import { ITool, IScraperTool, IAuxiliaryTool, ToolExecutionResult, IProxyManagerTool, IAntiBlockingTool, ICaptchaSolverTool } from './tool.interface.js';
 import { IToolbox } from '../../core/interfaces/toolbox.interface.js';
 import { ToolboxService } from '../toolbox/toolbox.service.js';
 import { NotFoundError, InternalServerError } from '../../core/errors/index.js'; // Corrected path
 import { performance } from 'perf_hooks';
+import { postProcessingService } from '../../core/services/post-processing.service.js';
+import { outputSchemaService } from '../../core/services/output-schema.service.js';
+import { OutputConformanceSummary } from '../../core/domain/output-conformance.types.js';
+import { ExecutionContext, createExecutionContext } from './execution-context.js';
+import { classifyProxyFailure, maskProxyUrl } from '../proxy/proxy-pool.js';
 
 // --- Configuration --- TODO: Move to config file/env vars
 const TOOL_ORCHESTRATION_MODE = process.env.TOOL_ORCHESTRATION_MODE || 'classic'; // 'classic', 'mcp', 'dual'
@@ -16,17 +21,26 @@ export interface ExecutionResult {
   overallStatus: 'completed' | 'partial_success' | 'failed';
   results: ToolExecutionResult[]; // Use ToolExecutionResult from tool.interface
   error?: string; // Overall error message if the execution failed catastrophically
+  conformance?: OutputConformanceSummary; // Present when the package declares an expectedOutputSchema
+}
+
+/**
+ * Options of a single package execution
+ */
+export interface ExecutionOptions {
+  // Target URLs scraped at the same time by the scraper (default: 1). Browser-based
+  // scrapers are additionally bounded by the browser pool.
+  concurrency?: number;
 }
 
 /**
  * Service responsible for executing a configuration package.
- * It retrieves tools from the Toolbox, initializes them, runs them against target URLs,
- * and aggregates the results.
+ * It creates its own tool instances from the Toolbox for every execution, initializes
+ * them, runs them against target URLs, aggregates the results and cleans the tools up.
  */
 export class ExecutionEngineService {
   private toolbox: IToolbox; // Store the toolbox instance
   private toolboxService: ToolboxService; // Store the toolbox service instance
-  private instantiatedTools: ITool[] = []; // Track initialized tools for cleanup
 
   // 1. Add constructor to accept IToolbox and ToolboxService
   constructor(toolbox: IToolbox, toolboxService: ToolboxService) {
@@ -41,42 +55,87 @@ export class ExecutionEngineService {
   }
 
   async executePackage(
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     targetUrls: string[],
+    options: ExecutionOptions = {},
   ): Promise<ExecutionResult> {
     // --- Orchestration Mode Selection ---
     const mode = (process.env.TOOL_ORCHESTRATION_MODE || 'classic').toLowerCase();
     console.log(`[ExecutionEngine] Orchestration mode: ${mode}`);
 
+    let executionResult: ExecutionResult;
     if (mode === 'classic') {
-      return this.executeClassic(configPackage, targetUrls);
+      executionResult = await this.executeClassic(configPackage, targetUrls, options);
     } else if (mode === 'mcp') {
-      return this.executeMcp(configPackage, targetUrls);
+      executionResult = await this.executeMcp(configPackage, targetUrls);
     } else if (mode === 'dual') {
-      return this.executeDual(configPackage, targetUrls);
+      executionResult = await this.executeDual(configPackage, targetUrls);
     } else {
       console.error(`[ExecutionEngine] Invalid TOOL_ORCHESTRATION_MODE: ${mode}. Falling back to classic.`);
-      return this.executeClassic(configPackage, targetUrls);
+      executionResult = await this.executeClassic(configPackage, targetUrls, options);
     }
+
+    const processedResult = this.applyPostProcessing(configPackage, executionResult, targetUrls);
+    return this.applyOutputSchema(configPackage, processedResult);
+  }
+
+  /**
+   * Coerces every record to the package's expectedOutputSchema, attaches per-record
+   * violations to each result's metadata and adds a run-level conformance summary.
+   */
+  private applyOutputSchema(
+    configPackage: UniversalConfigurationPackageFormat,
+    executionResult: ExecutionResult,
+  ): ExecutionResult {
+    const schema = configPackage.expectedOutputSchema;
+    if (!schema?.properties) {
+      return executionResult;
+    }
+
+    const results = executionResult.results.map(result => outputSchemaService.enforce(result, schema));
+    const conformance = outputSchemaService.summarize(results);
+    console.log(`[ExecutionEngine] Output schema conformance: ${conformance.conformingRecords}/${conformance.totalRecords} records.`);
+    return { ...executionResult, results, conformance };
+  }
+
+  /**
+   * Runs the package's postProcessing transforms on every tool result before it is
+   * returned for storage. Results are produced in target URL order, one per URL.
+   */
+  private applyPostProcessing(
+    configPackage: UniversalConfigurationPackageFormat,
+    executionResult: ExecutionResult,
+    targetUrls: string[],
+  ): ExecutionResult {
+    const transforms = configPackage.postProcessing;
+    if (!transforms || transforms.length === 0) {
+      return executionResult;
+    }
+
+    console.log(`[ExecutionEngine] Applying ${transforms.length} post-processing transforms to ${executionResult.results.length} results.`);
+    const urlsMatchResults = executionResult.results.length === targetUrls.length;
+    return {
+      ...executionResult,
+      results: executionResult.results.map((result, index) =>
+        postProcessingService.apply(result, transforms, urlsMatchResults ? targetUrls[index] : undefined)),
+    };
   }
 
   // --- Classic (existing) execution logic ---
   private async executeClassic(
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     targetUrls: string[],
+    options: ExecutionOptions = {},
   ): Promise<ExecutionResult> {
-    // Reset instantiated tools for this run
-    this.instantiatedTools = [];
+    // Tool instances created for this execution only; cleaned up when it ends
+    const instantiatedTools: ITool[] = [];
+    const auxiliaryTools: IAuxiliaryTool[] = [];
     const aggregatedResults: ToolExecutionResult[] = [];
     let overallStatus: ExecutionResult['overallStatus'] = 'completed'; // Optimistic start
     let scraperTool: IScraperTool | undefined;
     // Auxiliary tools array is now just local to this method
     // const auxiliaryTools: IAuxiliaryTool[] = []; // Keep track for cleanup
 
-    // --- Context for scraper ---
-    // This will be populated by auxiliary tools if they exist
-    let executionContext = {}; 
-
     try {
       // --- 1. Get and Initialize Scraper Tool ---
       const scraperConfig = configPackage.scraper;
@@ -84,9 +143,9 @@ export class ExecutionEngineService {
         throw new Error('Configuration package is missing scraper tool definition.');
       }
 
-      console.log(`[ExecutionEngine] Attempting to get scraper tool: ${scraperConfig.tool_id}`);
-      // Use this.toolbox instead of imported singleton
-      const scraperToolInstance = await this.toolbox.getTool(scraperConfig.tool_id);
+      console.log(`[ExecutionEngine] Creating scraper tool: ${scraperConfig.tool_id}`);
+      // A fresh instance: concurrent executions must not share the scraper's configuration
+      const scraperToolInstance = await this.toolbox.createTool(scraperConfig.tool_id);
 
       // *** Start Diagnostics ***
       console.log('[ExecutionEngine] Retrieved scraper tool instance:', scraperToolInstance);
@@ -110,69 +169,54 @@ export class ExecutionEngineService {
       }
 
       console.log(`[ExecutionEngine] Initializing scraper tool: ${scraperConfig.tool_id}`);
+      instantiatedTools.push(scraperToolInstance); // Track for cleanup, even if initialization fails
       await scraperToolInstance.initialize(scraperConfig);
-      this.instantiatedTools.push(scraperToolInstance); // Track for cleanup
       console.log(`[ExecutionEngine] Scraper tool initialized successfully.`);
 
       // Type assertion via unknown needed if getTool returns base ITool
       scraperTool = scraperToolInstance as unknown as IScraperTool;
 
       // --- 2. Get and Initialize Auxiliary Tools (Proxy, Anti-blocking, etc.) ---
-      const toolConfigsToInitialize = [ 
-          configPackage.proxy,
-          ...(configPackage.antiBlocking || []),
-          configPackage.captchaSolver
-      ].filter(config => !!config); // Filter out undefined configs
-
-      for (const auxConfig of toolConfigsToInitialize) {
-          if (auxConfig && auxConfig.tool_id) {
-              // Use this.toolbox
-              const foundAuxTool = await this.toolbox.getTool(auxConfig.tool_id);
-              if (!foundAuxTool) {
-                  console.warn(`[ExecutionEngine] Auxiliary tool with ID '${auxConfig.tool_id}' not found in Toolbox. Skipping.`);
-                  continue;
-              }
-              // Type assertion via unknown needed if getTool returns base ITool
-              const auxTool = foundAuxTool as unknown as IAuxiliaryTool;
-              console.log(`[ExecutionEngine] Initializing auxiliary tool: ${auxTool.toolId}`);
-              await auxTool.initialize(auxConfig);
-              this.instantiatedTools.push(auxTool); // Track for cleanup
-
-              // --- TODO P1/P2: Populate executionContext based on aux tool capabilities --- 
-              // Example for proxy:
-              // if ('getProxyForUrl' in auxTool) {
-              //   executionContext.getProxy = (url) => (auxTool as IProxyManagerTool).getProxyForUrl(url);
-              // }
-              // Example for anti-blocking:
-              // if ('applyStrategies' in auxTool) {
-              //    // Apply strategies here or pass function in context
-              // }
-          }
-      }
+      auxiliaryTools.push(...await this.createAuxiliaryTools(configPackage, instantiatedTools));
 
       // --- 3. Run Scraper Tool Against URLs ---
-      console.log(`[ExecutionEngine] Executing scraper tool '${scraperTool.toolId}' against ${targetUrls.length} URLs.`);
-      for (const targetUrl of targetUrls) {
-        let result: ToolExecutionResult;
+      const tool = scraperTool;
+      const concurrency = Math.max(1, Math.min(options.concurrency ?? 1, targetUrls.length));
+      console.log(`[ExecutionEngine] Executing scraper tool '${tool.toolId}' against ${targetUrls.length} URLs (concurrency ${concurrency}).`);
+      const runUrl = async (targetUrl: string): Promise<ToolExecutionResult> => {
         try {
-          // --- Pass the full package and potentially derived context --- 
-          result = await scraperTool.execute(targetUrl, configPackage /*, executionContext */);
-          aggregatedResults.push(result);
+          // Auxiliary tools decide the proxy, headers, cookies, fingerprint and delays for this URL
+          const executionContext = await this.buildExecutionContext(targetUrl, auxiliaryTools, tool.capabilities?.jsRendering ?? false);
+          const startedAt = Date.now();
+          const result = this.withContextMetadata(await tool.execute(targetUrl, configPackage, executionContext), executionContext);
+          await this.reportProxyOutcome(auxiliaryTools, executionContext, result, Date.now() - startedAt);
           if (!result.success) {
-            overallStatus = 'partial_success'; // Mark as partial if any URL fails
-            console.warn(`[ExecutionEngine] Tool '${scraperTool.toolId}' failed for URL ${targetUrl}: ${result.error}`);
+            console.warn(`[ExecutionEngine] Tool '${tool.toolId}' failed for URL ${targetUrl}: ${result.error}`);
           }
+          return result;
         } catch (runError: any) {
           // Catch errors thrown directly by the tool's execute method
-          console.error(`[ExecutionEngine] Critical error running tool '${scraperTool.toolId}' on ${targetUrl}:`, runError);
-          result = {
+          console.error(`[ExecutionEngine] Critical error running tool '${tool.toolId}' on ${targetUrl}:`, runError);
+          return {
             success: false,
             error: runError.message || 'Unknown run error',
             // Consider adding stack trace or details if needed
           };
-          aggregatedResults.push(result);
-          overallStatus = 'partial_success';
         }
+      };
+
+      // Workers take the next URL until none are left; results keep the order of the URLs
+      const urlResults: ToolExecutionResult[] = new Array(targetUrls.length);
+      let nextIndex = 0;
+      await Promise.all(Array.from({ length: concurrency }, async () => {
+        while (nextIndex < targetUrls.length) {
+          const index = nextIndex++;
+          urlResults[index] = await runUrl(targetUrls[index]);
+        }
+      }));
+      aggregatedResults.push(...urlResults);
+      if (urlResults.some(result => !result.success)) {
+        overallStatus = 'partial_success'; // Mark as partial if any URL fails
       }
 
       if (overallStatus === 'partial_success' && aggregatedResults.every(r => !r.success)) {
@@ -191,13 +235,13 @@ export class ExecutionEngineService {
       };
     } finally {
       // --- 4. Cleanup Tools ---
-      // Removed cleanup logic from here
+      await this.cleanupTools(instantiatedTools);
     }
   }
 
   // --- MCP execution logic ---
   private async executeMcp(
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     targetUrls: string[],
   ): Promise<ExecutionResult> {
     console.log(`[ExecutionEngine] Executing in MCP mode via ToolboxService.callTool`);
@@ -260,7 +304,7 @@ export class ExecutionEngineService {
 
   // --- Dual (A/B Testing) execution logic ---
   private async executeDual(
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     targetUrls: string[],
   ): Promise<ExecutionResult> {
     console.log('[ExecutionEngine] Executing in Dual (A/B) mode...');
@@ -320,10 +364,138 @@ export class ExecutionEngineService {
     }
   }
 
-  // --- Cleanup Logic (Remains unchanged, handled by ToolboxService) ---
-  async cleanupTools(): Promise<void> {
-    console.log(`[ExecutionEngine] Cleaning up ${this.instantiatedTools.length} instantiated tools...`);
-    for (const tool of this.instantiatedTools) {
+  // --- Execution Context: per-URL settings decided by the auxiliary tools ---
+  /**
+   * Runs a request made outside the scraper (e.g. crawl link discovery) with the execution
+   * context the package's auxiliary tools build for the URL, so it goes out through the
+   * same proxy, headers, cookies, fingerprint and delays as the scraper's requests
+   */
+  async withExecutionContext<T>(
+    configPackage: UniversalConfigurationPackageFormat,
+    targetUrl: string,
+    fn: (context: ExecutionContext) => Promise<T>
+  ): Promise<T> {
+    const instantiatedTools: ITool[] = [];
+    try {
+      const auxiliaryTools = await this.createAuxiliaryTools(configPackage, instantiatedTools);
+      const context = await this.buildExecutionContext(targetUrl, auxiliaryTools, false);
+      const startedAt = Date.now();
+      try {
+        const value = await fn(context);
+        await this.reportProxyOutcome(auxiliaryTools, context, { success: true }, Date.now() - startedAt);
+        return value;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.reportProxyOutcome(auxiliaryTools, context, { success: false, error: message }, Date.now() - startedAt);
+        throw error;
+      }
+    } finally {
+      await this.cleanupTools(instantiatedTools);
+    }
+  }
+
+  /**
+   * Creates and initializes the package's auxiliary tools (proxy manager, anti-blocking
+   * tools, captcha solver); every instance is added to instantiatedTools for cleanup
+   */
+  private async createAuxiliaryTools(
+    configPackage: UniversalConfigurationPackageFormat,
+    instantiatedTools: ITool[]
+  ): Promise<IAuxiliaryTool[]> {
+    const auxiliaryTools: IAuxiliaryTool[] = [];
+    const toolConfigsToInitialize = [ 
+        configPackage.proxy,
+        ...(configPackage.antiBlocking || []),
+        configPackage.captchaSolver
+    ].filter(config => !!config); // Filter out undefined configs
+
+    for (const auxConfig of toolConfigsToInitialize) {
+        if (auxConfig && auxConfig.tool_id) {
+            const foundAuxTool = await this.toolbox.createTool(auxConfig.tool_id);
+            if (!foundAuxTool) {
+                console.warn(`[ExecutionEngine] Auxiliary tool with ID '${auxConfig.tool_id}' not found in Toolbox. Skipping.`);
+                continue;
+            }
+            // Type assertion via unknown needed if getTool returns base ITool
+            const auxTool = foundAuxTool as unknown as IAuxiliaryTool;
+            console.log(`[ExecutionEngine] Initializing auxiliary tool: ${auxTool.toolId}`);
+            instantiatedTools.push(auxTool); // Track for cleanup
+            await auxTool.initialize(auxConfig);
+            auxiliaryTools.push(auxTool); // Populates the execution context of every URL
+        }
+    }
+    return auxiliaryTools;
+  }
+
+  /**
+   * Builds the execution context of one URL: the proxy manager picks the proxy, then the
+   * anti-blocking tools adjust headers, cookies, fingerprint and delays, in package order.
+   * The captcha solver is exposed to the scraper for the challenges it detects.
+   */
+  private async buildExecutionContext(targetUrl: string, auxiliaryTools: IAuxiliaryTool[], browser: boolean): Promise<ExecutionContext> {
+    const context = createExecutionContext(targetUrl, browser);
+    for (const auxTool of auxiliaryTools) {
+      if ('getProxyForUrl' in auxTool) {
+        context.proxyUrl = await (auxTool as IProxyManagerTool).getProxyForUrl(targetUrl);
+      }
+    }
+    for (const auxTool of auxiliaryTools) {
+      if ('applyStrategies' in auxTool) {
+        await (auxTool as IAntiBlockingTool).applyStrategies(context);
+      }
+    }
+    const captchaSolver = auxiliaryTools.find(auxTool => 'solveCaptcha' in auxTool) as ICaptchaSolverTool | undefined;
+    if (captchaSolver) {
+      context.solveCaptcha = challenge => captchaSolver.solveCaptcha(challenge);
+    }
+    return context;
+  }
+
+  /**
+   * Adds the proxy used and the auxiliary tools' notes to the result metadata
+   */
+  private withContextMetadata(result: ToolExecutionResult, context: ExecutionContext): ToolExecutionResult {
+    if (!context.proxyUrl && Object.keys(context.metadata).length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        ...context.metadata,
+        ...(context.proxyUrl ? { proxy: maskProxyUrl(context.proxyUrl) } : {})
+      }
+    };
+  }
+
+  /**
+   * Feeds the outcome of a URL back to the proxy manager for its health statistics
+   */
+  private async reportProxyOutcome(
+    auxiliaryTools: IAuxiliaryTool[],
+    context: ExecutionContext,
+    result: ToolExecutionResult,
+    latencyMs: number
+  ): Promise<void> {
+    const proxyUrl = context.proxyUrl;
+    if (!proxyUrl) {
+      return;
+    }
+    for (const auxTool of auxiliaryTools) {
+      const proxyTool = auxTool as IProxyManagerTool;
+      if (typeof proxyTool.reportProxyResult !== 'function') {
+        continue;
+      }
+      await proxyTool.reportProxyResult(proxyUrl, result.success
+        ? { success: true, latencyMs }
+        : { success: false, failure: result.blocked ? 'ban' : classifyProxyFailure(result.metadata?.statusCode ?? result.error), error: result.error });
+    }
+  }
+
+  // --- Cleanup Logic: releases the tool instances of one execution ---
+  private async cleanupTools(instantiatedTools: ITool[]): Promise<void> {
+    console.log(`[ExecutionEngine] Cleaning up ${instantiatedTools.length} instantiated tools...`);
+    for (const tool of instantiatedTools) {
       // Check if cleanup method exists and is a function
       if (tool && typeof tool.cleanup === 'function') {
         try {
@@ -338,7 +510,6 @@ export class ExecutionEngineService {
           // console.log(`[ExecutionEngine] Tool ${tool?.toolId || 'unknown'} has no cleanup method.`);
       }
     }
-    this.instantiatedTools = []; // Reset the list after cleanup
     console.log('[ExecutionEngine] Tool cleanup finished.');
   }
 
@@ -0,0 +1,174 @@
+/**
+ * Crawl Frontier Service
+ *
+ * Manages the queue of URLs to scrape in crawl mode: canonicalizes and
+ * deduplicates URLs and applies the crawl settings (patterns, domains, depth, limits)
+ */
+
+import { CrawlConfig } from '../../../core/domain/configuration-package.types.js';
+import { CrawlEntry, ICrawlFrontier } from './scrape-execution.interface.js';
+
+// Default number of link hops followed from the seeds
+const DEFAULT_MAX_DEPTH = 1;
+
+// Default cap on the number of URLs accepted, seeds included
+const DEFAULT_MAX_URLS = 1000;
+
+// Query parameters that only track visits and never change the page content
+const TRACKING_PARAMS = [/^utm_/i, /^gclid$/i, /^fbclid$/i, /^msclkid$/i, /^mc_(cid|eid)$/i, /^_ga$/i];
+
+/**
+ * Service for managing the crawl queue of a full scrape
+ */
+export class CrawlFrontier implements ICrawlFrontier {
+  private queue: CrawlEntry[] = [];
+  private seen: Set<string> = new Set();
+  private seedHosts: Set<string> = new Set();
+  private includePatterns: RegExp[];
+  private excludePatterns: RegExp[];
+  private maxDepth: number;
+  private maxUrls: number;
+
+  /**
+   * Initialize the frontier with the seed URLs
+   *
+   * @param seedUrls The URLs the crawl starts from
+   * @param config The crawl settings
+   * @throws Error if a pattern is not a valid regular expression
+   */
+  constructor(seedUrls: string[], private config: CrawlConfig = {}) {
+    this.includePatterns = this.compilePatterns(config.include_patterns, 'include_patterns');
+    this.excludePatterns = this.compilePatterns(config.exclude_patterns, 'exclude_patterns');
+    this.maxDepth = config.max_depth ?? DEFAULT_MAX_DEPTH;
+    this.maxUrls = config.max_urls ?? DEFAULT_MAX_URLS;
+
+    for (const seedUrl of seedUrls) {
+      const canonicalUrl = this.canonicalize(seedUrl);
+      if (canonicalUrl) {
+        this.seedHosts.add(this.normalizeHost(new URL(canonicalUrl).hostname));
+        this.enqueue(canonicalUrl, 0);
+      }
+    }
+  }
+
+  /**
+   * Add a discovered URL if it is new and allowed by the crawl settings
+   *
+   * @param url The discovered URL (absolute)
+   * @param depth Link hops from the nearest seed
+   * @returns Whether the URL was queued
+   */
+  add(url: string, depth: number): boolean {
+    const canonicalUrl = this.canonicalize(url);
+    if (!canonicalUrl || this.seen.has(canonicalUrl) || depth > this.maxDepth) {
+      return false;
+    }
+
+    if (this.config.same_domain !== false
+      && !this.seedHosts.has(this.normalizeHost(new URL(canonicalUrl).hostname))) {
+      return false;
+    }
+    if (this.includePatterns.length > 0 && !this.includePatterns.some(pattern => pattern.test(canonicalUrl))) {
+      return false;
+    }
+    if (this.excludePatterns.some(pattern => pattern.test(canonicalUrl))) {
+      return false;
+    }
+
+    return this.enqueue(canonicalUrl, depth);
+  }
+
+  /**
+   * Take up to `count` URLs from the queue, in discovery order
+   *
+   * @param count The maximum number of URLs to take
+   */
+  next(count: number): CrawlEntry[] {
+    return this.queue.splice(0, count);
+  }
+
+  /**
+   * Check if URLs are waiting in the queue
+   */
+  hasPending(): boolean {
+    return this.queue.length > 0;
+  }
+
+  /**
+   * Check if links should be discovered on a page at the given depth
+   *
+   * @param depth Link hops from the nearest seed
+   */
+  shouldExpand(depth: number): boolean {
+    return depth < this.maxDepth && this.seen.size < this.maxUrls;
+  }
+
+  /**
+   * Number of URLs accepted so far, seeds included
+   */
+  getDiscoveredCount(): number {
+    return this.seen.size;
+  }
+
+  /**
+   * Canonicalize a URL so that equivalent URLs compare equal: lowercases the
+   * scheme and host, drops default ports, fragments and tracking parameters,
+   * and sorts the query parameters
+   *
+   * @param url The URL to canonicalize
+   * @returns The canonical URL, or null if it is not an http(s) URL
+   */
+  canonicalize(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+
+    // URL already lowercases the scheme and host and drops default ports
+    parsed.hash = '';
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.some(pattern => pattern.test(key)))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    return parsed.href;
+  }
+
+  /**
+   * Queue a canonical URL unless it was seen before or the URL cap is reached
+   */
+  private enqueue(canonicalUrl: string, depth: number): boolean {
+    if (this.seen.has(canonicalUrl) || this.seen.size >= this.maxUrls) {
+      return false;
+    }
+    this.seen.add(canonicalUrl);
+    this.queue.push({ url: canonicalUrl, depth });
+    return true;
+  }
+
+  /**
+   * Compile a list of regular expression patterns
+   */
+  private compilePatterns(patterns: string[] | undefined, name: string): RegExp[] {
+    return (patterns || []).map(pattern => {
+      try {
+        return new RegExp(pattern);
+      } catch (error) {
+        throw new Error(`Invalid crawl ${name} pattern '${pattern}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Treat "www.example.com" and "example.com" as the same host
+   */
+  private normalizeHost(hostname: string): string {
+    return hostname.replace(/^www\./, '');
+  }
+}
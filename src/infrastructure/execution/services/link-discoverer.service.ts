@@ -0,0 +1,67 @@
+/**
+ * Link Discoverer Service
+ *
+ * Fetches pages and extracts the links to follow in crawl mode.
+ * Pages are requested through the execution context (proxy, headers, cookies, delay)
+ * like the scrapers' own requests. Links are read from the static HTML; links
+ * rendered by JavaScript are not discovered.
+ */
+
+import * as cheerio from 'cheerio';
+import { ILinkDiscoverer } from './scrape-execution.interface.js';
+import { ExecutionContext } from '../execution-context.js';
+import { loadHtmlPage } from '../../toolbox/html-loader.js';
+
+// Default selector of the links to follow
+const DEFAULT_LINK_SELECTOR = 'a[href]';
+
+// Default timeout for fetching a page in milliseconds
+const DEFAULT_FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * Service for discovering links on a page
+ */
+export class LinkDiscoverer implements ILinkDiscoverer {
+  /**
+   * Initialize the link discoverer
+   *
+   * @param timeoutMs Timeout for fetching a page in milliseconds (default: 15000)
+   */
+  constructor(private timeoutMs: number = DEFAULT_FETCH_TIMEOUT_MS) {}
+
+  /**
+   * Fetch a page and return the absolute URLs of the links matching the selector
+   *
+   * @param url The page URL
+   * @param linkSelector Selector of the links to follow (default: 'a[href]')
+   * @param context Execution context the page is requested with
+   */
+  async discoverLinks(url: string, linkSelector: string = DEFAULT_LINK_SELECTOR, context?: ExecutionContext): Promise<string[]> {
+    const page = await loadHtmlPage(url, { timeout: this.timeoutMs, context, captchaReports: [] });
+
+    if (page.contentType && !page.contentType.includes('html')) {
+      return [];
+    }
+
+    const $ = cheerio.load(page.html);
+
+    // Relative links resolve against <base href> if present, else the final (redirected) URL
+    const baseHref = $('base[href]').attr('href');
+    const baseUrl = baseHref ? new URL(baseHref, page.url).href : page.url;
+
+    const links: string[] = [];
+    $(linkSelector).each((_, element) => {
+      const href = $(element).attr('href');
+      if (!href) {
+        return;
+      }
+      try {
+        links.push(new URL(href.trim(), baseUrl).href);
+      } catch {
+        // Skip malformed links
+      }
+    });
+
+    return links;
+  }
+}
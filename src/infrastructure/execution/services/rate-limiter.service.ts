@@ -99,7 +99,10 @@ export class RateLimiter implements IRateLimiter {
    * @returns The result of the function
    */
   async execute<T>(fn: () => Promise<T>): Promise<T> {
-    await this.waitForSlot();
+    // Check again after waiting: concurrent callers may have taken the freed slot
+    while (!this.canMakeRequest()) {
+      await this.waitForSlot();
+    }
     this.trackRequest();
     return fn();
   }
@@ -4,9 +4,11 @@
  * Defines the contracts for the modular scrape execution components
  */
 
-import { UniversalConfigurationPackageFormatV1 } from '../../../core/domain/configuration-package.types.js';
+import { UniversalConfigurationPackageFormat, CrawlConfig } from '../../../core/domain/configuration-package.types.js';
 import { ToolExecutionResult } from '../tool.interface.js';
 import { ErrorDetails } from '../../../core/domain/error-reporting.types.js';
+import { OutputConformanceSummary } from '../../../core/domain/output-conformance.types.js';
+import { ExecutionContext } from '../execution-context.js';
 
 /**
  * Status of a scrape execution
@@ -31,6 +33,7 @@ export interface ScrapeProgress {
   retriedUrls: number;
   currentBatch: number;
   totalBatches: number;
+  discoveredUrls?: number; // Crawl mode: URLs discovered so far, seeds included
 }
 
 /**
@@ -47,6 +50,7 @@ export interface ScrapeExecutionState {
   pauseRequested: boolean;
   error?: string;
   results?: ToolExecutionResult[];
+  conformance?: OutputConformanceSummary; // Present when the package declares an expectedOutputSchema
 }
 
 /**
@@ -55,8 +59,10 @@ export interface ScrapeExecutionState {
 export interface ScrapeExecutionOptions {
   timeoutMs?: number;
   batchSize?: number;
+  concurrency?: number; // URLs of a batch scraped at the same time (default: the browser pool's capacity)
   rateLimitRps?: number;
   maxRetryAttempts?: number;
+  crawl?: CrawlConfig; // Crawl mode settings (overrides the package's crawl settings)
 }
 
 /**
@@ -68,7 +74,7 @@ export interface IScrapeExecutionService {
    */
   startScrape(
     buildId: string, 
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     options?: ScrapeExecutionOptions
   ): Promise<ScrapeExecutionState>;
   
@@ -254,3 +260,51 @@ export interface IScrapeErrorHandler {
     urls: string[]
   ): Promise<ErrorDetails>;
 }
+
+/**
+ * A URL waiting in the crawl frontier
+ */
+export interface CrawlEntry {
+  url: string; // Canonical URL
+  depth: number; // Link hops from the nearest seed (0 for seeds)
+}
+
+/**
+ * Interface for the crawl frontier: the queue of URLs to scrape in crawl mode
+ */
+export interface ICrawlFrontier {
+  /**
+   * Add a discovered URL if it is new and allowed by the crawl settings
+   */
+  add(url: string, depth: number): boolean;
+  
+  /**
+   * Take up to `count` URLs from the queue
+   */
+  next(count: number): CrawlEntry[];
+  
+  /**
+   * Check if URLs are waiting in the queue
+   */
+  hasPending(): boolean;
+  
+  /**
+   * Check if links should be discovered on a page at the given depth
+   */
+  shouldExpand(depth: number): boolean;
+  
+  /**
+   * Number of URLs accepted so far, seeds included
+   */
+  getDiscoveredCount(): number;
+}
+
+/**
+ * Interface for the link discovery service used in crawl mode
+ */
+export interface ILinkDiscoverer {
+  /**
+   * Fetch a page with the execution context and return the absolute URLs of the links matching the selector
+   */
+  discoverLinks(url: string, linkSelector?: string, context?: ExecutionContext): Promise<string[]>;
+}
@@ -6,7 +6,7 @@
 
 import { PrismaClient, BuildStatus } from '../../../generated/prisma/index.js';
 import { ExecutionEngineService } from '../execution.service.js';
-import { UniversalConfigurationPackageFormatV1 } from '../../../core/domain/configuration-package.types.js';
+import { UniversalConfigurationPackageFormat, CrawlConfig } from '../../../core/domain/configuration-package.types.js';
 import { IBuildRepository } from '../../db/build.repository.js';
 import { ErrorCategory, ErrorSeverity } from '../../../core/domain/error-reporting.types.js';
 import { errorReportingService } from '../../../core/services/error-reporting.service.js';
@@ -18,12 +18,17 @@ import {
   IScrapeStateManager,
   IRateLimiter,
   IRetryManager,
-  IScrapeErrorHandler
+  IScrapeErrorHandler,
+  ICrawlFrontier,
+  ILinkDiscoverer
 } from './scrape-execution.interface.js';
 import { ScrapeStateManager } from './scrape-state-manager.service.js';
 import { RateLimiter } from './rate-limiter.service.js';
 import { RetryManager } from './retry-manager.service.js';
 import { ScrapeErrorHandler } from './scrape-error-handler.service.js';
+import { CrawlFrontier } from './crawl-frontier.service.js';
+import { LinkDiscoverer } from './link-discoverer.service.js';
+import { browserPool } from '../../browser/browser-pool.js';
 
 // Default timeout for a full scrape (2 hours)
 const DEFAULT_SCRAPE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
@@ -45,6 +50,7 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
   private rateLimiter: IRateLimiter;
   private retryManager: IRetryManager;
   private errorHandler: IScrapeErrorHandler;
+  private linkDiscoverer: ILinkDiscoverer;
   
   /**
    * Initialize the Scrape Execution Service
@@ -59,6 +65,7 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
     this.rateLimiter = new RateLimiter();
     this.retryManager = new RetryManager();
     this.errorHandler = new ScrapeErrorHandler(buildRepository, errorReportingService);
+    this.linkDiscoverer = new LinkDiscoverer();
   }
   
   /**
@@ -70,7 +77,7 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
    */
   async startScrape(
     buildId: string,
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     options: ScrapeExecutionOptions = {}
   ): Promise<ScrapeExecutionState> {
     // Get the build from the repository
@@ -93,6 +100,10 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
       throw new Error('No target URLs found for this build');
     }
     
+    // Crawl mode: the target URLs are seeds and discovered URLs are scraped as well
+    const crawlConfig = options.crawl ?? configPackage.crawl;
+    const frontier = crawlConfig ? new CrawlFrontier(targetUrls, crawlConfig) : undefined;
+    
     // Initialize the rate limiter with the provided rate limit
     if (options.rateLimitRps) {
       (this.rateLimiter as RateLimiter).setRateLimit(options.rateLimitRps);
@@ -124,7 +135,7 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
     this.progressIntervals.set(buildId, progressInterval);
     
     // Start the execution asynchronously
-    this.executeFullScrape(buildId, configPackage, targetUrls, options)
+    this.executeFullScrape(buildId, configPackage, targetUrls, options, frontier)
       .catch(error => {
         console.error(`[ScrapeService] Error during scrape execution for build ${buildId}:`, error);
         
@@ -228,9 +239,10 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
    */
   private async executeFullScrape(
     buildId: string,
-    configPackage: UniversalConfigurationPackageFormatV1,
+    configPackage: UniversalConfigurationPackageFormat,
     targetUrls: string[],
-    options: ScrapeExecutionOptions
+    options: ScrapeExecutionOptions,
+    frontier?: ICrawlFrontier
   ): Promise<void> {
     try {
       // Get the execution state
@@ -245,18 +257,25 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
       // Calculate batch size
       const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
       
-      // Create batches of URLs
+      // URLs of a batch scraped at the same time; by default as many as the browser pool can serve
+      const concurrency = Math.max(1, options.concurrency ?? browserPool.getCapacity());
+      
+      // Create batches of URLs (in crawl mode, batches are taken from the frontier as it grows)
       const urlBatches: string[][] = [];
-      for (let i = 0; i < targetUrls.length; i += batchSize) {
-        urlBatches.push(targetUrls.slice(i, i + batchSize));
+      if (!frontier) {
+        for (let i = 0; i < targetUrls.length; i += batchSize) {
+          urlBatches.push(targetUrls.slice(i, i + batchSize));
+        }
       }
+      const crawlConfig = options.crawl ?? configPackage.crawl;
+      const crawlDepths = new Map<string, number>();
       
       // Store all results
       const allResults: ToolExecutionResult[] = [];
       let overallSuccess = true;
       
       // Process each batch
-      for (let batchIndex = 0; batchIndex < urlBatches.length; batchIndex++) {
+      for (let batchIndex = 0; frontier ? frontier.hasPending() : batchIndex < urlBatches.length; batchIndex++) {
         // Update current batch in progress
         this.stateManager.updateProgress(buildId, {
           currentBatch: batchIndex + 1
@@ -299,61 +318,85 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
           }
         }
         
-        const batch = urlBatches[batchIndex];
+        let batch = urlBatches[batchIndex];
+        if (frontier) {
+          const entries = frontier.next(batchSize);
+          entries.forEach(entry => crawlDepths.set(entry.url, entry.depth));
+          batch = entries.map(entry => entry.url);
+        }
         
         try {
-          console.log(`[ScrapeService] Processing batch ${batchIndex + 1}/${urlBatches.length} for build ${buildId}`);
-          
-          // Process URLs with rate limiting
-          const batchResults: ToolExecutionResult[] = [];
+          console.log(`[ScrapeService] Processing batch ${batchIndex + 1}/${frontier ? '?' : urlBatches.length} for build ${buildId}`);
           
-          for (const url of batch) {
-            // Check for cancellation during batch processing
-            const state = this.stateManager.getState(buildId);
-            if (!state || state.cancelRequested) {
-              break;
-            }
-            
-            // Execute with rate limiting
-            const result = await this.rateLimiter.execute(async () => {
-              try {
-                const singleUrlResult = await this.executionEngine.executePackage(configPackage, [url]);
-                return singleUrlResult.results[0] || {
-                  success: false,
-                  url,
-                  error: 'No result returned from execution engine'
-                };
-              } catch (error) {
-                console.error(`[ScrapeService] Error processing URL ${url}:`, error);
-                return {
-                  success: false,
-                  url,
-                  error: error instanceof Error ? error.message : String(error)
-                } as ToolExecutionResult;
+          // Workers take the next URL of the batch until none are left; results keep the order of the URLs
+          const urlResults: (ToolExecutionResult | undefined)[] = new Array(batch.length);
+          let nextIndex = 0;
+          await Promise.all(Array.from({ length: Math.min(concurrency, batch.length) }, async () => {
+            while (nextIndex < batch.length) {
+              // Check for cancellation during batch processing
+              const state = this.stateManager.getState(buildId);
+              if (!state || state.cancelRequested) {
+                break;
               }
-            });
-            
-            // Handle retry for failed URL
-            if (!result.success) {
-              const retryInfo = this.retryManager.trackFailedUrl(url, result.error || 'Unknown error');
+              const index = nextIndex++;
+              const url = batch[index];
               
-              if (retryInfo.canRetry) {
-                console.log(`[ScrapeService] URL ${url} failed, will retry later (attempt ${retryInfo.attemptsMade})`);
-              } else {
-                console.log(`[ScrapeService] URL ${url} failed and exceeded retry attempts`);
+              // Crawl mode: queue the links of this page before scraping it
+              if (frontier) {
+                const depth = crawlDepths.get(url) ?? 0;
+                await this.discoverLinks(buildId, configPackage, frontier, url, depth, crawlConfig, batchSize);
+                
+                // Seeds may serve for discovery only
+                if (depth === 0 && crawlConfig?.scrape_seeds === false) {
+                  this.stateManager.updateProgress(buildId, {
+                    processedUrls: state.progress.processedUrls + 1
+                  });
+                  continue;
+                }
               }
+              
+              // Execute with rate limiting
+              const result = await this.rateLimiter.execute(async () => {
+                try {
+                  const singleUrlResult = await this.executionEngine.executePackage(configPackage, [url]);
+                  return singleUrlResult.results[0] || {
+                    success: false,
+                    url,
+                    error: 'No result returned from execution engine'
+                  };
+                } catch (error) {
+                  console.error(`[ScrapeService] Error processing URL ${url}:`, error);
+                  return {
+                    success: false,
+                    url,
+                    error: error instanceof Error ? error.message : String(error)
+                  } as ToolExecutionResult;
+                }
+              });
+              
+              // Handle retry for failed URL
+              if (!result.success) {
+                const retryInfo = this.retryManager.trackFailedUrl(url, result.error || 'Unknown error');
+                
+                if (retryInfo.canRetry) {
+                  console.log(`[ScrapeService] URL ${url} failed, will retry later (attempt ${retryInfo.attemptsMade})`);
+                } else {
+                  console.log(`[ScrapeService] URL ${url} failed and exceeded retry attempts`);
+                }
+              }
+              
+              // Add result
+              urlResults[index] = result;
+              
+              // Update progress
+              this.stateManager.updateProgress(buildId, {
+                processedUrls: (state.progress.processedUrls || 0) + 1,
+                successfulUrls: (state.progress.successfulUrls || 0) + (result.success ? 1 : 0),
+                failedUrls: (state.progress.failedUrls || 0) + (result.success ? 0 : 1)
+              });
             }
-            
-            // Add result
-            batchResults.push(result);
-            
-            // Update progress
-            this.stateManager.updateProgress(buildId, {
-              processedUrls: (state.progress.processedUrls || 0) + 1,
-              successfulUrls: (state.progress.successfulUrls || 0) + (result.success ? 1 : 0),
-              failedUrls: (state.progress.failedUrls || 0) + (result.success ? 0 : 1)
-            });
-          }
+          }));
+          const batchResults = urlResults.filter((result): result is ToolExecutionResult => result !== undefined);
           
           // Add batch results to overall results
           allResults.push(...batchResults);
@@ -509,6 +552,45 @@ export class ScrapeExecutionService implements IScrapeExecutionService {
     }
   }
   
+  /**
+   * Discover the links of a page in crawl mode, add them to the frontier and
+   * update the progress with the new URL count. Discovery failures are logged
+   * and do not fail the page itself.
+   */
+  private async discoverLinks(
+    buildId: string,
+    configPackage: UniversalConfigurationPackageFormat,
+    frontier: ICrawlFrontier,
+    url: string,
+    depth: number,
+    crawlConfig: CrawlConfig | undefined,
+    batchSize: number
+  ): Promise<void> {
+    if (!frontier.shouldExpand(depth)) {
+      return;
+    }
+    
+    try {
+      // The page is requested through the package's proxy, headers and cookies like the scraper's requests
+      const links = await this.rateLimiter.execute(() =>
+        this.executionEngine.withExecutionContext(configPackage, url, context =>
+          this.linkDiscoverer.discoverLinks(url, crawlConfig?.link_selector, context)
+        )
+      );
+      const added = links.filter(link => frontier.add(link, depth + 1)).length;
+      console.log(`[ScrapeService] Discovered ${added} new URLs on ${url} (depth ${depth}) for build ${buildId}`);
+    } catch (error) {
+      console.error(`[ScrapeService] Link discovery failed for URL ${url}:`, error);
+    }
+    
+    const discoveredUrls = frontier.getDiscoveredCount();
+    this.stateManager.updateProgress(buildId, {
+      discoveredUrls,
+      totalUrls: discoveredUrls,
+      totalBatches: Math.ceil(discoveredUrls / batchSize)
+    });
+  }
+  
   /**
    * Handle a timeout during execution
    */
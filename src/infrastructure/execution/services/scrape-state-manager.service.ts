@@ -12,6 +12,7 @@ import {
   ScrapeExecutionOptions
 } from './scrape-execution.interface.js';
 import { ToolExecutionResult } from '../tool.interface.js';
+import { outputSchemaService } from '../../../core/services/output-schema.service.js';
 
 // Default batch size for processing URLs
 const DEFAULT_BATCH_SIZE = 20;
@@ -241,6 +242,7 @@ export class ScrapeStateManager implements IScrapeStateManager {
     executionState.endTime = new Date();
     executionState.lastUpdateTime = new Date();
     executionState.results = results;
+    this.updateConformance(executionState);
     
     // Store updated state
     this.activeExecutions.set(buildId, executionState);
@@ -274,6 +276,7 @@ export class ScrapeStateManager implements IScrapeStateManager {
     
     if (results) {
       executionState.results = results;
+      this.updateConformance(executionState);
     }
     
     // Store updated state
@@ -281,4 +284,17 @@ export class ScrapeStateManager implements IScrapeStateManager {
     
     return executionState;
   }
+  
+  /**
+   * Summarizes output schema conformance across the collected results, when the
+   * results were checked against an expectedOutputSchema
+   * 
+   * @param executionState The execution state to update
+   */
+  private updateConformance(executionState: ScrapeExecutionState): void {
+    const results = executionState.results || [];
+    if (results.some(result => result.metadata?.schemaViolations)) {
+      executionState.conformance = outputSchemaService.summarize(results);
+    }
+  }
 }
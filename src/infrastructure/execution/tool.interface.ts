@@ -1,4 +1,12 @@
-import { ToolConfiguration, UniversalConfigurationPackageFormatV1 } from '../../core/domain/configuration-package.types.js';
+import { ToolConfiguration, UniversalConfigurationPackageFormat } from '../../core/domain/configuration-package.types.js';
+import { ProxyOutcome } from '../proxy/proxy-pool.js';
+import { ExecutionContext } from './execution-context.js';
+import { CaptchaChallenge, CaptchaSolution } from '../captcha/captcha.types.js';
+
+/**
+ * Why a target site refused to serve a page (details in the result metadata)
+ */
+export type BlockedReason = 'captcha';
 
 /**
  * Represents the result of executing a tool, particularly a scraper.
@@ -9,9 +17,29 @@ export interface ToolExecutionResult {
   data?: Record<string, any> | Record<string, any>[]; // Extracted data, if successful
   error?: string; // Error message, if execution failed
   metadata?: Record<string, any>; // Optional: Additional metadata (e.g., status code, timings)
+  blocked?: BlockedReason; // Set when the site blocked the scraper instead of serving the page
   // Add other relevant result metadata (e.g., logs, metrics)
 }
 
+/**
+ * Kind of a tool, derived from the tool interface it implements.
+ */
+export type ToolType = 'scraper' | 'proxy' | 'anti_blocking' | 'captcha_solver';
+
+/**
+ * Relative cost of running a tool (compute, bandwidth or paid API calls).
+ */
+export type ToolCostTier = 'low' | 'medium' | 'high';
+
+/**
+ * What a tool can do, used by discovery (GET /tools) and tool selection.
+ */
+export interface ToolCapabilities {
+  jsRendering: boolean; // Executes page JavaScript (SPAs, client-side rendering)
+  proxySupport: boolean; // Can route its requests through a proxy
+  costTier: ToolCostTier;
+}
+
 /**
  * Base interface for all executable tools within the framework.
  */
@@ -19,6 +47,8 @@ export interface ITool {
   readonly toolId: string; // The unique identifier of the tool implementation
   readonly name?: string; // User-friendly name for the tool
   readonly description?: string; // Short description of what the tool does
+  readonly version?: string; // Implementation version (defaults to the toolId's _vN suffix)
+  readonly capabilities?: ToolCapabilities; // Declared capabilities, if known
 
   /**
    * Initializes the tool with its specific configuration.
@@ -34,6 +64,12 @@ export interface ITool {
   cleanup?(): Promise<void>;
 }
 
+/**
+ * Creates a new, uninitialized tool instance. The toolbox calls it once per execution
+ * so that each execution initializes (and cleans up) its own instance.
+ */
+export type ToolFactory<T extends ITool = ITool> = () => T;
+
 /**
  * Interface for primary scraper tools.
  */
@@ -42,9 +78,11 @@ export interface IScraperTool extends ITool {
    * Executes the scraping task for a given URL using the full package context.
    * @param targetUrl The specific URL to scrape.
    * @param fullPackage The complete configuration package for context (e.g., access to proxy settings).
+   * @param context Proxy, headers, cookies, fingerprint and delays to apply to every request for this URL,
+   *                as populated by the package's auxiliary tools.
    * @returns A promise resolving to the structured scraping result or error.
    */
-  execute(targetUrl: string, fullPackage: UniversalConfigurationPackageFormatV1): Promise<ToolExecutionResult>;
+  execute(targetUrl: string, fullPackage: UniversalConfigurationPackageFormat, context?: ExecutionContext): Promise<ToolExecutionResult>;
 }
 
 /**
@@ -62,15 +100,17 @@ export interface IAuxiliaryTool extends ITool {
 // Example of a more specific auxiliary tool interface
 export interface IProxyManagerTool extends IAuxiliaryTool {
   getProxyForUrl(targetUrl: string): Promise<string | null>;
+  // Feeds the outcome of a request made through a proxy back into its health statistics
+  reportProxyResult?(proxy: string, outcome: ProxyOutcome): Promise<void>;
 }
 
 // Example of a more specific auxiliary tool interface
 export interface ICaptchaSolverTool extends IAuxiliaryTool {
-  solveCaptcha(captchaDetails: any): Promise<string>; // Returns solver token
+  solveCaptcha(challenge: CaptchaChallenge): Promise<CaptchaSolution>; // Returns a token and/or clearance cookies
 }
 
 // Example of a more specific auxiliary tool interface
 export interface IAntiBlockingTool extends IAuxiliaryTool {
-  // Method to potentially modify browser contexts or request headers
-  applyStrategies(context: any): Promise<void>; 
+  // Modifies the execution context (headers, cookies, fingerprint, delays) before a URL is scraped
+  applyStrategies(context: ExecutionContext): Promise<void>;
 }
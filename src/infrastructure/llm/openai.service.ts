@@ -1,8 +1,9 @@
 import OpenAI from 'openai';
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { UniversalConfigurationPackageFormatV1, ScraperToolConfiguration } from '../../core/domain/configuration-package.types.js';
+import { UniversalConfigurationPackageFormat, ScraperToolConfiguration } from '../../core/domain/configuration-package.types.js';
 import { ToolboxService } from '../toolbox/toolbox.service.js';
+import { packageValidationService } from '../../core/services/package-validation.service.js';
 import { ITool } from '../execution/tool.interface.js';
 import { BuildStatus } from '../../generated/prisma/index.js';
 
@@ -32,7 +33,7 @@ export class OpenaiService {
   async generateInitialPackage(
     description: string,
     sampleUrls: string[],
-  ): Promise<UniversalConfigurationPackageFormatV1 | null> {
+  ): Promise<UniversalConfigurationPackageFormat | null> {
     if (!this.openai) {
       this.logger.error('OpenAI client not initialized. Cannot generate package.');
       return null;
@@ -54,25 +55,45 @@ Based on the description and sample URLs, determine the best scraper tool ID fro
 
 Example Format:
 {
-  "schemaVersion": "1.0",
+  "schemaVersion": "2.0",
   "description": "Extract job titles and company names",
   
   "scraper": {
-    "toolId": "scraper:playwright_stealth_v1", // Choose the best tool ID from the list
+    "tool_id": "scraper:playwright_stealth_v1", // Choose the best tool ID from the list
     "parameters": { 
-      "selectors": {
-        "field1": "css_selector_for_field1",
-        "field2": "css_selector_for_field2"
+      "fields": {
+        "field1": { "selector": "css_selector_for_field1" },
+        "field2": { "selector": ["preferred_css_selector", "fallback_css_selector"], "attribute": "href" },
+        "field3": { "selector": "css_selector_for_field3", "type": "number", "default": null },
+        "field4": { "selector": "css_selector_for_field4", "multiple": true }
         // ... add more fields based on description
-      }
-      // Add other tool-specific configurations if needed (e.g., waitTimes, interactionSteps)
+      },
+      "item_selector": "css_selector_for_each_repeated_item", // Optional: only for pages listing many items; field selectors are then relative to each item
+      "pagination": { "next_selector": "css_selector_for_next_page_link", "max_pages": 5 }, // Optional: only when results span several pages
+      "interaction_script": [ // Optional, Playwright scraper only: steps run before extraction
+        { "action": "click", "selector": "css_selector_for_cookie_accept_button", "optional": true },
+        { "action": "scroll_to_bottom", "max_scrolls": 5 },
+        { "action": "wait_for_selector", "selector": "css_selector_for_first_item" }
+      ]
+      // Add other tool-specific configurations if needed (e.g., timeout_ms)
     }
   },
-  "postProcessing": [],
+  "postProcessing": [
+    { "field": "field3", "type": "currency", "currency_field": "field3_currency" } // Optional transforms: trim, regex, number, currency, date, absolute_url, split, join
+  ],
   "delivery": {}
 }
 
 Determine the necessary data fields from the description and create appropriate CSS selectors (be specific and robust if possible, guess if unsure).
+For each field, "attribute" is "text" (default), "html" or an HTML attribute name; "type" is "string" (default), "number", "integer" or "boolean"; list fallback selectors when unsure; set "multiple" to collect every match.
+If the objective asks for every item on a page (e.g., all products, jobs or articles), set "item_selector" to the container of one item and write the field selectors relative to that container.
+If those items span several pages, set "pagination" with a "next_selector" for the next page link, or a "url_template" containing {page} when pages are numbered in the URL ("load_more_selector" for a "load more" button with the Playwright scraper).
+If content only appears after user actions (cookie banners, tabs, search forms, infinite scroll), use the Playwright scraper with an "interaction_script": a list of steps whose "action" is one of click, fill (selector, value), press (key, optional selector), scroll_to_bottom, wait_for_selector, wait_for_network_idle, select_option (selector, value) or hover. Mark steps that may not apply (e.g., dismissing a banner) with "optional": true.
+If the page is a single-page application that renders its content with JavaScript, use the Playwright scraper and set "wait_selector" to a selector of the rendered content (e.g., the first item); "goto_options": { "waitUntil": "networkidle" } helps when data arrives through late API calls. For values not reachable with CSS selectors (e.g., JavaScript variables), set "evaluate_script" to the body of a function returning an object of extra fields, e.g. "return { sku: window.__PRODUCT__?.sku ?? null }".
+When such a page loads its data through XHR/fetch calls, the Playwright scraper can record them with "capture_network": { "url_patterns": ["*/api/products*"], "item_path": "$..products[*]" }; fields with "source": "network" then take a JSONPath "selector" over the captured responses instead of a CSS selector.
+Product, article, job and event pages often publish schema.org data (JSON-LD, microdata) and OpenGraph tags, which survive layout changes: prefer the structured data scraper with "entity_types" (e.g. ["Product"]) for them, or give individual fields "source": "structured_data" with a JSONPath "selector" such as "$.entities[?(@['@type'] == 'Product')].offers.price" or "$.opengraph.title" next to CSS selector fields.
+For data tables and spec sheets (rows of values under column headers, or "label: value" rows with the labels in th cells), prefer the HTML table scraper: "table_selector" picks the table (e.g. "#specs table") and each field "selector" is the header text of its column (e.g. "Price"; "/width/i" as a regular expression); with empty "fields" every column is returned keyed by its header.
+If the data comes from a JSON API (e.g. the XHR endpoint the page loads its items from), prefer the JSON API scraper with that endpoint as the URL: field selectors and "item_selector" are then JSONPath expressions (e.g. "$.data.items[*]" and "$.title"), "method", "headers" and "body" configure the request, and "cursor_pagination": { "cursor_path": "$.next_cursor", "cursor_param": "cursor" } (or "next_url_path") follows the following pages.
 
 Your Response (JSON only):
 `;
@@ -98,11 +119,12 @@ Your Response (JSON only):
       // Attempt to parse the response as JSON
       // Basic cleanup: remove potential markdown fences or leading/trailing text
       const jsonString = rawResponse.trim().replace(/^```json\n?|```$/g, '');
-      const generatedPackage = JSON.parse(jsonString) as UniversalConfigurationPackageFormatV1;
+      const generatedPackage = JSON.parse(jsonString) as UniversalConfigurationPackageFormat;
 
-      // Basic validation (can be expanded significantly)
-      if (!generatedPackage.schemaVersion || !generatedPackage.scraper?.tool_id || !generatedPackage.scraper?.parameters.selectors) {
-        throw new Error('Generated package is missing required fields.');
+      // Structural validation (tool availability is checked below)
+      const validation = packageValidationService.validate(generatedPackage);
+      if (!validation.valid) {
+        throw new Error(`Generated package is invalid: ${packageValidationService.formatIssues(validation.errors)}`);
       }
       // Ensure the selected tool is one we listed
       if (!availableScrapers.some((s: ITool) => s.toolId === generatedPackage.scraper.tool_id)) {
@@ -113,7 +135,7 @@ Your Response (JSON only):
 
       this.logger.log(`Successfully generated initial package using tool: ${generatedPackage.scraper.tool_id}`);
 
-       // Fill in description and potentially sample URLs if needed for context, leave /* targetUrls property does not exist on UniversalConfigurationPackageFormatV1 */ empty
+       // Fill in description and potentially sample URLs if needed for context, leave /* targetUrls property does not exist on UniversalConfigurationPackageFormat */ empty
       generatedPackage.description = description;
       
 
@@ -139,11 +161,11 @@ Your Response (JSON only):
    */
   async refinePackage(
     originalObjective: string,
-    previousPackage: UniversalConfigurationPackageFormatV1,
+    previousPackage: UniversalConfigurationPackageFormat,
     sampleResults: any[],
     userFeedback: string,
     toolHints?: string[],
-  ): Promise<UniversalConfigurationPackageFormatV1 | null> {
+  ): Promise<UniversalConfigurationPackageFormat | null> {
     if (!this.openai) {
       this.logger.error('OpenAI client not initialized. Cannot refine package.');
       return null;
@@ -189,8 +211,9 @@ Refine the previous configuration package to address the user's feedback. You ma
 2. Switch to a different, more appropriate tool if needed
 3. Update selectors, timeouts, or data extraction logic
 4. Add or modify anti-blocking or proxy configuration if needed
+5. Add or fix an "interaction_script" (Playwright scraper only) when content needs clicks, form input, scrolling or waits before extraction; step actions are click, fill, press, scroll_to_bottom, wait_for_selector, wait_for_network_idle, select_option and hover.
 
-Return ONLY a valid JSON object representing the new configuration package in Universal Configuration Package Format V1. Do not include any additional text, explanations, or comments.
+Return ONLY a valid JSON object representing the new configuration package in Universal Configuration Package Format V2 (schemaVersion "2.0", per-field specs under scraper.parameters.fields). Do not include any additional text, explanations, or comments.
 
 Your Response (JSON only):
 `;
@@ -215,11 +238,12 @@ Your Response (JSON only):
       // Attempt to parse the response as JSON
       // Basic cleanup: remove potential markdown fences or leading/trailing text
       const jsonString = rawResponse.trim().replace(/^```json\n?|```$/g, '');
-      const refinedPackage = JSON.parse(jsonString) as UniversalConfigurationPackageFormatV1;
+      const refinedPackage = JSON.parse(jsonString) as UniversalConfigurationPackageFormat;
 
-      // Basic validation
-      if (!refinedPackage.schemaVersion || !refinedPackage.scraper?.tool_id || !refinedPackage.scraper?.parameters.selectors) {
-        throw new Error('Refined package is missing required fields.');
+      // Structural validation (tool availability is checked below)
+      const validation = packageValidationService.validate(refinedPackage);
+      if (!validation.valid) {
+        throw new Error(`Refined package is invalid: ${packageValidationService.formatIssues(validation.errors)}`);
       }
       
       // Ensure the selected tool is one we listed
@@ -0,0 +1,308 @@
+/**
+ * Proxy Pool
+ *
+ * Rotates outbound requests over the proxies of a package's `proxy_list` and keeps
+ * health statistics per proxy. Tool instances are created per execution, so the
+ * rotation cursors, sticky sessions and health data live here and are shared by
+ * every execution of the process.
+ */
+
+export type ProxyRotationMode = 'round-robin' | 'random';
+
+/**
+ * Why a request through a proxy failed. Bans, timeouts and connection errors count
+ * towards quarantine; other errors (e.g. a 500 from the target) do not.
+ */
+export type ProxyFailureKind = 'ban' | 'timeout' | 'connection' | 'error';
+
+/**
+ * Outcome of one request made through a proxy
+ */
+export interface ProxyOutcome {
+  success: boolean;
+  latencyMs?: number;
+  failure?: ProxyFailureKind;
+  error?: string;
+}
+
+/**
+ * Rotation and quarantine settings of one proxy list
+ */
+export interface ProxyPoolConfig {
+  proxies: string[];
+  rotationMode: ProxyRotationMode;
+  stickySessions: boolean; // Reuse the same proxy for a domain while its session lasts
+  sessionTtlMs: number;
+  maxFailures: number; // Consecutive bans/timeouts before a proxy is quarantined
+  quarantineMs: number;
+}
+
+/**
+ * Health statistics of one proxy, with credentials masked
+ */
+export interface ProxyStats {
+  proxy: string;
+  requests: number;
+  successes: number;
+  failures: number;
+  successRate: number | null; // null until the proxy has been used
+  avgLatencyMs: number | null; // Average over successful requests
+  consecutiveFailures: number;
+  quarantined: boolean;
+  quarantinedUntil?: string;
+  lastError?: string;
+  lastUsedAt?: string;
+}
+
+export const DEFAULT_PROXY_POOL_CONFIG: Omit<ProxyPoolConfig, 'proxies'> = {
+  rotationMode: 'round-robin',
+  stickySessions: false,
+  sessionTtlMs: 10 * 60 * 1000,
+  maxFailures: 3,
+  quarantineMs: 5 * 60 * 1000
+};
+
+const QUARANTINE_FAILURES: ReadonlySet<ProxyFailureKind> = new Set(['ban', 'timeout', 'connection']);
+
+interface ProxyHealth {
+  requests: number;
+  successes: number;
+  failures: number;
+  totalLatencyMs: number;
+  consecutiveFailures: number;
+  quarantinedUntil: number; // 0 when not quarantined
+  lastError?: string;
+  lastUsedAt?: number;
+  lastCheckedAt?: number; // Last health-check probe
+}
+
+interface StickySession {
+  proxy: string;
+  expiresAt: number;
+}
+
+interface RotationState {
+  cursor: number;
+  sessions: Map<string, StickySession>; // By hostname
+}
+
+/**
+ * Shared proxy rotation and health tracking
+ */
+export class ProxyPool {
+  private health = new Map<string, ProxyHealth>();
+  private rotations = new Map<string, RotationState>(); // By proxy list
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Picks the proxy for a request to targetUrl. Quarantined proxies are skipped; when
+   * every proxy is quarantined, the one whose quarantine ends first is used.
+   * @returns The proxy URL, or null when the list is empty
+   */
+  selectProxy(config: ProxyPoolConfig, targetUrl: string): string | null {
+    if (config.proxies.length === 0) {
+      return null;
+    }
+
+    const rotation = this.getRotation(config.proxies);
+    const hostname = this.getHostname(targetUrl);
+    const now = this.now();
+
+    if (config.stickySessions && hostname) {
+      const session = rotation.sessions.get(hostname);
+      if (session && session.expiresAt > now && !this.isQuarantined(session.proxy)) {
+        session.expiresAt = now + config.sessionTtlMs;
+        return session.proxy;
+      }
+      rotation.sessions.delete(hostname);
+    }
+
+    const healthy = config.proxies.filter(proxy => !this.isQuarantined(proxy));
+    let proxy: string;
+    if (healthy.length === 0) {
+      proxy = [...config.proxies].sort((a, b) => this.getHealth(a).quarantinedUntil - this.getHealth(b).quarantinedUntil)[0];
+      console.warn(`[ProxyPool] All ${config.proxies.length} proxies are quarantined. Falling back to ${maskProxyUrl(proxy)}.`);
+    } else if (config.rotationMode === 'random') {
+      proxy = healthy[Math.floor(Math.random() * healthy.length)];
+    } else {
+      proxy = this.nextInRotation(config.proxies, rotation);
+    }
+
+    if (config.stickySessions && hostname) {
+      rotation.sessions.set(hostname, { proxy, expiresAt: now + config.sessionTtlMs });
+    }
+    return proxy;
+  }
+
+  /**
+   * Records the outcome of a request made through a proxy. A success resets the
+   * failure streak; maxFailures consecutive bans, timeouts or connection errors
+   * quarantine the proxy for quarantineMs and end its sticky sessions.
+   */
+  recordResult(proxy: string, outcome: ProxyOutcome, config: Pick<ProxyPoolConfig, 'maxFailures' | 'quarantineMs'> = DEFAULT_PROXY_POOL_CONFIG): void {
+    const health = this.getHealth(proxy);
+    health.requests++;
+    health.lastUsedAt = this.now();
+
+    if (outcome.success) {
+      health.successes++;
+      health.consecutiveFailures = 0;
+      if (outcome.latencyMs !== undefined) {
+        health.totalLatencyMs += outcome.latencyMs;
+      }
+      return;
+    }
+
+    const failure = outcome.failure ?? 'error';
+    health.failures++;
+    health.lastError = outcome.error ? `${failure}: ${outcome.error}` : failure;
+    if (!QUARANTINE_FAILURES.has(failure)) {
+      return;
+    }
+
+    health.consecutiveFailures++;
+    if (health.consecutiveFailures >= config.maxFailures) {
+      health.quarantinedUntil = this.now() + config.quarantineMs;
+      health.consecutiveFailures = 0;
+      this.endSessions(proxy);
+      console.warn(`[ProxyPool] Quarantined ${maskProxyUrl(proxy)} for ${config.quarantineMs}ms after ${config.maxFailures} consecutive failures (${health.lastError}).`);
+    }
+  }
+
+  /**
+   * Whether a proxy is due for a health-check probe
+   */
+  needsCheck(proxy: string, intervalMs: number): boolean {
+    const lastCheckedAt = this.getHealth(proxy).lastCheckedAt;
+    return lastCheckedAt === undefined || this.now() - lastCheckedAt >= intervalMs;
+  }
+
+  markChecked(proxy: string): void {
+    this.getHealth(proxy).lastCheckedAt = this.now();
+  }
+
+  isQuarantined(proxy: string): boolean {
+    return this.getHealth(proxy).quarantinedUntil > this.now();
+  }
+
+  /**
+   * Returns the statistics of every proxy seen so far
+   */
+  getStats(): ProxyStats[] {
+    return [...this.health.entries()].map(([proxy, health]) => {
+      const quarantined = health.quarantinedUntil > this.now();
+      return {
+        proxy: maskProxyUrl(proxy),
+        requests: health.requests,
+        successes: health.successes,
+        failures: health.failures,
+        successRate: health.requests > 0 ? health.successes / health.requests : null,
+        avgLatencyMs: health.successes > 0 ? Math.round(health.totalLatencyMs / health.successes) : null,
+        consecutiveFailures: health.consecutiveFailures,
+        quarantined,
+        ...(quarantined ? { quarantinedUntil: new Date(health.quarantinedUntil).toISOString() } : {}),
+        ...(health.lastError ? { lastError: health.lastError } : {}),
+        ...(health.lastUsedAt ? { lastUsedAt: new Date(health.lastUsedAt).toISOString() } : {})
+      };
+    });
+  }
+
+  /**
+   * Forgets all statistics, cursors and sessions
+   */
+  reset(): void {
+    this.health.clear();
+    this.rotations.clear();
+  }
+
+  private nextInRotation(proxies: string[], rotation: RotationState): string {
+    for (let i = 0; i < proxies.length; i++) {
+      const proxy = proxies[(rotation.cursor + i) % proxies.length];
+      if (!this.isQuarantined(proxy)) {
+        rotation.cursor = (rotation.cursor + i + 1) % proxies.length;
+        return proxy;
+      }
+    }
+    // Unreachable while the caller only rotates when a healthy proxy exists
+    return proxies[rotation.cursor % proxies.length];
+  }
+
+  private endSessions(proxy: string): void {
+    for (const rotation of this.rotations.values()) {
+      for (const [hostname, session] of rotation.sessions) {
+        if (session.proxy === proxy) {
+          rotation.sessions.delete(hostname);
+        }
+      }
+    }
+  }
+
+  private getRotation(proxies: string[]): RotationState {
+    const key = proxies.join('\n');
+    let rotation = this.rotations.get(key);
+    if (!rotation) {
+      rotation = { cursor: 0, sessions: new Map() };
+      this.rotations.set(key, rotation);
+    }
+    return rotation;
+  }
+
+  private getHealth(proxy: string): ProxyHealth {
+    let health = this.health.get(proxy);
+    if (!health) {
+      health = { requests: 0, successes: 0, failures: 0, totalLatencyMs: 0, consecutiveFailures: 0, quarantinedUntil: 0 };
+      this.health.set(proxy, health);
+    }
+    return health;
+  }
+
+  private getHostname(targetUrl: string): string | null {
+    try {
+      return new URL(targetUrl).hostname;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Hides the password of a proxy URL so it can be logged or returned by the API
+ */
+export function maskProxyUrl(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (url.password) {
+      url.password = '***';
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return proxy;
+  }
+}
+
+/**
+ * Classifies a failed request made through a proxy from its HTTP status or error
+ * (message). 403, 407 and 429 responses mean the proxy is blocked or rejected.
+ */
+export function classifyProxyFailure(statusOrError: number | unknown): ProxyFailureKind {
+  if (typeof statusOrError === 'number') {
+    return [403, 407, 429].includes(statusOrError) ? 'ban' : 'error';
+  }
+  const code = (statusOrError as { code?: unknown } | null)?.code;
+  const message = statusOrError instanceof Error ? statusOrError.message : String(statusOrError);
+  if (/status:?\s*(403|407|429)\b/i.test(message)) {
+    return 'ban';
+  }
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || /timeout|timed out|aborted/i.test(message)) {
+    return 'timeout';
+  }
+  if (code === 'ECONNREFUSED' || code === 'ECONNRESET' || code === 'ENOTFOUND' || code === 'EHOSTUNREACH'
+    || /ERR_PROXY|ERR_TUNNEL|ECONNREFUSED|ECONNRESET|fetch failed/.test(message)) {
+    return 'connection';
+  }
+  return 'error';
+}
+
+// Export a singleton instance for use throughout the application
+export const proxyPool = new ProxyPool();
@@ -0,0 +1,322 @@
+/**
+ * Sitemap Service
+ *
+ * Harvests target URLs from sitemaps: follows robots.txt "Sitemap:" entries and
+ * sitemap indexes, reads plain and gzipped XML sitemaps, and filters the entries
+ * by URL pattern and lastmod date.
+ */
+
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { BadRequestError } from '../../core/errors/index.js';
+import { SitemapSource } from '../../core/domain/sitemap.schema.js';
+
+// Default cap on the number of URLs taken from a sitemap
+const DEFAULT_MAX_URLS = 1000;
+
+// Safety limits against runaway sitemap indexes
+const MAX_SITEMAPS = 50;
+const MAX_INDEX_DEPTH = 3;
+
+// Default timeout for fetching a sitemap in milliseconds
+const DEFAULT_FETCH_TIMEOUT_MS = 20000;
+
+// Default time budget of a whole harvest (robots.txt, indexes and sitemaps) in milliseconds
+const DEFAULT_HARVEST_TIMEOUT_MS = 30000;
+
+// Size limit of a sitemap, downloaded and uncompressed (the sitemap protocol's 50 MB)
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+/**
+ * A single <url> entry of a sitemap
+ */
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+}
+
+/**
+ * A parsed sitemap document: either a list of pages or an index of sitemaps
+ */
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+/**
+ * URLs harvested from a sitemap source
+ */
+export interface SitemapHarvestResult {
+  urls: string[];
+  sitemapsRead: string[]; // Sitemap URLs fetched, in order
+  entriesFound: number; // Page entries found before filtering
+}
+
+/**
+ * Service for harvesting target URLs from sitemaps and robots.txt
+ */
+export class SitemapService {
+  constructor(
+    private timeoutMs: number = DEFAULT_FETCH_TIMEOUT_MS,
+    private harvestTimeoutMs: number = DEFAULT_HARVEST_TIMEOUT_MS,
+    private maxBytes: number = MAX_SITEMAP_BYTES
+  ) {}
+
+  /**
+   * Harvests the page URLs of a sitemap source, applying its filters. Sitemaps not
+   * reached within the harvest time budget are skipped.
+   *
+   * @param source - The sitemap (or robots.txt) URL and entry filters
+   * @throws BadRequestError if a pattern is invalid or no sitemap could be read
+   */
+  async harvest(source: SitemapSource): Promise<SitemapHarvestResult> {
+    const include = this.compilePatterns(source.include_patterns, 'include_patterns');
+    const exclude = this.compilePatterns(source.exclude_patterns, 'exclude_patterns');
+    const after = source.lastmod_after ? Date.parse(source.lastmod_after) : undefined;
+    const before = source.lastmod_before ? Date.parse(source.lastmod_before) : undefined;
+    const maxUrls = source.max_urls ?? DEFAULT_MAX_URLS;
+    const deadline = Date.now() + this.harvestTimeoutMs;
+
+    const sitemapUrls = this.isRobotsUrl(source.url)
+      ? this.parseRobots(await this.fetchText(source.url, deadline))
+      : [source.url];
+    if (sitemapUrls.length === 0) {
+      throw new BadRequestError(`No "Sitemap:" entries found in ${source.url}`);
+    }
+
+    const result: SitemapHarvestResult = { urls: [], sitemapsRead: [], entriesFound: 0 };
+    const seen = new Set<string>();
+    const queue = sitemapUrls.map(url => ({ url, depth: 0 }));
+
+    for (let i = 0; i < queue.length && result.urls.length < maxUrls && result.sitemapsRead.length < MAX_SITEMAPS; i++) {
+      const { url, depth } = queue[i];
+      if (result.sitemapsRead.includes(url)) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        console.warn(`[SitemapService] Harvest of ${source.url} ran out of time after ${result.sitemapsRead.length} sitemaps; skipping the rest.`);
+        break;
+      }
+
+      let sitemap: ParsedSitemap;
+      try {
+        sitemap = this.parseSitemap(await this.fetchText(url, deadline));
+        result.sitemapsRead.push(url);
+      } catch (error) {
+        // The requested sitemap itself must be readable; nested ones may fail individually
+        if (depth === 0 && sitemapUrls.length === 1) {
+          throw error;
+        }
+        console.warn(`[SitemapService] Skipping sitemap ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      if (sitemap.type === 'sitemapindex') {
+        if (depth >= MAX_INDEX_DEPTH) {
+          continue;
+        }
+        // A child sitemap last modified before lastmod_after cannot hold newer entries
+        const children = sitemap.entries.filter(entry => !(after && this.isBefore(entry.lastmod, after)));
+        queue.push(...children.map(entry => ({ url: entry.loc, depth: depth + 1 })));
+        continue;
+      }
+
+      result.entriesFound += sitemap.entries.length;
+      for (const entry of sitemap.entries) {
+        if (result.urls.length >= maxUrls) {
+          break;
+        }
+        if (seen.has(entry.loc) || !this.matches(entry, include, exclude, after, before)) {
+          continue;
+        }
+        seen.add(entry.loc);
+        result.urls.push(entry.loc);
+      }
+    }
+
+    if (result.sitemapsRead.length === 0) {
+      throw new BadRequestError(`None of the sitemaps listed in ${source.url} could be read`);
+    }
+    return result;
+  }
+
+  /**
+   * Resolves the target URLs of a new build from explicit URLs and/or a sitemap.
+   * Explicit URLs come first; duplicates are removed.
+   *
+   * @param targetUrls - URLs given in the request, if any
+   * @param sitemap - Sitemap source given in the request, if any
+   * @throws BadRequestError if neither yields a URL
+   */
+  async resolveTargetUrls(targetUrls: string[] | undefined, sitemap: SitemapSource | undefined): Promise<string[]> {
+    const urls = [...(targetUrls || [])];
+    if (sitemap) {
+      const { urls: sitemapUrls, sitemapsRead } = await this.harvest(sitemap);
+      console.log(`[SitemapService] Harvested ${sitemapUrls.length} URLs from ${sitemapsRead.length} sitemaps of ${sitemap.url}`);
+      urls.push(...sitemapUrls);
+    }
+
+    const uniqueUrls = [...new Set(urls)];
+    if (uniqueUrls.length === 0) {
+      throw new BadRequestError(sitemap
+        ? `No URLs in the sitemap of ${sitemap.url} match the given filters`
+        : 'Either target_urls or sitemap must be provided');
+    }
+    return uniqueUrls;
+  }
+
+  /**
+   * Parses a sitemap or sitemap index document
+   *
+   * @param xml - The sitemap XML
+   * @throws BadRequestError if the document is neither a urlset nor a sitemapindex
+   */
+  parseSitemap(xml: string): ParsedSitemap {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const readEntries = (selector: string): SitemapEntry[] => $(selector).toArray()
+      .map(element => ({
+        loc: $(element).children('loc').first().text().trim(),
+        lastmod: $(element).children('lastmod').first().text().trim() || undefined
+      }))
+      .filter(entry => entry.loc !== '');
+
+    if ($('sitemapindex').length > 0) {
+      return { type: 'sitemapindex', entries: readEntries('sitemapindex > sitemap') };
+    }
+    if ($('urlset').length > 0) {
+      return { type: 'urlset', entries: readEntries('urlset > url') };
+    }
+    throw new BadRequestError('Document is not a sitemap (expected <urlset> or <sitemapindex>)');
+  }
+
+  /**
+   * Extracts the "Sitemap:" URLs of a robots.txt file
+   *
+   * @param robotsTxt - The robots.txt content
+   */
+  parseRobots(robotsTxt: string): string[] {
+    return robotsTxt.split(/\r?\n/)
+      .map(line => line.replace(/#.*$/, '').trim())
+      .map(line => /^sitemap\s*:\s*(\S+)/i.exec(line)?.[1])
+      .filter((url): url is string => !!url);
+  }
+
+  /**
+   * Fetches a text document, transparently decompressing gzipped content. The fetch
+   * ends at the harvest deadline, and documents larger than the size limit are rejected.
+   */
+  private async fetchText(url: string, deadline: number): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.max(0, Math.min(this.timeoutMs, deadline - Date.now())));
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: { 'Accept': 'application/xml,text/xml,text/plain,application/gzip,*/*;q=0.8' }
+      });
+      if (!response.ok) {
+        throw new BadRequestError(`Failed to fetch ${url}: HTTP ${response.status}`);
+      }
+
+      const body = await this.readBody(response, url);
+      // Gzip magic bytes; servers often send .xml.gz files without a Content-Encoding header
+      const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+      return (isGzip ? gunzipSync(body, { maxOutputLength: this.maxBytes }) : body).toString('utf8');
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        throw error;
+      }
+      throw new BadRequestError(`Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Reads a response body, giving up as soon as it grows past the size limit
+   *
+   * @throws BadRequestError if the body is larger than the limit
+   */
+  private async readBody(response: Response, url: string): Promise<Buffer> {
+    const tooLarge = () => new BadRequestError(`Sitemap ${url} is larger than ${this.maxBytes} bytes`);
+    if (Number(response.headers.get('content-length') ?? 0) > this.maxBytes) {
+      throw tooLarge();
+    }
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return Buffer.alloc(0);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength;
+      if (size > this.maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(chunk.value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Checks an entry against the URL patterns and lastmod bounds
+   */
+  private matches(
+    entry: SitemapEntry,
+    include: RegExp[],
+    exclude: RegExp[],
+    after: number | undefined,
+    before: number | undefined
+  ): boolean {
+    if (include.length > 0 && !include.some(pattern => pattern.test(entry.loc))) {
+      return false;
+    }
+    if (exclude.some(pattern => pattern.test(entry.loc))) {
+      return false;
+    }
+    if (after !== undefined && this.isBefore(entry.lastmod, after)) {
+      return false;
+    }
+    if (before !== undefined && entry.lastmod) {
+      const lastmod = Date.parse(entry.lastmod);
+      if (!Number.isNaN(lastmod) && lastmod > before) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Whether a lastmod value is known and earlier than the given time
+   */
+  private isBefore(lastmod: string | undefined, time: number): boolean {
+    if (!lastmod) {
+      return false;
+    }
+    const parsed = Date.parse(lastmod);
+    return !Number.isNaN(parsed) && parsed < time;
+  }
+
+  private isRobotsUrl(url: string): boolean {
+    try {
+      return new URL(url).pathname.toLowerCase().endsWith('/robots.txt');
+    } catch {
+      return false;
+    }
+  }
+
+  private compilePatterns(patterns: string[] | undefined, name: string): RegExp[] {
+    return (patterns || []).map(pattern => {
+      try {
+        return new RegExp(pattern);
+      } catch (error) {
+        throw new BadRequestError(`Invalid sitemap ${name} pattern '${pattern}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const sitemapService = new SitemapService();
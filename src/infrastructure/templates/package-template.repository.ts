@@ -0,0 +1,159 @@
+/**
+ * Package Template Repository
+ *
+ * Stores package templates as JSON files (one per template) in a directory,
+ * configurable with PACKAGE_TEMPLATES_DIR (default: ./data/package-templates).
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { BadRequestError, ConflictError } from '../../core/errors/index.js';
+import { CreatePackageTemplateData, PackageTemplate } from '../../core/domain/package-template.types.js';
+
+// Default directory of the template files
+const DEFAULT_TEMPLATES_DIR = path.join(process.cwd(), 'data', 'package-templates');
+
+/**
+ * Filters for listing templates
+ */
+export interface PackageTemplateFilter {
+  tag?: string; // Exact tag (case-insensitive)
+  search?: string; // Substring of the name, description or tags (case-insensitive)
+}
+
+/**
+ * File-backed repository of package templates
+ */
+export class PackageTemplateRepository {
+  constructor(private directory: string = process.env.PACKAGE_TEMPLATES_DIR || DEFAULT_TEMPLATES_DIR) {}
+
+  /**
+   * Lists the templates, sorted by name
+   *
+   * @param filter - Optional tag or text filter
+   */
+  async list(filter: PackageTemplateFilter = {}): Promise<PackageTemplate[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const templates: PackageTemplate[] = [];
+    for (const file of files) {
+      const template = await this.readTemplate(path.join(this.directory, file));
+      if (template && this.matches(template, filter)) {
+        templates.push(template);
+      }
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Finds a template by ID
+   *
+   * @returns The template or null if it does not exist
+   */
+  async findById(id: string): Promise<PackageTemplate | null> {
+    if (!this.isValidId(id)) {
+      return null;
+    }
+    return this.readTemplate(this.filePath(id));
+  }
+
+  /**
+   * Saves a new template; its ID is derived from the name
+   *
+   * @throws BadRequestError if the name yields no usable ID
+   * @throws ConflictError if a template with the same ID exists
+   */
+  async create(data: CreatePackageTemplateData): Promise<PackageTemplate> {
+    const id = this.toId(data.name);
+    if (!this.isValidId(id)) {
+      throw new BadRequestError(`Template name '${data.name}' must contain letters or digits`);
+    }
+
+    const now = new Date().toISOString();
+    const template: PackageTemplate = {
+      id,
+      name: data.name.trim(),
+      ...(data.description ? { description: data.description } : {}),
+      tags: [...new Set((data.tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean))],
+      package: data.package,
+      ...(data.sourceBuildId ? { sourceBuildId: data.sourceBuildId } : {}),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    try {
+      // 'wx' fails if the file exists, so concurrent saves cannot overwrite each other
+      await writeFile(this.filePath(id), JSON.stringify(template, null, 2), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new ConflictError(`A template with ID '${id}' already exists`);
+      }
+      throw error;
+    }
+    return template;
+  }
+
+  /**
+   * Deletes a template
+   *
+   * @returns True if the template existed
+   */
+  async delete(id: string): Promise<boolean> {
+    if (!this.isValidId(id) || !(await this.findById(id))) {
+      return false;
+    }
+    await rm(this.filePath(id));
+    return true;
+  }
+
+  private async readTemplate(filePath: string): Promise<PackageTemplate | null> {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8')) as PackageTemplate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[PackageTemplateRepository] Skipping unreadable template ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return null;
+    }
+  }
+
+  private matches(template: PackageTemplate, filter: PackageTemplateFilter): boolean {
+    if (filter.tag && !template.tags.includes(filter.tag.toLowerCase())) {
+      return false;
+    }
+    if (filter.search) {
+      const needle = filter.search.toLowerCase();
+      return [template.name, template.description || '', ...template.tags].some(text => text.toLowerCase().includes(needle));
+    }
+    return true;
+  }
+
+  /**
+   * Derives a slug ID from a template name, e.g. "Shopify product page" -> "shopify-product-page"
+   */
+  private toId(name: string): string {
+    return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-').slice(0, 80).replace(/^-+|-+$/g, '');
+  }
+
+  // IDs double as file names, so only slugs are accepted
+  private isValidId(id: string): boolean {
+    return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(id);
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const packageTemplateRepository = new PackageTemplateRepository();
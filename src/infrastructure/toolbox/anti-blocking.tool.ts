@@ -1,18 +1,55 @@
-import { IAntiBlockingTool } from '../execution/tool.interface.js';
-import { ToolConfiguration } from '../../core/domain/configuration-package.types.js';
+import { IAntiBlockingTool, ToolCapabilities } from '../execution/tool.interface.js';
+import { ToolConfiguration, AntiBlockingStrategy } from '../../core/domain/configuration-package.types.js';
+import { ExecutionContext } from '../execution/execution-context.js';
+import { FINGERPRINT_PROFILES, FingerprintProfile, getLocaleProfile, isChromiumProfile } from './fingerprint-profiles.js';
+
+interface AntiBlockingParams {
+  strategies?: AntiBlockingStrategy[];
+  locale?: string;
+  timezone_id?: string;
+  min_delay_ms?: number;
+  max_delay_ms?: number;
+  screen?: { width: number; height: number };
+  webglVendor?: string;
+  webglRenderer?: string;
+}
+
+const ALL_STRATEGIES: AntiBlockingStrategy[] = ['user_agent', 'client_hints', 'locale', 'human_delays', 'fingerprint'];
+const FINGERPRINT_OVERRIDES = ['screen', 'webglVendor', 'webglRenderer'] as const;
+const DEFAULT_MIN_DELAY_MS = 800;
+const DEFAULT_MAX_DELAY_MS = 2500;
 
 /**
- * Example MCP-compliant Anti-Blocking Tool
+ * MCP-compliant Anti-Blocking Tool
+ *
+ * Gives every URL a consistent browser identity from a rotating set of fingerprint
+ * profiles (user agent, client hints, screen, WebGL), a consistent locale (Accept-Language,
+ * browser locale, timezone) and a randomized pause before each request. The applied
+ * strategies are recorded in the result metadata under `antiBlocking`. Browser scrapers
+ * run Chromium, so they only receive Chromium profiles: Chromium's own client hints and
+ * navigator.userAgentData would give a Firefox or Safari user agent away.
  */
 export class AntiBlockingTool implements IAntiBlockingTool {
   static getMcpDefinition() {
     return {
       name: "anti_blocking_v1",
-      description: "IAntiBlockingTool: Applies anti-blocking strategies (rotating headers, delays, etc.) to requests.",
+      description: "IAntiBlockingTool: Applies anti-blocking strategies (rotating user agents and client hints, consistent locale and timezone, human-like delays, browser fingerprint overrides) to requests.",
       inputSchema: {
         type: "object",
         properties: {
-          context: { type: "object", description: "Execution context to modify (headers, timing, etc.)" }
+          context: { type: "object", description: "Execution context to modify (headers, timing, etc.)" },
+          strategies: {
+            type: "array",
+            items: { type: "string", enum: ALL_STRATEGIES },
+            description: "Strategies to apply (default: all): user_agent (browser scrapers only get Chromium profiles), client_hints (with user_agent, Chromium profiles only), locale, human_delays, fingerprint"
+          },
+          locale: { type: "string", description: "Locale presented to the site, e.g. 'de-DE' (default en-US); sets Accept-Language, browser locale and timezone" },
+          timezone_id: { type: "string", description: "IANA timezone overriding the one of the locale" },
+          min_delay_ms: { type: "number", description: "Minimum pause before each request (default 800)" },
+          max_delay_ms: { type: "number", description: "Maximum pause before each request (default 2500)" },
+          screen: { type: "object", description: "Screen size { width, height } overriding the profile's (fingerprint strategy, browser scrapers)" },
+          webglVendor: { type: "string", description: "Unmasked WebGL vendor overriding the profile's (fingerprint strategy, browser scrapers)" },
+          webglRenderer: { type: "string", description: "Unmasked WebGL renderer overriding the profile's (fingerprint strategy, browser scrapers)" }
         },
         required: ["context"]
       },
@@ -25,15 +62,102 @@ export class AntiBlockingTool implements IAntiBlockingTool {
   readonly toolId = 'anti_blocking_v1';
   readonly name = 'Anti-Blocking Tool';
   readonly description = 'Applies anti-blocking strategies to scraping requests.';
+  readonly capabilities: ToolCapabilities = { jsRendering: false, proxySupport: false, costTier: 'low' };
+
+  private params: AntiBlockingParams = {};
+  private strategies: AntiBlockingStrategy[] = ALL_STRATEGIES;
+
+  // random is injectable so profile rotation can be tested deterministically
+  constructor(private readonly random: () => number = Math.random) {}
+
+  async initialize(config: ToolConfiguration): Promise<void> {
+    const params = (config.parameters ?? {}) as AntiBlockingParams;
+    const strategies = params.strategies ?? ALL_STRATEGIES;
+    const unknown = strategies.filter(strategy => !ALL_STRATEGIES.includes(strategy));
+    if (unknown.length > 0) {
+      throw new Error(`[${this.toolId}] Unknown strategies: ${unknown.join(', ')}. Use ${ALL_STRATEGIES.join(', ')}.`);
+    }
+    // The overrides are part of the fingerprint; without that strategy they would be ignored
+    const overrides = FINGERPRINT_OVERRIDES.filter(key => params[key] !== undefined);
+    if (overrides.length > 0 && !strategies.includes('fingerprint')) {
+      throw new Error(`[${this.toolId}] ${overrides.join(', ')} require the fingerprint strategy.`);
+    }
+    const minDelay = params.min_delay_ms ?? DEFAULT_MIN_DELAY_MS;
+    const maxDelay = params.max_delay_ms ?? Math.max(minDelay, DEFAULT_MAX_DELAY_MS);
+    if (minDelay < 0 || maxDelay < minDelay) {
+      throw new Error(`[${this.toolId}] Invalid delay range ${minDelay}-${maxDelay}ms.`);
+    }
+
+    this.params = { ...params, min_delay_ms: minDelay, max_delay_ms: maxDelay };
+    this.strategies = [...new Set(strategies)];
+  }
+
+  async applyStrategies(context: ExecutionContext): Promise<void> {
+    const profiles = context.browser ? FINGERPRINT_PROFILES.filter(isChromiumProfile) : FINGERPRINT_PROFILES;
+    const profile = profiles[Math.floor(this.random() * profiles.length)];
+    const applied: AntiBlockingStrategy[] = [];
+    const uses = (strategy: AntiBlockingStrategy) => this.strategies.includes(strategy);
+
+    if (uses('user_agent')) {
+      context.fingerprint.userAgent = profile.userAgent;
+      applied.push('user_agent');
 
-  async initialize(_config: ToolConfiguration): Promise<void> {
-    // No-op for basic example
-    return Promise.resolve();
+      // Client hints must describe the same browser as the user agent
+      if (uses('client_hints') && Object.keys(profile.clientHints).length > 0) {
+        context.headers = { ...context.headers, ...profile.clientHints };
+        applied.push('client_hints');
+      }
+    }
+
+    let locale: string | undefined;
+    if (uses('locale')) {
+      const localeProfile = getLocaleProfile(this.params.locale ?? 'en-US', this.params.timezone_id);
+      locale = localeProfile.locale;
+      context.fingerprint.locale = localeProfile.locale;
+      context.fingerprint.timezoneId = localeProfile.timezoneId;
+      context.headers = { ...context.headers, 'Accept-Language': localeProfile.acceptLanguage };
+      applied.push('locale');
+    }
+
+    if (uses('human_delays')) {
+      context.delays = { minMs: this.params.min_delay_ms as number, maxMs: this.params.max_delay_ms as number };
+      applied.push('human_delays');
+    }
+
+    if (uses('fingerprint')) {
+      this.applyFingerprint(context, profile);
+      applied.push('fingerprint');
+    }
+
+    context.metadata.antiBlocking = {
+      strategies: applied,
+      ...(uses('user_agent') || uses('fingerprint') ? { profile: profile.id } : {}),
+      ...(locale ? { locale } : {})
+    };
+  }
+
+  async cleanup(): Promise<void> {
+    this.params = {};
+    this.strategies = ALL_STRATEGIES;
   }
 
-  async applyStrategies(context: any): Promise<void> {
-    // Example: add delay, rotate headers, etc. (replace with real logic)
-    context.headers = { ...context.headers, 'User-Agent': 'Custom-UA' };
-    await new Promise(resolve => setTimeout(resolve, 1000)); // 1s delay
+  /**
+   * Applies the profile's screen, viewport, platform and WebGL values; the package's
+   * screen and webgl overrides win over the profile
+   */
+  private applyFingerprint(context: ExecutionContext, profile: FingerprintProfile): void {
+    const screen = this.params.screen ?? profile.screen;
+    context.fingerprint = {
+      ...context.fingerprint,
+      screen,
+      viewport: {
+        width: Math.min(profile.viewport.width, screen.width),
+        height: Math.min(profile.viewport.height, screen.height)
+      },
+      deviceScaleFactor: profile.deviceScaleFactor,
+      platform: profile.platform,
+      webglVendor: this.params.webglVendor ?? profile.webglVendor,
+      webglRenderer: this.params.webglRenderer ?? profile.webglRenderer
+    };
   }
 }
@@ -0,0 +1,92 @@
+import { ICaptchaSolverTool, ToolCapabilities } from '../execution/tool.interface.js';
+import { ToolConfiguration } from '../../core/domain/configuration-package.types.js';
+import { CaptchaChallenge, CaptchaSolution, ICaptchaSolverProvider } from '../captcha/captcha.types.js';
+import { CaptchaProviderRegistry, captchaProviderRegistry } from '../captcha/captcha-provider.registry.js';
+
+interface CaptchaSolverParams {
+  provider?: string;
+  provider_options?: Record<string, unknown>;
+  timeout_ms?: number;
+}
+
+const DEFAULT_SOLVE_TIMEOUT_MS = 120000;
+
+/**
+ * MCP-compliant Captcha Solver Tool
+ *
+ * Solves the challenges the scrapers detect through a named provider of the captcha
+ * provider registry ('mock' solves locally for offline testing).
+ */
+export class CaptchaSolverTool implements ICaptchaSolverTool {
+  static getMcpDefinition() {
+    return {
+      name: "captcha_solver_v1",
+      description: "ICaptchaSolverTool: Solves captchas and bot challenges detected by the scrapers through a configurable solving provider.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          challenge: { type: "object", description: "Detected challenge { kind, signal, pageUrl, siteKey }" },
+          provider: { type: "string", description: "Name of the solving provider, e.g. 'mock' (local, for offline testing)" },
+          provider_options: { type: "object", description: "Provider-specific options (API key, mock outcome, ...)" },
+          timeout_ms: { type: "number", description: "Time limit of one solve (default 120000)" }
+        },
+        required: ["challenge", "provider"]
+      },
+      annotations: {
+        title: "Captcha Solver",
+        openWorldHint: true
+      }
+    };
+  }
+  readonly toolId = 'captcha_solver_v1';
+  readonly name = 'Captcha Solver Tool';
+  readonly description = 'Solves detected captchas through a pluggable solving provider.';
+  readonly capabilities: ToolCapabilities = { jsRendering: false, proxySupport: false, costTier: 'medium' };
+
+  private provider: ICaptchaSolverProvider | null = null;
+  private providerOptions: Record<string, unknown> = {};
+  private timeoutMs = DEFAULT_SOLVE_TIMEOUT_MS;
+
+  constructor(private readonly registry: CaptchaProviderRegistry = captchaProviderRegistry) {}
+
+  async initialize(config: ToolConfiguration): Promise<void> {
+    const params = (config.parameters ?? {}) as CaptchaSolverParams;
+    if (!params.provider) {
+      throw new Error(`[${this.toolId}] Missing required 'provider' parameter in configuration.`);
+    }
+    const provider = this.registry.get(params.provider);
+    if (!provider) {
+      throw new Error(`[${this.toolId}] Unknown captcha provider '${params.provider}'. Available: ${this.registry.listNames().join(', ')}.`);
+    }
+
+    this.provider = provider;
+    this.providerOptions = params.provider_options ?? {};
+    this.timeoutMs = params.timeout_ms ?? DEFAULT_SOLVE_TIMEOUT_MS;
+  }
+
+  async solveCaptcha(challenge: CaptchaChallenge): Promise<CaptchaSolution> {
+    if (!this.provider) {
+      throw new Error(`[${this.toolId}] Tool not initialized with a provider before use.`);
+    }
+
+    console.log(`[${this.toolId}] Solving ${challenge.kind} challenge on ${challenge.pageUrl} with provider '${this.provider.name}'...`);
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error(`Captcha provider '${this.provider?.name}' timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+    try {
+      const solution = await Promise.race([this.provider.solve(challenge, this.providerOptions), timeout]);
+      if (!solution.token && !solution.cookies?.length) {
+        throw new Error(`Captcha provider '${this.provider.name}' returned neither a token nor cookies`);
+      }
+      return solution;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.provider = null;
+    this.providerOptions = {};
+  }
+}
@@ -1,14 +1,32 @@
 import * as cheerio from 'cheerio';
-import { IScraperTool, ToolExecutionResult } from '../execution/tool.interface.js';
-import { UniversalConfigurationPackageFormatV1, ToolConfiguration } from '../../core/domain/configuration-package.types.js';
+import { IScraperTool, ToolCapabilities, ToolExecutionResult } from '../execution/tool.interface.js';
+import { UniversalConfigurationPackageFormat, ToolConfiguration, FieldExtractionSpec, PaginationConfig } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, resolveFieldSpecs, getSelectorCandidates, getReadMode, finalizeFieldValue, pickFields } from './field-extractor.js';
+import { PageVisit, ResolvedPagination, resolvePagination, collectPages } from './pagination.js';
+import { ExecutionContext } from '../execution/execution-context.js';
+import { CaptchaBlockedError } from '../captcha/captcha-detector.js';
+import { CaptchaReport } from '../captcha/captcha.types.js';
+import { loadHtml } from './html-loader.js';
+import { isStructuredDataField, parseStructuredData } from './structured-data.js';
+import { extractJsonRecord } from './json-extractor.js';
 
 interface FetchCheerioParams {
-  selectors: { [outputKey: string]: string }; // e.g., { title: 'h1', description: '.desc' }
-  attribute?: string; // Optional: 'text' (default), 'html', or specific attribute like 'href'
+  selectors?: { [outputKey: string]: string }; // 1.0: e.g., { title: 'h1', description: '.desc' }
+  attribute?: string; // 1.0: 'text' (default), 'html', or specific attribute like 'href'
+  fields?: { [outputKey: string]: FieldExtractionSpec }; // 2.0: per-field extraction specs
   baseUrl?: string; // Optional: Base URL for resolving relative links
   timeout_ms?: number; // Optional: Timeout in milliseconds
+  item_selector?: string; // Optional: List mode item container; selectors become relative to each item
+  max_items?: number; // Optional: Cap on records extracted in list mode
+  pagination?: PaginationConfig; // Optional: Follow the next pages of the target URL
 }
 
+// A loaded Cheerio document
+type CheerioDocument = ReturnType<typeof cheerio.load>;
+
+// A Cheerio selection (document root or a single matched element)
+type CheerioSelection = ReturnType<cheerio.CheerioAPI>;
+
 export class FetchCheerioScraper implements IScraperTool {
   /**
    * MCP-compliant tool definition for LLM discovery and developer clarity.
@@ -21,12 +39,16 @@ export class FetchCheerioScraper implements IScraperTool {
         type: "object",
         properties: {
           url: { type: "string", description: "Target URL to scrape" },
-          selectors: { type: "object", description: "Key-value pairs of output field and CSS selector" },
-          attribute: { type: "string", enum: ["text", "html"], description: "What to extract from selector (default: text)" },
+          selectors: { type: "object", description: "Key-value pairs of output field and CSS selector (package schema 1.0)" },
+          attribute: { type: "string", description: "What to extract from selector: 'text' (default), 'html' or an attribute name" },
+          fields: { type: "object", description: "Key-value pairs of output field and extraction spec { selector (string or fallback list), attribute, property, multiple, type, default } (package schema 2.0)" },
           baseUrl: { type: "string", description: "Optional base URL for resolving relative links" },
-          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" }
+          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" },
+          item_selector: { type: "string", description: "Optional CSS selector for repeated items (list pages). When set, returns one record per item and selectors are relative to each item." },
+          max_items: { type: "number", description: "Optional maximum number of items to extract in list mode" },
+          pagination: { type: "object", description: "Optional pagination { next_selector (link whose href is followed) or url_template (with a {page} placeholder) and start_page, max_pages (default 10), stop_selector, stop_on_empty (default true), delay_ms }. Records of all pages are returned as one list." }
         },
-        required: ["url", "selectors"]
+        required: ["url"]
       },
       annotations: {
         title: "Static HTML Scraper (Cheerio)",
@@ -37,6 +59,7 @@ export class FetchCheerioScraper implements IScraperTool {
   readonly toolId = 'scraper_fetch_cheerio_v1';
   readonly name = 'Fetch + Cheerio Scraper';
   readonly description = 'Fetches HTML using native fetch and extracts data using Cheerio selectors.';
+  readonly capabilities: ToolCapabilities = { jsRendering: false, proxySupport: true, costTier: 'low' };
   private config?: ToolConfiguration; // Store the config
   private logger = console; // Basic logger, replace with a proper one if needed
 
@@ -44,8 +67,8 @@ export class FetchCheerioScraper implements IScraperTool {
   async initialize(config: ToolConfiguration): Promise<void> {
     this.logger.info(`[${this.toolId}] Initializing with config:`, JSON.stringify(config.parameters, null, 2));
     // Basic validation (can be expanded)
-    if (!config.parameters?.selectors) {
-      throw new Error(`[${this.toolId}] Missing required 'selectors' parameter in configuration.`);
+    if (!config.parameters?.selectors && !config.parameters?.fields) {
+      throw new Error(`[${this.toolId}] Missing required 'selectors' or 'fields' parameter in configuration.`);
     }
     this.config = config;
     this.logger.info(`[${this.toolId}] Initialization complete.`);
@@ -53,7 +76,7 @@ export class FetchCheerioScraper implements IScraperTool {
     return Promise.resolve();
   }
 
-  async execute(targetUrl: string, _fullPackage: UniversalConfigurationPackageFormatV1): Promise<ToolExecutionResult> {
+  async execute(targetUrl: string, _fullPackage: UniversalConfigurationPackageFormat, context?: ExecutionContext): Promise<ToolExecutionResult> {
     this.logger.info(`[${this.toolId}] Executing for URL: ${targetUrl}`);
     if (!this.config || !this.config.parameters) {
         return { success: false, error: `[${this.toolId}] Tool not initialized with configuration before execution.`, data: undefined };
@@ -61,57 +84,248 @@ export class FetchCheerioScraper implements IScraperTool {
 
     // Use the stored config
     const params = this.config.parameters as FetchCheerioParams;
-    const selectors = params.selectors;
-    const attribute = params.attribute || 'text'; // Default to extracting text
+    const fields = resolveFieldSpecs(this.config.parameters); // Accepts 1.0 selectors or 2.0 fields
     const timeout = params.timeout_ms || 5000; // Default timeout
+    const pagination = resolvePagination(this.config.parameters);
+    const captchaReports: CaptchaReport[] = [];
+    const loadPage = (url: string) => loadHtml(url, {
+      timeout,
+      context,
+      captchaReports,
+      onChallenge: challenge => this.logger.warn(`[${this.toolId}] Detected a ${challenge.kind} challenge (${challenge.signal}) on ${url}.`)
+    });
 
     try {
-      this.logger.info(`[${this.toolId}] Fetching HTML from ${targetUrl}...`);
-      const html = await fetchHtml(targetUrl, timeout);
-      const $ = cheerio.load(html);
-      this.logger.info(`[${this.toolId}] HTML loaded. Extracting data...`);
-
-      const extractedData: { [key: string]: any } = {};
-      let extractionError: string | undefined;
-
-      for (const key in selectors) {
-        const selector = selectors[key];
-        try {
-          const element = $(selector);
-          if (element.length > 0) {
-            if (attribute === 'text') {
-              extractedData[key] = element.first().text().trim();
-            } else if (attribute === 'html') {
-               extractedData[key] = element.first().html()?.trim();
-            } else {
-              extractedData[key] = element.first().attr(attribute);
-            }
-             this.logger.info(`[${this.toolId}] Extracted '${key}' using selector '${selector}': ${extractedData[key] ? String(extractedData[key]).substring(0, 50) + '...' : 'null'}`);
-          } else {
-            this.logger.warn(`[${this.toolId}] Selector '${selector}' for key '${key}' did not match any elements.`);
-            extractedData[key] = null; // Or handle as needed
+      const result = await this.scrape(targetUrl, params, fields, pagination, loadPage);
+      // Report the solved challenges of the pages
+      return captchaReports.length > 0
+        ? { ...result, metadata: { ...result.metadata, captcha: captchaReports[captchaReports.length - 1] } }
+        : result;
+    } catch (error: any) {
+      if (error instanceof CaptchaBlockedError) {
+        this.logger.warn(`[${this.toolId}] ${error.message}`);
+        return { success: false, blocked: 'captcha', error: `[${this.toolId}] ${error.message}`, data: undefined, metadata: { captcha: error.report } };
+      }
+      const errorMsg = `[${this.toolId}] Failed to execute for ${targetUrl}: ${error.message}`;
+      this.logger.error(errorMsg);
+      return { success: false, error: errorMsg, data: undefined };
+    }
+  }
+
+  /**
+   * Scrapes the target URL (and its following pages) with the given page loader
+   */
+  private async scrape(
+    targetUrl: string,
+    params: FetchCheerioParams,
+    fields: { [outputKey: string]: FieldExtractionSpec },
+    pagination: ResolvedPagination | undefined,
+    loadPage: (url: string) => Promise<string>
+  ): Promise<ToolExecutionResult> {
+    // Pagination: scrape the following pages too and return the records of all pages
+    if (pagination) {
+      return await this.executePaginated(targetUrl, params, fields, pagination, loadPage);
+    }
+
+    this.logger.info(`[${this.toolId}] Fetching HTML from ${targetUrl}...`);
+    const html = await loadPage(targetUrl);
+    const $ = cheerio.load(html);
+    this.logger.info(`[${this.toolId}] HTML loaded. Extracting data...`);
+    const structured = this.extractStructuredData($, targetUrl, fields);
+
+    // List mode: one record per item container, selectors resolved relative to each item
+    if (params.item_selector) {
+      const { records: itemRecords, error: itemError } = this.extractItems($, params, fields);
+      const records = itemRecords.map(record => ({ ...record, ...structured.data }));
+      const listError = itemError ?? structured.error;
+
+      if (listError) {
+        return { success: false, error: `[${this.toolId}] Extraction partially failed: ${listError}`, data: records };
+      }
+
+      this.logger.info(`[${this.toolId}] Extraction successful for ${targetUrl} (${records.length} records).`);
+      return { success: true, data: records, metadata: { itemCount: records.length } };
+    }
+
+    const { data: domData, error: domError } = this.extractRecord($.root(), fields);
+    const extractedData = { ...domData, ...structured.data };
+    const extractionError = domError ?? structured.error;
+
+    if (extractionError) {
+        // If any selector failed, consider the overall result a partial failure but still return data
+        return { success: false, error: `[${this.toolId}] Extraction partially failed: ${extractionError}`, data: extractedData };
+    }
+
+    this.logger.info(`[${this.toolId}] Extraction successful for ${targetUrl}.`);
+    return { success: true, data: extractedData };
+  }
+
+  /**
+   * Scrapes the target URL and its following pages, returning the records of all pages
+   * as one list. The first extraction error of any page marks the result as a partial failure.
+   */
+  private async executePaginated(
+    targetUrl: string,
+    params: FetchCheerioParams,
+    fields: { [outputKey: string]: FieldExtractionSpec },
+    pagination: ResolvedPagination,
+    loadPage: (url: string) => Promise<string>
+  ): Promise<ToolExecutionResult> {
+    if (pagination.load_more_selector) {
+      this.logger.warn(`[${this.toolId}] 'load_more_selector' requires JavaScript and is ignored by this scraper.`);
+    }
+
+    const { records, errors, metadata } = await collectPages(targetUrl, pagination, async (url, pageIndex) => {
+      this.logger.info(`[${this.toolId}] Fetching page ${pageIndex + 1} from ${url}...`);
+      const $ = cheerio.load(await loadPage(url));
+      return this.extractPage($, url, params, fields, pagination);
+    });
+
+    this.logger.info(`[${this.toolId}] Pagination stopped after ${metadata.pagesScraped} pages (${metadata.stopReason}), ${records.length} records.`);
+    const resultMetadata = { itemCount: records.length, pagination: metadata };
+
+    if (errors.length > 0) {
+      return { success: false, error: `[${this.toolId}] Extraction partially failed: ${errors[0]}`, data: records, metadata: resultMetadata };
+    }
+    return { success: true, data: records, metadata: resultMetadata };
+  }
+
+  /**
+   * Extracts the records of one page and reads its pagination links
+   */
+  private extractPage(
+    $: CheerioDocument,
+    pageUrl: string,
+    params: FetchCheerioParams,
+    fields: { [outputKey: string]: FieldExtractionSpec },
+    pagination: ResolvedPagination
+  ): PageVisit {
+    let records: ExtractedRecord[];
+    let error: string | undefined;
+    if (params.item_selector) {
+      ({ records, error } = this.extractItems($, params, fields));
+    } else {
+      const { data, error: recordError } = this.extractRecord($.root(), fields);
+      records = [data];
+      error = recordError;
+    }
+    const structured = this.extractStructuredData($, pageUrl, fields);
+    records = records.map(record => ({ ...record, ...structured.data }));
+    error = error ?? structured.error;
+
+    return {
+      records,
+      error,
+      nextHref: pagination.next_selector ? $(pagination.next_selector).first().attr('href') ?? null : null,
+      stopMatched: pagination.stop_selector ? $(pagination.stop_selector).length > 0 : false
+    };
+  }
+
+  /**
+   * Extracts one record per element matching item_selector (list mode)
+   */
+  private extractItems(
+    $: CheerioDocument,
+    params: FetchCheerioParams,
+    fields: { [outputKey: string]: FieldExtractionSpec }
+  ): { records: ExtractedRecord[]; error?: string } {
+    let items = $(params.item_selector).toArray().map(el => $(el));
+    if (params.max_items && params.max_items > 0) {
+      items = items.slice(0, params.max_items);
+    }
+    this.logger.info(`[${this.toolId}] List mode: '${params.item_selector}' matched ${items.length} items.`);
+
+    const records: ExtractedRecord[] = [];
+    let listError: string | undefined;
+    for (const item of items) {
+      const { data, error } = this.extractRecord(item, fields);
+      records.push(data);
+      if (error && !listError) listError = error;
+    }
+    return { records, error: listError };
+  }
+
+  /**
+   * Extracts one record by resolving each field spec within the given scope
+   * (the document root in single mode, an item container in list mode).
+   * Fallback selectors are tried in order; the first one that matches wins.
+   * Returns the first extraction error encountered, if any, alongside the data.
+   */
+  private extractRecord(
+    scope: CheerioSelection,
+    fields: { [outputKey: string]: FieldExtractionSpec }
+  ): { data: ExtractedRecord; error?: string } {
+    const extractedData: ExtractedRecord = {};
+    let extractionError: string | undefined;
+
+    for (const key in fields) {
+      const spec = fields[key];
+      if (isStructuredDataField(spec)) {
+        continue; // Read from the page's structured data by extractStructuredData
+      }
+      const candidates = getSelectorCandidates(spec);
+      try {
+        const selector = candidates.find(candidate => scope.find(candidate).length > 0);
+        if (selector) {
+          const matches = scope.find(selector);
+          const count = spec.multiple ? matches.length : 1;
+          const rawValues: unknown[] = [];
+          for (let i = 0; i < count; i++) {
+            rawValues.push(this.readValue(matches.eq(i), spec));
           }
-        } catch (err: any) {
-          const errorMsg = `Error extracting data for key '${key}' with selector '${selector}': ${err.message}`;
-          this.logger.error(`[${this.toolId}] ${errorMsg}`);
-          // Capture the first error, but continue trying other selectors
-          if (!extractionError) extractionError = errorMsg;
-          extractedData[key] = null;
+          extractedData[key] = finalizeFieldValue(spec, rawValues);
+           this.logger.info(`[${this.toolId}] Extracted '${key}' using selector '${selector}': ${extractedData[key] !== null ? String(extractedData[key]).substring(0, 50) + '...' : 'null'}`);
+        } else {
+          this.logger.warn(`[${this.toolId}] Selector '${candidates.join("', '")}' for key '${key}' did not match any elements.`);
+          extractedData[key] = finalizeFieldValue(spec, []);
         }
+      } catch (err: any) {
+        const errorMsg = `Error extracting data for key '${key}' with selector '${candidates.join("', '")}': ${err.message}`;
+        this.logger.error(`[${this.toolId}] ${errorMsg}`);
+        // Capture the first error, but continue trying other selectors
+        if (!extractionError) extractionError = errorMsg;
+        extractedData[key] = spec.default ?? null;
       }
+    }
 
-      if (extractionError) {
-          // If any selector failed, consider the overall result a partial failure but still return data
-          return { success: false, error: `[${this.toolId}] Extraction partially failed: ${extractionError}`, data: extractedData };
-      }
+    return { data: extractedData, error: extractionError };
+  }
 
-      this.logger.info(`[${this.toolId}] Extraction successful for ${targetUrl}.`);
-      return { success: true, data: extractedData };
+  /**
+   * Extracts the fields with source 'structured_data' from the page's JSON-LD, microdata,
+   * RDFa and OpenGraph/Twitter data. The page is only parsed when such fields exist.
+   */
+  private extractStructuredData(
+    $: CheerioDocument,
+    pageUrl: string,
+    fields: { [outputKey: string]: FieldExtractionSpec }
+  ): { data: ExtractedRecord; error?: string } {
+    const structuredFields = pickFields(fields, isStructuredDataField);
+    if (Object.keys(structuredFields).length === 0) {
+      return { data: {} };
+    }
 
-    } catch (error: any) {
-      const errorMsg = `[${this.toolId}] Failed to execute for ${targetUrl}: ${error.message}`;
-      this.logger.error(errorMsg);
-      return { success: false, error: errorMsg, data: undefined };
+    const { data, error, unmatched } = extractJsonRecord(parseStructuredData($.html(), pageUrl), structuredFields);
+    for (const key of unmatched) {
+      this.logger.warn(`[${this.toolId}] JSONPath '${getSelectorCandidates(structuredFields[key]).join("', '")}' for key '${key}' did not match any structured data.`);
+    }
+    return { data, error };
+  }
+
+  /**
+   * Reads the raw value of a single matched element according to the field spec
+   */
+  private readValue(element: CheerioSelection, spec: FieldExtractionSpec): unknown {
+    const mode = getReadMode(spec);
+    switch (mode.kind) {
+      case 'text':
+        return element.text().trim();
+      case 'html':
+        return element.html()?.trim() ?? null;
+      case 'property':
+        return element.prop(mode.name);
+      case 'attribute':
+        return element.attr(mode.name) ?? null;
     }
   }
 
@@ -123,30 +337,3 @@ export class FetchCheerioScraper implements IScraperTool {
     return Promise.resolve();
   }
 }
-
-// Helper function to fetch HTML
-async function fetchHtml(url: string, timeout: number): Promise<string> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-      },
-    });
-
-    clearTimeout(timeoutId); // Clear timeout if fetch succeeded
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-
-    return await response.text();
-  } catch (error: any) {
-    throw error;
-  }
-}
@@ -0,0 +1,154 @@
+/**
+ * Field Extraction Helpers
+ *
+ * Shared by the scraper tools: normalizes 1.0/2.0 scraper parameters into
+ * per-field extraction specs and converts raw values read from the DOM into
+ * typed field values. Each scraper resolves selectors with its own DOM API.
+ */
+
+import {
+  FieldExtractionSpec,
+  FieldOutputType,
+  FieldValue,
+  ToolConfiguration
+} from '../../core/domain/configuration-package.types.js';
+import { packageUpgradeService } from '../../core/services/package-upgrade.service.js';
+import { postProcessingService } from '../../core/services/post-processing.service.js';
+
+/**
+ * Value of one extracted field (an array for multi-valued fields)
+ */
+export type ExtractedFieldValue = FieldValue | FieldValue[];
+
+/**
+ * One extracted record: output key to extracted value
+ */
+export type ExtractedRecord = { [outputKey: string]: ExtractedFieldValue };
+
+/**
+ * What a scraper should read from a matched element
+ */
+export type FieldReadMode =
+  | { kind: 'text' }
+  | { kind: 'html' }
+  | { kind: 'attribute'; name: string }
+  | { kind: 'property'; name: string };
+
+/**
+ * Resolves the field specs for a scraper configuration, accepting both
+ * 1.0 (`selectors` + `attribute`) and 2.0 (`fields`) parameters.
+ *
+ * @param parameters - The scraper tool parameters
+ * @param defaultAttribute - Attribute used when neither the spec nor the package sets one
+ */
+export function resolveFieldSpecs(
+  parameters: ToolConfiguration['parameters'],
+  defaultAttribute: string = 'text'
+): { [outputKey: string]: FieldExtractionSpec } {
+  const { fields } = packageUpgradeService.upgradeScraperParameters(
+    parameters as Parameters<typeof packageUpgradeService.upgradeScraperParameters>[0]
+  );
+
+  const resolved: { [outputKey: string]: FieldExtractionSpec } = {};
+  for (const key of Object.keys(fields)) {
+    const spec = fields[key];
+    resolved[key] = spec.attribute || spec.property ? spec : { ...spec, attribute: defaultAttribute };
+  }
+  return resolved;
+}
+
+/**
+ * Returns the ordered selector candidates for a field spec
+ */
+export function getSelectorCandidates(spec: FieldExtractionSpec): string[] {
+  return (Array.isArray(spec.selector) ? spec.selector : [spec.selector]).filter(s => !!s);
+}
+
+/**
+ * Returns the field specs accepted by the predicate (e.g. the fields of one source)
+ */
+export function pickFields(
+  fields: { [outputKey: string]: FieldExtractionSpec },
+  predicate: (spec: FieldExtractionSpec) => boolean
+): { [outputKey: string]: FieldExtractionSpec } {
+  return Object.fromEntries(Object.entries(fields).filter(([, spec]) => predicate(spec)));
+}
+
+/**
+ * Determines what to read from a matched element for a field spec.
+ * 'innerText'/'innerHTML' are accepted as aliases for 'text'/'html'.
+ */
+export function getReadMode(spec: FieldExtractionSpec): FieldReadMode {
+  if (spec.property) {
+    return { kind: 'property', name: spec.property };
+  }
+  const attribute = spec.attribute || 'text';
+  switch (attribute.toLowerCase()) {
+    case 'text':
+    case 'innertext':
+    case 'textcontent':
+      return { kind: 'text' };
+    case 'html':
+    case 'innerhtml':
+      return { kind: 'html' };
+    default:
+      return { kind: 'attribute', name: attribute };
+  }
+}
+
+/**
+ * Converts a raw value read from the DOM into the declared output type.
+ * Returns null when the value is missing or cannot be converted.
+ *
+ * @param raw - Raw value (string for text/attributes, any primitive for properties)
+ * @param type - Declared output type (default: 'string')
+ */
+export function convertFieldValue(raw: unknown, type: FieldOutputType = 'string'): FieldValue {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      if (typeof raw === 'number') {
+        return type === 'integer' ? Math.trunc(raw) : raw;
+      }
+      // Same parsing as the number transform: "$12.99", "1.234,50 €", "1,234"
+      const parsed = postProcessingService.parseNumber(String(raw));
+      if (parsed === null) return null;
+      return type === 'integer' ? Math.trunc(parsed) : parsed;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const text = String(raw).trim().toLowerCase();
+      if (['true', '1', 'yes', 'on'].includes(text)) return true;
+      if (['false', '0', 'no', 'off', ''].includes(text)) return false;
+      return null;
+    }
+    case 'string':
+    default:
+      return typeof raw === 'string' ? raw.trim() : String(raw);
+  }
+}
+
+/**
+ * Builds the final value of a field from the raw values read for it, applying
+ * conversion, multi-value handling and the spec's default.
+ *
+ * @param spec - The field's extraction spec
+ * @param rawValues - Raw values of all matched elements (empty when nothing matched)
+ */
+export function finalizeFieldValue(spec: FieldExtractionSpec, rawValues: unknown[]): ExtractedFieldValue {
+  const fallback = spec.default ?? null;
+
+  if (spec.multiple) {
+    const values = rawValues.map(raw => convertFieldValue(raw, spec.type) ?? fallback);
+    return values.length > 0 ? values : (spec.default !== undefined ? [spec.default] : []);
+  }
+
+  if (rawValues.length === 0) {
+    return fallback;
+  }
+  return convertFieldValue(rawValues[0], spec.type) ?? fallback;
+}
@@ -0,0 +1,131 @@
+/**
+ * Fingerprint Profiles
+ *
+ * Consistent browser identities for the anti-blocking tool: each profile pairs a user
+ * agent with the client hints, platform, screen and WebGL values a real installation of
+ * that browser reports, so the headers and the page-visible properties agree.
+ */
+
+export type BrowserFamily = 'chrome' | 'edge' | 'firefox' | 'safari';
+
+export interface FingerprintProfile {
+  id: string;
+  browser: BrowserFamily;
+  userAgent: string;
+  clientHints: Record<string, string>; // Sec-CH-UA headers; only Chromium browsers send them
+  platform: string; // navigator.platform
+  viewport: { width: number; height: number };
+  screen: { width: number; height: number };
+  deviceScaleFactor: number;
+  webglVendor: string;
+  webglRenderer: string;
+}
+
+/**
+ * Locale settings that belong together: Accept-Language and the browser timezone
+ */
+export interface LocaleProfile {
+  locale: string;
+  acceptLanguage: string;
+  timezoneId: string;
+}
+
+const chromiumHints = (brand: string, version: string, platform: string): Record<string, string> => ({
+  'Sec-CH-UA': `"${brand}";v="${version}", "Chromium";v="${version}", "Not_A Brand";v="24"`,
+  'Sec-CH-UA-Mobile': '?0',
+  'Sec-CH-UA-Platform': `"${platform}"`
+});
+
+export const FINGERPRINT_PROFILES: FingerprintProfile[] = [
+  {
+    id: 'chrome-windows',
+    browser: 'chrome',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    clientHints: chromiumHints('Google Chrome', '124', 'Windows'),
+    platform: 'Win32',
+    viewport: { width: 1536, height: 730 },
+    screen: { width: 1536, height: 864 },
+    deviceScaleFactor: 1.25,
+    webglVendor: 'Google Inc. (NVIDIA)',
+    webglRenderer: 'ANGLE (NVIDIA, NVIDIA GeForce GTX 1660 SUPER Direct3D11 vs_5_0 ps_5_0, D3D11)'
+  },
+  {
+    id: 'chrome-macos',
+    browser: 'chrome',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    clientHints: chromiumHints('Google Chrome', '124', 'macOS'),
+    platform: 'MacIntel',
+    viewport: { width: 1440, height: 789 },
+    screen: { width: 1440, height: 900 },
+    deviceScaleFactor: 2,
+    webglVendor: 'Google Inc. (Apple)',
+    webglRenderer: 'ANGLE (Apple, Apple M1, OpenGL 4.1)'
+  },
+  {
+    id: 'edge-windows',
+    browser: 'edge',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0',
+    clientHints: chromiumHints('Microsoft Edge', '124', 'Windows'),
+    platform: 'Win32',
+    viewport: { width: 1920, height: 947 },
+    screen: { width: 1920, height: 1080 },
+    deviceScaleFactor: 1,
+    webglVendor: 'Google Inc. (Intel)',
+    webglRenderer: 'ANGLE (Intel, Intel(R) UHD Graphics 620 Direct3D11 vs_5_0 ps_5_0, D3D11)'
+  },
+  {
+    id: 'firefox-windows',
+    browser: 'firefox',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:125.0) Gecko/20100101 Firefox/125.0',
+    clientHints: {},
+    platform: 'Win32',
+    viewport: { width: 1366, height: 657 },
+    screen: { width: 1366, height: 768 },
+    deviceScaleFactor: 1,
+    webglVendor: 'Mozilla',
+    webglRenderer: 'Mozilla'
+  },
+  {
+    id: 'safari-macos',
+    browser: 'safari',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+    clientHints: {},
+    platform: 'MacIntel',
+    viewport: { width: 1512, height: 823 },
+    screen: { width: 1512, height: 982 },
+    deviceScaleFactor: 2,
+    webglVendor: 'Apple Inc.',
+    webglRenderer: 'Apple GPU'
+  }
+];
+
+/**
+ * Whether a profile describes a Chromium browser, which sends client hints and
+ * exposes navigator.userAgentData
+ */
+export function isChromiumProfile(profile: FingerprintProfile): boolean {
+  return profile.browser === 'chrome' || profile.browser === 'edge';
+}
+
+export const LOCALE_PROFILES: LocaleProfile[] = [
+  { locale: 'en-US', acceptLanguage: 'en-US,en;q=0.9', timezoneId: 'America/New_York' },
+  { locale: 'en-GB', acceptLanguage: 'en-GB,en;q=0.9', timezoneId: 'Europe/London' },
+  { locale: 'de-DE', acceptLanguage: 'de-DE,de;q=0.9,en;q=0.8', timezoneId: 'Europe/Berlin' },
+  { locale: 'fr-FR', acceptLanguage: 'fr-FR,fr;q=0.9,en;q=0.8', timezoneId: 'Europe/Paris' },
+  { locale: 'es-ES', acceptLanguage: 'es-ES,es;q=0.9,en;q=0.8', timezoneId: 'Europe/Madrid' },
+  { locale: 'ja-JP', acceptLanguage: 'ja-JP,ja;q=0.9,en;q=0.8', timezoneId: 'Asia/Tokyo' }
+];
+
+/**
+ * Returns the locale profile of a locale, deriving one for locales without a profile
+ */
+export function getLocaleProfile(locale: string, timezoneId?: string): LocaleProfile {
+  const known = LOCALE_PROFILES.find(profile => profile.locale.toLowerCase() === locale.toLowerCase());
+  const language = locale.split('-')[0];
+  const profile = known ?? {
+    locale,
+    acceptLanguage: language === locale || language === 'en' ? `${locale},en;q=0.9` : `${locale},${language};q=0.9,en;q=0.8`,
+    timezoneId: 'UTC'
+  };
+  return timezoneId ? { ...profile, timezoneId } : profile;
+}
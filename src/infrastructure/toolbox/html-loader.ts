@@ -0,0 +1,112 @@
+/**
+ * HTML Loader
+ *
+ * Shared by the scrapers that fetch static HTML: requests a page through the execution
+ * context (proxy, headers, cookies, delay) and hands a captcha or bot challenge found in
+ * it to the context's solver, retrying with the solution's clearance cookies.
+ */
+
+import { fetch as proxiedFetch, ProxyAgent } from 'undici';
+import { ExecutionContext, buildRequestHeaders, waitBeforeRequest } from '../execution/execution-context.js';
+import { detectCaptcha, resolveCaptcha } from '../captcha/captcha-detector.js';
+import { CaptchaChallenge, CaptchaReport } from '../captcha/captcha.types.js';
+
+const DEFAULT_REQUEST_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export interface HtmlLoadOptions {
+  timeout: number; // Request timeout in milliseconds
+  context?: ExecutionContext;
+  captchaReports: CaptchaReport[]; // Receives the report of each challenge solved on the way
+  onChallenge?: (challenge: CaptchaChallenge) => void; // Called when a challenge is detected
+}
+
+/**
+ * A fetched page
+ */
+export interface HtmlPage {
+  html: string;
+  url: string; // Final URL after redirects
+  contentType: string; // Content-Type header ('' when missing)
+}
+
+interface FetchedPage extends HtmlPage {
+  ok: boolean;
+  status: number;
+}
+
+/**
+ * Fetches a page through the execution context. A captcha or bot challenge is handed
+ * to the context's solver; its clearance cookies are used to fetch the page again.
+ * @throws CaptchaBlockedError when the page stays behind a challenge
+ * @throws Error when the page cannot be fetched or responds with an error status
+ */
+export async function loadHtml(url: string, options: HtmlLoadOptions): Promise<string> {
+  return (await loadHtmlPage(url, options)).html;
+}
+
+/**
+ * Like loadHtml, but also returns the final URL and the content type of the page
+ */
+export async function loadHtmlPage(url: string, options: HtmlLoadOptions): Promise<HtmlPage> {
+  const { timeout, context, captchaReports } = options;
+  let page = await fetchPage(url, timeout, context);
+
+  const challenge = detectCaptcha(page.html, url, page.status);
+  if (challenge) {
+    options.onChallenge?.(challenge);
+    captchaReports.push(await resolveCaptcha(challenge, context, async solution => {
+      // A token has to be submitted by the page's own scripts, which only a browser runs
+      if (!solution.cookies?.length) {
+        throw new Error('the solution has no clearance cookies to retry the request with; use a browser scraper for token solutions');
+      }
+      const solvedContext = context as ExecutionContext;
+      solvedContext.cookies.push(...solution.cookies);
+      if (solution.userAgent) {
+        solvedContext.fingerprint.userAgent = solution.userAgent; // Clearance cookies are bound to the solver's user agent
+      }
+      page = await fetchPage(url, timeout, solvedContext);
+      return detectCaptcha(page.html, url, page.status);
+    }));
+  }
+
+  if (!page.ok) {
+    throw new Error(`HTTP error! Status: ${page.status}`);
+  }
+  return { html: page.html, url: page.url, contentType: page.contentType };
+}
+
+// Helper function to fetch a page, applying the proxy, headers, cookies and delay of the execution context
+async function fetchPage(url: string, timeout: number, context?: ExecutionContext): Promise<FetchedPage> {
+  await waitBeforeRequest(context);
+
+  const proxyUrl = context?.proxyUrl;
+  if (proxyUrl && !/^https?:/i.test(proxyUrl)) {
+    throw new Error(`Unsupported proxy ${proxyUrl.split(':')[0]} protocol: use an http(s) proxy or the Playwright scraper.`);
+  }
+  const headers = buildRequestHeaders(DEFAULT_REQUEST_HEADERS, url, context);
+  const dispatcher = proxyUrl ? new ProxyAgent(proxyUrl) : undefined;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = dispatcher
+      ? await proxiedFetch(url, { signal: controller.signal, headers, dispatcher })
+      : await fetch(url, { signal: controller.signal, headers });
+
+    // Error pages are read too: a 403 may be a captcha challenge
+    return {
+      ok: response.ok,
+      status: response.status,
+      html: await response.text(),
+      url: response.url || url,
+      contentType: response.headers?.get('content-type') || ''
+    };
+  } finally {
+    clearTimeout(timeoutId);
+    await dispatcher?.close();
+  }
+}
@@ -0,0 +1,182 @@
+import * as cheerio from 'cheerio';
+import { IScraperTool, ToolCapabilities, ToolExecutionResult } from '../execution/tool.interface.js';
+import { UniversalConfigurationPackageFormat, ToolConfiguration, FieldExtractionSpec } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, resolveFieldSpecs, getSelectorCandidates } from './field-extractor.js';
+import { HtmlTable, TableOrientation, readTable, tableToRecords, extractTableRecords, findColumns } from './html-table.js';
+import { ExecutionContext } from '../execution/execution-context.js';
+import { CaptchaBlockedError } from '../captcha/captcha-detector.js';
+import { CaptchaReport } from '../captcha/captcha.types.js';
+import { loadHtml } from './html-loader.js';
+
+interface HtmlTableParams {
+  selectors?: { [outputKey: string]: string }; // 1.0: output key to column header
+  fields?: { [outputKey: string]: FieldExtractionSpec }; // 2.0: per-field specs whose selectors name column headers
+  table_selector?: string; // Optional: CSS selector of the table, or of an element containing it (default: 'table')
+  table_index?: number; // Optional: Which of the matched tables to read (default: 0)
+  all_tables?: boolean; // Optional: Read every matched table instead of one
+  header_rows?: number; // Optional: Header rows (header columns with orientation 'columns'); detected when omitted
+  orientation?: TableOrientation; // Optional: 'rows', 'columns' (key-value spec sheets) or 'auto' (default)
+  header_separator?: string; // Optional: Joins multi-row headers (default: ' / ')
+  max_items?: number; // Optional: Cap on the records of a page
+  timeout_ms?: number; // Optional: Timeout in milliseconds
+}
+
+const ORIENTATIONS: TableOrientation[] = ['auto', 'rows', 'columns'];
+
+/**
+ * MCP-compliant HTML Table Scraper
+ *
+ * Turns <table> elements (data tables, spec sheets) into one record per row, keyed by
+ * the header text of each column. Spanning cells are repeated in every row and column
+ * they cover, multi-row headers are joined, and key-value spec sheets are read by
+ * columns. With fields, each selector names the column a field is read from.
+ */
+export class HtmlTableScraper implements IScraperTool {
+  static getMcpDefinition() {
+    return {
+      name: "scraper_html_table_v1",
+      description: "IScraperTool: Extracts HTML tables (data tables, spec sheets) into records keyed by column header. Detects header rows (thead, th rows), expands colspan/rowspan, joins multi-row headers ('Dimensions / Width') and reads key-value spec sheets with a th column as one record per value column.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "Target URL to scrape" },
+          table_selector: { type: "string", description: "Optional CSS selector of the table, or of an element containing it (default: 'table')" },
+          table_index: { type: "number", description: "Optional index of the matched table to read (default: 0)" },
+          all_tables: { type: "boolean", description: "Optional: read every matched table and concatenate their records" },
+          header_rows: { type: "number", description: "Optional number of header rows (header columns with orientation 'columns'); detected from thead and th cells when omitted" },
+          orientation: { type: "string", enum: ORIENTATIONS, description: "Optional: 'rows' (headers on top), 'columns' (headers in the leading column, e.g. spec sheets) or 'auto' (default)" },
+          header_separator: { type: "string", description: "Optional separator joining the headers of multi-row headers (default: ' / ')" },
+          selectors: { type: "object", description: "Optional key-value pairs of output field and column header (package schema 1.0)" },
+          fields: { type: "object", description: "Optional key-value pairs of output field and extraction spec { selector (column header text or fallback list; '/pattern/i' for a regular expression), attribute ('text', 'html' or an attribute such as 'href' read from the cell or its first descendant carrying it), multiple (every matching column), type, default } (package schema 2.0). Headers are compared case-insensitively; 'Width' also names 'Dimensions / Width'. Empty or omitted: every column is returned keyed by its header ('column_1' without header)." },
+          max_items: { type: "number", description: "Optional maximum number of records per page" },
+          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" }
+        },
+        required: ["url"]
+      },
+      annotations: {
+        title: "HTML Table Scraper (headers, colspan/rowspan, spec sheets)",
+        openWorldHint: true
+      }
+    };
+  }
+  readonly toolId = 'scraper_html_table_v1';
+  readonly name = 'HTML Table Scraper';
+  readonly description = 'Extracts HTML tables and spec sheets into records keyed by column header.';
+  readonly capabilities: ToolCapabilities = { jsRendering: false, proxySupport: true, costTier: 'low' };
+  private config?: ToolConfiguration;
+  private logger = console;
+
+  async initialize(config: ToolConfiguration): Promise<void> {
+    this.logger.info(`[${this.toolId}] Initializing with config:`, JSON.stringify(config.parameters, null, 2));
+    const params = (config.parameters ?? {}) as HtmlTableParams;
+    if (params.orientation !== undefined && !ORIENTATIONS.includes(params.orientation)) {
+      throw new Error(`[${this.toolId}] Unsupported orientation '${params.orientation}'. Use ${ORIENTATIONS.join(', ')}.`);
+    }
+    for (const key of ['table_index', 'header_rows'] as const) {
+      const value = params[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`[${this.toolId}] '${key}' must be a non-negative integer.`);
+      }
+    }
+    if (hasFields(params)) {
+      try {
+        Object.values(resolveFieldSpecs(config.parameters)).flatMap(getSelectorCandidates).forEach(selector => findColumns([], selector));
+      } catch (error) {
+        throw new Error(`[${this.toolId}] ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    this.config = { ...config, parameters: config.parameters ?? {} };
+    this.logger.info(`[${this.toolId}] Initialization complete.`);
+  }
+
+  async execute(targetUrl: string, _fullPackage: UniversalConfigurationPackageFormat, context?: ExecutionContext): Promise<ToolExecutionResult> {
+    this.logger.info(`[${this.toolId}] Executing for URL: ${targetUrl}`);
+    if (!this.config) {
+      return { success: false, error: `[${this.toolId}] Tool not initialized with configuration before execution.`, data: undefined };
+    }
+
+    const params = this.config.parameters as HtmlTableParams;
+    const captchaReports: CaptchaReport[] = [];
+
+    try {
+      const html = await loadHtml(targetUrl, {
+        timeout: params.timeout_ms || 5000,
+        context,
+        captchaReports,
+        onChallenge: challenge => this.logger.warn(`[${this.toolId}] Detected a ${challenge.kind} challenge (${challenge.signal}) on ${targetUrl}.`)
+      });
+      const $ = cheerio.load(html);
+      const captcha = captchaReports.length > 0 ? { captcha: captchaReports[captchaReports.length - 1] } : {};
+
+      const tables = this.selectTables($, params);
+      if (tables.length === 0) {
+        const errorMsg = `[${this.toolId}] No table matched '${params.table_selector || 'table'}'${params.table_index ? ` at index ${params.table_index}` : ''} on ${targetUrl}.`;
+        this.logger.warn(errorMsg);
+        return { success: false, error: errorMsg, data: undefined, metadata: { ...captcha } };
+      }
+
+      const fields = hasFields(params) ? resolveFieldSpecs(this.config.parameters) : undefined;
+      let records: ExtractedRecord[] = [];
+      tables.forEach((table, index) => records.push(...this.extractRecords(table, index, fields)));
+      if (params.max_items && params.max_items > 0) {
+        records = records.slice(0, params.max_items);
+      }
+
+      const metadata = {
+        itemCount: records.length,
+        tables: tables.map(table => ({ columns: table.columns.map(column => column.name), rows: table.rows.length, transposed: table.transposed })),
+        ...captcha
+      };
+      this.logger.info(`[${this.toolId}] Extraction successful for ${targetUrl}: ${records.length} records from ${tables.length} table(s).`);
+      return { success: true, data: records, metadata };
+    } catch (error) {
+      if (error instanceof CaptchaBlockedError) {
+        this.logger.warn(`[${this.toolId}] ${error.message}`);
+        return { success: false, blocked: 'captcha', error: `[${this.toolId}] ${error.message}`, data: undefined, metadata: { captcha: error.report } };
+      }
+      const errorMsg = `[${this.toolId}] Failed to execute for ${targetUrl}: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMsg);
+      return { success: false, error: errorMsg, data: undefined };
+    }
+  }
+
+  /**
+   * Reads the table at table_index, or every table with all_tables. A matched element
+   * that is not a table stands for the first table inside it.
+   */
+  private selectTables($: ReturnType<typeof cheerio.load>, params: HtmlTableParams): HtmlTable[] {
+    const elements = $(params.table_selector || 'table').toArray()
+      .map(element => $(element).is('table') ? element : $(element).find('table')[0])
+      .filter(element => element !== undefined);
+    const selected = params.all_tables ? elements : elements.slice(params.table_index ?? 0, (params.table_index ?? 0) + 1);
+    this.logger.info(`[${this.toolId}] '${params.table_selector || 'table'}' matched ${elements.length} tables; reading ${selected.length}.`);
+
+    return selected.map(element => readTable($, element, {
+      headerRows: params.header_rows,
+      orientation: params.orientation,
+      headerSeparator: params.header_separator
+    }));
+  }
+
+  private extractRecords(table: HtmlTable, index: number, fields?: { [outputKey: string]: FieldExtractionSpec }): ExtractedRecord[] {
+    if (!fields) {
+      return tableToRecords(table);
+    }
+    const { records, unmatched } = extractTableRecords(table, fields);
+    for (const key of unmatched) {
+      this.logger.warn(`[${this.toolId}] Header '${getSelectorCandidates(fields[key]).join("', '")}' for key '${key}' did not match any column of table ${index + 1} (${table.columns.map(column => column.name).join(', ')}).`);
+    }
+    return records;
+  }
+
+  async cleanup(): Promise<void> {
+    this.logger.info(`[${this.toolId}] Cleanup called.`);
+    this.config = undefined;
+    this.logger.info(`[${this.toolId}] Cleanup complete.`);
+  }
+}
+
+// An empty field map reads every column
+function hasFields(params: HtmlTableParams): boolean {
+  return Object.keys(params.fields ?? params.selectors ?? {}).length > 0;
+}
@@ -0,0 +1,283 @@
+/**
+ * HTML Tables
+ *
+ * Reads a <table> into a grid with one cell per row and column: colspan/rowspan cells
+ * are repeated in every position they cover. Header rows are detected (thead, leading
+ * rows of th cells) and a multi-row header becomes one name per column, e.g.
+ * 'Dimensions / Width'. Key-value spec sheets, whose headers are the leading th
+ * column(s), are read transposed so that each value column becomes a record.
+ */
+
+import * as cheerio from 'cheerio';
+import { FieldExtractionSpec } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, getReadMode, getSelectorCandidates, finalizeFieldValue } from './field-extractor.js';
+
+// cheerio node and selection types
+type CheerioDocument = ReturnType<typeof cheerio.load>;
+type CheerioSelection = ReturnType<CheerioDocument>;
+type CheerioElement = CheerioSelection[number];
+
+export type TableOrientation = 'auto' | 'rows' | 'columns';
+
+export interface TableReadOptions {
+  headerRows?: number; // Header rows, or header columns when read by columns (detected when omitted)
+  orientation?: TableOrientation; // 'rows': headers on top; 'columns': headers in the leading column(s) (default: 'auto')
+  headerSeparator?: string; // Joins the header cells of a column (default: ' / ')
+}
+
+/**
+ * A cell of the table; a spanning cell is the same object in every position it covers
+ */
+export interface TableCell {
+  element: CheerioSelection;
+  text: string; // Text with collapsed whitespace
+  header: boolean; // A th cell
+}
+
+export interface TableColumn {
+  name: string; // Unique name, used as the record key ('column_2' without header)
+  path: string[]; // Header texts from the outermost header row (or column) in
+}
+
+/**
+ * A table read into columns and data rows
+ */
+export interface HtmlTable {
+  columns: TableColumn[];
+  rows: (TableCell | undefined)[][]; // One entry per column; undefined where the table has no cell
+  transposed: boolean; // Read by columns (key-value spec sheet)
+}
+
+const DEFAULT_HEADER_SEPARATOR = ' / ';
+
+// Span limits of the HTML table model
+const MAX_COLSPAN = 1000;
+const MAX_ROWSPAN = 65534;
+
+/**
+ * Reads a table element into columns and data rows
+ * @param $ - The document the table belongs to
+ * @param table - The <table> element
+ * @param options - Header and orientation options
+ */
+export function readTable($: CheerioDocument, table: CheerioElement, options: TableReadOptions = {}): HtmlTable {
+  const { grid, headRows } = buildGrid($, table);
+  const orientation = options.orientation ?? 'auto';
+
+  let headerCount = options.headerRows;
+  let transposed = orientation === 'columns';
+  if (orientation === 'auto' && headerCount === undefined) {
+    headerCount = headRows || countHeaderRows(grid);
+    // Without a header row, leading th columns make a key-value spec sheet
+    const headerColumns = headerCount === 0 ? countHeaderColumns(grid) : 0;
+    if (headerColumns > 0 && grid.some(row => row.some(cell => cell && !cell.header))) {
+      transposed = true;
+      headerCount = headerColumns;
+    }
+  } else if (headerCount === undefined) {
+    headerCount = transposed ? Math.max(countHeaderColumns(grid), 1) : headRows || countHeaderRows(grid);
+  }
+
+  // Full-width cells are section titles (or spacers), not records
+  const lines = transposed
+    ? transpose(grid.filter(row => !isSectionRow(row)))
+    : [...grid.slice(0, headerCount), ...grid.slice(headerCount).filter(row => !isSectionRow(row))];
+
+  const headers = lines.slice(0, headerCount);
+  const width = Math.max(0, ...lines.map(line => line.length));
+  const columns = nameColumns(headers, width, options.headerSeparator ?? DEFAULT_HEADER_SEPARATOR);
+  const rows = lines.slice(headerCount)
+    .filter(line => line.some(cell => cell !== undefined))
+    .map(line => Array.from({ length: width }, (_, index) => line[index]));
+
+  return { columns, rows, transposed };
+}
+
+/**
+ * Returns each data row as a record of its cell texts keyed by column name
+ */
+export function tableToRecords(table: HtmlTable): ExtractedRecord[] {
+  return table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => [column.name, row[index]?.text ?? null])));
+}
+
+/**
+ * Extracts the fields from each data row. A field's selector names the column by its
+ * header text; fallbacks are tried in order and the first that names a column wins.
+ * Returns the records and the keys of fields that named no column.
+ */
+export function extractTableRecords(
+  table: HtmlTable,
+  fields: { [outputKey: string]: FieldExtractionSpec }
+): { records: ExtractedRecord[]; unmatched: string[] } {
+  const unmatched: string[] = [];
+  const fieldColumns = Object.entries(fields).map(([key, spec]) => {
+    let indexes: number[] = [];
+    for (const selector of getSelectorCandidates(spec)) {
+      indexes = findColumns(table.columns, selector);
+      if (indexes.length > 0) break;
+    }
+    if (indexes.length === 0) {
+      unmatched.push(key);
+    }
+    return { key, spec, indexes: spec.multiple ? indexes : indexes.slice(0, 1) };
+  });
+
+  const records = table.rows.map(row => {
+    const record: ExtractedRecord = {};
+    for (const { key, spec, indexes } of fieldColumns) {
+      record[key] = finalizeFieldValue(spec, indexes.map(index => readCell(row[index], spec)));
+    }
+    return record;
+  });
+  return { records, unmatched };
+}
+
+/**
+ * Returns the indexes of the columns a header selector names. A selector is compared
+ * with the column names case- and whitespace-insensitively, then with the innermost
+ * header text ('Width' for 'Dimensions / Width'); '/pattern/flags' is a regular expression.
+ * @throws Error when a regular expression is invalid
+ */
+export function findColumns(columns: TableColumn[], selector: string): number[] {
+  const indexesOf = (predicate: (column: TableColumn) => boolean) =>
+    columns.flatMap((column, index) => predicate(column) ? [index] : []);
+
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(selector);
+  if (regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(regex[1], regex[2].replace(/[gy]/g, '')); // Stateless test()
+    } catch (error) {
+      throw new Error(`Invalid header pattern '${selector}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return indexesOf(column => pattern.test(column.name));
+  }
+
+  const wanted = normalizeHeader(selector);
+  const exact = indexesOf(column => normalizeHeader(column.name) === wanted);
+  return exact.length > 0
+    ? exact
+    : indexesOf(column => column.path.length > 1 && normalizeHeader(column.path[column.path.length - 1]) === wanted);
+}
+
+// Reads what a field spec asks for from a cell; an attribute is taken from the cell or its first descendant carrying it
+function readCell(cell: TableCell | undefined, spec: FieldExtractionSpec): unknown {
+  if (!cell) {
+    return null;
+  }
+  const mode = getReadMode(spec);
+  switch (mode.kind) {
+    case 'text':
+      return cell.text;
+    case 'html':
+      return cell.element.html()?.trim() ?? null;
+    case 'property':
+      return cell.element.prop(mode.name);
+    case 'attribute': {
+      const carrier = cell.element.find('*').addBack().toArray()
+        .find(node => 'attribs' in node && node.attribs[mode.name] !== undefined);
+      return carrier && 'attribs' in carrier ? carrier.attribs[mode.name] : null;
+    }
+  }
+}
+
+// Places every cell at each row and column it spans; also counts the leading thead rows
+function buildGrid($: CheerioDocument, table: CheerioElement): { grid: (TableCell | undefined)[][]; headRows: number } {
+  const rows = $(table).find('tr').filter((_, row) => $(row).closest('table')[0] === table).toArray();
+  const grid: (TableCell | undefined)[][] = rows.map(() => []);
+
+  rows.forEach((row, rowIndex) => {
+    let columnIndex = 0;
+    $(row).children('th, td').each((_, element) => {
+      const $element = $(element);
+      const cell: TableCell = {
+        element: $element,
+        text: $element.text().replace(/\s+/g, ' ').trim(),
+        header: $element.is('th')
+      };
+      while (grid[rowIndex][columnIndex]) {
+        columnIndex++;
+      }
+      const colspan = readSpan($element.attr('colspan'), 1, MAX_COLSPAN);
+      const rowspan = readSpan($element.attr('rowspan'), rows.length - rowIndex, MAX_ROWSPAN); // rowspan="0" spans the remaining rows
+      for (let r = rowIndex; r < Math.min(rowIndex + rowspan, rows.length); r++) {
+        for (let c = columnIndex; c < columnIndex + colspan; c++) {
+          grid[r][c] ??= cell;
+        }
+      }
+      columnIndex += colspan;
+    });
+  });
+
+  const headRows = rows.findIndex(row => !$(row).parent().is('thead'));
+  return { grid, headRows: headRows === -1 ? rows.length : headRows };
+}
+
+// Leading rows of th cells, leaving at least one row of data; a full-width title ends them
+function countHeaderRows(grid: (TableCell | undefined)[][]): number {
+  let count = 0;
+  while (count < grid.length - 1 && isHeaderLine(grid[count]) && !isSectionRow(grid[count])) {
+    count++;
+  }
+  return count;
+}
+
+// Leading columns of th cells in every non-section row
+function countHeaderColumns(grid: (TableCell | undefined)[][]): number {
+  const rows = grid.filter(row => !isSectionRow(row));
+  if (rows.length === 0) {
+    return 0;
+  }
+  const width = Math.min(...rows.map(row => row.length));
+  let count = 0;
+  while (count < width - 1 && rows.every(row => row[count]?.header)) {
+    count++;
+  }
+  return count;
+}
+
+function isHeaderLine(line: (TableCell | undefined)[]): boolean {
+  return line.length > 0 && line.every(cell => cell?.header);
+}
+
+function isSectionRow(row: (TableCell | undefined)[]): boolean {
+  return row.length > 1 && row.every(cell => cell === row[0]);
+}
+
+// Names each column after its header cells, skipping repeats of a spanning cell
+function nameColumns(headers: (TableCell | undefined)[][], width: number, separator: string): TableColumn[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const path: string[] = [];
+    let previous: TableCell | undefined;
+    for (const header of headers) {
+      const cell = header[index];
+      if (cell && cell !== previous && cell.text && cell.text !== path[path.length - 1]) {
+        path.push(cell.text);
+      }
+      previous = cell;
+    }
+
+    const base = path.length > 0 ? path.join(separator) : `column_${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { name: count > 1 ? `${base} (${count})` : base, path };
+  });
+}
+
+function transpose(grid: (TableCell | undefined)[][]): (TableCell | undefined)[][] {
+  const width = Math.max(0, ...grid.map(row => row.length));
+  return Array.from({ length: width }, (_, column) => grid.map(row => row[column]));
+}
+
+function readSpan(value: string | undefined, zeroSpan: number, max: number): number {
+  const span = Number.parseInt(value ?? '', 10);
+  if (Number.isNaN(span) || span < 0) {
+    return 1;
+  }
+  return Math.min(span === 0 ? zeroSpan : span, max);
+}
+
+function normalizeHeader(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
@@ -0,0 +1,134 @@
+/**
+ * Interaction Script Runner
+ *
+ * Runs the declarative interaction steps of a scraper configuration (clicks,
+ * form input, key presses, scrolling and waits) on a Playwright page before
+ * extraction, and reports the outcome of every step.
+ */
+
+import type { Page } from 'playwright';
+import { InteractionStep } from '../../core/domain/configuration-package.types.js';
+
+// Default timeout of a single step in milliseconds
+export const DEFAULT_STEP_TIMEOUT_MS = 10000;
+
+// Defaults for scroll_to_bottom
+const DEFAULT_MAX_SCROLLS = 10;
+const DEFAULT_SCROLL_DELAY_MS = 500;
+
+/**
+ * Outcome of one interaction step, reported in the result metadata
+ */
+export interface InteractionStepReport {
+  index: number; // Position of the step in the script
+  action: InteractionStep['action'];
+  status: 'completed' | 'failed' | 'skipped'; // Steps after a failed required step are skipped
+  durationMs: number;
+  url?: string; // Page the step ran on
+  error?: string;
+}
+
+/**
+ * Runs the steps in order. A failing step is reported and, unless it is optional,
+ * the remaining steps are skipped; extraction can still proceed on the page as it is.
+ *
+ * @param page - The loaded page
+ * @param steps - The interaction script
+ * @param defaultTimeoutMs - Timeout of steps that do not set timeout_ms
+ */
+export async function runInteractionSteps(
+  page: Page,
+  steps: InteractionStep[],
+  defaultTimeoutMs: number = DEFAULT_STEP_TIMEOUT_MS
+): Promise<InteractionStepReport[]> {
+  const reports: InteractionStepReport[] = [];
+  let aborted = false;
+
+  for (const [index, step] of steps.entries()) {
+    const url = page.url();
+    if (aborted) {
+      reports.push({ index, action: step.action, status: 'skipped', durationMs: 0, url });
+      continue;
+    }
+
+    const startTime = Date.now();
+    try {
+      await runStep(page, step, step.timeout_ms ?? defaultTimeoutMs);
+      reports.push({ index, action: step.action, status: 'completed', durationMs: Date.now() - startTime, url });
+    } catch (error) {
+      reports.push({
+        index,
+        action: step.action,
+        status: 'failed',
+        durationMs: Date.now() - startTime,
+        url,
+        error: error instanceof Error ? error.message.split('\n')[0] : String(error)
+      });
+      aborted = !step.optional;
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Whether a value is a usable interaction script (older packages may hold free text)
+ */
+export function isInteractionScript(value: unknown): value is InteractionStep[] {
+  return Array.isArray(value) && value.every(step => typeof step === 'object' && step !== null && 'action' in step);
+}
+
+/**
+ * Runs a single step within its timeout
+ */
+async function runStep(page: Page, step: InteractionStep, timeout: number): Promise<void> {
+  switch (step.action) {
+    case 'click':
+      return page.locator(step.selector).first().click({ timeout, button: step.button, clickCount: step.click_count });
+    case 'fill':
+      return page.locator(step.selector).first().fill(step.value, { timeout });
+    case 'press':
+      return step.selector
+        ? page.locator(step.selector).first().press(step.key, { timeout })
+        : page.keyboard.press(step.key);
+    case 'scroll_to_bottom':
+      return scrollToBottom(page, step.max_scrolls ?? DEFAULT_MAX_SCROLLS, step.delay_ms ?? DEFAULT_SCROLL_DELAY_MS, timeout);
+    case 'wait_for_selector':
+      await page.locator(step.selector).first().waitFor({ state: step.state ?? 'visible', timeout });
+      return;
+    case 'wait_for_network_idle':
+      return page.waitForLoadState('networkidle', { timeout });
+    case 'select_option':
+      await page.locator(step.selector).first().selectOption(step.value, { timeout });
+      return;
+    case 'hover':
+      return page.locator(step.selector).first().hover({ timeout });
+    default:
+      throw new Error(`Unknown interaction step action '${(step as { action: string }).action}'`);
+  }
+}
+
+/**
+ * Scrolls to the bottom until the page height stops growing (e.g., infinite scroll),
+ * max_scrolls is reached or the step times out
+ */
+async function scrollToBottom(page: Page, maxScrolls: number, delayMs: number, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+  let previousHeight = -1;
+
+  for (let scroll = 0; scroll < maxScrolls; scroll++) {
+    const height = await page.evaluate(() => {
+      window.scrollTo(0, document.body.scrollHeight);
+      return document.body.scrollHeight;
+    });
+    if (height === previousHeight) {
+      return;
+    }
+    previousHeight = height;
+
+    if (Date.now() + delayMs > deadline) {
+      throw new Error(`scroll_to_bottom timed out after ${timeout}ms`);
+    }
+    await page.waitForTimeout(delayMs);
+  }
+}
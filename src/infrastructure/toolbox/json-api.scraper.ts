@@ -0,0 +1,439 @@
+import { fetch as proxiedFetch, ProxyAgent } from 'undici';
+import { IScraperTool, ToolCapabilities, ToolExecutionResult } from '../execution/tool.interface.js';
+import { UniversalConfigurationPackageFormat, ToolConfiguration, FieldExtractionSpec } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, resolveFieldSpecs, getSelectorCandidates } from './field-extractor.js';
+import { DEFAULT_MAX_PAGES, PaginationMetadata, PaginationStopReason, isEmptyRecord } from './pagination.js';
+import { compileJsonPath, queryJsonPath } from './json-path.js';
+import { extractJsonRecord, selectJsonItems } from './json-extractor.js';
+import { ExecutionContext, buildRequestHeaders, waitBeforeRequest } from '../execution/execution-context.js';
+import { detectCaptcha, resolveCaptcha, CaptchaBlockedError } from '../captcha/captcha-detector.js';
+import { CaptchaReport } from '../captcha/captcha.types.js';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Cursor pagination of an API: the cursor (or next page URL) is read from each response
+ */
+interface CursorPaginationConfig {
+  cursor_path?: string; // JSONPath of the next cursor in the response, e.g. '$.meta.next_cursor'
+  cursor_param?: string; // Query or body parameter the cursor is sent in (default: 'cursor')
+  cursor_in?: 'query' | 'body'; // Where the cursor is sent (default: 'query')
+  next_url_path?: string; // JSONPath of the next page URL in the response, instead of a cursor
+  max_pages?: number; // Maximum number of requests (default: 10)
+  delay_ms?: number; // Optional pause between requests
+  stop_on_empty?: boolean; // Stop when a response yields no records (default: true)
+}
+
+interface JsonApiParams {
+  selectors?: { [outputKey: string]: string }; // 1.0: output key to JSONPath
+  fields?: { [outputKey: string]: FieldExtractionSpec }; // 2.0: per-field specs whose selectors are JSONPaths
+  item_selector?: string; // Optional: JSONPath of the items; field paths become relative to each item
+  max_items?: number; // Optional: Cap on records extracted per response in list mode
+  method?: HttpMethod; // Optional: HTTP method (default: GET)
+  headers?: Record<string, string>; // Optional: Request headers, e.g. an API key
+  body?: Record<string, unknown> | string; // Optional: Request body; objects are sent as JSON
+  timeout_ms?: number; // Optional: Timeout in milliseconds
+  cursor_pagination?: CursorPaginationConfig; // Optional: Follow the cursor of each response
+}
+
+// One API request: the cursor changes its URL or body from page to page
+interface ApiRequest {
+  url: string;
+  body?: Record<string, unknown> | string;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const DEFAULT_CURSOR_PARAM = 'cursor';
+
+/**
+ * MCP-compliant JSON API Scraper
+ *
+ * Calls an HTTP JSON endpoint (the XHR/fetch API behind a page) and extracts fields with
+ * JSONPath expressions into the same record shape as the HTML scrapers. Supports list
+ * mode through an item JSONPath and cursor pagination through a cursor or next URL read
+ * from each response.
+ */
+export class JsonApiScraper implements IScraperTool {
+  static getMcpDefinition() {
+    return {
+      name: "scraper_json_api_v1",
+      description: "IScraperTool: Calls an HTTP JSON API (e.g. the XHR endpoint a page loads its data from) and extracts fields with JSONPath expressions. Prefer it over HTML scrapers when the data comes from a JSON endpoint.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "URL of the JSON API endpoint" },
+          selectors: { type: "object", description: "Key-value pairs of output field and JSONPath, e.g. { title: '$.data.title' } (package schema 1.0)" },
+          fields: { type: "object", description: "Key-value pairs of output field and extraction spec { selector (JSONPath or fallback list), multiple, type, default } (package schema 2.0)" },
+          item_selector: { type: "string", description: "Optional JSONPath of the repeated items, e.g. '$.data.items[*]'. When set, returns one record per item and field paths are relative to each item ('$' or '@' is the item)." },
+          max_items: { type: "number", description: "Optional maximum number of items to extract per response in list mode" },
+          method: { type: "string", enum: HTTP_METHODS, description: "HTTP method (default GET)" },
+          headers: { type: "object", description: "Optional request headers, e.g. { 'x-api-key': '...' }" },
+          body: { type: ["object", "string"], description: "Optional request body; objects are sent as JSON" },
+          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" },
+          cursor_pagination: { type: "object", description: "Optional cursor pagination { cursor_path (JSONPath of the next cursor) and cursor_param (default 'cursor'), cursor_in ('query' (default) or 'body', which needs a method other than GET), or next_url_path (JSONPath of the next page URL); max_pages (default 10), delay_ms, stop_on_empty (default true) }. Records of all responses are returned as one list." }
+        },
+        required: ["url"]
+      },
+      annotations: {
+        title: "JSON API Scraper (JSONPath)",
+        openWorldHint: true
+      }
+    };
+  }
+  readonly toolId = 'scraper_json_api_v1';
+  readonly name = 'JSON API Scraper';
+  readonly description = 'Calls HTTP JSON APIs and extracts data using JSONPath expressions.';
+  readonly capabilities: ToolCapabilities = { jsRendering: false, proxySupport: true, costTier: 'low' };
+  private config?: ToolConfiguration;
+  private logger = console;
+
+  async initialize(config: ToolConfiguration): Promise<void> {
+    this.logger.info(`[${this.toolId}] Initializing with config:`, JSON.stringify(config.parameters, null, 2));
+    const params = (config.parameters ?? {}) as JsonApiParams;
+    if (!params.selectors && !params.fields) {
+      throw new Error(`[${this.toolId}] Missing required 'selectors' or 'fields' parameter in configuration.`);
+    }
+    const method = (params.method ?? 'GET').toUpperCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(method)) {
+      throw new Error(`[${this.toolId}] Unsupported method '${params.method}'. Use ${HTTP_METHODS.join(', ')}.`);
+    }
+    const pagination = params.cursor_pagination;
+    if (pagination) {
+      if (!pagination.cursor_path && !pagination.next_url_path) {
+        throw new Error(`[${this.toolId}] 'cursor_pagination' requires 'cursor_path' or 'next_url_path'.`);
+      }
+      if (pagination.cursor_in === 'body' && method === 'GET') {
+        throw new Error(`[${this.toolId}] A body cursor cannot be sent with GET; set 'method' to POST, PUT or PATCH.`);
+      }
+      if (pagination.cursor_in === 'body' && typeof (params.body ?? {}) !== 'object') {
+        throw new Error(`[${this.toolId}] A body cursor requires an object 'body'.`);
+      }
+    }
+
+    // Fail on a malformed JSONPath now rather than on every response
+    const paths = [
+      ...Object.values(resolveFieldSpecs(config.parameters)).flatMap(getSelectorCandidates),
+      params.item_selector,
+      pagination?.cursor_path,
+      pagination?.next_url_path
+    ].filter((path): path is string => !!path);
+    try {
+      paths.forEach(path => compileJsonPath(path));
+    } catch (error) {
+      throw new Error(`[${this.toolId}] ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.config = { ...config, parameters: { ...config.parameters, method } };
+    this.logger.info(`[${this.toolId}] Initialization complete.`);
+  }
+
+  async execute(targetUrl: string, _fullPackage: UniversalConfigurationPackageFormat, context?: ExecutionContext): Promise<ToolExecutionResult> {
+    this.logger.info(`[${this.toolId}] Executing for URL: ${targetUrl}`);
+    if (!this.config || !this.config.parameters) {
+      return { success: false, error: `[${this.toolId}] Tool not initialized with configuration before execution.`, data: undefined };
+    }
+
+    const params = this.config.parameters as JsonApiParams;
+    const fields = resolveFieldSpecs(this.config.parameters);
+    const captchaReports: CaptchaReport[] = [];
+    const loadJson = (request: ApiRequest) => this.loadJson(request, params, context, captchaReports);
+
+    try {
+      const result = params.cursor_pagination
+        ? await this.executePaginated({ url: targetUrl, body: params.body }, params, fields, params.cursor_pagination, loadJson)
+        : await this.executeSingle({ url: targetUrl, body: params.body }, params, fields, loadJson);
+      return captchaReports.length > 0
+        ? { ...result, metadata: { ...result.metadata, captcha: captchaReports[captchaReports.length - 1] } }
+        : result;
+    } catch (error) {
+      if (error instanceof CaptchaBlockedError) {
+        this.logger.warn(`[${this.toolId}] ${error.message}`);
+        return { success: false, blocked: 'captcha', error: `[${this.toolId}] ${error.message}`, data: undefined, metadata: { captcha: error.report } };
+      }
+      const errorMsg = `[${this.toolId}] Failed to execute for ${targetUrl}: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMsg);
+      return { success: false, error: errorMsg, data: undefined };
+    }
+  }
+
+  /**
+   * Calls the API once and extracts its records (list mode) or its record
+   */
+  private async executeSingle(
+    request: ApiRequest,
+    params: JsonApiParams,
+    fields: { [outputKey: string]: FieldExtractionSpec },
+    loadJson: (request: ApiRequest) => Promise<unknown>
+  ): Promise<ToolExecutionResult> {
+    const document = await loadJson(request);
+
+    if (params.item_selector) {
+      const { records, error } = this.extractItems(document, params, fields);
+      if (error) {
+        return { success: false, error: `[${this.toolId}] Extraction partially failed: ${error}`, data: records };
+      }
+      this.logger.info(`[${this.toolId}] Extraction successful for ${request.url} (${records.length} records).`);
+      return { success: true, data: records, metadata: { itemCount: records.length } };
+    }
+
+    const { data, error } = this.extractRecord(document, fields);
+    if (error) {
+      return { success: false, error: `[${this.toolId}] Extraction partially failed: ${error}`, data };
+    }
+    this.logger.info(`[${this.toolId}] Extraction successful for ${request.url}.`);
+    return { success: true, data };
+  }
+
+  /**
+   * Calls the API until the responses run out of cursors, returning the records of all
+   * responses as one list. Like HTML pagination, a failure of the first request is
+   * thrown and failures of following requests end the loop.
+   */
+  private async executePaginated(
+    firstRequest: ApiRequest,
+    params: JsonApiParams,
+    fields: { [outputKey: string]: FieldExtractionSpec },
+    pagination: CursorPaginationConfig,
+    loadJson: (request: ApiRequest) => Promise<unknown>
+  ): Promise<ToolExecutionResult> {
+    const maxPages = pagination.max_pages && pagination.max_pages > 0 ? pagination.max_pages : DEFAULT_MAX_PAGES;
+    const stopOnEmpty = pagination.stop_on_empty ?? true;
+    const records: ExtractedRecord[] = [];
+    const errors: string[] = [];
+    const pageUrls: string[] = [];
+    const seenCursors = new Set<string>();
+    let stopReason: PaginationStopReason = 'max_pages';
+    let loadError: string | undefined;
+    let request = firstRequest;
+
+    for (let pageIndex = 0; pageIndex < maxPages; pageIndex++) {
+      if (pageIndex > 0 && pagination.delay_ms) {
+        await new Promise(resolve => setTimeout(resolve, pagination.delay_ms));
+      }
+
+      this.logger.info(`[${this.toolId}] Requesting page ${pageIndex + 1} from ${request.url}...`);
+      let document: unknown;
+      try {
+        document = await loadJson(request);
+      } catch (error) {
+        if (pageIndex === 0 || error instanceof CaptchaBlockedError) {
+          throw error;
+        }
+        stopReason = 'error';
+        loadError = `Failed to load page ${request.url}: ${error instanceof Error ? error.message : String(error)}`;
+        break;
+      }
+      pageUrls.push(request.url);
+
+      let pageRecords: ExtractedRecord[];
+      let pageError: string | undefined;
+      if (params.item_selector) {
+        ({ records: pageRecords, error: pageError } = this.extractItems(document, params, fields));
+      } else {
+        const { data, error } = this.extractRecord(document, fields);
+        pageRecords = [data];
+        pageError = error;
+      }
+      if (pageError) {
+        errors.push(pageError);
+      }
+      if (stopOnEmpty && pageRecords.every(isEmptyRecord)) {
+        stopReason = 'empty_page';
+        break;
+      }
+      records.push(...pageRecords);
+      if (pageIndex === maxPages - 1) {
+        break;
+      }
+
+      const next = this.getNextRequest(document, request, pagination);
+      if (!next) {
+        stopReason = 'no_next_page';
+        break;
+      }
+      if (seenCursors.has(next.key)) {
+        stopReason = 'repeated_page';
+        break;
+      }
+      seenCursors.add(next.key);
+      request = next.request;
+    }
+
+    const metadata: PaginationMetadata = { pagesScraped: pageUrls.length, pageUrls, stopReason, ...(loadError && { error: loadError }) };
+    this.logger.info(`[${this.toolId}] Pagination stopped after ${metadata.pagesScraped} pages (${stopReason}), ${records.length} records.`);
+    const resultMetadata = { itemCount: records.length, pagination: metadata };
+
+    if (errors.length > 0) {
+      return { success: false, error: `[${this.toolId}] Extraction partially failed: ${errors[0]}`, data: records, metadata: resultMetadata };
+    }
+    return { success: true, data: records, metadata: resultMetadata };
+  }
+
+  /**
+   * Builds the request of the next page from the cursor (or next URL) of a response.
+   * Returns null when the response has none.
+   */
+  private getNextRequest(document: unknown, current: ApiRequest, pagination: CursorPaginationConfig): { request: ApiRequest; key: string } | null {
+    if (pagination.next_url_path) {
+      const nextUrl = queryJsonPath(document, pagination.next_url_path)[0];
+      if (typeof nextUrl !== 'string' || nextUrl === '') {
+        return null;
+      }
+      const url = new URL(nextUrl, current.url).href;
+      return { request: { ...current, url }, key: url };
+    }
+
+    const cursor = queryJsonPath(document, pagination.cursor_path as string)[0];
+    if (cursor === null || cursor === undefined || cursor === '' || cursor === false) {
+      return null;
+    }
+    const cursorParam = pagination.cursor_param ?? DEFAULT_CURSOR_PARAM;
+    const value = typeof cursor === 'object' ? JSON.stringify(cursor) : String(cursor);
+
+    if (pagination.cursor_in === 'body') {
+      const body = { ...(current.body as Record<string, unknown> | undefined), [cursorParam]: cursor };
+      return { request: { ...current, body }, key: value };
+    }
+    const url = new URL(current.url);
+    url.searchParams.set(cursorParam, value);
+    return { request: { ...current, url: url.href }, key: value };
+  }
+
+  /**
+   * Calls the API through the execution context and parses its JSON. A captcha or bot
+   * challenge served instead of JSON is handed to the context's solver; its clearance
+   * cookies are used to call the API again.
+   * @throws CaptchaBlockedError when the API stays behind a challenge
+   */
+  private async loadJson(request: ApiRequest, params: JsonApiParams, context: ExecutionContext | undefined, captchaReports: CaptchaReport[]): Promise<unknown> {
+    let response = await requestApi(request, params, context);
+
+    const challenge = isJson(response.body) ? null : detectCaptcha(response.body, request.url, response.status);
+    if (challenge) {
+      this.logger.warn(`[${this.toolId}] Detected a ${challenge.kind} challenge (${challenge.signal}) on ${request.url}.`);
+      captchaReports.push(await resolveCaptcha(challenge, context, async solution => {
+        if (!solution.cookies?.length) {
+          throw new Error('the solution has no clearance cookies to retry the request with; use a browser scraper for token solutions');
+        }
+        const solvedContext = context as ExecutionContext;
+        solvedContext.cookies.push(...solution.cookies);
+        if (solution.userAgent) {
+          solvedContext.fingerprint.userAgent = solution.userAgent; // Clearance cookies are bound to the solver's user agent
+        }
+        response = await requestApi(request, params, solvedContext);
+        return isJson(response.body) ? null : detectCaptcha(response.body, request.url, response.status);
+      }));
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+    try {
+      return JSON.parse(response.body);
+    } catch {
+      throw new Error(`Response is not valid JSON (${response.contentType ?? 'no content type'}): ${response.body.slice(0, 100)}`);
+    }
+  }
+
+  /**
+   * Extracts one record per item matching item_selector (list mode)
+   */
+  private extractItems(
+    document: unknown,
+    params: JsonApiParams,
+    fields: { [outputKey: string]: FieldExtractionSpec }
+  ): { records: ExtractedRecord[]; error?: string } {
+    const items = selectJsonItems(document, params.item_selector as string, params.max_items);
+    this.logger.info(`[${this.toolId}] List mode: '${params.item_selector}' matched ${items.length} items.`);
+
+    const records: ExtractedRecord[] = [];
+    let listError: string | undefined;
+    for (const item of items) {
+      const { data, error } = this.extractRecord(item, fields);
+      records.push(data);
+      if (error && !listError) listError = error;
+    }
+    return { records, error: listError };
+  }
+
+  /**
+   * Extracts one record within the given scope (the response in single mode, an item
+   * in list mode), logging the fields that did not match
+   */
+  private extractRecord(
+    scope: unknown,
+    fields: { [outputKey: string]: FieldExtractionSpec }
+  ): { data: ExtractedRecord; error?: string } {
+    const { data, error, unmatched } = extractJsonRecord(scope, fields);
+    for (const key of unmatched) {
+      this.logger.warn(`[${this.toolId}] JSONPath '${getSelectorCandidates(fields[key]).join("', '")}' for key '${key}' did not match any value.`);
+    }
+    if (error) {
+      this.logger.error(`[${this.toolId}] ${error}`);
+    }
+    return { data, error };
+  }
+
+  async cleanup(): Promise<void> {
+    this.logger.info(`[${this.toolId}] Cleanup called.`);
+    this.config = undefined;
+    this.logger.info(`[${this.toolId}] Cleanup complete.`);
+  }
+}
+
+const DEFAULT_REQUEST_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'application/json, text/plain, */*',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+interface ApiResponse {
+  ok: boolean;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+// Helper function to call the API, applying the proxy, headers, cookies and delay of the execution context
+async function requestApi(request: ApiRequest, params: JsonApiParams, context?: ExecutionContext): Promise<ApiResponse> {
+  await waitBeforeRequest(context);
+
+  const proxyUrl = context?.proxyUrl;
+  if (proxyUrl && !/^https?:/i.test(proxyUrl)) {
+    throw new Error(`Unsupported proxy ${proxyUrl.split(':')[0]} protocol: use an http(s) proxy or the Playwright scraper.`);
+  }
+  const method = params.method ?? 'GET';
+  const body = method === 'GET' || request.body === undefined
+    ? undefined
+    : typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+  // The package's headers (e.g. an API key) override the defaults; the context's override both
+  const headers = buildRequestHeaders({
+    ...DEFAULT_REQUEST_HEADERS,
+    ...(body !== undefined && typeof request.body === 'object' ? { 'Content-Type': 'application/json' } : {}),
+    ...params.headers
+  }, request.url, context);
+  const dispatcher = proxyUrl ? new ProxyAgent(proxyUrl) : undefined;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), params.timeout_ms || 5000);
+
+  try {
+    const response = dispatcher
+      ? await proxiedFetch(request.url, { method, body, signal: controller.signal, headers, dispatcher })
+      : await fetch(request.url, { method, body, signal: controller.signal, headers });
+
+    // Error responses are read too: a 403 may be a captcha challenge
+    return { ok: response.ok, status: response.status, contentType: response.headers.get('content-type'), body: await response.text() };
+  } finally {
+    clearTimeout(timeoutId);
+    await dispatcher?.close();
+  }
+}
+
+function isJson(body: string): boolean {
+  try {
+    JSON.parse(body);
+    return true;
+  } catch {
+    return false;
+  }
+}
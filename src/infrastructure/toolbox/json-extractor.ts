@@ -0,0 +1,74 @@
+/**
+ * JSON Field Extraction
+ *
+ * Shared by the scrapers that read JSON (the JSON API scraper and the Playwright
+ * scraper's network capture): resolves field specs whose selectors are JSONPath
+ * expressions within a JSON document or one of its items.
+ */
+
+import { FieldExtractionSpec } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, getSelectorCandidates, finalizeFieldValue } from './field-extractor.js';
+import { queryJsonPath } from './json-path.js';
+
+/**
+ * One record extracted from JSON
+ */
+export interface JsonRecordExtraction {
+  data: ExtractedRecord;
+  error?: string; // First extraction error, if any
+  unmatched: string[]; // Keys of the fields none of whose paths matched
+}
+
+/**
+ * Returns the items an item path matches. A path matching a single array, such as
+ * '$.data.items', yields one item per element.
+ *
+ * @param document - The JSON document
+ * @param itemPath - JSONPath of the items
+ * @param maxItems - Optional cap on the number of items
+ */
+export function selectJsonItems(document: unknown, itemPath: string, maxItems?: number): unknown[] {
+  const matches = queryJsonPath(document, itemPath);
+  const items = matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+  return maxItems && maxItems > 0 ? items.slice(0, maxItems) : items;
+}
+
+/**
+ * Extracts one record by evaluating each field's JSONPaths within the given scope
+ * (a whole document or an item). The first path that matches wins. Objects and arrays
+ * are kept as JSON strings; a 'multiple' field matching a single array collects its elements.
+ *
+ * @param scope - The JSON value the paths are evaluated against ('$' and '@' both refer to it)
+ * @param fields - Field specs whose selectors are JSONPath expressions
+ */
+export function extractJsonRecord(scope: unknown, fields: { [outputKey: string]: FieldExtractionSpec }): JsonRecordExtraction {
+  const data: ExtractedRecord = {};
+  const unmatched: string[] = [];
+  let extractionError: string | undefined;
+
+  for (const key in fields) {
+    const spec = fields[key];
+    const candidates = getSelectorCandidates(spec);
+    try {
+      let matches: unknown[] = [];
+      const path = candidates.find(candidate => (matches = queryJsonPath(scope, candidate)).length > 0);
+      if (!path) {
+        unmatched.push(key);
+      }
+      const values = spec.multiple && matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+      data[key] = finalizeFieldValue(spec, (spec.multiple ? values : values.slice(0, 1)).map(toRawValue));
+    } catch (error) {
+      if (!extractionError) {
+        extractionError = `Error extracting data for key '${key}' with JSONPath '${candidates.join("', '")}': ${error instanceof Error ? error.message : String(error)}`;
+      }
+      data[key] = spec.default ?? null;
+    }
+  }
+
+  return { data, unmatched, ...(extractionError ? { error: extractionError } : {}) };
+}
+
+// Nested values are kept as JSON text so they survive the string conversion of a field
+function toRawValue(value: unknown): unknown {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+}
@@ -0,0 +1,323 @@
+/**
+ * JSONPath
+ *
+ * A compact JSONPath evaluator for the JSON API scraper. Supported syntax:
+ * - `$` (document root) and `@` (current item); a path without either starts at the root
+ * - `.name`, `['name']`, `["a","b"]`, `.*`, `[*]`
+ * - `[0]`, `[-1]`, `[0,2]`, slices `[start:end:step]`
+ * - recursive descent `..name`, `..*`, `..[0]`
+ * - filters `[?(@.price > 10)]`, `[?(@.tags)]`, `[?(@.type == 'book' && @.stock != 0)]`
+ *   with ==, !=, <, <=, >, >= and string, number, boolean and null literals
+ */
+
+type JsonPathSelector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'slice'; start?: number; end?: number; step: number }
+  | { kind: 'filter'; expression: string };
+
+interface JsonPathSegment {
+  descendant: boolean; // `..`: apply the selectors to the node and all its descendants
+  selectors: JsonPathSelector[];
+}
+
+const COMPARISON_OPERATORS = ['==', '!=', '<=', '>=', '<', '>'] as const;
+
+// Compiled paths, by expression
+const compiledPaths = new Map<string, JsonPathSegment[]>();
+
+/**
+ * Returns every value a JSONPath expression matches, in document order
+ * @param data - Parsed JSON document (or the current item for `@` paths)
+ * @param path - The JSONPath expression
+ * @throws Error when the expression is not valid JSONPath
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [data];
+  for (const segment of compileJsonPath(path)) {
+    const targets = segment.descendant ? nodes.flatMap(collectDescendants) : nodes;
+    nodes = targets.flatMap(node => segment.selectors.flatMap(selector => applySelector(node, selector)));
+  }
+  return nodes;
+}
+
+/**
+ * Parses a JSONPath expression into segments (cached)
+ * @throws Error when the expression is not valid JSONPath
+ */
+export function compileJsonPath(path: string): JsonPathSegment[] {
+  const cached = compiledPaths.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const segments: JsonPathSegment[] = [];
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid JSONPath '${path}': ${reason}`);
+  };
+
+  const trimmed = path.trim();
+  let i = 0;
+  if (trimmed.startsWith('$') || trimmed.startsWith('@')) {
+    i = 1;
+  } else if (trimmed !== '' && !trimmed.startsWith('[') && !trimmed.startsWith('.')) {
+    // A bare path such as `items[0].name` starts at the root
+    segments.push({ descendant: false, selectors: [{ kind: 'name', name: readName(trimmed, 0).name }] });
+    i = readName(trimmed, 0).end;
+  }
+
+  while (i < trimmed.length) {
+    let descendant = false;
+    if (trimmed.startsWith('..', i)) {
+      descendant = true;
+      i += 2;
+    } else if (trimmed[i] === '.') {
+      i += 1;
+    } else if (trimmed[i] !== '[') {
+      fail(`unexpected '${trimmed[i]}' at position ${i}`);
+    }
+
+    if (trimmed[i] === '[') {
+      const end = findClosingBracket(trimmed, i);
+      if (end === -1) {
+        fail(`unclosed '[' at position ${i}`);
+      }
+      segments.push({ descendant, selectors: parseBracket(trimmed.slice(i + 1, end), fail) });
+      i = end + 1;
+    } else if (trimmed[i] === '*') {
+      segments.push({ descendant, selectors: [{ kind: 'wildcard' }] });
+      i += 1;
+    } else {
+      const { name, end } = readName(trimmed, i);
+      if (!name) {
+        fail(`missing name at position ${i}`);
+      }
+      segments.push({ descendant, selectors: [{ kind: 'name', name }] });
+      i = end;
+    }
+  }
+
+  compiledPaths.set(path, segments);
+  return segments;
+}
+
+function readName(path: string, start: number): { name: string; end: number } {
+  let end = start;
+  while (end < path.length && path[end] !== '.' && path[end] !== '[') {
+    end++;
+  }
+  return { name: path.slice(start, end), end };
+}
+
+function findClosingBracket(path: string, open: number): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = open; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+      if (depth === 0 && char === ']') {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+function parseBracket(content: string, fail: (reason: string) => never): JsonPathSelector[] {
+  const body = content.trim();
+  if (body.startsWith('?')) {
+    const expression = body.slice(1).trim();
+    if (!expression.startsWith('(') || !expression.endsWith(')')) {
+      fail('filters must be written as [?(...)]');
+    }
+    return [{ kind: 'filter', expression: expression.slice(1, -1).trim() }];
+  }
+
+  return splitTopLevel(body, ',').map(part => {
+    const item = part.trim();
+    if (item === '*') {
+      return { kind: 'wildcard' };
+    }
+    if (/^(['"]).*\1$/.test(item)) {
+      return { kind: 'name', name: unquote(item) };
+    }
+    if (/^-?\d*:-?\d*(:-?\d+)?$/.test(item)) {
+      const [start, end, step] = item.split(':').map(value => (value === '' ? undefined : Number(value)));
+      if (step === 0) {
+        fail('slice step cannot be 0');
+      }
+      return { kind: 'slice', start, end, step: step ?? 1 };
+    }
+    if (/^-?\d+$/.test(item)) {
+      return { kind: 'index', index: Number(item) };
+    }
+    if (item === '') {
+      fail('empty bracket selector');
+    }
+    return { kind: 'name', name: item };
+  });
+}
+
+function applySelector(node: unknown, selector: JsonPathSelector): unknown[] {
+  switch (selector.kind) {
+    case 'name':
+      return isObject(node) && Object.prototype.hasOwnProperty.call(node, selector.name) ? [node[selector.name]] : [];
+    case 'index': {
+      if (!Array.isArray(node)) {
+        return [];
+      }
+      const index = selector.index < 0 ? node.length + selector.index : selector.index;
+      return index >= 0 && index < node.length ? [node[index]] : [];
+    }
+    case 'wildcard':
+      return children(node);
+    case 'slice':
+      return Array.isArray(node) ? sliceArray(node, selector) : [];
+    case 'filter':
+      return children(node).filter(child => evaluateFilter(selector.expression, child));
+  }
+}
+
+function sliceArray(array: unknown[], { start, end, step }: { start?: number; end?: number; step: number }): unknown[] {
+  const normalize = (value: number) => (value < 0 ? Math.max(0, array.length + value) : Math.min(value, array.length));
+  const result: unknown[] = [];
+  if (step > 0) {
+    for (let i = normalize(start ?? 0); i < normalize(end ?? array.length); i += step) {
+      result.push(array[i]);
+    }
+  } else {
+    const from = start === undefined ? array.length - 1 : Math.min(normalize(start), array.length - 1);
+    const to = end === undefined ? -1 : normalize(end);
+    for (let i = from; i > to; i += step) {
+      result.push(array[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluates a filter expression against one candidate (`@`)
+ */
+function evaluateFilter(expression: string, current: unknown): boolean {
+  return splitTopLevel(expression, '||').some(alternative =>
+    splitTopLevel(alternative, '&&').every(condition => evaluateCondition(condition.trim(), current)));
+}
+
+function evaluateCondition(condition: string, current: unknown): boolean {
+  for (const operator of COMPARISON_OPERATORS) {
+    const parts = splitTopLevel(condition, operator);
+    if (parts.length === 2) {
+      const left = resolveOperand(parts[0].trim(), current);
+      const right = resolveOperand(parts[1].trim(), current);
+      return compare(left, right, operator);
+    }
+  }
+  // No operator: the path must exist
+  return condition.startsWith('@') && queryJsonPath(current, condition).length > 0;
+}
+
+function resolveOperand(operand: string, current: unknown): unknown {
+  if (operand.startsWith('@')) {
+    return queryJsonPath(current, operand)[0];
+  }
+  if (/^(['"]).*\1$/.test(operand)) {
+    return unquote(operand);
+  }
+  if (operand === 'true' || operand === 'false') {
+    return operand === 'true';
+  }
+  if (operand === 'null') {
+    return null;
+  }
+  const number = Number(operand);
+  if (operand === '' || Number.isNaN(number)) {
+    throw new Error(`Invalid JSONPath filter operand '${operand}'`);
+  }
+  return number;
+}
+
+function compare(left: unknown, right: unknown, operator: typeof COMPARISON_OPERATORS[number]): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    default: {
+      const comparable = (typeof left === 'number' && typeof right === 'number')
+        || (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        return false;
+      }
+      const [a, b] = [left as number | string, right as number | string];
+      return operator === '<' ? a < b : operator === '<=' ? a <= b : operator === '>' ? a > b : a >= b;
+    }
+  }
+}
+
+/**
+ * Splits on a separator outside quotes, brackets and parentheses
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      // '<' must not split '<=' (and likewise for '>', '=' and '!')
+      const next = text[i + separator.length];
+      if (separator.length === 1 && next === '=') {
+        continue;
+      }
+      parts.push(text.slice(start, i));
+      i += separator.length - 1;
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function unquote(quoted: string): string {
+  return quoted.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function children(node: unknown): unknown[] {
+  if (Array.isArray(node)) {
+    return node;
+  }
+  return isObject(node) ? Object.values(node) : [];
+}
+
+function collectDescendants(node: unknown): unknown[] {
+  return [node, ...children(node).flatMap(collectDescendants)];
+}
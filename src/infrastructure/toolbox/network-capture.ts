@@ -0,0 +1,181 @@
+/**
+ * Network Capture
+ *
+ * Records the JSON responses of a page's XHR/fetch requests whose URLs match the
+ * `capture_network` patterns of a Playwright scraper configuration, so that fields
+ * with source 'network' can be extracted from the API payloads (e.g. the data of a
+ * React/Next.js page) with JSONPath instead of from the rendered DOM.
+ */
+
+import type { Page, Response } from 'playwright';
+import { FieldExtractionSpec, NetworkCaptureConfig } from '../../core/domain/configuration-package.types.js';
+
+// Defaults of the optional capture_network settings
+export const DEFAULT_CAPTURE_RESOURCE_TYPES = ['xhr', 'fetch'];
+export const DEFAULT_CAPTURE_WAIT_TIMEOUT_MS = 5000;
+export const DEFAULT_MAX_CAPTURED_RESPONSES = 50;
+export const DEFAULT_MAX_CAPTURED_BODY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * A recorded JSON response
+ */
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  body: unknown; // Parsed JSON
+}
+
+/**
+ * Responses recorded on one page, reported in the result metadata
+ */
+export interface NetworkCaptureReport {
+  url: string; // URL of the page
+  responses: { url: string; method: string; status: number }[];
+  skipped: number; // Matching responses that were not JSON, too large or over max_responses
+}
+
+/**
+ * Records the matching responses of a page. The capture is reset for every page
+ * loaded in it, so each page is extracted from its own responses only.
+ */
+export class NetworkCapture {
+  private readonly patterns: RegExp[];
+  private readonly resourceTypes: string[];
+  private responses: (CapturedResponse & { sequence: number })[] = [];
+  private pending = new Set<Promise<void>>();
+  private sequence = 0;
+  private generation = 0;
+  private skipped = 0;
+  private readonly listener = (response: Response) => this.onResponse(response);
+
+  constructor(private readonly page: Page, private readonly config: NetworkCaptureConfig) {
+    this.patterns = config.url_patterns.map(toUrlPattern);
+    this.resourceTypes = config.resource_types ?? DEFAULT_CAPTURE_RESOURCE_TYPES;
+  }
+
+  /**
+   * Starts recording responses
+   */
+  start(): void {
+    this.page.on('response', this.listener);
+  }
+
+  /**
+   * Stops recording responses
+   */
+  stop(): void {
+    this.page.off('response', this.listener);
+  }
+
+  /**
+   * Forgets the responses recorded so far (before the next page is loaded)
+   */
+  reset(): void {
+    this.generation++;
+    this.responses = [];
+    this.skipped = 0;
+  }
+
+  /**
+   * Waits until the bodies of the recorded responses are read. When nothing matched yet,
+   * first waits up to wait_timeout_ms for a matching response.
+   * @returns The recorded responses, in the order they arrived
+   */
+  async settle(): Promise<CapturedResponse[]> {
+    const waitTimeout = this.config.wait_timeout_ms ?? DEFAULT_CAPTURE_WAIT_TIMEOUT_MS;
+    if (this.responses.length === 0 && this.pending.size === 0 && waitTimeout > 0) {
+      await this.page.waitForResponse(response => this.matches(response), { timeout: waitTimeout }).catch(() => undefined);
+    }
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+    return this.getResponses();
+  }
+
+  /**
+   * The recorded responses, in the order they arrived
+   */
+  getResponses(): CapturedResponse[] {
+    return [...this.responses]
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(({ url, method, status, body }) => ({ url, method, status, body }));
+  }
+
+  /**
+   * Summary of the responses recorded on the current page
+   */
+  report(pageUrl: string): NetworkCaptureReport {
+    return {
+      url: pageUrl,
+      responses: this.getResponses().map(({ url, method, status }) => ({ url, method, status })),
+      skipped: this.skipped
+    };
+  }
+
+  /**
+   * Whether a response belongs to the capture: a recorded resource type and a matching URL
+   */
+  matches(response: Response): boolean {
+    return this.resourceTypes.includes(response.request().resourceType())
+      && this.patterns.some(pattern => pattern.test(response.url()));
+  }
+
+  private onResponse(response: Response): void {
+    if (!this.matches(response)) {
+      return;
+    }
+    const maxResponses = this.config.max_responses ?? DEFAULT_MAX_CAPTURED_RESPONSES;
+    if (this.responses.length + this.pending.size >= maxResponses) {
+      this.skipped++;
+      return;
+    }
+
+    const read = this.record(response, this.sequence++, this.generation);
+    this.pending.add(read);
+    void read.finally(() => this.pending.delete(read));
+  }
+
+  private async record(response: Response, sequence: number, generation: number): Promise<void> {
+    let body: unknown;
+    try {
+      const buffer = await response.body();
+      if (buffer.length > (this.config.max_body_bytes ?? DEFAULT_MAX_CAPTURED_BODY_BYTES)) {
+        throw new Error('body too large');
+      }
+      body = JSON.parse(buffer.toString('utf8'));
+    } catch {
+      // Not JSON, too large, or the page navigated away before the body arrived
+      if (generation === this.generation) {
+        this.skipped++;
+      }
+      return;
+    }
+
+    // Responses of a previous page arriving late are dropped
+    if (generation === this.generation) {
+      this.responses.push({ sequence, url: response.url(), method: response.request().method(), status: response.status(), body });
+    }
+  }
+}
+
+/**
+ * Whether a field is extracted from the captured responses
+ */
+export function isNetworkField(spec: FieldExtractionSpec): boolean {
+  return spec.source === 'network';
+}
+
+/**
+ * Converts a capture URL pattern into a regular expression: '/.../flags' is used as a
+ * regular expression, anything else as a glob where '*' matches any characters
+ * @throws Error when a regular expression pattern is invalid
+ */
+export function toUrlPattern(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]);
+  }
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`);
+}
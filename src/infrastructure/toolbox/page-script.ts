@@ -0,0 +1,110 @@
+/**
+ * Page Script Evaluation
+ *
+ * Runs the `evaluate_script` of a scraper configuration in the page context and
+ * merges its return value into the extracted records. The script is the body of
+ * an async function; it runs in strict mode with the network APIs shadowed, the
+ * page's HTTP requests are aborted while it runs, its result must be
+ * JSON-serializable, and the evaluation is time-limited.
+ */
+
+import type { Page, Route } from 'playwright';
+import { ExtractedRecord } from './field-extractor.js';
+
+// Default time limit of an evaluate_script run in milliseconds
+export const DEFAULT_EVALUATE_TIMEOUT_MS = 5000;
+
+// Globals shadowed (bound to undefined) inside the script
+const SHADOWED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'Worker', 'SharedWorker', 'importScripts'];
+
+/**
+ * Outcome of one evaluate_script run, reported in the result metadata
+ */
+export interface PageScriptReport {
+  url: string;
+  status: 'completed' | 'failed';
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Evaluates the script in the page and returns its JSON-serialized result.
+ * Asynchronous work is bounded in the page; a script that blocks the page's
+ * event loop is abandoned by the Node-side timer.
+ *
+ * Shadowing only hides the bare globals (window.fetch stays reachable), so every
+ * HTTP request of the page (fetch, XHR, beacons, images, scripts) is aborted until
+ * the evaluation settles. The function is built here rather than with `new Function`
+ * in the page, which a Content-Security-Policy without 'unsafe-eval' forbids.
+ *
+ * @param page - The loaded page
+ * @param script - Body of an async function, e.g. "return { title: document.title }"
+ * @param timeoutMs - Time limit of the evaluation
+ * @throws Error if the script fails, times out or returns a non-serializable value
+ */
+export async function evaluatePageScript(page: Page, script: string, timeoutMs: number = DEFAULT_EVALUATE_TIMEOUT_MS): Promise<unknown> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(`evaluate_script timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  const blockRequest = (route: Route) => route.abort('blockedbyclient');
+  await page.route('**/*', blockRequest);
+
+  const evaluation = page.evaluate(buildScriptExpression(script, timeoutMs));
+  try {
+    return await Promise.race([evaluation, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+    evaluation.catch(() => { /* Settled after the timeout; the page is discarded with its context */ });
+    await page.unroute('**/*', blockRequest).catch(() => { /* The page is already closed */ });
+  }
+}
+
+// Wraps the script into an expression that runs it with the network globals shadowed and
+// resolves to its JSON round-tripped result, so that only plain data leaves the page
+function buildScriptExpression(script: string, timeoutMs: number): string {
+  const limit = Number(timeoutMs);
+  return `(async () => {
+  const run = async function (${SHADOWED_GLOBALS.join(', ')}) {
+'use strict';
+${script}
+  };
+  const result = await Promise.race([
+    run(),
+    new Promise((_, reject) => setTimeout(() => reject(new Error('evaluate_script timed out after ${limit}ms')), ${limit}))
+  ]);
+  return result === undefined ? null : JSON.parse(JSON.stringify(result));
+})()`;
+}
+
+/**
+ * Merges a script result into the extracted data. An object is merged into the
+ * record (into every record in list mode); in list mode an array is merged by index.
+ * Script values override the values of extracted fields with the same name.
+ *
+ * @throws Error if the result cannot be merged into the data
+ */
+export function mergeScriptResult(
+  data: ExtractedRecord | ExtractedRecord[],
+  result: unknown
+): ExtractedRecord | ExtractedRecord[] {
+  if (result === null) {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    if (Array.isArray(result)) {
+      return data.map((record, index) => isPlainRecord(result[index]) ? { ...record, ...result[index] } : record);
+    }
+    if (isPlainRecord(result)) {
+      return data.map(record => ({ ...record, ...result }));
+    }
+  } else if (isPlainRecord(result)) {
+    return { ...data, ...result };
+  }
+  throw new Error(`evaluate_script must return an object${Array.isArray(data) ? ' or an array of objects' : ''}, got ${Array.isArray(result) ? 'an array' : typeof result}`);
+}
+
+function isPlainRecord(value: unknown): value is ExtractedRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
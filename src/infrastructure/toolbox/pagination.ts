@@ -0,0 +1,200 @@
+/**
+ * Pagination Helpers
+ *
+ * Shared by the scraper tools: resolves a scraper's pagination settings and
+ * drives the page loop (next link or URL template, max pages, stop conditions).
+ * Each scraper loads pages and reads selectors with its own DOM API.
+ */
+
+import { PaginationConfig, ToolConfiguration } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord } from './field-extractor.js';
+
+// Safety cap used when a package does not set max_pages
+export const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Pagination settings with defaults applied
+ */
+export type ResolvedPagination = PaginationConfig & {
+  max_pages: number;
+  start_page: number;
+  stop_on_empty: boolean;
+};
+
+/**
+ * Why the page loop ended
+ */
+export type PaginationStopReason =
+  | 'max_pages' // The max_pages cap was reached
+  | 'no_next_page' // No next link (or no further page source)
+  | 'empty_page' // A page yielded no records
+  | 'stop_selector' // The stop_selector matched
+  | 'repeated_page' // The next page URL was already scraped
+  | 'error'; // A following page could not be loaded
+
+/**
+ * Pagination details reported in the result metadata
+ */
+export interface PaginationMetadata {
+  pagesScraped: number;
+  pageUrls: string[];
+  stopReason: PaginationStopReason;
+  error?: string; // Set when stopReason is 'error'
+}
+
+/**
+ * What a scraper read from one page
+ */
+export interface PageVisit {
+  records: ExtractedRecord[];
+  error?: string; // First extraction error on the page, if any
+  nextHref?: string | null; // Raw href of the next_selector link, if it matched
+  stopMatched?: boolean; // Whether the stop_selector matched on the page
+}
+
+/**
+ * Records collected from every page
+ */
+export interface PaginatedResult {
+  records: ExtractedRecord[];
+  errors: string[]; // Extraction errors, one per affected page
+  metadata: PaginationMetadata;
+}
+
+/**
+ * Resolves the pagination settings of a scraper configuration.
+ * Returns undefined when the parameters do not request pagination.
+ *
+ * @param parameters - The scraper tool parameters
+ */
+export function resolvePagination(parameters: ToolConfiguration['parameters']): ResolvedPagination | undefined {
+  const pagination = parameters.pagination as PaginationConfig | undefined;
+  if (!pagination || (!pagination.next_selector && !pagination.url_template && !pagination.load_more_selector)) {
+    return undefined;
+  }
+
+  return {
+    ...pagination,
+    max_pages: pagination.max_pages && pagination.max_pages > 0 ? pagination.max_pages : DEFAULT_MAX_PAGES,
+    start_page: pagination.start_page ?? 1,
+    stop_on_empty: pagination.stop_on_empty ?? true
+  };
+}
+
+/**
+ * Builds the URL of a page from a template containing a {page} placeholder.
+ * Relative templates are resolved against the base URL.
+ */
+export function buildPageUrl(template: string, page: number, baseUrl: string): string {
+  return new URL(template.replace(/\{page\}/g, String(page)), baseUrl).href;
+}
+
+/**
+ * Whether a record holds no extracted value at all
+ */
+export function isEmptyRecord(record: ExtractedRecord): boolean {
+  return Object.values(record).every(value =>
+    value === null || value === '' || (Array.isArray(value) && value.length === 0));
+}
+
+/**
+ * Scrapes the target URL and its following pages until a stop condition is met.
+ * A failure to load the target URL itself is thrown; failures on following pages
+ * end the loop and are reported in the metadata.
+ *
+ * @param targetUrl - URL of the first page
+ * @param pagination - Resolved pagination settings
+ * @param visitPage - Loads a page and extracts its records
+ */
+export async function collectPages(
+  targetUrl: string,
+  pagination: ResolvedPagination,
+  visitPage: (url: string, pageIndex: number) => Promise<PageVisit>
+): Promise<PaginatedResult> {
+  const records: ExtractedRecord[] = [];
+  const errors: string[] = [];
+  const pageUrls: string[] = [];
+  let stopReason: PaginationStopReason = 'max_pages';
+  let error: string | undefined;
+  let url = targetUrl;
+
+  for (let pageIndex = 0; pageIndex < pagination.max_pages; pageIndex++) {
+    if (pageIndex > 0 && pagination.delay_ms) {
+      await new Promise(resolve => setTimeout(resolve, pagination.delay_ms));
+    }
+
+    let page: PageVisit;
+    try {
+      page = await visitPage(url, pageIndex);
+    } catch (visitError) {
+      if (pageIndex === 0) {
+        throw visitError;
+      }
+      stopReason = 'error';
+      error = `Failed to load page ${url}: ${visitError instanceof Error ? visitError.message : String(visitError)}`;
+      break;
+    }
+    pageUrls.push(url);
+
+    if (page.error) {
+      errors.push(page.error);
+    }
+    const empty = page.records.every(isEmptyRecord);
+    if (empty && pagination.stop_on_empty) {
+      stopReason = 'empty_page';
+      break;
+    }
+    records.push(...page.records);
+
+    if (page.stopMatched) {
+      stopReason = 'stop_selector';
+      break;
+    }
+    if (pageIndex === pagination.max_pages - 1) {
+      break;
+    }
+
+    const nextUrl = getNextPageUrl(pagination, page, url, targetUrl, pageIndex);
+    if (!nextUrl) {
+      stopReason = 'no_next_page';
+      break;
+    }
+    if (pageUrls.includes(nextUrl)) {
+      stopReason = 'repeated_page';
+      break;
+    }
+    url = nextUrl;
+  }
+
+  return {
+    records,
+    errors,
+    metadata: { pagesScraped: pageUrls.length, pageUrls, stopReason, ...(error && { error }) }
+  };
+}
+
+/**
+ * Resolves the URL of the page following the current one, or null when there is none
+ */
+function getNextPageUrl(
+  pagination: ResolvedPagination,
+  page: PageVisit,
+  currentUrl: string,
+  targetUrl: string,
+  pageIndex: number
+): string | null {
+  if (pagination.url_template) {
+    return buildPageUrl(pagination.url_template, pagination.start_page + pageIndex + 1, targetUrl);
+  }
+  if (pagination.next_selector && page.nextHref) {
+    try {
+      const nextUrl = new URL(page.nextHref, currentUrl);
+      // Links such as "javascript:void(0)" or "#" do not lead to another page
+      nextUrl.hash = '';
+      return nextUrl.protocol === 'http:' || nextUrl.protocol === 'https:' ? nextUrl.href : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
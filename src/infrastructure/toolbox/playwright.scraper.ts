@@ -1,9 +1,44 @@
 // src/infrastructure/toolbox/playwright.scraper.ts
-import { chromium, Browser, Page, BrowserContext } from 'playwright'; // Use official Playwright for launching Chromium
+import { Page, Locator, BrowserContext, BrowserContextOptions } from 'playwright';
 
-import { IScraperTool, ToolExecutionResult } from '../execution/tool.interface.js';
-import { ScraperToolConfiguration, SelectorResult, UniversalConfigurationPackageFormatV1 } from '../../core/domain/configuration-package.types.js';
+import { IScraperTool, ToolCapabilities, ToolExecutionResult } from '../execution/tool.interface.js';
+import { ScraperToolConfiguration, ScraperToolConfigurationV2, FieldExtractionSpec, UniversalConfigurationPackageFormat } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, resolveFieldSpecs, getSelectorCandidates, getReadMode, finalizeFieldValue, pickFields } from './field-extractor.js';
+import { PageVisit, ResolvedPagination, resolvePagination, collectPages } from './pagination.js';
+import { InteractionStepReport, runInteractionSteps, isInteractionScript } from './interaction-runner.js';
+import { PageScriptReport, evaluatePageScript, mergeScriptResult } from './page-script.js';
+import { NetworkCapture, NetworkCaptureReport, isNetworkField, toUrlPattern } from './network-capture.js';
+import { extractJsonRecord, selectJsonItems } from './json-extractor.js';
+import { compileJsonPath } from './json-path.js';
+import { isStructuredDataField, parseStructuredData } from './structured-data.js';
+import { BrowserPool, BrowserLease, browserPool } from '../browser/browser-pool.js';
+import { ExecutionContext, ExecutionCookie, BrowserFingerprint, waitBeforeRequest } from '../execution/execution-context.js';
+import { detectCaptcha, resolveCaptcha, CaptchaBlockedError } from '../captcha/captcha-detector.js';
+import { CaptchaReport } from '../captcha/captcha.types.js';
 
+// Default navigation settings, overridable with goto_options
+const DEFAULT_GOTO_WAIT_UNTIL = 'domcontentloaded';
+const DEFAULT_GOTO_TIMEOUT_MS = 20000;
+
+// How long to wait for the page to move on after a captcha token was submitted
+const CAPTCHA_SUBMIT_NAVIGATION_TIMEOUT_MS = 10000;
+
+// How long to wait for a field (single mode) or the first list item (list mode) to appear
+const FIELD_WAIT_TIMEOUT_MS = 5000;
+// How long reading a matched element may take; list items are already attached when read
+const FIELD_READ_TIMEOUT_MS = 5000;
+const ITEM_FIELD_READ_TIMEOUT_MS = 500;
+
+/**
+ * Outcomes of the per-page steps of one execution, reported in the result metadata
+ */
+interface PageStepReports {
+    interactionSteps: InteractionStepReport[];
+    evaluateScript: PageScriptReport[];
+    waitSelectorTimeouts: string[]; // URLs of the pages where wait_selector never matched
+    captcha: CaptchaReport[]; // Challenges solved on the way
+    networkCapture: NetworkCaptureReport[]; // Responses recorded on each page
+}
 
 export class PlaywrightScraper implements IScraperTool {
   /**
@@ -17,11 +52,20 @@ export class PlaywrightScraper implements IScraperTool {
         type: "object",
         properties: {
           url: { type: "string", description: "Target URL to scrape" },
-          selectors: { type: "object", description: "Key-value pairs of output field and selector" },
-          attribute: { type: "string", enum: ["innerText", "html", "value"], description: "What to extract from selector (default: innerText)" },
-          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" }
+          selectors: { type: "object", description: "Key-value pairs of output field and selector (package schema 1.0)" },
+          attribute: { type: "string", description: "What to extract from selector: 'innerText' (default), 'html' or an attribute name" },
+          fields: { type: "object", description: "Key-value pairs of output field and extraction spec { selector (string or fallback list), attribute, property, multiple, type, default } (package schema 2.0)" },
+          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" },
+          item_selector: { type: "string", description: "Optional selector for repeated items (list pages). When set, returns one record per item and selectors are relative to each item." },
+          max_items: { type: "number", description: "Optional maximum number of items to extract in list mode" },
+          pagination: { type: "object", description: "Optional pagination { next_selector (link whose href is followed), url_template (with a {page} placeholder) and start_page, or load_more_selector (button clicked until no new items appear), max_pages (default 10), stop_selector, stop_on_empty (default true), delay_ms }. Records of all pages are returned as one list." },
+          goto_options: { type: "object", description: "Optional navigation options { waitUntil ('load', 'domcontentloaded' (default), 'networkidle' or 'commit'), timeout (default 20000), referer }" },
+          wait_selector: { type: "string", description: "Optional selector to wait for after navigation, for pages that render their content late (waits up to timeout_ms)" },
+          evaluate_script: { type: "string", description: "Optional body of an async function run in the page after extraction, e.g. \"return { title: document.title }\". The returned object is merged into the record (into each record in list mode; an array is merged by index). The page's HTTP requests are aborted while it runs, and the run is limited to evaluate_timeout_ms (default 5000)." },
+          interaction_script: { type: "array", description: "Optional steps run on each loaded page before extraction, in order. Each step has an action (click, fill, press, scroll_to_bottom, wait_for_selector, wait_for_network_idle, select_option, hover) with its arguments (selector, value, key, state, max_scrolls, delay_ms), plus timeout_ms (default 10000) and optional. A failing non-optional step skips the remaining steps; step outcomes are reported in metadata.interactionSteps." },
+          capture_network: { type: "object", description: "Optional capture of the page's JSON API responses { url_patterns (globs with '*', or /regex/), resource_types (default ['xhr', 'fetch']), item_path (JSONPath of the items; each yields one record), wait_timeout_ms (default 5000), max_responses (default 50), max_body_bytes }. Fields with \"source\": \"network\" use a JSONPath selector over the array of captured response bodies (e.g. '$..products[*].name', or relative to each item with item_path) and are merged with the DOM fields." }
         },
-        required: ["url", "selectors"]
+        required: ["url"]
       },
       annotations: {
         title: "Dynamic Web Scraper (Playwright)",
@@ -32,18 +76,21 @@ export class PlaywrightScraper implements IScraperTool {
     readonly toolId = 'scraper_playwright_stealth_v1';
     readonly name = 'Playwright Scraper';
     readonly description = 'Fetches and renders pages using Playwright (Chromium) to extract data.';
+    readonly capabilities: ToolCapabilities = { jsRendering: true, proxySupport: true, costTier: 'high' };
     private logger = console; // Basic logger
-    private config: ScraperToolConfiguration | null = null;
-    private browser: Browser | null = null;
-    private context: BrowserContext | null = null;
+    private config: ScraperToolConfiguration | ScraperToolConfigurationV2 | null = null;
+
+    // Browsers are shared through the pool; each execution leases its own context
+    constructor(private readonly pool: BrowserPool = browserPool) {}
 
     async initialize(config: any): Promise<void> {
         this.logger.log(`[${this.toolId}] Initializing...`);
         // Basic validation
-        if (!config || !config.parameters || !config.parameters.selectors) {
-            throw new Error(`[${this.toolId}] Invalid configuration provided. 'selectors' parameter is required.`);
+        if (!config || !config.parameters || (!config.parameters.selectors && !config.parameters.fields)) {
+            throw new Error(`[${this.toolId}] Invalid configuration provided. 'selectors' or 'fields' parameter is required.`);
         }
-        this.config = config as ScraperToolConfiguration; // Assume structure matches for now
+        this.validateNetworkCapture(config.parameters);
+        this.config = config as ScraperToolConfiguration | ScraperToolConfigurationV2; // Assume structure matches for now
         this.logger.log(`[${this.toolId}] Initialization complete.`);
     }
 
@@ -51,105 +98,630 @@ export class PlaywrightScraper implements IScraperTool {
      * Executes the Playwright scraping process for a given URL.
      * @param targetUrl The URL to scrape.
      * @param fullPackage The full configuration package (used for context, e.g., proxies).
+     * @param context Proxy, headers, cookies, fingerprint and delays applied to the browser context and each navigation.
      * @returns A promise resolving to the ToolExecutionResult.
      */
-    async execute(targetUrl: string, fullPackage: UniversalConfigurationPackageFormatV1): Promise<ToolExecutionResult> {
-        if (!this.config || !this.config.parameters?.selectors) {
+    async execute(targetUrl: string, fullPackage: UniversalConfigurationPackageFormat, context?: ExecutionContext): Promise<ToolExecutionResult> {
+        if (!this.config || (!this.config.parameters?.selectors && !this.config.parameters?.fields)) {
             throw new Error(`[${this.toolId}] Scraper not initialized or configuration is invalid.`);
         }
         this.logger.log(`[${this.toolId}] Executing for URL: ${targetUrl}`);
 
-        const selectors = this.config.parameters.selectors;
-        const attributeToExtract = this.config.parameters.attribute || 'innerText'; // Default to innerText
+        const fields = resolveFieldSpecs(this.config.parameters, 'innerText'); // Accepts 1.0 selectors or 2.0 fields
         const timeout = this.config.parameters.timeout_ms || 30000; // Default timeout
 
+        let lease: BrowserLease | undefined;
+        let capture: NetworkCapture | undefined;
         try {
-            // Launch browser if not already running (can be optimized later)
-            if (!this.browser) {
-                this.logger.log(`[${this.toolId}] Launching browser...`);
-                this.browser = await chromium.launch({ headless: true }); // Use stealth-enabled chromium
-            }
-            // Create context and page for isolation
-            this.context = await this.browser.newContext();
-            const page = await this.context.newPage();
+            // Lease an isolated context from the shared browser pool
+            lease = await this.pool.acquireContext(toContextOptions(context));
+            if (context) {
+                await applyFingerprintOverrides(lease.context, context.fingerprint);
+            }
+            if (context?.cookies.length) {
+                await lease.context.addCookies(toPlaywrightCookies(context.cookies, targetUrl));
+            }
+            const page = await lease.context.newPage();
             page.setDefaultTimeout(timeout);
 
-            this.logger.info(`Navigating to ${targetUrl}...`);
-            await page.goto(targetUrl, {
-                waitUntil: 'domcontentloaded', // Wait only for DOM content
-                timeout: 20000 // Keep timeout for now
-            });
-
-            this.logger.log(`[${this.toolId}] Page loaded. Extracting data...`);
-
-            const results: SelectorResult = {};
-
-            for (const key in selectors) {
-                const selector = selectors[key];
-                try {
-                    // Use Playwright's locator API
-                    const locator = page.locator(selector).first(); // Take the first match
-                    let extractedValue: string | null = null;
-
-                    switch (attributeToExtract.toLowerCase()) {
-                        case 'text':
-                        case 'innertext':
-                            extractedValue = await locator.innerText({ timeout: 5000 }); // Short timeout for extraction
-                            break;
-                        case 'html':
-                        case 'innerhtml':
-                            extractedValue = await locator.innerHTML({ timeout: 5000 });
-                            break;
-                        default:
-                            // Extract specific attribute
-                            extractedValue = await locator.getAttribute(attributeToExtract, { timeout: 5000 });
-                    }
+            // Record the page's API responses from the first navigation on
+            const captureConfig = this.config.parameters.capture_network;
+            capture = captureConfig ? new NetworkCapture(page, captureConfig) : undefined;
+            capture?.start();
 
-                    results[key] = extractedValue?.trim() ?? null;
-                    this.logger.log(`[${this.toolId}] Extracted '${key}' using selector '${selector}': ${results[key]?.substring(0, 50)}...`);
+            // Pagination: scrape the following pages too and return the records of all pages
+            const pagination = resolvePagination(this.config.parameters);
+            const reports: PageStepReports = { interactionSteps: [], evaluateScript: [], waitSelectorTimeouts: [], captcha: [], networkCapture: [] };
+            if (pagination) {
+                const { records, metadata } = await collectPages(targetUrl, pagination, (url, pageIndex) =>
+                    this.visitPage(page, url, pageIndex, fields, pagination, reports, capture, context));
+                this.logger.log(`[${this.toolId}] Pagination stopped after ${metadata.pagesScraped} pages (${metadata.stopReason}), ${records.length} records.`);
 
-                } catch (error: any) {
-                    if (error.name === 'TimeoutError') {
-                        this.logger.warn(`[${this.toolId}] Selector '${selector}' for key '${key}' timed out or did not match any elements.`);
-                    } else {
-                        this.logger.warn(`[${this.toolId}] Error extracting data for key '${key}' with selector '${selector}': ${error.message}`);
+                return {
+                    success: true,
+                    data: records,
+                    metadata: {
+                        url: targetUrl,
+                        itemCount: records.length,
+                        pagination: metadata,
+                        ...this.reportMetadata(reports)
                     }
-                    results[key] = null; // Set to null if extraction fails
-                }
+                };
             }
 
-            await page.close();
-            await this.context.close(); // Clean up context
-            this.context = null;
+            await this.loadPage(page, targetUrl, reports, capture, context);
+            this.logger.log(`[${this.toolId}] Page loaded. Extracting data...`);
+            const data = await this.applyEvaluateScript(page, await this.extractPage(page, fields, reports, capture), reports);
+
             this.logger.log(`[${this.toolId}] Extraction successful for ${targetUrl}.`);
             return {
                 success: true,
-                data: results,
-                metadata: { url: targetUrl } // Example metadata
+                data,
+                metadata: {
+                    url: targetUrl,
+                    ...(Array.isArray(data) ? { itemCount: data.length } : {}),
+                    ...this.reportMetadata(reports)
+                }
             };
 
         } catch (error: any) {
-            this.logger.error(`[${this.toolId}] Failed to execute for ${targetUrl}: ${error}`);
-            // Ensure context is closed on error
-            if (this.context) {
-                try { await this.context.close(); } catch (e) { /* ignore */ }
-                this.context = null;
+            if (error instanceof CaptchaBlockedError) {
+                this.logger.warn(`[${this.toolId}] ${error.message}`);
+                return {
+                    success: false,
+                    blocked: 'captcha',
+                    error: `Playwright execution failed: ${error.message}`,
+                    metadata: { url: targetUrl, captcha: error.report }
+                };
             }
+            this.logger.error(`[${this.toolId}] Failed to execute for ${targetUrl}: ${error}`);
             return {
                 success: false,
                 error: `Playwright execution failed: ${error.message}`,
                 metadata: { url: targetUrl }
             };
+        } finally {
+            capture?.stop();
+            // Closes the context (and its pages) and frees the pool slot
+            await lease?.release();
+        }
+    }
+
+    /**
+     * Navigates to a URL and prepares the page for extraction: waits for
+     * wait_selector, then runs the interaction script
+     */
+    private async loadPage(page: Page, url: string, reports: PageStepReports, capture: NetworkCapture | undefined, context?: ExecutionContext): Promise<void> {
+        capture?.reset();
+        const statusCode = await this.navigate(page, url, context);
+        await this.handleCaptcha(page, url, statusCode, context, reports);
+
+        const waitSelector = this.config?.parameters.wait_selector;
+        if (waitSelector) {
+            try {
+                await page.locator(waitSelector).first().waitFor({ state: 'attached' });
+            } catch (error) {
+                // Extract anyway: fields that did render are still worth returning
+                this.logger.warn(`[${this.toolId}] wait_selector '${waitSelector}' did not appear on ${url}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+                reports.waitSelectorTimeouts.push(url);
+            }
+        }
+
+        reports.interactionSteps.push(...await this.runInteractionScript(page));
+    }
+
+    /**
+     * Detects a captcha or bot challenge on the loaded page and hands it to the context's
+     * solver: clearance cookies are added and the page reloaded, a token is submitted
+     * through the page's captcha widget
+     * @throws CaptchaBlockedError when the page stays behind the challenge
+     */
+    private async handleCaptcha(page: Page, url: string, statusCode: number | undefined, context: ExecutionContext | undefined, reports: PageStepReports): Promise<void> {
+        const challenge = detectCaptcha(await page.content(), url, statusCode);
+        if (!challenge) {
+            return;
+        }
+
+        this.logger.warn(`[${this.toolId}] Detected a ${challenge.kind} challenge (${challenge.signal}) on ${url}.`);
+        reports.captcha.push(await resolveCaptcha(challenge, context, async solution => {
+            if (solution.cookies?.length) {
+                await page.context().addCookies(toPlaywrightCookies(solution.cookies, url));
+            }
+
+            if (solution.token) {
+                const navigation = page.waitForEvent('framenavigated', {
+                    predicate: frame => frame === page.mainFrame(),
+                    timeout: CAPTCHA_SUBMIT_NAVIGATION_TIMEOUT_MS
+                }).catch(() => undefined); // The widget callback may update the page without navigating
+                await page.evaluate(submitCaptchaToken, solution.token);
+                await navigation;
+            } else {
+                await page.reload({ waitUntil: this.config?.parameters.goto_options?.waitUntil ?? DEFAULT_GOTO_WAIT_UNTIL });
+            }
+            await page.waitForLoadState('domcontentloaded');
+            return detectCaptcha(await page.content(), page.url());
+        }));
+    }
+
+    /**
+     * Navigates the page to a URL using goto_options, after the context's request delay
+     * @returns The HTTP status of the response, when there is one
+     */
+    private async navigate(page: Page, url: string, context?: ExecutionContext): Promise<number | undefined> {
+        await waitBeforeRequest(context);
+        const gotoOptions = this.config?.parameters.goto_options;
+        this.logger.info(`Navigating to ${url}...`);
+        const response = await page.goto(url, {
+            waitUntil: gotoOptions?.waitUntil ?? DEFAULT_GOTO_WAIT_UNTIL,
+            timeout: gotoOptions?.timeout ?? DEFAULT_GOTO_TIMEOUT_MS,
+            referer: gotoOptions?.referer
+        });
+        return response?.status();
+    }
+
+    /**
+     * Runs evaluate_script on the page and merges its result into the extracted data.
+     * A failing script is reported and leaves the data unchanged.
+     */
+    private async applyEvaluateScript(
+        page: Page,
+        data: ExtractedRecord | ExtractedRecord[],
+        reports: PageStepReports
+    ): Promise<ExtractedRecord | ExtractedRecord[]> {
+        const script = this.config?.parameters.evaluate_script;
+        if (!script) {
+            return data;
+        }
+
+        const startTime = Date.now();
+        const url = page.url();
+        try {
+            const result = await evaluatePageScript(page, script, this.config?.parameters.evaluate_timeout_ms);
+            const merged = mergeScriptResult(data, result);
+            reports.evaluateScript.push({ url, status: 'completed', durationMs: Date.now() - startTime });
+            return merged;
+        } catch (error) {
+            const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            this.logger.warn(`[${this.toolId}] evaluate_script failed on ${url}: ${message}`);
+            reports.evaluateScript.push({ url, status: 'failed', durationMs: Date.now() - startTime, error: message });
+            return data;
+        }
+    }
+
+    /**
+     * Result metadata of the per-page steps that were configured
+     */
+    private reportMetadata(reports: PageStepReports): Record<string, unknown> {
+        return {
+            ...(reports.waitSelectorTimeouts.length > 0 ? { waitSelectorTimeouts: reports.waitSelectorTimeouts } : {}),
+            ...(reports.interactionSteps.length > 0 ? { interactionSteps: reports.interactionSteps } : {}),
+            ...(reports.evaluateScript.length > 0 ? { evaluateScript: reports.evaluateScript } : {}),
+            ...(reports.captcha.length > 0 ? { captcha: reports.captcha[reports.captcha.length - 1] } : {}),
+            ...(reports.networkCapture.length > 0 ? { networkCapture: reports.networkCapture } : {})
+        };
+    }
+
+    /**
+     * Runs the configured interaction script on the loaded page. Step failures are
+     * reported rather than thrown so that extraction still runs on the page as it is.
+     */
+    private async runInteractionScript(page: Page): Promise<InteractionStepReport[]> {
+        const script = this.config?.parameters.interaction_script;
+        if (script === undefined || (Array.isArray(script) && script.length === 0)) {
+            return [];
+        }
+        if (!isInteractionScript(script)) {
+            this.logger.warn(`[${this.toolId}] Ignoring interaction_script: expected a list of steps with an 'action'.`);
+            return [];
+        }
+
+        const reports = await runInteractionSteps(page, script);
+        for (const report of reports.filter(r => r.status === 'failed')) {
+            this.logger.warn(`[${this.toolId}] Interaction step ${report.index} (${report.action}) failed: ${report.error}`);
+        }
+        return reports;
+    }
+
+    /**
+     * Extracts the records of the current page: one record per item in list mode,
+     * a single record otherwise. The structured data fields are read from the rendered
+     * page's JSON-LD, microdata, RDFa and meta tags and, with a network capture, the
+     * network fields from the page's recorded responses; both are merged in.
+     */
+    private async extractPage(
+        page: Page,
+        fields: { [key: string]: FieldExtractionSpec },
+        reports: PageStepReports,
+        capture?: NetworkCapture
+    ): Promise<ExtractedRecord | ExtractedRecord[]> {
+        const domFields = pickFields(fields, spec => !isNetworkField(spec) && !isStructuredDataField(spec));
+        const data = await this.withStructuredData(page, await this.extractDomRecords(page, domFields), pickFields(fields, isStructuredDataField));
+        if (!capture) {
+            return data;
+        }
+
+        const responses = await capture.settle();
+        reports.networkCapture.push(capture.report(page.url()));
+        this.logger.log(`[${this.toolId}] Captured ${responses.length} API responses on ${page.url()}.`);
+        const networkData = this.extractNetworkRecords(responses.map(response => response.body), pickFields(fields, isNetworkField));
+
+        // Items of the captured responses become the records when the DOM has no list of its own
+        if (!Array.isArray(data) && Array.isArray(networkData)) {
+            return networkData.map(record => ({ ...data, ...record }));
+        }
+        return mergeScriptResult(data, networkData);
+    }
+
+    /**
+     * Merges the structured data fields of the page into the extracted record(s)
+     */
+    private async withStructuredData(
+        page: Page,
+        data: ExtractedRecord | ExtractedRecord[],
+        fields: { [key: string]: FieldExtractionSpec }
+    ): Promise<ExtractedRecord | ExtractedRecord[]> {
+        if (Object.keys(fields).length === 0) {
+            return data;
+        }
+
+        const { data: structured, error, unmatched } = extractJsonRecord(parseStructuredData(await page.content(), page.url()), fields);
+        if (error) {
+            this.logger.warn(`[${this.toolId}] ${error}`);
+        }
+        for (const key of unmatched) {
+            this.logger.warn(`[${this.toolId}] JSONPath '${getSelectorCandidates(fields[key]).join("', '")}' for key '${key}' did not match any structured data.`);
+        }
+        return mergeScriptResult(data, structured);
+    }
+
+    /**
+     * Extracts the network fields from the captured response bodies: one record per
+     * item of capture_network.item_path, a single record otherwise
+     */
+    private extractNetworkRecords(
+        bodies: unknown[],
+        fields: { [key: string]: FieldExtractionSpec }
+    ): ExtractedRecord | ExtractedRecord[] {
+        const itemPath = this.config?.parameters.capture_network?.item_path;
+        const extract = (scope: unknown) => {
+            const { data, error, unmatched } = extractJsonRecord(scope, fields);
+            if (error) {
+                this.logger.warn(`[${this.toolId}] ${error}`);
+            }
+            for (const key of unmatched) {
+                this.logger.warn(`[${this.toolId}] JSONPath '${getSelectorCandidates(fields[key]).join("', '")}' for key '${key}' did not match any captured value.`);
+            }
+            return data;
+        };
+
+        if (!itemPath) {
+            return extract(bodies);
+        }
+        const items = selectJsonItems(bodies, itemPath, this.config?.parameters.max_items);
+        this.logger.log(`[${this.toolId}] Network list mode: '${itemPath}' matched ${items.length} items.`);
+        return items.map(extract);
+    }
+
+    /**
+     * Extracts the DOM fields of the current page: one record per item container in
+     * list mode, selectors resolved relative to each item
+     */
+    private async extractDomRecords(
+        page: Page,
+        fields: { [key: string]: FieldExtractionSpec }
+    ): Promise<ExtractedRecord | ExtractedRecord[]> {
+        if (!this.config?.parameters.item_selector) {
+            return this.extractRecord(page, fields, FIELD_WAIT_TIMEOUT_MS);
+        }
+
+        // Wait once for the list; the fields of each item are then read without waiting,
+        // so a missing optional field costs nothing per item
+        const itemLocator = page.locator(this.config.parameters.item_selector);
+        try {
+            await itemLocator.first().waitFor({ state: 'attached', timeout: FIELD_WAIT_TIMEOUT_MS });
+        } catch {
+            // No items: reported below
+        }
+
+        let items = await itemLocator.all();
+        const maxItems = this.config.parameters.max_items;
+        if (maxItems && maxItems > 0) {
+            items = items.slice(0, maxItems);
+        }
+        this.logger.log(`[${this.toolId}] List mode: '${this.config.parameters.item_selector}' matched ${items.length} items.`);
+
+        const records: ExtractedRecord[] = [];
+        for (const item of items) {
+            records.push(await this.extractRecord(item, fields));
+        }
+        return records;
+    }
+
+    /**
+     * Loads one page of a paginated listing, clicks its "load more" button if configured,
+     * then extracts its records and reads its pagination links
+     */
+    private async visitPage(
+        page: Page,
+        url: string,
+        pageIndex: number,
+        fields: { [key: string]: FieldExtractionSpec },
+        pagination: ResolvedPagination,
+        reports: PageStepReports,
+        capture: NetworkCapture | undefined,
+        context?: ExecutionContext
+    ): Promise<PageVisit> {
+        await this.loadPage(page, url, reports, capture, context);
+        this.logger.log(`[${this.toolId}] Page ${pageIndex + 1} loaded. Extracting data...`);
+
+        if (pagination.load_more_selector) {
+            await this.loadMore(page, pagination.load_more_selector, pagination);
+        }
+
+        const data = await this.applyEvaluateScript(page, await this.extractPage(page, fields, reports, capture), reports);
+        const nextLink = pagination.next_selector ? page.locator(pagination.next_selector).first() : null;
+
+        return {
+            records: Array.isArray(data) ? data : [data],
+            nextHref: nextLink && await nextLink.count() > 0 ? await nextLink.getAttribute('href') : null,
+            stopMatched: pagination.stop_selector ? await page.locator(pagination.stop_selector).count() > 0 : false
+        };
+    }
+
+    /**
+     * Clicks the "load more" button until it disappears, stops adding content,
+     * the stop selector matches, or max_pages - 1 clicks were made.
+     * Progress is measured by the number of list items (or the page's element count).
+     */
+    private async loadMore(page: Page, buttonSelector: string, pagination: ResolvedPagination): Promise<number> {
+        const button = page.locator(buttonSelector).first();
+        const itemSelector = this.config?.parameters.item_selector || '*';
+        let clicks = 0;
+
+        while (clicks < pagination.max_pages - 1) {
+            if (pagination.stop_selector && await page.locator(pagination.stop_selector).count() > 0) {
+                break;
+            }
+            if (await button.count() === 0 || !(await button.isVisible()) || !(await button.isEnabled())) {
+                break;
+            }
+
+            const countBefore = await page.locator(itemSelector).count();
+            await button.click({ timeout: 5000 });
+            clicks++;
+            try {
+                await page.waitForFunction(
+                    ({ selector, count }) => document.querySelectorAll(selector).length > count,
+                    { selector: itemSelector, count: countBefore },
+                    { timeout: 10000 }
+                );
+            } catch {
+                this.logger.log(`[${this.toolId}] No new content after clicking '${buttonSelector}'.`);
+                break;
+            }
+            if (pagination.delay_ms) {
+                await page.waitForTimeout(pagination.delay_ms);
+            }
+        }
+
+        this.logger.log(`[${this.toolId}] Clicked '${buttonSelector}' ${clicks} times.`);
+        return clicks;
+    }
+
+    /**
+     * Extracts one record by resolving each field spec within the given scope
+     * (the page in single mode, an item locator in list mode).
+     * Fallback selectors are tried in order; the first one that matches wins.
+     * With a wait timeout each field may still appear; without one, fields that
+     * do not match yet take their default right away.
+     */
+    private async extractRecord(
+        scope: Page | Locator,
+        fields: { [key: string]: FieldExtractionSpec },
+        waitTimeout?: number
+    ): Promise<ExtractedRecord> {
+        const results: ExtractedRecord = {};
+
+        for (const key in fields) {
+            const spec = fields[key];
+            const candidates = getSelectorCandidates(spec);
+            let selector = candidates[0];
+            try {
+                selector = await this.resolveSelector(scope, candidates);
+                const matches = scope.locator(selector);
+                if (waitTimeout !== undefined) {
+                    // Wait briefly for the field to appear (short timeout for extraction)
+                    await matches.first().waitFor({ state: 'attached', timeout: waitTimeout });
+                } else if (await matches.count() === 0) {
+                    this.logger.log(`[${this.toolId}] Selector '${candidates.join("', '")}' for key '${key}' did not match any elements.`);
+                    results[key] = finalizeFieldValue(spec, []);
+                    continue;
+                }
+
+                const locators = spec.multiple ? await matches.all() : [matches.first()];
+                const rawValues: unknown[] = [];
+                for (const locator of locators) {
+                    rawValues.push(await this.readValue(locator, spec, waitTimeout === undefined ? ITEM_FIELD_READ_TIMEOUT_MS : FIELD_READ_TIMEOUT_MS));
+                }
+
+                results[key] = finalizeFieldValue(spec, rawValues);
+                this.logger.log(`[${this.toolId}] Extracted '${key}' using selector '${selector}': ${String(results[key]).substring(0, 50)}...`);
+
+            } catch (error: any) {
+                if (error.name === 'TimeoutError') {
+                    this.logger.warn(`[${this.toolId}] Selector '${candidates.join("', '")}' for key '${key}' timed out or did not match any elements.`);
+                } else {
+                    this.logger.warn(`[${this.toolId}] Error extracting data for key '${key}' with selector '${selector}': ${error.message}`);
+                }
+                results[key] = finalizeFieldValue(spec, []); // Default (or null) if extraction fails
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Returns the first candidate selector that currently matches within the scope.
+     * Falls back to the first candidate so that extraction can still wait for it to appear.
+     */
+    private async resolveSelector(scope: Page | Locator, candidates: string[]): Promise<string> {
+        if (candidates.length > 1) {
+            for (const candidate of candidates) {
+                if (await scope.locator(candidate).count() > 0) {
+                    return candidate;
+                }
+            }
+        }
+        return candidates[0];
+    }
+
+    /**
+     * Reads the raw value of a single matched element according to the field spec
+     */
+    private async readValue(locator: Locator, spec: FieldExtractionSpec, timeout: number): Promise<unknown> {
+        const mode = getReadMode(spec);
+        switch (mode.kind) {
+            case 'text':
+                return locator.innerText({ timeout });
+            case 'html':
+                return locator.innerHTML({ timeout });
+            case 'property':
+                return locator.evaluate(
+                    (el, name) => (el as unknown as Record<string, unknown>)[name],
+                    mode.name,
+                    { timeout }
+                );
+            case 'attribute':
+                return locator.getAttribute(mode.name, { timeout });
+        }
+    }
+
+    /**
+     * Checks the capture_network settings and the JSONPaths of the network fields
+     * @throws Error when they are incomplete or malformed
+     */
+    private validateNetworkCapture(parameters: ScraperToolConfigurationV2['parameters']): void {
+        const capture = parameters.capture_network;
+        const networkFields = Object.values(resolveFieldSpecs(parameters)).filter(isNetworkField);
+        if (!capture) {
+            if (networkFields.length > 0) {
+                throw new Error(`[${this.toolId}] Fields with source 'network' require 'capture_network'.`);
+            }
+            return;
+        }
+        if (!Array.isArray(capture.url_patterns) || capture.url_patterns.length === 0) {
+            throw new Error(`[${this.toolId}] 'capture_network' requires at least one URL pattern in 'url_patterns'.`);
+        }
+        try {
+            capture.url_patterns.forEach(toUrlPattern);
+            [...networkFields.flatMap(getSelectorCandidates), capture.item_path]
+                .filter((path): path is string => !!path)
+                .forEach(path => compileJsonPath(path));
+        } catch (error) {
+            throw new Error(`[${this.toolId}] Invalid 'capture_network' setting: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
     async cleanup(): Promise<void> {
         this.logger.log(`[${this.toolId}] Cleanup called.`);
-        if (this.browser) {
-            this.logger.log(`[${this.toolId}] Closing browser...`);
-            await this.browser.close();
-            this.browser = null;
-        }
+        // Contexts are released after each URL and the pool owns the browsers
+        this.config = null;
         this.logger.log(`[${this.toolId}] Cleanup complete.`);
     }
 }
+
+/**
+ * Maps the execution context to the options of the leased browser context
+ */
+function toContextOptions(context?: ExecutionContext): BrowserContextOptions | undefined {
+    if (!context) {
+        return undefined;
+    }
+
+    const { fingerprint } = context;
+    const options: BrowserContextOptions = {
+        ...(fingerprint.userAgent ? { userAgent: fingerprint.userAgent } : {}),
+        ...(fingerprint.viewport ? { viewport: fingerprint.viewport } : {}),
+        ...(fingerprint.screen ? { screen: fingerprint.screen } : {}),
+        ...(fingerprint.locale ? { locale: fingerprint.locale } : {}),
+        ...(fingerprint.timezoneId ? { timezoneId: fingerprint.timezoneId } : {}),
+        ...(fingerprint.deviceScaleFactor ? { deviceScaleFactor: fingerprint.deviceScaleFactor } : {}),
+        ...(Object.keys(context.headers).length > 0 ? { extraHTTPHeaders: context.headers } : {})
+    };
+
+    if (context.proxyUrl) {
+        const proxy = new URL(context.proxyUrl);
+        options.proxy = {
+            server: `${proxy.protocol}//${proxy.host}`,
+            ...(proxy.username ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) } : {})
+        };
+    }
+    return options;
+}
+
+/**
+ * Overrides the page-visible properties Playwright has no context option for
+ * (navigator.platform and the unmasked WebGL vendor and renderer) in every page of the context
+ */
+async function applyFingerprintOverrides(context: BrowserContext, fingerprint: BrowserFingerprint): Promise<void> {
+    const { platform, webglVendor, webglRenderer } = fingerprint;
+    if (!platform && !webglVendor && !webglRenderer) {
+        return;
+    }
+
+    await context.addInitScript((overrides: Pick<BrowserFingerprint, 'platform' | 'webglVendor' | 'webglRenderer'>) => {
+        if (overrides.platform) {
+            Object.defineProperty(Navigator.prototype, 'platform', { get: () => overrides.platform, configurable: true });
+        }
+
+        // UNMASKED_VENDOR_WEBGL and UNMASKED_RENDERER_WEBGL of the WEBGL_debug_renderer_info extension
+        const patch = (proto: WebGLRenderingContext | WebGL2RenderingContext) => {
+            const getParameter = proto.getParameter;
+            proto.getParameter = function (this: WebGLRenderingContext, parameter: number) {
+                if (parameter === 37445 && overrides.webglVendor) {
+                    return overrides.webglVendor;
+                }
+                if (parameter === 37446 && overrides.webglRenderer) {
+                    return overrides.webglRenderer;
+                }
+                return getParameter.call(this, parameter);
+            };
+        };
+        patch(WebGLRenderingContext.prototype);
+        if (typeof WebGL2RenderingContext !== 'undefined') {
+            patch(WebGL2RenderingContext.prototype);
+        }
+    }, { platform, webglVendor, webglRenderer });
+}
+
+/**
+ * Maps context cookies to Playwright cookies; cookies without a domain belong to the page's host
+ */
+function toPlaywrightCookies(cookies: ExecutionCookie[], pageUrl: string) {
+    return cookies.map(cookie => cookie.domain
+        ? { name: cookie.name, value: cookie.value, domain: cookie.domain, path: cookie.path ?? '/' }
+        : { name: cookie.name, value: cookie.value, url: new URL(cookie.path ?? '/', pageUrl).toString() });
+}
+
+/**
+ * Runs in the page: puts a solver token into the response fields of the reCAPTCHA,
+ * hCaptcha and Turnstile widgets, then calls the widget's data-callback or submits its form
+ */
+function submitCaptchaToken(token: string): void {
+    const fieldNames = ['g-recaptcha-response', 'h-captcha-response', 'cf-turnstile-response'];
+    for (const name of fieldNames) {
+        document.querySelectorAll<HTMLTextAreaElement | HTMLInputElement>(`[name="${name}"]`).forEach(field => {
+            field.value = token;
+        });
+    }
+
+    const widget = document.querySelector<HTMLElement>('.g-recaptcha, .h-captcha, .cf-turnstile, [data-sitekey]');
+    const callbackName = widget?.getAttribute('data-callback');
+    const callback = callbackName ? (window as unknown as Record<string, unknown>)[callbackName] : undefined;
+    if (typeof callback === 'function') {
+        callback(token);
+        return;
+    }
+    const form = widget?.closest('form') ?? document.querySelector('form');
+    form?.submit();
+}
@@ -0,0 +1,191 @@
+import { IScraperTool, ToolCapabilities, ToolExecutionResult } from '../execution/tool.interface.js';
+import { UniversalConfigurationPackageFormat, ToolConfiguration, FieldExtractionSpec } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord, resolveFieldSpecs, getSelectorCandidates } from './field-extractor.js';
+import { compileJsonPath } from './json-path.js';
+import { extractJsonRecord } from './json-extractor.js';
+import { StructuredDataDocument, parseStructuredData, filterEntities, flattenEntity, flattenMetaTags } from './structured-data.js';
+import { ExecutionContext } from '../execution/execution-context.js';
+import { CaptchaBlockedError } from '../captcha/captcha-detector.js';
+import { CaptchaReport } from '../captcha/captcha.types.js';
+import { loadHtml } from './html-loader.js';
+
+interface StructuredDataParams {
+  selectors?: { [outputKey: string]: string }; // 1.0: output key to JSONPath
+  fields?: { [outputKey: string]: FieldExtractionSpec }; // 2.0: per-field specs whose selectors are JSONPaths
+  entity_types?: string[]; // Optional: schema.org types (e.g. ['Product']); each such entity yields one record
+  max_items?: number; // Optional: Cap on the records of a page
+  timeout_ms?: number; // Optional: Timeout in milliseconds
+}
+
+/**
+ * MCP-compliant Structured Data Scraper
+ *
+ * Reads the data pages publish for search engines and social networks (JSON-LD,
+ * schema.org microdata/RDFa, OpenGraph and Twitter tags) instead of their layout, so
+ * that builds keep working when the markup changes. Without fields, each entity is
+ * returned as a flattened record; with fields, JSONPaths select values from the page's
+ * structured data document or, with entity_types, from each entity.
+ */
+export class StructuredDataScraper implements IScraperTool {
+  static getMcpDefinition() {
+    return {
+      name: "scraper_structured_data_v1",
+      description: "IScraperTool: Extracts the structured data of a page (JSON-LD, schema.org microdata/RDFa, OpenGraph and Twitter meta tags) into normalized records. Robust to layout changes; best for product, article, job and event pages that publish schema.org data.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "Target URL to scrape" },
+          entity_types: { type: "array", items: { type: "string" }, description: "Optional schema.org types to return, e.g. ['Product'] or ['JobPosting']. Each matching entity yields one record; field paths are then relative to the entity." },
+          selectors: { type: "object", description: "Optional key-value pairs of output field and JSONPath (package schema 1.0)" },
+          fields: { type: "object", description: "Optional key-value pairs of output field and extraction spec { selector (JSONPath or fallback list), multiple, type, default } (package schema 2.0). Paths address { entities: [{ '@type', '@source', ...properties }], opengraph: { title, image, ... }, twitter: { card, ... } }, e.g. \"$.entities[?(@['@type'] == 'Product')].offers.price\" or '$.opengraph.title'. Without fields, entities are returned as flattened records ('offers.price')." },
+          max_items: { type: "number", description: "Optional maximum number of records per page" },
+          timeout_ms: { type: "number", description: "Optional timeout in milliseconds" }
+        },
+        required: ["url"]
+      },
+      annotations: {
+        title: "Structured Data Scraper (JSON-LD, microdata, OpenGraph)",
+        openWorldHint: true
+      }
+    };
+  }
+  readonly toolId = 'scraper_structured_data_v1';
+  readonly name = 'Structured Data Scraper';
+  readonly description = 'Extracts JSON-LD, microdata, RDFa and OpenGraph/Twitter data into normalized records.';
+  readonly capabilities: ToolCapabilities = { jsRendering: false, proxySupport: true, costTier: 'low' };
+  private config?: ToolConfiguration;
+  private logger = console;
+
+  async initialize(config: ToolConfiguration): Promise<void> {
+    this.logger.info(`[${this.toolId}] Initializing with config:`, JSON.stringify(config.parameters, null, 2));
+    const params = (config.parameters ?? {}) as StructuredDataParams;
+    if (params.entity_types !== undefined && !Array.isArray(params.entity_types)) {
+      throw new Error(`[${this.toolId}] 'entity_types' must be a list of schema.org types.`);
+    }
+    if (params.selectors || params.fields) {
+      try {
+        Object.values(resolveFieldSpecs(config.parameters)).flatMap(getSelectorCandidates).forEach(path => compileJsonPath(path));
+      } catch (error) {
+        throw new Error(`[${this.toolId}] ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    this.config = { ...config, parameters: config.parameters ?? {} };
+    this.logger.info(`[${this.toolId}] Initialization complete.`);
+  }
+
+  async execute(targetUrl: string, _fullPackage: UniversalConfigurationPackageFormat, context?: ExecutionContext): Promise<ToolExecutionResult> {
+    this.logger.info(`[${this.toolId}] Executing for URL: ${targetUrl}`);
+    if (!this.config) {
+      return { success: false, error: `[${this.toolId}] Tool not initialized with configuration before execution.`, data: undefined };
+    }
+
+    const params = this.config.parameters as StructuredDataParams;
+    const captchaReports: CaptchaReport[] = [];
+
+    try {
+      const html = await loadHtml(targetUrl, {
+        timeout: params.timeout_ms || 5000,
+        context,
+        captchaReports,
+        onChallenge: challenge => this.logger.warn(`[${this.toolId}] Detected a ${challenge.kind} challenge (${challenge.signal}) on ${targetUrl}.`)
+      });
+      const document = parseStructuredData(html, targetUrl);
+      for (const error of document.errors) {
+        this.logger.warn(`[${this.toolId}] Skipped invalid structured data on ${targetUrl}: ${error}`);
+      }
+
+      const { data, error } = params.selectors || params.fields
+        ? this.extractFields(document, params, resolveFieldSpecs(this.config.parameters))
+        : { data: this.extractEntities(document, params) };
+      const metadata = {
+        ...(Array.isArray(data) ? { itemCount: data.length } : {}),
+        structuredData: summarize(document),
+        ...(captchaReports.length > 0 ? { captcha: captchaReports[captchaReports.length - 1] } : {})
+      };
+
+      if (error) {
+        return { success: false, error: `[${this.toolId}] Extraction partially failed: ${error}`, data, metadata };
+      }
+      this.logger.info(`[${this.toolId}] Extraction successful for ${targetUrl}.`);
+      return { success: true, data, metadata };
+    } catch (error) {
+      if (error instanceof CaptchaBlockedError) {
+        this.logger.warn(`[${this.toolId}] ${error.message}`);
+        return { success: false, blocked: 'captcha', error: `[${this.toolId}] ${error.message}`, data: undefined, metadata: { captcha: error.report } };
+      }
+      const errorMsg = `[${this.toolId}] Failed to execute for ${targetUrl}: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMsg);
+      return { success: false, error: errorMsg, data: undefined };
+    }
+  }
+
+  /**
+   * Returns the entities (of entity_types) as flattened records. A page without entities
+   * yields one record of its OpenGraph and Twitter tags, unless entity_types is set.
+   */
+  private extractEntities(document: StructuredDataDocument, params: StructuredDataParams): ExtractedRecord[] {
+    const records = filterEntities(document, params.entity_types).map(entity => flattenEntity(entity));
+    if (records.length === 0 && !params.entity_types?.length) {
+      const metaTags = flattenMetaTags(document);
+      return metaTags ? [metaTags] : [];
+    }
+    return params.max_items && params.max_items > 0 ? records.slice(0, params.max_items) : records;
+  }
+
+  /**
+   * Extracts the fields from each entity of entity_types (one record each), or from the
+   * whole structured data document (one record)
+   */
+  private extractFields(
+    document: StructuredDataDocument,
+    params: StructuredDataParams,
+    fields: { [outputKey: string]: FieldExtractionSpec }
+  ): { data: ExtractedRecord | ExtractedRecord[]; error?: string } {
+    if (!params.entity_types?.length) {
+      return this.extractRecord(document, fields);
+    }
+
+    let entities = filterEntities(document, params.entity_types);
+    if (params.max_items && params.max_items > 0) {
+      entities = entities.slice(0, params.max_items);
+    }
+    this.logger.info(`[${this.toolId}] List mode: ${entities.length} entities of type ${params.entity_types.join(', ')}.`);
+
+    const records: ExtractedRecord[] = [];
+    let listError: string | undefined;
+    for (const entity of entities) {
+      const { data, error } = this.extractRecord(entity, fields);
+      records.push(data);
+      if (error && !listError) listError = error;
+    }
+    return { data: records, error: listError };
+  }
+
+  private extractRecord(scope: unknown, fields: { [outputKey: string]: FieldExtractionSpec }): { data: ExtractedRecord; error?: string } {
+    const { data, error, unmatched } = extractJsonRecord(scope, fields);
+    for (const key of unmatched) {
+      this.logger.warn(`[${this.toolId}] JSONPath '${getSelectorCandidates(fields[key]).join("', '")}' for key '${key}' did not match any structured data.`);
+    }
+    return { data, error };
+  }
+
+  async cleanup(): Promise<void> {
+    this.logger.info(`[${this.toolId}] Cleanup called.`);
+    this.config = undefined;
+    this.logger.info(`[${this.toolId}] Cleanup complete.`);
+  }
+}
+
+// What the page carried, reported in the result metadata
+function summarize(document: StructuredDataDocument) {
+  const count = (source: string) => document.entities.filter(entity => entity['@source'] === source).length;
+  return {
+    jsonLd: count('json-ld'),
+    microdata: count('microdata'),
+    rdfa: count('rdfa'),
+    opengraph: Object.keys(document.opengraph).length,
+    twitter: Object.keys(document.twitter).length,
+    types: [...new Set(document.entities.map(entity => entity['@type']))],
+    ...(document.errors.length > 0 ? { errors: document.errors } : {})
+  };
+}
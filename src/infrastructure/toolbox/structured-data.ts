@@ -0,0 +1,282 @@
+/**
+ * Structured Data
+ *
+ * Parses the machine-readable data embedded in a page into one normalized document:
+ * JSON-LD blocks and schema.org microdata/RDFa items become JSON-LD-like entities
+ * ({ '@type': 'Product', '@source': 'microdata', name, offers: { ... } }), and the
+ * OpenGraph and Twitter meta tags become flat key-value maps. Fields with source
+ * 'structured_data' are extracted from this document with JSONPath.
+ */
+
+import * as cheerio from 'cheerio';
+import { FieldExtractionSpec, FieldValue } from '../../core/domain/configuration-package.types.js';
+import { ExtractedRecord } from './field-extractor.js';
+
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'rdfa';
+
+/**
+ * An entity of the page, e.g. a Product or a JobPosting
+ */
+export interface StructuredEntity {
+  '@type': string; // Short schema.org type, e.g. 'Product' ('Thing' when untyped)
+  '@source': StructuredDataSource;
+  [property: string]: unknown;
+}
+
+/**
+ * Everything parsed from one page
+ */
+export interface StructuredDataDocument {
+  entities: StructuredEntity[];
+  opengraph: Record<string, string | string[]>; // og:title as 'title'; article:* and product:* keep their prefix
+  twitter: Record<string, string | string[]>; // twitter:card as 'card'
+  errors: string[]; // JSON-LD blocks that could not be parsed
+}
+
+// cheerio node and selection types
+type CheerioDocument = ReturnType<typeof cheerio.load>;
+type CheerioElement = ReturnType<CheerioDocument>[number];
+
+// Elements whose microdata value is a URL attribute rather than their text
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href',
+  audio: 'src', embed: 'src', iframe: 'src', img: 'src', source: 'src', track: 'src', video: 'src',
+  object: 'data'
+};
+
+// OpenGraph namespaces besides og: kept with their prefix
+const OPENGRAPH_PREFIXES = ['og:', 'article:', 'product:', 'book:', 'profile:', 'music:', 'video:'];
+
+/**
+ * Parses the structured data of a page
+ * @param html - The page HTML
+ * @param pageUrl - URL of the page, used to resolve relative URLs
+ */
+export function parseStructuredData(html: string, pageUrl: string): StructuredDataDocument {
+  const $ = cheerio.load(html);
+  const errors: string[] = [];
+  const entities = [
+    ...parseJsonLd($, errors),
+    ...parseMicrodata($, pageUrl),
+    ...parseRdfa($, pageUrl)
+  ];
+  const { opengraph, twitter } = parseMetaTags($);
+  return { entities, opengraph, twitter, errors };
+}
+
+/**
+ * Whether a field is extracted from the page's structured data
+ */
+export function isStructuredDataField(spec: FieldExtractionSpec): boolean {
+  return spec.source === 'structured_data';
+}
+
+/**
+ * Returns the entities of the given types (all entities without types).
+ * Types are compared case-insensitively by their short name.
+ */
+export function filterEntities(document: StructuredDataDocument, types?: string[]): StructuredEntity[] {
+  if (!types || types.length === 0) {
+    return document.entities;
+  }
+  const wanted = types.map(type => shortTypeName(type).toLowerCase());
+  return document.entities.filter(entity => wanted.includes(entity['@type'].toLowerCase()));
+}
+
+/**
+ * Flattens an entity into a record: nested objects become dotted keys ('offers.price'),
+ * arrays of values stay arrays and arrays of objects are kept as JSON text
+ */
+export function flattenEntity(entity: Record<string, unknown>, prefix = ''): ExtractedRecord {
+  const record: ExtractedRecord = {};
+  for (const [key, value] of Object.entries(entity)) {
+    const name = `${prefix}${key}`;
+    if (value === null || value === undefined || typeof value !== 'object') {
+      record[name] = toFieldValue(value);
+    } else if (Array.isArray(value)) {
+      record[name] = value.every(item => item === null || typeof item !== 'object')
+        ? value.map(toFieldValue)
+        : JSON.stringify(value);
+    } else {
+      Object.assign(record, flattenEntity(value as Record<string, unknown>, `${name}.`));
+    }
+  }
+  return record;
+}
+
+/**
+ * Flattens the OpenGraph and Twitter tags into one record keyed by the original names
+ * ('og:title', 'twitter:card'), or returns null when the page has neither
+ */
+export function flattenMetaTags(document: StructuredDataDocument): ExtractedRecord | null {
+  const record: ExtractedRecord = {};
+  for (const [key, value] of Object.entries(document.opengraph)) {
+    record[OPENGRAPH_PREFIXES.some(prefix => key.startsWith(prefix)) ? key : `og:${key}`] = value;
+  }
+  for (const [key, value] of Object.entries(document.twitter)) {
+    record[`twitter:${key}`] = value;
+  }
+  return Object.keys(record).length > 0 ? record : null;
+}
+
+function parseJsonLd($: CheerioDocument, errors: string[]): StructuredEntity[] {
+  const entities: StructuredEntity[] = [];
+  $('script[type="application/ld+json"]').each((index, element) => {
+    const text = $(element).text().trim();
+    if (!text) {
+      return;
+    }
+    try {
+      collectJsonLdNodes(JSON.parse(text), entities);
+    } catch (error) {
+      errors.push(`JSON-LD block ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return entities;
+}
+
+// Top-level nodes, arrays of nodes and @graph members are entities; nested nodes stay properties
+function collectJsonLdNodes(value: unknown, entities: StructuredEntity[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectJsonLdNodes(item, entities));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return;
+  }
+  const properties: Record<string, unknown> = { ...value };
+  const graph = properties['@graph'];
+  const type = properties['@type'];
+  delete properties['@context'];
+  delete properties['@graph'];
+  delete properties['@type'];
+  if (graph !== undefined) {
+    collectJsonLdNodes(graph, entities);
+  }
+  if (type !== undefined) {
+    const types = (Array.isArray(type) ? type : [type]).map(String);
+    entities.push({ '@type': shortTypeName(types[0]), '@source': 'json-ld', ...properties });
+  }
+}
+
+function parseMicrodata($: CheerioDocument, pageUrl: string): StructuredEntity[] {
+  // Items that are the property of another item are parsed as part of it
+  return $('[itemscope]').not('[itemprop]').toArray().map(element => readMicrodataItem($, element, pageUrl));
+}
+
+function readMicrodataItem($: CheerioDocument, item: CheerioElement, pageUrl: string): StructuredEntity {
+  const entity: StructuredEntity = { '@type': shortTypeName($(item).attr('itemtype')), '@source': 'microdata' };
+  const properties = $(item).find('[itemprop]').filter((_, element) => $(element).parent().closest('[itemscope]')[0] === item);
+
+  properties.each((_, element) => {
+    const $element = $(element);
+    const value = $element.is('[itemscope]')
+      ? stripSource(readMicrodataItem($, element, pageUrl))
+      : readElementValue($, element, pageUrl);
+    for (const name of ($element.attr('itemprop') ?? '').split(/\s+/).filter(Boolean)) {
+      addProperty(entity, name, value);
+    }
+  });
+  return entity;
+}
+
+function parseRdfa($: CheerioDocument, pageUrl: string): StructuredEntity[] {
+  return $('[typeof]').not('[property]').toArray().map(element => readRdfaItem($, element, pageUrl));
+}
+
+function readRdfaItem($: CheerioDocument, item: CheerioElement, pageUrl: string): StructuredEntity {
+  const entity: StructuredEntity = { '@type': shortTypeName($(item).attr('typeof')), '@source': 'rdfa' };
+  const properties = $(item).find('[property]').filter((_, element) => $(element).parent().closest('[typeof]')[0] === item);
+
+  properties.each((_, element) => {
+    const $element = $(element);
+    const value = $element.is('[typeof]')
+      ? stripSource(readRdfaItem($, element, pageUrl))
+      : $element.attr('content') ?? $element.attr('resource') ?? readElementValue($, element, pageUrl);
+    for (const name of ($element.attr('property') ?? '').split(/\s+/).filter(Boolean)) {
+      addProperty(entity, shortTypeName(name, false), value);
+    }
+  });
+  return entity;
+}
+
+function parseMetaTags($: CheerioDocument): Pick<StructuredDataDocument, 'opengraph' | 'twitter'> {
+  const opengraph: Record<string, string | string[]> = {};
+  const twitter: Record<string, string | string[]> = {};
+
+  $('meta[content]').each((_, element) => {
+    const $element = $(element);
+    const content = $element.attr('content') as string;
+    const name = ($element.attr('property') ?? $element.attr('name') ?? '').trim().toLowerCase();
+    if (name.startsWith('twitter:')) {
+      addProperty(twitter, name.slice('twitter:'.length), content);
+    } else if (name.startsWith('og:')) {
+      addProperty(opengraph, name.slice('og:'.length), content);
+    } else if (OPENGRAPH_PREFIXES.some(prefix => name.startsWith(prefix))) {
+      addProperty(opengraph, name, content);
+    }
+  });
+  return { opengraph, twitter };
+}
+
+// Microdata value of a non-item element (WHATWG microdata "property value")
+function readElementValue($: CheerioDocument, element: CheerioElement, pageUrl: string): string {
+  const $element = $(element);
+  const tag = ($element.prop('tagName') as string | undefined)?.toLowerCase() ?? '';
+  if (tag === 'meta') {
+    return $element.attr('content') ?? '';
+  }
+  const urlAttribute = URL_ATTRIBUTES[tag];
+  if (urlAttribute) {
+    return resolveUrl($element.attr(urlAttribute) ?? '', pageUrl);
+  }
+  if (tag === 'data' || tag === 'meter') {
+    return $element.attr('value') ?? '';
+  }
+  if (tag === 'time') {
+    return $element.attr('datetime') ?? $element.text().trim();
+  }
+  return $element.attr('content') ?? $element.text().replace(/\s+/g, ' ').trim();
+}
+
+// Repeated properties become arrays
+function addProperty(target: Record<string, unknown>, name: string, value: unknown): void {
+  if (!(name in target)) {
+    target[name] = value;
+  } else if (Array.isArray(target[name])) {
+    (target[name] as unknown[]).push(value);
+  } else {
+    target[name] = [target[name], value];
+  }
+}
+
+// Nested items are properties of their entity, which already names the source
+function stripSource(entity: StructuredEntity): Record<string, unknown> {
+  const properties: Record<string, unknown> = { ...entity };
+  delete properties['@source'];
+  return properties;
+}
+
+// 'http://schema.org/Product', 'schema:Product' and 'Product' all become 'Product'
+function shortTypeName(type: string | undefined, typed = true): string {
+  const first = type?.trim().split(/\s+/)[0];
+  if (!first) {
+    return typed ? 'Thing' : '';
+  }
+  return first.replace(/^.*[/#:]/, '');
+}
+
+function resolveUrl(href: string, pageUrl: string): string {
+  try {
+    return href ? new URL(href, pageUrl).href : '';
+  } catch {
+    return href;
+  }
+}
+
+function toFieldValue(value: unknown): FieldValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+}
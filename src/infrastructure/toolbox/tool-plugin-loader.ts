@@ -0,0 +1,253 @@
+/**
+ * Tool Plugin Loader
+ *
+ * Discovers tool plugins in a directory, validates them against the tool interfaces
+ * and registers them with the toolbox. With watching enabled, plugins are re-imported
+ * when their file changes and unregistered when it is removed.
+ *
+ * A plugin is an ES module whose default export (or `tools` named export) is a tool
+ * class, a tool instance, or an array of those. Classes are instantiated without
+ * arguments, once at load time and once per execution.
+ */
+
+import path from 'path';
+import { readdir, stat } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import chokidar, { FSWatcher } from 'chokidar';
+import { ITool, ToolFactory } from '../execution/tool.interface.js';
+import { ToolboxService } from './toolbox.service.js';
+
+// Plugin files are compiled modules; TypeScript sources are not importable at runtime
+const PLUGIN_FILE_EXTENSIONS = ['.js', '.mjs'];
+
+// Methods identifying the tool interfaces (IScraperTool, IProxyManagerTool, ...)
+const TOOL_METHODS = ['execute', 'getProxyForUrl', 'applyStrategies', 'solveCaptcha'];
+
+/**
+ * Options for the plugin loader
+ */
+export interface ToolPluginLoaderOptions {
+  directory: string; // Directory searched (recursively) for plugin files
+}
+
+/**
+ * State of a loaded (or rejected) plugin file
+ */
+export interface ToolPluginInfo {
+  file: string; // Absolute path of the plugin file
+  tools: string[]; // Keys of the tools the file registered
+  loadedAt: string; // ISO timestamp of the last (re)load attempt
+  error?: string; // Why the file was rejected, if it was
+}
+
+/**
+ * Loads tool plugins into a toolbox and keeps them in sync with the plugin directory
+ */
+export class ToolPluginLoader {
+  private readonly directory: string;
+  private plugins = new Map<string, ToolPluginInfo>();
+  private watcher?: FSWatcher;
+  // Serializes (re)loads so concurrent file events cannot interleave registrations
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly toolbox: ToolboxService,
+    options: ToolPluginLoaderOptions
+  ) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  /**
+   * Loads every plugin file of the directory. A missing directory loads nothing.
+   * @returns The state of every plugin file
+   */
+  async loadAll(): Promise<ToolPluginInfo[]> {
+    if (!(await this.directoryExists())) {
+      console.log(`[ToolPluginLoader] Plugin directory ${this.directory} not found. No plugins loaded.`);
+      return [];
+    }
+
+    const entries = await readdir(this.directory, { recursive: true });
+    for (const entry of entries.filter(entry => this.isPluginFile(entry)).sort()) {
+      await this.loadFile(path.join(this.directory, entry));
+    }
+    return this.listPlugins();
+  }
+
+  /**
+   * Starts watching the plugin directory: changed files are reloaded, new files
+   * are loaded and removed files have their tools unregistered.
+   */
+  async watch(): Promise<void> {
+    if (this.watcher) {
+      return;
+    }
+    if (!(await this.directoryExists())) {
+      console.log(`[ToolPluginLoader] Plugin directory ${this.directory} not found. Hot reload disabled.`);
+      return;
+    }
+
+    this.watcher = chokidar.watch(this.directory, {
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 }
+    });
+    this.watcher
+      .on('add', file => this.isPluginFile(file) && this.loadFile(file))
+      .on('change', file => this.isPluginFile(file) && this.loadFile(file))
+      .on('unlink', file => this.isPluginFile(file) && this.unloadFile(file))
+      .on('error', error => console.error('[ToolPluginLoader] Watcher error:', error));
+    console.log(`[ToolPluginLoader] Watching ${this.directory} for plugin changes.`);
+  }
+
+  /**
+   * Stops watching and unregisters every plugin tool
+   */
+  async close(): Promise<void> {
+    await this.watcher?.close();
+    this.watcher = undefined;
+    for (const file of [...this.plugins.keys()]) {
+      await this.unloadFile(file);
+    }
+  }
+
+  /**
+   * Lists the state of every plugin file seen so far
+   */
+  listPlugins(): ToolPluginInfo[] {
+    return [...this.plugins.values()];
+  }
+
+  /**
+   * (Re)loads a plugin file: its previous tools are unregistered and the module is
+   * imported again. A file that fails validation registers no tools at all.
+   * @param file - Path of the plugin file
+   */
+  loadFile(file: string): Promise<ToolPluginInfo> {
+    const absolute = path.resolve(file);
+    return this.enqueue(async () => {
+      await this.unregisterTools(absolute);
+      const info: ToolPluginInfo = { file: absolute, tools: [], loadedAt: new Date().toISOString() };
+
+      try {
+        const tools = await this.importTools(absolute);
+        for (const { tool, factory } of tools) {
+          info.tools.push(this.toolbox.registerTool(tool, factory));
+        }
+        console.log(`[ToolPluginLoader] Loaded ${info.tools.join(', ')} from ${absolute}`);
+      } catch (error) {
+        info.error = error instanceof Error ? error.message : String(error);
+        console.error(`[ToolPluginLoader] Rejected plugin ${absolute}: ${info.error}`);
+      }
+
+      this.plugins.set(absolute, info);
+      return info;
+    });
+  }
+
+  /**
+   * Unregisters the tools of a removed plugin file
+   * @param file - Path of the plugin file
+   */
+  unloadFile(file: string): Promise<void> {
+    const absolute = path.resolve(file);
+    return this.enqueue(async () => {
+      await this.unregisterTools(absolute);
+      this.plugins.delete(absolute);
+    });
+  }
+
+  private async importTools(file: string): Promise<{ tool: ITool; factory?: ToolFactory }[]> {
+    // The query string busts Node's module cache so edited files are re-evaluated
+    const { mtimeMs } = await stat(file);
+    const module = await import(`${pathToFileURL(file).href}?v=${mtimeMs}`) as Record<string, unknown>;
+
+    const exported = module.default ?? module.tools;
+    if (exported === undefined) {
+      throw new Error('Plugin has no default or `tools` export');
+    }
+
+    const tools = (Array.isArray(exported) ? exported : [exported]).map((entry, index) => {
+      const ToolClass = typeof entry === 'function' ? entry as new () => ITool : undefined;
+      const tool: unknown = ToolClass ? new ToolClass() : entry;
+      this.validateTool(tool, index);
+      return { tool, factory: ToolClass && (() => new ToolClass()) };
+    });
+    if (tools.length === 0) {
+      throw new Error('Plugin exports no tools');
+    }
+
+    // Plugins may not replace tools registered by another source
+    for (const { tool } of tools) {
+      const key = this.registryKey(tool);
+      if (this.toolbox.hasTool(key)) {
+        throw new Error(`Tool '${key}' is already registered`);
+      }
+    }
+    return tools;
+  }
+
+  private validateTool(tool: unknown, index: number): asserts tool is ITool {
+    const label = `Export ${index}`;
+    if (typeof tool !== 'object' || tool === null) {
+      throw new Error(`${label} is not a tool class or instance`);
+    }
+
+    const candidate = tool as Record<string, unknown>;
+    if (typeof candidate.toolId !== 'string' || candidate.toolId.trim() === '') {
+      throw new Error(`${label} has no toolId`);
+    }
+    if (typeof candidate.initialize !== 'function') {
+      throw new Error(`Tool '${candidate.toolId}' does not implement initialize()`);
+    }
+    if (candidate.cleanup !== undefined && typeof candidate.cleanup !== 'function') {
+      throw new Error(`Tool '${candidate.toolId}' has a cleanup that is not a function`);
+    }
+    if (!TOOL_METHODS.some(method => typeof candidate[method] === 'function')) {
+      throw new Error(`Tool '${candidate.toolId}' implements none of ${TOOL_METHODS.join(', ')}`);
+    }
+
+    const getDefinition = (tool.constructor as { getMcpDefinition?: unknown }).getMcpDefinition;
+    if (getDefinition !== undefined) {
+      const definition: unknown = typeof getDefinition === 'function' ? getDefinition.call(tool.constructor) : undefined;
+      if (typeof definition !== 'object' || definition === null || typeof (definition as { name?: unknown }).name !== 'string') {
+        throw new Error(`Tool '${candidate.toolId}' has an invalid getMcpDefinition()`);
+      }
+    }
+  }
+
+  // Mirrors the key ToolboxService.registerTool uses: the MCP name, or the tool ID
+  private registryKey(tool: ITool): string {
+    const getDefinition = (tool.constructor as { getMcpDefinition?: () => { name?: string } }).getMcpDefinition;
+    return getDefinition?.call(tool.constructor).name || tool.toolId;
+  }
+
+  private async unregisterTools(file: string): Promise<void> {
+    const info = this.plugins.get(file);
+    for (const key of info?.tools ?? []) {
+      const tool = this.toolbox.unregisterTool(key);
+      try {
+        await tool?.cleanup?.();
+      } catch (error) {
+        console.error(`[ToolPluginLoader] Error cleaning up tool '${key}':`, error);
+      }
+    }
+  }
+
+  private isPluginFile(file: string): boolean {
+    return PLUGIN_FILE_EXTENSIONS.includes(path.extname(file));
+  }
+
+  private async directoryExists(): Promise<boolean> {
+    try {
+      return (await stat(this.directory)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
@@ -1,9 +1,13 @@
-import { ITool } from '../execution/tool.interface.js';
+import { ITool, ICaptchaSolverTool, ToolCapabilities, ToolFactory, ToolType } from '../execution/tool.interface.js';
 import { IToolbox } from '../../core/interfaces/toolbox.interface.js';
 import { FetchCheerioScraper } from './fetch-cheerio.scraper.js';
 import { PlaywrightScraper } from './playwright.scraper.js';
+import { JsonApiScraper } from './json-api.scraper.js';
+import { StructuredDataScraper } from './structured-data.scraper.js';
+import { HtmlTableScraper } from './html-table.scraper.js';
 import { ProxyManagerTool } from './proxy-manager.tool.js';
 import { AntiBlockingTool } from './anti-blocking.tool.js';
+import { CaptchaSolverTool } from './captcha-solver.tool.js';
 
 // MCP tool definition type (This might become redundant if SDK provides a usable type directly)
 export interface McpToolDefinition {
@@ -14,6 +18,28 @@ export interface McpToolDefinition {
   annotations?: Record<string, any>;
 }
 
+/**
+ * Discovery view of a registered tool (GET /tools)
+ */
+export interface ToolDescriptor {
+  id: string; // Key the tool is registered and invoked under (its MCP name)
+  toolId: string;
+  name?: string;
+  description?: string;
+  type?: ToolType; // Undefined for tools implementing none of the known tool interfaces
+  version?: string;
+  capabilities?: ToolCapabilities;
+  mcp: McpToolDefinition;
+}
+
+// Method that identifies each tool interface
+const TOOL_TYPE_METHODS: [ToolType, string][] = [
+  ['scraper', 'execute'],
+  ['proxy', 'getProxyForUrl'],
+  ['anti_blocking', 'applyStrategies'],
+  ['captcha_solver', 'solveCaptcha']
+];
+
 /**
  * Concrete implementation of the IToolbox interface.
  * Manages tool registration and retrieval using an in-memory map.
@@ -22,16 +48,20 @@ export interface McpToolDefinition {
  * to load tools dynamically or from a configuration source.
  */
 export class ToolboxService implements IToolbox {
-  // Store both the tool instance and its MCP metadata
-  private tools: Map<string, { instance: ITool, mcp: McpToolDefinition }> = new Map();
+  // Store the registered instance (used for metadata), its MCP metadata and the
+  // factory that creates an isolated instance for each execution
+  private tools: Map<string, { instance: ITool, mcp: McpToolDefinition, factory: ToolFactory }> = new Map();
   private logger = console; // Basic logger
 
   /**
    * Registers a tool instance, making it available for use.
    * If a tool with the same ID already exists, it will be overwritten.
    * @param tool - The tool instance to register.
+   * @param factory - Creates a fresh instance per execution. Defaults to calling the
+   *   tool's constructor without arguments (or, for plain objects, to a copy of the tool).
+   * @returns The key the tool is registered under (its MCP name, or its ID).
    */
-  registerTool(tool: ITool): void {
+  registerTool(tool: ITool, factory: ToolFactory = this.defaultFactory(tool)): string {
     // Use MCP definition if available
     const getDef = (tool.constructor as any).getMcpDefinition;
     const mcp: McpToolDefinition = typeof getDef === 'function' ? getDef.call(tool.constructor) : {
@@ -58,7 +88,31 @@ export class ToolboxService implements IToolbox {
       this.logger.warn(`Tool with MCP name '${mapKey}' is already registered. Overwriting.`);
     }
     this.logger.log(`Registering tool: ${mapKey} (${tool.name || 'Unnamed Tool'})`);
-    this.tools.set(mapKey, { instance: tool, mcp });
+    this.tools.set(mapKey, { instance: tool, mcp, factory });
+    return mapKey;
+  }
+
+  /**
+   * Removes a registered tool. The caller is responsible for cleaning up the instance.
+   * @param toolId - The key the tool is registered under.
+   * @returns The removed tool instance, or undefined if no tool was registered under the key.
+   */
+  unregisterTool(toolId: string): ITool | undefined {
+    const entry = this.tools.get(toolId);
+    if (!entry) {
+      return undefined;
+    }
+    this.logger.log(`Unregistering tool: ${toolId}`);
+    this.tools.delete(toolId);
+    return entry.instance;
+  }
+
+  /**
+   * Checks whether a tool is registered under the given key.
+   * @param toolId - The key to look up.
+   */
+  hasTool(toolId: string): boolean {
+    return this.tools.has(toolId);
   }
 
   /**
@@ -71,13 +125,71 @@ export class ToolboxService implements IToolbox {
     return Promise.resolve(entry?.instance);
   }
 
+  /**
+   * Creates an isolated instance of a registered tool for a single execution.
+   * The caller owns the instance: it initializes it and calls cleanup() when done.
+   * @param toolId - The unique ID of the tool to create.
+   * @returns A new tool instance if the tool is registered, otherwise undefined.
+   */
+  async createTool(toolId: string): Promise<ITool | undefined> {
+    const entry = this.tools.get(toolId);
+    return entry?.factory();
+  }
+
   /**
    * Lists all registered tools.
    *
+   * @param type - Optional filter: only return tools of this type (e.g., 'scraper').
    * @returns An array of available tool instances.
    */
-  listTools(): ITool[] {
-    return Array.from(this.tools.values()).map(t => t.instance);
+  listTools(type?: string): ITool[] {
+    return Array.from(this.tools.values())
+      .map(t => t.instance)
+      .filter(tool => type === undefined || this.getToolType(tool) === type);
+  }
+
+  /**
+   * Describes the registered tools for discovery.
+   *
+   * @param type - Optional filter: only describe tools of this type.
+   */
+  describeTools(type?: string): ToolDescriptor[] {
+    return Array.from(this.tools.keys())
+      .map(key => this.describeTool(key))
+      .filter((descriptor): descriptor is ToolDescriptor => descriptor !== undefined)
+      .filter(descriptor => type === undefined || descriptor.type === type);
+  }
+
+  /**
+   * Describes a single registered tool.
+   *
+   * @param toolId - The key the tool is registered under.
+   * @returns The descriptor, or undefined if no tool is registered under the key.
+   */
+  describeTool(toolId: string): ToolDescriptor | undefined {
+    const entry = this.tools.get(toolId);
+    if (!entry) {
+      return undefined;
+    }
+    const { instance, mcp } = entry;
+    return {
+      id: toolId,
+      toolId: instance.toolId,
+      name: instance.name,
+      description: instance.description || mcp.description,
+      type: this.getToolType(instance),
+      version: instance.version ?? /_v(\d+)$/.exec(instance.toolId)?.[1],
+      capabilities: instance.capabilities,
+      mcp
+    };
+  }
+
+  /**
+   * Derives a tool's type from the tool interface it implements.
+   */
+  getToolType(tool: ITool): ToolType | undefined {
+    const methods = tool as unknown as Record<string, unknown>;
+    return TOOL_TYPE_METHODS.find(([, method]) => typeof methods[method] === 'function')?.[0];
   }
 
   /**
@@ -96,17 +208,49 @@ export class ToolboxService implements IToolbox {
     if (!entry) throw new Error(`Tool ${name} not found`);
     // Optionally: validate params against entry.mcp.inputSchema
     // For scrapers, expect 'execute', for others, method varies
-    if (typeof (entry.instance as any).execute === 'function') {
-      return (entry.instance as any).execute(params.url, params);
+    // Each call gets its own instance so concurrent calls cannot see each other's configuration
+    const tool = entry.factory();
+    try {
+      if (typeof (tool as any).execute === 'function') {
+        // Scrapers read their parameters from the configuration they were initialized with
+        const { url, targetUrl, ...parameters } = params ?? {};
+        const scraperConfig = { tool_id: tool.toolId, parameters };
+        await tool.initialize(scraperConfig);
+        return await (tool as any).execute(url ?? targetUrl, { schemaVersion: '1.0', scraper: scraperConfig });
+      }
+      // Try proxy or anti-blocking interfaces
+      if (typeof (tool as any).getProxyForUrl === 'function') {
+        const { targetUrl, ...parameters } = params ?? {};
+        await tool.initialize({ tool_id: tool.toolId, parameters });
+        return await (tool as any).getProxyForUrl(targetUrl);
+      }
+      if (typeof (tool as any).applyStrategies === 'function') {
+        const { context, ...parameters } = params ?? {};
+        await tool.initialize({ tool_id: tool.toolId, parameters });
+        return await (tool as any).applyStrategies(context);
+      }
+      const captchaSolver = tool as Partial<ICaptchaSolverTool>;
+      if (typeof captchaSolver.solveCaptcha === 'function') {
+        const { challenge, ...parameters } = params ?? {};
+        await tool.initialize({ tool_id: tool.toolId, parameters });
+        return await captchaSolver.solveCaptcha(challenge);
+      }
+      throw new Error(`Tool ${name} does not support a known MCP method.`);
+    } finally {
+      await tool.cleanup?.().catch(error => this.logger.error(`Error cleaning up tool ${name}:`, error));
     }
-    // Try proxy or anti-blocking interfaces
-    if (typeof (entry.instance as any).getProxyForUrl === 'function') {
-      return (entry.instance as any).getProxyForUrl(params.targetUrl);
-    }
-    if (typeof (entry.instance as any).applyStrategies === 'function') {
-      return (entry.instance as any).applyStrategies(params.context);
+  }
+
+  /**
+   * Builds the default per-execution factory of a registered tool instance
+   */
+  private defaultFactory(tool: ITool): ToolFactory {
+    if (typeof tool.constructor === 'function' && tool.constructor !== Object) {
+      const ToolClass = tool.constructor as new () => ITool;
+      return () => new ToolClass();
     }
-    throw new Error(`Tool ${name} does not support a known MCP method.`);
+    // Plain object tools: the copy inherits the methods, and state it writes stays on the copy
+    return () => Object.create(tool) as ITool;
   }
 
   /**
@@ -121,8 +265,12 @@ export class ToolboxService implements IToolbox {
     // Register all MCP-compliant tools
     this.registerTool(new FetchCheerioScraper());
     this.registerTool(new PlaywrightScraper());
+    this.registerTool(new JsonApiScraper());
+    this.registerTool(new StructuredDataScraper());
+    this.registerTool(new HtmlTableScraper());
     this.registerTool(new ProxyManagerTool());
     this.registerTool(new AntiBlockingTool());
+    this.registerTool(new CaptchaSolverTool());
   }
 }
 
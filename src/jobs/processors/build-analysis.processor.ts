@@ -8,6 +8,7 @@ import { PrismaClient, BuildStatus } from '../../generated/prisma/index.js';
 import { IBuildRepository } from '../../infrastructure/db/build.repository.js';
 import { AnalysisService } from '../../modules/analysis/analysis.service.js';
 import { ErrorCategory } from '../../core/domain/error-reporting.types.js';
+import { PackageRevisionTrigger } from '../../core/domain/package-revision.types.js';
 import { BaseProcessor } from './base.processor.js';
 import { AnalysisInput } from '../../modules/analysis/analysis.types.js';
 import { SampleGenerationProcessor } from './sample-generation.processor.js';
@@ -67,7 +68,9 @@ export class BuildAnalysisProcessor extends BaseProcessor {
       }
       
       // Store the package
-      await this.buildRepository.updateTempPackage(buildId, analysisResult.package);
+      await this.buildRepository.updateTempPackage(buildId, analysisResult.package, {
+        trigger: PackageRevisionTrigger.INITIAL_ANALYSIS
+      });
       
       // Update status to proceed to sample generation
       await this.buildRepository.updateBuildStatus(buildId, BuildStatus.GENERATING_SAMPLES);
@@ -9,6 +9,7 @@ import { IBuildRepository } from '../../infrastructure/db/build.repository.js';
 import { ErrorCategory } from '../../core/domain/error-reporting.types.js';
 import { BaseProcessor } from './base.processor.js';
 import { ExecutionEngineService } from '../../infrastructure/execution/execution.service.js';
+import { browserPool } from '../../infrastructure/browser/browser-pool.js';
 
 /**
  * Processor for executing full scrape jobs
@@ -65,15 +66,17 @@ export class ExecutionProcessor extends BaseProcessor {
         throw new Error('No target URLs available for execution');
       }
       
-      // Execute the full scrape
+      // Execute the full scrape, as many URLs at a time as the browser pool can serve
       const executionResult = await this.executionEngine.executePackage(
         configPackage,
-        targetUrls
+        targetUrls,
+        { concurrency: browserPool.getCapacity() }
       );
       
       // Store the execution results
       // Pass the execution result directly as it already matches the expected format
-      await this.buildRepository.updateSampleResults(buildId, executionResult);
+      // Full results are not sample results of the package revision
+      await this.buildRepository.updateSampleResults(buildId, executionResult, false);
       
       // Update status to mark as completed
       await this.buildRepository.updateBuildStatus(buildId, BuildStatus.COMPLETED);
@@ -7,6 +7,7 @@
 import { PrismaClient, BuildStatus } from '../../generated/prisma/index.js';
 import { IBuildRepository } from '../../infrastructure/db/build.repository.js';
 import { ErrorCategory } from '../../core/domain/error-reporting.types.js';
+import { PackageRevisionTrigger } from '../../core/domain/package-revision.types.js';
 import { BaseProcessor } from './base.processor.js';
 import { AnalysisService } from '../../modules/analysis/analysis.service.js';
 import { RefinementInput } from '../../modules/analysis/analysis.types.js';
@@ -111,9 +112,14 @@ export class RefinementProcessor extends BaseProcessor {
       // Store the refined configuration
       await this.buildRepository.updateBuildStatus(buildId, BuildStatus.GENERATING_SAMPLES);
       
-      // Update the temporary package with the refined configuration
+      // Update the temporary package with the refined configuration and record it as a new revision
       if (refinementResult.package) {
-        await this.buildRepository.updateTempPackage(buildId, refinementResult.package);
+        await this.buildRepository.updateTempPackage(buildId, refinementResult.package, {
+          trigger: feedbackType === FeedbackType.SAMPLE_FEEDBACK
+            ? PackageRevisionTrigger.SAMPLE_FEEDBACK
+            : PackageRevisionTrigger.PROPOSAL_FEEDBACK,
+          feedback: refinementInput.userFeedback
+        });
       }
       
       // Handle next steps based on feedback type
@@ -60,13 +60,14 @@ export class SampleGenerationProcessor extends BaseProcessor {
         throw new Error('No target URLs available for sampling');
       }
       
-      // Execute the sample
+      // Execute the sample; the sample URLs are scraped in parallel, bounded by the browser pool
       const executionResult = await this.executionEngine.executePackage(
         configPackage,
-        sampleUrls
+        sampleUrls,
+        { concurrency: sampleUrls.length }
       );
       
-      // Store the sample results
+      // Store the sample results (also recorded on the package revision they were generated with)
       // Pass the execution result directly as it already matches the expected format
       await this.buildRepository.updateSampleResults(buildId, executionResult);
       
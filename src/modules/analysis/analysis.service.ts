@@ -1,6 +1,7 @@
 import { IToolbox } from "../../core/interfaces/toolbox.interface.js"; 
 import { AnalysisInput, AnalysisResult, RefinementInput, RefinementResult } from "./analysis.types.js";
 import { UniversalConfigurationPackageFormatV1 } from "../../core/domain/configuration-package.types.js"; 
+import { packageValidationService } from "../../core/services/package-validation.service.js";
 import { BuildStatus } from "../../generated/prisma/index.js"; 
 import { IBuildRepository } from "../../infrastructure/db/build.repository.js";
 import { OpenaiService } from "../../infrastructure/llm/openai.service.js"; 
@@ -121,12 +122,13 @@ export class AnalysisService {
             return { isValid: false, error: 'Response is not a valid object' };
         }
 
-        if (response.schemaVersion !== '1.0') {
-             return { isValid: false, error: `Invalid schemaVersion: ${response.schemaVersion}` };
-        }
-
-        if (!response.scraper || typeof response.scraper !== 'object' || !response.scraper.tool_id) {
-            return { isValid: false, error: 'Missing or invalid scraper configuration' };
+        // Schema-driven checks: package structure, scraper parameters and, when the
+        // toolbox exposes MCP definitions, each tool's parameters
+        const validation = packageValidationService.validate(response, {
+            toolDefinitions: this.toolbox.listMcpTools?.()
+        });
+        if (!validation.valid) {
+            return { isValid: false, error: packageValidationService.formatIssues(validation.errors) };
         }
 
         if (!response.expectedOutputSchema || typeof response.expectedOutputSchema !== 'object') {
@@ -146,12 +148,14 @@ export class AnalysisService {
         }
         if (response.antiBlocking) {
             for (const config of response.antiBlocking) {
-                if (!config || typeof config !== 'object' || !config.tool_id || !validToolIds.includes(config.tool_id)) {
-                    return { isValid: false, error: `Invalid antiBlocking toolId found: ${config?.tool_id}` };
+                if (!validToolIds.includes(config.tool_id)) {
+                    return { isValid: false, error: `Invalid antiBlocking toolId found: ${config.tool_id}` };
                 }
             }
         }
-        // Add more checks for schema, parameters etc.
+        if (response.captchaSolver && !validToolIds.includes(response.captchaSolver.tool_id)) {
+            return { isValid: false, error: `Invalid captchaSolver toolId found: ${response.captchaSolver.tool_id}` };
+        }
         return { isValid: true };
     }
 
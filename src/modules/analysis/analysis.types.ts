@@ -1,4 +1,4 @@
-import { UniversalConfigurationPackageFormatV1 } from "../../core/domain/configuration-package.types.js";
+import { UniversalConfigurationPackageFormat } from "../../core/domain/configuration-package.types.js";
 /**
  * Input for the analysis service, representing the user's build request.
  */
@@ -17,7 +17,7 @@ export interface AnalysisInput {
 export type AnalysisResult =
   | {
       success: true;
-      package: UniversalConfigurationPackageFormatV1;
+      package: UniversalConfigurationPackageFormat;
       error?: never;
       failureReason?: never;
     }
@@ -34,7 +34,7 @@ export type AnalysisResult =
 export interface RefinementInput {
   buildId: string;
   originalObjective: string;
-  previousPackage: UniversalConfigurationPackageFormatV1;
+  previousPackage: UniversalConfigurationPackageFormat;
   sampleResults: any[];
   userFeedback: string;
   toolHints?: string[];
@@ -49,7 +49,7 @@ export interface RefinementInput {
 export type RefinementResult =
   | {
       success: true;
-      package: UniversalConfigurationPackageFormatV1;
+      package: UniversalConfigurationPackageFormat;
       error?: never;
       failureReason?: never;
     }
@@ -1,5 +1,7 @@
 import { Static, Type } from '@sinclair/typebox';
 import { BuildStatus } from '../../generated/prisma/index.js'; // Import enum if needed for response
+import { PackageRevisionTrigger } from '../../core/domain/package-revision.types.js';
+import { PortablePackageFileSchema, PackageValidationIssueSchema } from '../packages/packages.schema.js';
 
 // Schema for the POST /builds request body
 export const CreateBuildBodySchema = Type.Object({
@@ -119,9 +121,152 @@ export const configureBuildSchema = {
   }
 };
 
+// --- Schemas for package revisions (/builds/:build_id/revisions) ---
+// A stored package revision
+export const PackageRevisionSchema = Type.Object({
+  revision: Type.Integer({ minimum: 1, description: 'Revision number, increasing from 1' }),
+  trigger: Type.Enum(PackageRevisionTrigger, { description: 'What produced the revision' }),
+  created_at: Type.String({ format: 'date-time' }),
+  package: Type.Any({ description: 'The configuration package of this revision' }),
+  sample_results: Type.Optional(Type.Any({ description: 'Sample results generated with this package' })),
+  feedback: Type.Optional(Type.String({ description: 'User feedback that led to this revision' })),
+  source_revision: Type.Optional(Type.Integer({ description: 'Revision restored by a rollback' }))
+});
+
+// Response schema for listing the revisions of a build
+export const ListRevisionsResponseSchema = Type.Object({
+  build_id: Type.String(),
+  current_revision: Type.Union([Type.Integer(), Type.Null()], { description: 'Revision of the working package' }),
+  revisions: Type.Array(PackageRevisionSchema)
+});
+
+export const listRevisionsSchema = {
+  description: 'List the package revisions of a build, oldest first',
+  tags: ['builds'],
+  summary: 'List Package Revisions',
+  params: BuildIdParamsSchema,
+  response: {
+    200: ListRevisionsResponseSchema,
+    404: Type.Object({ message: Type.String() }),
+    500: Type.Object({ message: Type.String() })
+  }
+};
+
+// Query schema for comparing two revisions
+export const RevisionDiffQuerySchema = Type.Object({
+  from: Type.Integer({ minimum: 1, description: 'Older revision number' }),
+  to: Type.Integer({ minimum: 1, description: 'Newer revision number' })
+});
+
+// Response schema for comparing two revisions
+export const RevisionDiffResponseSchema = Type.Object({
+  build_id: Type.String(),
+  from: Type.Integer(),
+  to: Type.Integer(),
+  changes: Type.Array(Type.Object({
+    path: Type.String({ description: 'Dotted path of the changed field, e.g. scraper.parameters.fields.price.selector' }),
+    change: Type.Union([Type.Literal('added'), Type.Literal('removed'), Type.Literal('changed')]),
+    from: Type.Optional(Type.Any()),
+    to: Type.Optional(Type.Any())
+  }))
+});
+
+export const diffRevisionsSchema = {
+  description: 'Compare the packages of two revisions field by field',
+  tags: ['builds'],
+  summary: 'Diff Package Revisions',
+  params: BuildIdParamsSchema,
+  querystring: RevisionDiffQuerySchema,
+  response: {
+    200: RevisionDiffResponseSchema,
+    404: Type.Object({ message: Type.String() }),
+    500: Type.Object({ message: Type.String() })
+  }
+};
+
+// Parameter schema for a single revision
+export const RevisionParamsSchema = Type.Object({
+  build_id: Type.String({ minLength: 1, description: 'The unique identifier for the build job.' }),
+  revision: Type.Integer({ minimum: 1, description: 'Revision number' })
+});
+
+// Response schema for a rollback
+export const RollbackRevisionResponseSchema = Type.Object({
+  build_id: Type.String(),
+  status: Type.Enum(BuildStatus),
+  revision: Type.Integer({ description: 'The new revision holding the restored package' }),
+  source_revision: Type.Integer({ description: 'The revision that was restored' }),
+  message: Type.String()
+});
+
+export const rollbackRevisionSchema = {
+  description: 'Make the package of an earlier revision the working package again. The build returns to awaiting feedback and must be confirmed again. A revision without sample results has its samples regenerated first (202).',
+  tags: ['builds'],
+  summary: 'Roll Back to Package Revision',
+  params: RevisionParamsSchema,
+  response: {
+    200: RollbackRevisionResponseSchema,
+    202: RollbackRevisionResponseSchema,
+    404: Type.Object({ message: Type.String() }),
+    409: Type.Object({ message: Type.String() }),
+    500: Type.Object({ message: Type.String() })
+  }
+};
+
+// --- Schemas for PUT /builds/:build_id/package ---
+// Request body: the edited package, validated like POST /packages/validate
+export const UpdateBuildPackageBodySchema = Type.Object({}, {
+  additionalProperties: true,
+  description: 'A Universal Configuration Package (schemaVersion 1.0 or 2.0) replacing the working package.'
+});
+
+// Response schema for a manual package edit
+export const UpdateBuildPackageResponseSchema = Type.Object({
+  build_id: Type.String(),
+  status: Type.Enum(BuildStatus, { description: 'The build status after the edit (samples are regenerated)' }),
+  revision: Type.Integer({ description: 'The new revision holding the edited package' }),
+  message: Type.String()
+});
+
+export const updateBuildPackageSchema = {
+  description: 'Replace the working package of a build with a hand-edited package. The package is recorded as a manual_edit revision, sample results are regenerated and the build must be confirmed again.',
+  tags: ['builds'],
+  summary: 'Edit Build Package',
+  params: BuildIdParamsSchema,
+  body: UpdateBuildPackageBodySchema,
+  response: {
+    202: UpdateBuildPackageResponseSchema,
+    400: Type.Object({ message: Type.String(), errors: Type.Optional(Type.Array(PackageValidationIssueSchema)) }),
+    404: Type.Object({ message: Type.String() }),
+    409: Type.Object({ message: Type.String() }),
+    500: Type.Object({ message: Type.String() })
+  }
+};
+
+// --- Schemas for GET /builds/:build_id/export ---
+export const exportBuildPackageSchema = {
+  description: 'Export the confirmed package of a build as a file that POST /scrapes/import accepts',
+  tags: ['builds'],
+  summary: 'Export Build Package',
+  params: BuildIdParamsSchema,
+  response: {
+    200: PortablePackageFileSchema,
+    404: Type.Object({ message: Type.String() }),
+    409: Type.Object({ message: Type.String() }), // Conflict (no confirmed package)
+    500: Type.Object({ message: Type.String() })
+  }
+};
+
 // TypeBox Static types for TypeScript inference
 export type CreateBuildBody = Static<typeof CreateBuildBodySchema>;
 export type BuildIdParams = Static<typeof BuildIdParamsSchema>;
 export type ConfirmBuildResponse = Static<typeof ConfirmBuildResponseSchema>;
 export type ConfigureBuildBody = Static<typeof ConfigureBuildBodySchema>;
 export type ConfigureBuildResponse = Static<typeof ConfigureBuildResponseSchema>;
+export type PackageRevisionResponse = Static<typeof PackageRevisionSchema>;
+export type ListRevisionsResponse = Static<typeof ListRevisionsResponseSchema>;
+export type RevisionDiffQuery = Static<typeof RevisionDiffQuerySchema>;
+export type RevisionDiffResponse = Static<typeof RevisionDiffResponseSchema>;
+export type RevisionParams = Static<typeof RevisionParamsSchema>;
+export type RollbackRevisionResponse = Static<typeof RollbackRevisionResponseSchema>;
+export type UpdateBuildPackageResponse = Static<typeof UpdateBuildPackageResponseSchema>;
@@ -1,7 +1,22 @@
 import { Static, Type } from '@sinclair/typebox';
 import { PrismaClient, BuildStatus, Prisma, Build } from '../../generated/prisma/index.js'; 
 import { BuildRepository } from '../../infrastructure/db/build.repository.js'; 
-import { BuildIdParams, confirmBuildSchema, ConfirmBuildResponse, configureBuildSchema, ConfigureBuildBody, ConfigureBuildResponse } from './build.schema.js';
+import {
+    BuildIdParams, confirmBuildSchema, ConfirmBuildResponse, configureBuildSchema, ConfigureBuildBody, ConfigureBuildResponse,
+    listRevisionsSchema, ListRevisionsResponse, diffRevisionsSchema, RevisionDiffQuery, RevisionDiffResponse,
+    rollbackRevisionSchema, RevisionParams, RollbackRevisionResponse, PackageRevisionResponse, exportBuildPackageSchema,
+    updateBuildPackageSchema, UpdateBuildPackageResponse
+} from './build.schema.js';
+import { SitemapSourceSchema } from '../../core/domain/sitemap.schema.js';
+import { sitemapService } from '../../infrastructure/sitemap/sitemap.service.js';
+import { BadRequestError } from '../../core/errors/index.js';
+import { packageRevisionService } from '../../core/services/package-revision.service.js';
+import { PackageRevision } from '../../core/domain/package-revision.types.js';
+import { packagePortabilityService } from '../../core/services/package-portability.service.js';
+import { packageValidationService, PackageValidationIssue } from '../../core/services/package-validation.service.js';
+import { packageUpgradeService } from '../../core/services/package-upgrade.service.js';
+import { UniversalConfigurationPackageFormat } from '../../core/domain/configuration-package.types.js';
+import { SampleGenerationProcessor } from '../../jobs/processors/index.js';
 import type {
     FastifyPluginAsync,
     FastifyRequest,
@@ -14,7 +29,8 @@ import type { FastifyInstance as BaseFastifyInstance } from 'fastify';
 // --- Schemas --- //
 
 const CreateBuildBodySchema = Type.Object({
-    target_urls: Type.Array(Type.String({ format: 'uri' }), { minItems: 1, description: 'List of target URLs to process' }),
+    target_urls: Type.Optional(Type.Array(Type.String({ format: 'uri' }), { minItems: 1, description: 'List of target URLs to process' })),
+    sitemap: Type.Optional(SitemapSourceSchema),
     user_objective: Type.String({ minLength: 1, description: 'The user\'s objective for this build.' })
 });
 type CreateBuildBody = Static<typeof CreateBuildBodySchema>;
@@ -66,6 +82,52 @@ interface ConfigureBuildRoute {
     Reply: ConfigureBuildResponse;
 }
 
+interface ListRevisionsRoute {
+    Params: BuildIdParams;
+    Reply: ListRevisionsResponse;
+}
+
+interface DiffRevisionsRoute {
+    Params: BuildIdParams;
+    Querystring: RevisionDiffQuery;
+    Reply: RevisionDiffResponse;
+}
+
+interface RollbackRevisionRoute {
+    Params: RevisionParams;
+    Reply: RollbackRevisionResponse | { message: string };
+}
+
+interface UpdateBuildPackageRoute {
+    Params: BuildIdParams;
+    Body: Record<string, unknown>;
+    Reply: UpdateBuildPackageResponse | { message: string; errors?: PackageValidationIssue[] };
+}
+
+interface ExportBuildPackageRoute {
+    Params: BuildIdParams;
+}
+
+// Builds whose package is being generated, refined or executed cannot be rolled back or edited
+const BUSY_BUILD_STATUSES: BuildStatus[] = [
+    BuildStatus.PENDING_ANALYSIS,
+    BuildStatus.GENERATING_SAMPLES,
+    BuildStatus.PROCESSING_FEEDBACK,
+    BuildStatus.SCRAPING_IN_PROGRESS
+];
+
+function toRevisionResponse(revision: PackageRevision): PackageRevisionResponse {
+    return {
+        revision: revision.revision,
+        trigger: revision.trigger,
+        created_at: revision.createdAt,
+        package: revision.package,
+        ...(revision.sampleResults !== undefined ? { sample_results: revision.sampleResults } : {}),
+        ...(revision.feedback !== undefined ? { feedback: revision.feedback } : {}),
+        ...(revision.sourceRevision !== undefined ? { source_revision: revision.sourceRevision } : {})
+    };
+}
+
 // --- Controller Plugin --- //
 
 // Use base FastifyInstance for plugin signature; cast to CustomFastifyInstance if/when mcpService is needed
@@ -86,14 +148,15 @@ const buildsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance
         },
         async (request: FastifyRequest<CreateBuildRoute>, reply: FastifyReply) => {
             const prisma: PrismaClient = fastify.prisma;
-            const { target_urls, user_objective } = request.body;
+            const { target_urls, sitemap, user_objective } = request.body;
 
-            if (!Array.isArray(target_urls) || target_urls.length === 0) {
-                return reply.badRequest('target_urls must be a non-empty array.');
+            if (!sitemap && (!Array.isArray(target_urls) || target_urls.length === 0)) {
+                return reply.badRequest('target_urls must be a non-empty array when no sitemap is given.');
             }
 
             try {
-                const targetUrlsJson = JSON.stringify(target_urls);
+                // Sitemap entries are added after the explicit target URLs
+                const targetUrlsJson = JSON.stringify(await sitemapService.resolveTargetUrls(target_urls, sitemap));
 
                 const buildData: Prisma.BuildCreateInput = {
                     targetUrls: targetUrlsJson,
@@ -111,6 +174,9 @@ const buildsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance
                 });
 
             } catch (error: any) {
+                if (error instanceof BadRequestError) {
+                     return reply.badRequest(error.message);
+                }
                 fastify.log.error('Error creating build job:', error);
                 if (error instanceof Prisma.PrismaClientKnownRequestError) {
                      fastify.log.warn(`Prisma Error creating build: ${error.code}`);
@@ -385,6 +451,230 @@ const buildsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance
         }
     );
 
+    // GET /builds/:build_id/revisions - List the package revisions of a build
+    fastify.get<ListRevisionsRoute>(
+        '/:build_id/revisions',
+        {
+            schema: listRevisionsSchema
+        },
+        async (request, reply) => {
+            const { build_id } = request.params;
+
+            try {
+                const buildRepository = new BuildRepository(fastify.prisma);
+                const build = await buildRepository.findBuildById(build_id);
+                if (!build) {
+                    return reply.notFound(`Build with ID ${build_id} not found.`);
+                }
+
+                const revisions = packageRevisionService.readRevisions(build.metadata);
+                return reply.status(200).send({
+                    build_id: build.id,
+                    current_revision: revisions.length > 0 ? revisions[revisions.length - 1].revision : null,
+                    revisions: revisions.map(toRevisionResponse)
+                });
+            } catch (error) {
+                fastify.log.error(`Error listing revisions of build ${build_id}:`, error);
+                return reply.internalServerError('An unexpected error occurred while listing package revisions.');
+            }
+        }
+    );
+
+    // GET /builds/:build_id/revisions/diff?from=&to= - Compare two package revisions
+    fastify.get<DiffRevisionsRoute>(
+        '/:build_id/revisions/diff',
+        {
+            schema: diffRevisionsSchema
+        },
+        async (request, reply) => {
+            const { build_id } = request.params;
+            const { from, to } = request.query;
+
+            try {
+                const buildRepository = new BuildRepository(fastify.prisma);
+                const build = await buildRepository.findBuildById(build_id);
+                if (!build) {
+                    return reply.notFound(`Build with ID ${build_id} not found.`);
+                }
+
+                const revisions = packageRevisionService.readRevisions(build.metadata);
+                const fromRevision = packageRevisionService.findRevision(revisions, from);
+                const toRevision = packageRevisionService.findRevision(revisions, to);
+                if (!fromRevision || !toRevision) {
+                    return reply.notFound(`Revision ${!fromRevision ? from : to} of build ${build_id} not found.`);
+                }
+
+                return reply.status(200).send({
+                    build_id: build.id,
+                    from,
+                    to,
+                    changes: packageRevisionService.diff(fromRevision.package, toRevision.package)
+                });
+            } catch (error) {
+                fastify.log.error(`Error comparing revisions of build ${build_id}:`, error);
+                return reply.internalServerError('An unexpected error occurred while comparing package revisions.');
+            }
+        }
+    );
+
+    // POST /builds/:build_id/revisions/:revision/rollback - Restore an earlier package revision
+    fastify.post<RollbackRevisionRoute>(
+        '/:build_id/revisions/:revision/rollback',
+        {
+            schema: rollbackRevisionSchema
+        },
+        async (request, reply) => {
+            const { build_id, revision } = request.params;
+            fastify.log.info({ msg: 'Processing package rollback request', build_id, revision });
+
+            try {
+                const buildRepository = new BuildRepository(fastify.prisma);
+                const build = await buildRepository.findBuildById(build_id);
+                if (!build) {
+                    return reply.notFound(`Build with ID ${build_id} not found.`);
+                }
+
+                if (BUSY_BUILD_STATUSES.includes(build.status)) {
+                    return reply.status(409).send({
+                        message: `Cannot roll back build in ${build.status} state. Wait until the current processing has finished.`
+                    });
+                }
+
+                const target = packageRevisionService.findRevision(packageRevisionService.readRevisions(build.metadata), revision);
+                if (!target) {
+                    return reply.notFound(`Revision ${revision} of build ${build_id} not found.`);
+                }
+
+                const result = await buildRepository.rollbackToRevision(build_id, target);
+                if (!result) {
+                    return reply.internalServerError('Failed to roll back the build package.');
+                }
+
+                // A revision without sample results (e.g. a manual edit) has its samples regenerated
+                const regenerating = result.build.status === BuildStatus.GENERATING_SAMPLES;
+                if (regenerating) {
+                    const sampleProcessor = new SampleGenerationProcessor(buildRepository, fastify.executionEngine, fastify.prisma);
+                    sampleProcessor.process(build_id).catch(error => {
+                        fastify.log.error(`Error generating samples for restored package of build ${build_id}:`, error);
+                    });
+                }
+
+                fastify.log.info(`Build ${build_id} rolled back to revision ${revision} (new revision ${result.revision.revision}).`);
+                return reply.status(regenerating ? 202 : 200).send({
+                    build_id: result.build.id,
+                    status: result.build.status,
+                    revision: result.revision.revision,
+                    source_revision: revision,
+                    message: regenerating
+                        ? `Package of revision ${revision} restored. Generating sample results; confirm the build again once they are ready.`
+                        : `Package of revision ${revision} restored. Review the sample results and confirm the build again.`
+                });
+            } catch (error) {
+                fastify.log.error(`Unexpected error during rollback of build ${build_id}:`, error);
+                return reply.internalServerError('An unexpected error occurred while rolling back the build package.');
+            }
+        }
+    );
+
+    // PUT /builds/:build_id/package - Replace the working package with a hand-edited one
+    fastify.put<UpdateBuildPackageRoute>(
+        '/:build_id/package',
+        {
+            schema: updateBuildPackageSchema
+        },
+        async (request, reply) => {
+            const { build_id } = request.params;
+            fastify.log.info({ msg: 'Processing manual package edit', build_id });
+
+            try {
+                const buildRepository = new BuildRepository(fastify.prisma);
+                const build = await buildRepository.findBuildById(build_id);
+                if (!build) {
+                    return reply.notFound(`Build with ID ${build_id} not found.`);
+                }
+
+                if (BUSY_BUILD_STATUSES.includes(build.status)) {
+                    return reply.status(409).send({
+                        message: `Cannot edit the package of build in ${build.status} state. Wait until the current processing has finished.`
+                    });
+                }
+
+                const validation = packageValidationService.validate(request.body, {
+                    toolDefinitions: fastify.toolboxService.listMcpTools()
+                });
+                if (!validation.valid) {
+                    return reply.status(400).send({
+                        message: `Invalid configuration package: ${packageValidationService.formatIssues(validation.errors)}`,
+                        errors: validation.errors
+                    });
+                }
+
+                const pkg = packageUpgradeService.upgrade(request.body as unknown as UniversalConfigurationPackageFormat);
+                const result = await buildRepository.replacePackage(build_id, pkg);
+                if (!result) {
+                    return reply.internalServerError('Failed to update the build package.');
+                }
+
+                // Regenerate the samples for the edited package; the processor reports its own failures on the build
+                const sampleProcessor = new SampleGenerationProcessor(buildRepository, fastify.executionEngine, fastify.prisma);
+                sampleProcessor.process(build_id).catch(error => {
+                    fastify.log.error(`Error generating samples for edited package of build ${build_id}:`, error);
+                });
+
+                fastify.log.info(`Build ${build_id} package edited (revision ${result.revision.revision}).`);
+                return reply.status(202).send({
+                    build_id: result.build.id,
+                    status: result.build.status,
+                    revision: result.revision.revision,
+                    message: 'Package updated. Generating sample results; confirm the build again once they are ready.'
+                });
+            } catch (error) {
+                fastify.log.error(`Unexpected error while editing the package of build ${build_id}:`, error);
+                return reply.internalServerError('An unexpected error occurred while updating the build package.');
+            }
+        }
+    );
+
+    // GET /builds/:build_id/export - Download the confirmed package as a portable file
+    fastify.get<ExportBuildPackageRoute>(
+        '/:build_id/export',
+        {
+            schema: exportBuildPackageSchema
+        },
+        async (request, reply) => {
+            const { build_id } = request.params;
+
+            try {
+                const buildRepository = new BuildRepository(fastify.prisma);
+                const build = await buildRepository.findBuildById(build_id);
+                if (!build) {
+                    return reply.notFound(`Build with ID ${build_id} not found.`);
+                }
+                if (!build.finalPackageJson) {
+                    return reply.status(409).send({
+                        message: `Build ${build_id} has no confirmed package to export. Confirm the build first.`
+                    });
+                }
+
+                const finalPackage = typeof build.finalPackageJson === 'string'
+                    ? JSON.parse(build.finalPackageJson)
+                    : build.finalPackageJson;
+                const file = packagePortabilityService.exportPackage(finalPackage, {
+                    buildId: build.id,
+                    userObjective: build.userObjective
+                });
+
+                return reply
+                    .header('Content-Disposition', `attachment; filename="build-${build.id}.package.json"`)
+                    .status(200)
+                    .send(file);
+            } catch (error) {
+                fastify.log.error(`Error exporting package of build ${build_id}:`, error);
+                return reply.internalServerError('An unexpected error occurred while exporting the build package.');
+            }
+        }
+    );
+
     // Handle missing build_id in paths like /builds/ with trailing slash
     fastify.route({
         method: ['GET', 'PUT', 'DELETE', 'PATCH', 'POST', 'HEAD', 'OPTIONS'],
@@ -0,0 +1,157 @@
+/**
+ * Packages Controller
+ *
+ * Provides API endpoints for working with configuration packages:
+ * validation and the package template library
+ */
+
+import type { FastifyPluginAsync, FastifyInstance as BaseFastifyInstance } from 'fastify';
+import { packageValidationService } from '../../core/services/package-validation.service.js';
+import { packagePortabilityService } from '../../core/services/package-portability.service.js';
+import { packageTemplateRepository } from '../../infrastructure/templates/package-template.repository.js';
+import { BuildRepository } from '../../infrastructure/db/build.repository.js';
+import { BadRequestError, ConflictError } from '../../core/errors/index.js';
+import { PackageTemplate } from '../../core/domain/package-template.types.js';
+import {
+    validatePackageSchema, ValidatePackageResponse,
+    listTemplatesSchema, ListTemplatesQuery, ListTemplatesResponse,
+    getTemplateSchema, createTemplateSchema, deleteTemplateSchema,
+    TemplateIdParams, CreateTemplateBody, PackageTemplateResponse
+} from './packages.schema.js';
+
+interface ValidatePackageRoute {
+    Body: Record<string, unknown>;
+    Reply: ValidatePackageResponse;
+}
+
+interface ListTemplatesRoute {
+    Querystring: ListTemplatesQuery;
+    Reply: ListTemplatesResponse;
+}
+
+interface GetTemplateRoute {
+    Params: TemplateIdParams;
+    Reply: PackageTemplateResponse;
+}
+
+interface CreateTemplateRoute {
+    Body: CreateTemplateBody;
+    Reply: PackageTemplateResponse;
+}
+
+interface DeleteTemplateRoute {
+    Params: TemplateIdParams;
+}
+
+function toTemplateResponse(template: PackageTemplate): PackageTemplateResponse {
+    return {
+        id: template.id,
+        name: template.name,
+        ...(template.description ? { description: template.description } : {}),
+        tags: template.tags,
+        package: template.package,
+        ...(template.sourceBuildId ? { source_build_id: template.sourceBuildId } : {}),
+        created_at: template.createdAt,
+        updated_at: template.updatedAt
+    };
+}
+
+const packagesController: FastifyPluginAsync = async (fastify: BaseFastifyInstance) => {
+
+    // POST /packages/validate - Lint a (hand-edited) package before submitting it
+    fastify.post<ValidatePackageRoute>(
+        '/validate',
+        { schema: validatePackageSchema },
+        async (request, reply) => {
+            const result = packageValidationService.validate(request.body, {
+                toolDefinitions: fastify.toolboxService.listMcpTools()
+            });
+            return reply.status(200).send(result);
+        }
+    );
+
+    // GET /packages/templates - List the template library
+    fastify.get<ListTemplatesRoute>(
+        '/templates',
+        { schema: listTemplatesSchema },
+        async (request, reply) => {
+            const templates = await packageTemplateRepository.list(request.query);
+            return reply.status(200).send({ templates: templates.map(toTemplateResponse) });
+        }
+    );
+
+    // GET /packages/templates/:template_id - Get a single template
+    fastify.get<GetTemplateRoute>(
+        '/templates/:template_id',
+        { schema: getTemplateSchema },
+        async (request, reply) => {
+            const template = await packageTemplateRepository.findById(request.params.template_id);
+            if (!template) {
+                return reply.notFound(`Template ${request.params.template_id} not found.`);
+            }
+            return reply.status(200).send(toTemplateResponse(template));
+        }
+    );
+
+    // POST /packages/templates - Save a package, or the confirmed package of a build, as a template
+    fastify.post<CreateTemplateRoute>(
+        '/templates',
+        { schema: createTemplateSchema },
+        async (request, reply) => {
+            const { name, description, tags, package: packageFile, build_id } = request.body;
+            if ((packageFile === undefined) === (build_id === undefined)) {
+                return reply.badRequest('Provide either package or build_id.');
+            }
+
+            try {
+                let source: unknown = packageFile;
+                if (build_id !== undefined) {
+                    const build = await new BuildRepository(fastify.prisma).findBuildById(build_id);
+                    if (!build) {
+                        return reply.notFound(`Build with ID ${build_id} not found.`);
+                    }
+                    if (!build.finalPackageJson) {
+                        return reply.conflict(`Build ${build_id} has no confirmed package yet.`);
+                    }
+                    source = typeof build.finalPackageJson === 'string' ? JSON.parse(build.finalPackageJson) : build.finalPackageJson;
+                }
+
+                const imported = packagePortabilityService.importPackage(source, {
+                    toolDefinitions: fastify.toolboxService.listMcpTools()
+                });
+                const template = await packageTemplateRepository.create({
+                    name,
+                    description,
+                    tags,
+                    package: imported.package,
+                    sourceBuildId: build_id ?? imported.source?.buildId
+                });
+
+                fastify.log.info(`Package template ${template.id} saved.`);
+                return reply.status(201).send(toTemplateResponse(template));
+            } catch (error) {
+                if (error instanceof BadRequestError) {
+                    return reply.badRequest(error.message);
+                }
+                if (error instanceof ConflictError) {
+                    return reply.conflict(error.message);
+                }
+                throw error;
+            }
+        }
+    );
+
+    // DELETE /packages/templates/:template_id - Remove a template from the library
+    fastify.delete<DeleteTemplateRoute>(
+        '/templates/:template_id',
+        { schema: deleteTemplateSchema },
+        async (request, reply) => {
+            if (!(await packageTemplateRepository.delete(request.params.template_id))) {
+                return reply.notFound(`Template ${request.params.template_id} not found.`);
+            }
+            return reply.status(204).send();
+        }
+    );
+};
+
+export default packagesController;
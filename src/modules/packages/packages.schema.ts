@@ -0,0 +1,150 @@
+import { Static, Type } from '@sinclair/typebox';
+import { PACKAGE_FILE_FORMAT } from '../../core/domain/package-template.types.js';
+
+// --- Schemas for POST /packages/validate ---
+
+// The request body is the configuration package itself; its structure is checked
+// by the package validation service so that every problem is reported at once
+export const ValidatePackageBodySchema = Type.Object({}, {
+    additionalProperties: true,
+    description: 'A Universal Configuration Package (schemaVersion 1.0 or 2.0).'
+});
+
+export const PackageValidationIssueSchema = Type.Object({
+    path: Type.String({ description: 'JSON pointer to the offending value (e.g., /scraper/parameters/fields/price/type)' }),
+    message: Type.String(),
+    keyword: Type.Optional(Type.String({ description: 'JSON Schema keyword that failed' }))
+});
+
+export const ValidatePackageResponseSchema = Type.Object({
+    valid: Type.Boolean(),
+    errors: Type.Array(PackageValidationIssueSchema)
+});
+
+export type ValidatePackageResponse = Static<typeof ValidatePackageResponseSchema>;
+
+export const validatePackageSchema = {
+    description: 'Validate a configuration package and the parameters of each referenced tool.',
+    tags: ['packages'],
+    summary: 'Validate Configuration Package',
+    body: ValidatePackageBodySchema,
+    response: {
+        200: ValidatePackageResponseSchema,
+        400: Type.Object({ message: Type.String() })
+    },
+};
+
+// --- Schemas for portable package files ---
+
+// An exported package file (GET /builds/:build_id/export) or a bare package;
+// the package itself is checked by the package validation service on import
+export const PackageFileSchema = Type.Object({}, {
+    additionalProperties: true,
+    description: `A package file exported by GET /builds/:build_id/export (format "${PACKAGE_FILE_FORMAT}") or a bare configuration package.`
+});
+
+export const PortablePackageFileSchema = Type.Object({
+    format: Type.Literal(PACKAGE_FILE_FORMAT),
+    formatVersion: Type.Integer(),
+    exportedAt: Type.String({ format: 'date-time' }),
+    source: Type.Optional(Type.Object({
+        buildId: Type.Optional(Type.String()),
+        userObjective: Type.Optional(Type.String()),
+        templateId: Type.Optional(Type.String())
+    })),
+    package: Type.Any()
+});
+
+// --- Schemas for the template library (/packages/templates) ---
+
+export const PackageTemplateSchema = Type.Object({
+    id: Type.String({ description: 'Slug derived from the name, e.g. shopify-product-page' }),
+    name: Type.String(),
+    description: Type.Optional(Type.String()),
+    tags: Type.Array(Type.String()),
+    package: Type.Any(),
+    source_build_id: Type.Optional(Type.String()),
+    created_at: Type.String({ format: 'date-time' }),
+    updated_at: Type.String({ format: 'date-time' })
+});
+
+export type PackageTemplateResponse = Static<typeof PackageTemplateSchema>;
+
+export const TemplateIdParamsSchema = Type.Object({
+    template_id: Type.String({ minLength: 1 })
+});
+
+export type TemplateIdParams = Static<typeof TemplateIdParamsSchema>;
+
+export const ListTemplatesQuerySchema = Type.Object({
+    tag: Type.Optional(Type.String({ minLength: 1, description: 'Only templates with this tag' })),
+    search: Type.Optional(Type.String({ minLength: 1, description: 'Text searched in names, descriptions and tags' }))
+});
+
+export type ListTemplatesQuery = Static<typeof ListTemplatesQuerySchema>;
+
+export const ListTemplatesResponseSchema = Type.Object({
+    templates: Type.Array(PackageTemplateSchema)
+});
+
+export type ListTemplatesResponse = Static<typeof ListTemplatesResponseSchema>;
+
+export const listTemplatesSchema = {
+    description: 'List the saved package templates.',
+    tags: ['packages'],
+    summary: 'List Package Templates',
+    querystring: ListTemplatesQuerySchema,
+    response: {
+        200: ListTemplatesResponseSchema
+    },
+};
+
+export const getTemplateSchema = {
+    description: 'Get a saved package template.',
+    tags: ['packages'],
+    summary: 'Get Package Template',
+    params: TemplateIdParamsSchema,
+    response: {
+        200: PackageTemplateSchema,
+        404: Type.Object({ message: Type.String() })
+    },
+};
+
+export const CreateTemplateBodySchema = Type.Object({
+    name: Type.String({ minLength: 1, maxLength: 120, description: 'Template name, e.g. "Shopify product page"' }),
+    description: Type.Optional(Type.String()),
+    tags: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+    package: Type.Optional(PackageFileSchema),
+    build_id: Type.Optional(Type.String({ minLength: 1, description: 'Save the confirmed package of this build instead of an explicit package' }))
+}, {
+    examples: [{
+        name: 'Greenhouse job board',
+        tags: ['jobs', 'greenhouse'],
+        build_id: 'clx0example0build0id'
+    }]
+});
+
+export type CreateTemplateBody = Static<typeof CreateTemplateBodySchema>;
+
+export const createTemplateSchema = {
+    description: 'Save a package as a named template, from a package (file) or a confirmed build.',
+    tags: ['packages'],
+    summary: 'Create Package Template',
+    body: CreateTemplateBodySchema,
+    response: {
+        201: PackageTemplateSchema,
+        400: Type.Object({ message: Type.String() }),
+        404: Type.Object({ message: Type.String() }),
+        409: Type.Object({ message: Type.String() })
+    },
+};
+
+export const deleteTemplateSchema = {
+    description: 'Delete a package template.',
+    tags: ['packages'],
+    summary: 'Delete Package Template',
+    params: TemplateIdParamsSchema,
+    response: {
+        404: Type.Object({ message: Type.String() })
+    },
+};
@@ -0,0 +1,45 @@
+/**
+ * Proxies Controller
+ *
+ * Exposes the health statistics of the rotating proxy pool
+ */
+
+import type { FastifyPluginAsync, FastifyInstance as BaseFastifyInstance } from 'fastify';
+import { ProxyPool, proxyPool } from '../../infrastructure/proxy/proxy-pool.js';
+import { proxyStatsSchema, ProxyStatsResponse } from './proxies.schema.js';
+
+interface ProxyStatsRoute {
+    Reply: ProxyStatsResponse;
+}
+
+export interface ProxiesControllerOptions {
+    pool?: ProxyPool;
+}
+
+const proxiesController: FastifyPluginAsync<ProxiesControllerOptions> = async (fastify: BaseFastifyInstance, opts) => {
+    const pool = opts.pool ?? proxyPool;
+
+    // GET /proxies/stats - Get per-proxy health statistics
+    fastify.get<ProxyStatsRoute>(
+        '/stats',
+        { schema: proxyStatsSchema },
+        async (_request, reply) => {
+            const proxies = pool.getStats().map(stats => ({
+                proxy: stats.proxy,
+                requests: stats.requests,
+                successes: stats.successes,
+                failures: stats.failures,
+                success_rate: stats.successRate,
+                avg_latency_ms: stats.avgLatencyMs,
+                consecutive_failures: stats.consecutiveFailures,
+                quarantined: stats.quarantined,
+                ...(stats.quarantinedUntil ? { quarantined_until: stats.quarantinedUntil } : {}),
+                ...(stats.lastError ? { last_error: stats.lastError } : {}),
+                ...(stats.lastUsedAt ? { last_used_at: stats.lastUsedAt } : {})
+            }));
+            return reply.status(200).send({ proxies });
+        }
+    );
+};
+
+export default proxiesController;
@@ -0,0 +1,32 @@
+import { Static, Type } from '@sinclair/typebox';
+
+// --- Schemas for GET /proxies/stats ---
+
+export const ProxyStatsSchema = Type.Object({
+    proxy: Type.String({ description: 'Proxy URL with the password masked' }),
+    requests: Type.Integer(),
+    successes: Type.Integer(),
+    failures: Type.Integer(),
+    success_rate: Type.Union([Type.Number(), Type.Null()], { description: 'Share of successful requests, null before first use' }),
+    avg_latency_ms: Type.Union([Type.Number(), Type.Null()], { description: 'Average latency of successful requests' }),
+    consecutive_failures: Type.Integer(),
+    quarantined: Type.Boolean(),
+    quarantined_until: Type.Optional(Type.String({ format: 'date-time' })),
+    last_error: Type.Optional(Type.String()),
+    last_used_at: Type.Optional(Type.String({ format: 'date-time' }))
+});
+
+export const ProxyStatsResponseSchema = Type.Object({
+    proxies: Type.Array(ProxyStatsSchema)
+});
+
+export type ProxyStatsResponse = Static<typeof ProxyStatsResponseSchema>;
+
+export const proxyStatsSchema = {
+    description: 'Get the success rate, latency and quarantine state of every proxy used by this process.',
+    tags: ['proxies'],
+    summary: 'Get Proxy Stats',
+    response: {
+        200: ProxyStatsResponseSchema
+    }
+};
@@ -10,7 +10,10 @@ import type { FastifyInstance as BaseFastifyInstance } from 'fastify';
 // --- Schemas --- //
 const CreateRunBodySchema = Type.Object({
   build_id: Type.String({ format: 'uuid', description: 'The build ID for which to execute a run.' }),
-  target_urls: Type.Array(Type.String({ format: 'uri' }), { minItems: 1, description: 'List of target URLs for this run.' })
+  target_urls: Type.Array(Type.String({ minLength: 1 }), { minItems: 1, description: 'List of target URLs for this run. URLs may contain {{variable}} placeholders; use {{variable|url}} to URL-encode a value.' }),
+  variables: Type.Optional(Type.Record(Type.String(), Type.String(), {
+    description: 'Values of the package variables ({{name}} placeholders in the package and the target URLs). Declared defaults apply to omitted variables.'
+  }))
 });
 type CreateRunBody = Static<typeof CreateRunBodySchema>;
 
@@ -30,12 +33,11 @@ const BaseErrorResponseSchema = Type.Object({
 type RunRouteReply = Static<typeof CreateRunResponseSchema> | Static<typeof BaseErrorResponseSchema>;
 
 // --- Controller Plugin --- //
-import { PrismaClient } from '../../generated/prisma/index.js';
 import { BuildRepository } from '../../infrastructure/db/build.repository.js';
 import { RunRepository } from '../../infrastructure/db/run.repository.js';
-import { ExecutionEngineService } from '../../infrastructure/execution/execution.service.js';
-import { ToolboxService } from '../../infrastructure/toolbox/toolbox.service.js';
-import { UniversalConfigurationPackageFormatV1 } from '../../core/domain/configuration-package.types.js';
+import { UniversalConfigurationPackageFormat } from '../../core/domain/configuration-package.types.js';
+import { packageVariablesService, PackageVariableValues } from '../../core/services/package-variables.service.js';
+import { BadRequestError } from '../../core/errors/index.js';
 import { RunStatus } from '../../generated/prisma/index.js';
 
 // --- Extend FastifyRequest to include user property (as per auth plugin) ---
@@ -49,8 +51,8 @@ interface AuthenticatedRequest extends FastifyRequest {
 }
 
 const runsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance, opts: FastifyPluginOptions) => {
-  // Instantiate repositories (in production, use DI or Fastify decorators)
-  const prisma = new PrismaClient();
+  // Repositories on the application's Prisma client
+  const prisma = fastify.prisma;
   const buildRepository = new BuildRepository(prisma);
   const runRepository = new RunRepository(prisma);
 
@@ -94,7 +96,7 @@ const runsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance,
       }
 
       // --- Build existence and state check ---
-      const { build_id, target_urls } = request.body;
+      const { build_id, target_urls, variables } = request.body;
       fastify.log.info(`[RUNS] Looking up build_id: ${build_id} for user: ${userId}`);
       const build = await buildRepository.findBuildById(build_id);
       if (!build) {
@@ -113,44 +115,57 @@ const runsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance,
         return reply.status(403).type('application/json').send({ run_id: '', message: 'Forbidden: You do not have access to this build.', errors: [] });
       }
 
+      // --- Parse the confirmed package ---
+      if (!build.finalPackageJson) {
+        fastify.log.error(`[RUNS] Build has no final package: ${build_id}`);
+        return reply.status(400).type('application/json').send({ run_id: '', message: 'Build has no confirmed package.', errors: [] });
+      }
+      let storedPackage: UniversalConfigurationPackageFormat;
+      try {
+        storedPackage = typeof build.finalPackageJson === 'string'
+          ? JSON.parse(build.finalPackageJson)
+          : build.finalPackageJson as unknown as UniversalConfigurationPackageFormat;
+      } catch (parseErr) {
+        fastify.log.error({ err: parseErr }, `[RUNS] Failed to parse final package of build ${build_id}`);
+        return reply.status(500).type('application/json').send({ run_id: '', message: 'Failed to parse the confirmed package.', errors: [] });
+      }
+
+      // --- Substitute package variables ---
+      let variableValues: PackageVariableValues;
+      let configPackage: UniversalConfigurationPackageFormat;
+      let runTargetUrls: string[];
+      try {
+        variableValues = packageVariablesService.resolve(storedPackage, target_urls, variables);
+        configPackage = packageVariablesService.applyToPackage(storedPackage, variableValues);
+        runTargetUrls = packageVariablesService.applyToUrls(target_urls, variableValues);
+      } catch (error) {
+        if (error instanceof BadRequestError) {
+          return reply.status(400).type('application/json').send({ run_id: '', message: error.message, errors: [] });
+        }
+        throw error;
+      }
+      const invalidUrls = runTargetUrls.filter(url => !URL.canParse(url));
+      if (invalidUrls.length > 0) {
+        return reply.status(400).type('application/json').send({ run_id: '', message: `Invalid target URLs: ${invalidUrls.join(', ')}`, errors: [] });
+      }
+
       // --- Create run record ---
       const run = await runRepository.createRun({
         buildId: build_id,
-        targetUrls: target_urls
+        targetUrls: runTargetUrls,
+        variables: variableValues
       });
 
       // --- Trigger execution engine asynchronously ---
       (async () => {
         try {
-          // 1. Fetch the build again (to get finalConfigurationJson)
-          const buildForConfig = await buildRepository.findBuildById(build_id);
-          if (!buildForConfig || !buildForConfig.finalConfigurationJson) {
-            await runRepository.updateRunStatus(run.id, RunStatus.FAILED, 'Final configuration missing or build not found.');
-            return;
-          }
-          // 2. Parse config
-          let configPackage: UniversalConfigurationPackageFormatV1;
-          try {
-            configPackage = typeof buildForConfig.finalConfigurationJson === 'string'
-              ? JSON.parse(buildForConfig.finalConfigurationJson)
-              : buildForConfig.finalConfigurationJson;
-          } catch (parseErr) {
-            await runRepository.updateRunStatus(run.id, RunStatus.FAILED, 'Failed to parse final configuration: ' + (parseErr as Error).message);
-            return;
-          }
-
-          // 3. Update run status to RUNNING
+          // 1. Update run status to RUNNING
           await runRepository.updateRunStatus(run.id, RunStatus.RUNNING);
 
-          // 4. Prepare toolbox & execution engine
-          const toolboxService = new ToolboxService();
-          // TODO: Register all required tools here if not already registered globally
-          const executionEngine = new ExecutionEngineService(toolboxService, toolboxService);
-
-          // 5. Execute
-          const result = await executionEngine.executePackage(configPackage, target_urls);
+          // 2. Execute with the application's engine (default and plugin tools)
+          const result = await fastify.executionEngine.executePackage(configPackage, runTargetUrls);
 
-          // 6. Store result
+          // 3. Store result
           await runRepository.updateRunStatus(
             run.id,
             result.overallStatus === 'completed' ? RunStatus.COMPLETED : RunStatus.FAILED,
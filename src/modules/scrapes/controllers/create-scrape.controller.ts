@@ -10,6 +10,8 @@ import { BuildRepository } from '../../../infrastructure/db/build.repository.js'
 import { errorReportingService } from '../../../core/services/error-reporting.service.js';
 import { ErrorCategory, ErrorSeverity } from '../../../core/domain/error-reporting.types.js';
 import { BuildAnalysisProcessor } from '../../../jobs/processors/index.js';
+import { sitemapService } from '../../../infrastructure/sitemap/sitemap.service.js';
+import { BadRequestError } from '../../../core/errors/index.js';
 import { InteractiveScrapeRequestSchema, InteractiveScrapeResponseSchema, InteractiveScrapeRequest, InteractiveScrapeResponse } from '../interactive-scrape.schema.js';
 
 import type { FastifyRequest, FastifyReply } from '../../../types/fastify.js';
@@ -49,13 +51,16 @@ export class CreateScrapeController {
   async handleCreateScrapeJob(request: any, reply: FastifyReply) {
     const { body } = request as { body: InteractiveScrapeRequest };
     try {
-      const { target_urls, user_objective, max_results, additional_context } = body;
+      const { target_urls, sitemap, user_objective, max_results, additional_context } = body;
+      
+      // Sitemap entries are added after the explicit target URLs
+      const targetUrls = await sitemapService.resolveTargetUrls(target_urls, sitemap);
       
       // Create a new build record
       const build = await this.buildRepository.createBuild({
         userId: request.user?.id || 'anonymous',
-        targetUrls: JSON.stringify(target_urls),
-        targetUrlsList: target_urls as string[],
+        targetUrls: JSON.stringify(targetUrls),
+        targetUrlsList: targetUrls,
         userObjective: user_objective,
         status: BuildStatus.PENDING_ANALYSIS,
         metadata: additional_context ? JSON.stringify(additional_context) : null
@@ -63,7 +68,7 @@ export class CreateScrapeController {
       
       // Start async processing
       // 1. First trigger the analysis process
-      this.analysisProcessor.process(build.id, user_objective, target_urls)
+      this.analysisProcessor.process(build.id, user_objective, targetUrls)
         .catch(error => {
           console.error(`[CreateScrapeController] Error processing analysis for build ${build.id}:`, error);
           
@@ -99,6 +104,12 @@ export class CreateScrapeController {
         message: 'Interactive scrape job created. System is analyzing your request and searching knowledge base for similar past requests.'
       });
     } catch (error: any) {
+      if (error instanceof BadRequestError) {
+        return reply.status(400).send({
+          error: 'Invalid scrape job request',
+          message: error.message
+        });
+      }
       request.log.error({ error }, '[CreateScrapeController] Error creating scrape job');
       
       return reply.status(500).send({
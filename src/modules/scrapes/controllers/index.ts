@@ -9,3 +9,4 @@ export * from './status.controller.js';
 export * from './proposal-feedback.controller.js';
 export * from './sample-feedback.controller.js';
 export * from './results.controller.js';
+export * from './package-import.controller.js';
@@ -29,7 +29,8 @@ import {
   StatusController,
   ProposalFeedbackController,
   SampleFeedbackController,
-  ResultsController
+  ResultsController,
+  PackageImportController
 } from './index.js';
 
 import type { FastifyPluginAsync, FastifyPluginOptions } from 'fastify';
@@ -93,12 +94,18 @@ const interactiveScrapeController: FastifyPluginAsync = async (
     prisma
   );
 
+  const packageImportController = new PackageImportController(
+    buildRepository,
+    sampleProcessor
+  );
+
   // Register all routes from the controllers
   createScrapeController.registerRoutes(fastify);
   statusController.registerRoutes(fastify);
   proposalFeedbackController.registerRoutes(fastify);
   sampleFeedbackController.registerRoutes(fastify);
   resultsController.registerRoutes(fastify);
+  packageImportController.registerRoutes(fastify);
 };
 
 export default interactiveScrapeController;
@@ -0,0 +1,128 @@
+/**
+ * Package Import Controller
+ *
+ * Creates interactive scrape jobs from an existing package (an exported package
+ * file or a saved template). The LLM analysis is skipped: the job goes straight
+ * to sample generation.
+ */
+
+import { BuildStatus } from '../../../generated/prisma/index.js';
+import { BuildRepository } from '../../../infrastructure/db/build.repository.js';
+import { SampleGenerationProcessor } from '../../../jobs/processors/index.js';
+import { sitemapService } from '../../../infrastructure/sitemap/sitemap.service.js';
+import { packageTemplateRepository } from '../../../infrastructure/templates/package-template.repository.js';
+import { packagePortabilityService, ImportedPackage } from '../../../core/services/package-portability.service.js';
+import type { McpToolDefinition } from '../../../infrastructure/toolbox/toolbox.service.js';
+import { PackageRevisionTrigger } from '../../../core/domain/package-revision.types.js';
+import { BadRequestError } from '../../../core/errors/index.js';
+import { ImportScrapeRequestSchema, InteractiveScrapeResponseSchema, ImportScrapeRequest, InteractiveScrapeResponse } from '../interactive-scrape.schema.js';
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+
+export interface ImportScrapeJobRoute {
+  Body: ImportScrapeRequest;
+  Reply: InteractiveScrapeResponse;
+}
+
+export class PackageImportController {
+  constructor(
+    private readonly buildRepository: BuildRepository,
+    private readonly sampleProcessor: SampleGenerationProcessor
+  ) {}
+
+  /**
+   * Register the import route
+   */
+  registerRoutes(fastify: FastifyInstance) {
+    fastify.post<ImportScrapeJobRoute>(
+      '/scrapes/import',
+      {
+        schema: {
+          body: ImportScrapeRequestSchema,
+          response: {
+            202: InteractiveScrapeResponseSchema
+          }
+        }
+      },
+      (request: FastifyRequest<ImportScrapeJobRoute>, reply: FastifyReply) =>
+        this.handleImportScrapeJob(request, reply, fastify.toolboxService.listMcpTools())
+    );
+  }
+
+  /**
+   * Handle import request: resolve the package, create the build and start sample generation
+   */
+  async handleImportScrapeJob(request: FastifyRequest<ImportScrapeJobRoute>, reply: FastifyReply, toolDefinitions?: McpToolDefinition[]) {
+    const { body } = request;
+    try {
+      const { target_urls, sitemap, user_objective, package: packageFile, template_id } = body;
+      if ((packageFile === undefined) === (template_id === undefined)) {
+        throw new BadRequestError('Provide either package or template_id');
+      }
+
+      // Resolve the package and a default objective from the file or the template
+      let imported: ImportedPackage;
+      let defaultObjective: string | undefined;
+      let trigger: PackageRevisionTrigger;
+      if (template_id !== undefined) {
+        const template = await packageTemplateRepository.findById(template_id);
+        if (!template) {
+          return reply.status(404).send({
+            error: 'Template not found',
+            message: `Template ${template_id} not found`
+          });
+        }
+        imported = packagePortabilityService.importPackage(template.package, { toolDefinitions });
+        defaultObjective = template.description || template.name;
+        trigger = PackageRevisionTrigger.TEMPLATE;
+      } else {
+        imported = packagePortabilityService.importPackage(packageFile, { toolDefinitions });
+        defaultObjective = imported.source?.userObjective || imported.package.description;
+        trigger = PackageRevisionTrigger.IMPORT;
+      }
+
+      const userObjective = user_objective || defaultObjective;
+      if (!userObjective) {
+        throw new BadRequestError('user_objective is required when the package does not record one');
+      }
+
+      // Sitemap entries are added after the explicit target URLs
+      const targetUrls = await sitemapService.resolveTargetUrls(target_urls, sitemap);
+
+      const build = await this.buildRepository.createBuild({
+        userId: 'anonymous',
+        targetUrls,
+        userObjective
+      });
+      await this.buildRepository.updateTempPackage(build.id, imported.package, { trigger });
+      await this.buildRepository.updateBuildStatus(build.id, BuildStatus.GENERATING_SAMPLES);
+
+      // Start async sample generation; the sample processor reports its own failures on the build
+      this.sampleProcessor.process(build.id)
+        .catch(error => {
+          console.error(`[PackageImportController] Error generating samples for build ${build.id}:`, error);
+        });
+
+      return reply.status(202).send({
+        job_id: build.id,
+        status: 'generating_samples',
+        message: template_id !== undefined
+          ? `Scrape job created from template ${template_id}. Analysis skipped; generating samples.`
+          : 'Scrape job created from the imported package. Analysis skipped; generating samples.'
+      });
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        return reply.status(400).send({
+          error: 'Invalid import request',
+          message: error.message
+        });
+      }
+      request.log.error({ error }, '[PackageImportController] Error importing scrape job');
+
+      return reply.status(500).send({
+        error: 'Failed to import scrape job',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred'
+      });
+    }
+  }
+}
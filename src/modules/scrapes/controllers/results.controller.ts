@@ -14,6 +14,8 @@ import {
   ScrapeJobIdParams, 
   ScrapeResults 
 } from '../interactive-scrape.schema.js';
+import { outputSchemaService } from '../../../core/services/output-schema.service.js';
+import { OutputConformanceSummary } from '../../../core/domain/output-conformance.types.js';
 
 import type { FastifyRequest, FastifyReply } from '../../../types/fastify.js';
 
@@ -85,15 +87,20 @@ export class ResultsController {
       
       // Collect results from all runs
       const allResults = [];
+      const conformanceSummaries: OutputConformanceSummary[] = [];
       let totalExecutionTime = 0;
       
       for (const run of runs) {
         if (run.resultJson) {
-          const resultsObject = JSON.parse(run.resultJson as string);
+          const resultsObject = typeof run.resultJson === 'string' ? JSON.parse(run.resultJson) : run.resultJson;
           allResults.push(...(Array.isArray(resultsObject) ? resultsObject : [resultsObject]));
           if (resultsObject && resultsObject.execution_time_ms) {
             totalExecutionTime += resultsObject.execution_time_ms;
           }
+          // Runs executed with an expectedOutputSchema carry a conformance summary
+          if (resultsObject && resultsObject.conformance) {
+            conformanceSummaries.push(resultsObject.conformance);
+          }
         }
       }
       
@@ -103,7 +110,10 @@ export class ResultsController {
         status: build.status === BuildStatus.COMPLETED ? 'completed' : 'partial_success',
         total_results: allResults.length,
         results: allResults,
-        execution_time_ms: totalExecutionTime
+        execution_time_ms: totalExecutionTime,
+        ...(conformanceSummaries.length > 0 && {
+          conformance: outputSchemaService.mergeSummaries(conformanceSummaries)
+        })
       });
     } catch (error: any) {
       request.log.error({ error }, '[ResultsController] Error getting scrape results');
@@ -11,7 +11,8 @@ import { BuildStatus } from '../../generated/prisma/index.js';
 import { FullScrapeExecutionService } from '../../infrastructure/execution/full-scrape.service.js';
 import { errorReportingService } from '../../core/services/error-reporting.service.js';
 import { ErrorCategory } from '../../core/domain/error-reporting.types.js';
-import { UniversalConfigurationPackageFormatV1 } from '../../core/domain/configuration-package.types.js';
+import { UniversalConfigurationPackageFormat, CrawlConfig } from '../../core/domain/configuration-package.types.js';
+import { CrawlConfigSchema } from '../../core/domain/configuration-package.schema.js';
 
 // Define request/response schemas
 const startScrapeParamsSchema = Type.Object({
@@ -20,7 +21,9 @@ const startScrapeParamsSchema = Type.Object({
 
 const startScrapeBodySchema = Type.Object({
   timeout_ms: Type.Optional(Type.Number({ minimum: 5000, maximum: 24 * 60 * 60 * 1000 })),
-  batch_size: Type.Optional(Type.Number({ minimum: 1, maximum: 100 }))
+  batch_size: Type.Optional(Type.Number({ minimum: 1, maximum: 100 })),
+  // Crawl mode: the build's target URLs become seeds (overrides the package's crawl settings)
+  crawl: Type.Optional(CrawlConfigSchema)
 });
 
 const scrapeStatusParamsSchema = Type.Object({
@@ -35,6 +38,7 @@ const scrapeStatusResponseSchema = Type.Object({
     processedUrls: Type.Number(),
     successfulUrls: Type.Number(),
     failedUrls: Type.Number(),
+    discoveredUrls: Type.Optional(Type.Number()),
     percentComplete: Type.Number()
   }),
   start_time: Type.String(),
@@ -57,7 +61,7 @@ const fullScrapeController: FastifyPluginAsync = async (fastify): Promise<void>
   /**
    * Start a full scrape for a build
    */
-  fastify.post<{ Params: { build_id: string }, Body: { timeout_ms?: number, batch_size?: number } }>(
+  fastify.post<{ Params: { build_id: string }, Body: { timeout_ms?: number, batch_size?: number, crawl?: CrawlConfig } }>(
     '/:build_id/start',
     {
       schema: {
@@ -91,7 +95,7 @@ const fullScrapeController: FastifyPluginAsync = async (fastify): Promise<void>
     },
     async (request, reply) => {
       const { build_id } = request.params;
-      const { timeout_ms, batch_size } = request.body;
+      const { timeout_ms, batch_size, crawl } = request.body;
       
       try {
         // Get the build from the repository
@@ -123,12 +127,13 @@ const fullScrapeController: FastifyPluginAsync = async (fastify): Promise<void>
         }
         
         // Parse the configuration package
-        const configPackage = build.finalPackageJson as unknown as UniversalConfigurationPackageFormatV1;
+        const configPackage = build.finalPackageJson as unknown as UniversalConfigurationPackageFormat;
         
         // Start the full scrape
         const options = {
           timeoutMs: timeout_ms,
-          batchSize: batch_size
+          batchSize: batch_size,
+          crawl
         };
         
         const executionState = await fullScrapeService.startFullScrape(build_id, configPackage, options);
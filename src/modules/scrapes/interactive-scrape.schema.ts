@@ -13,6 +13,7 @@
  */
 import { Static, Type } from '@sinclair/typebox';
 import { BuildStatus } from '../../generated/prisma/index.js';
+import { SitemapSourceSchema } from '../../core/domain/sitemap.schema.js';
 
 // --- Params Schemas --- //
 
@@ -28,10 +29,11 @@ export type ScrapeJobIdParams = Static<typeof ScrapeJobIdParamsSchema>;
 // --- Request Body Schemas --- //
 
 export const InteractiveScrapeRequestSchema = Type.Object({
-  target_urls: Type.Array(Type.String({ format: 'uri' }), { 
+  target_urls: Type.Optional(Type.Array(Type.String({ format: 'uri' }), { 
     minItems: 1, 
-    description: 'List of target URLs to process' 
-  }),
+    description: 'List of target URLs to process (optional when a sitemap is given)' 
+  })),
+  sitemap: Type.Optional(SitemapSourceSchema),
   user_objective: Type.String({ 
     minLength: 1, 
     description: 'Clear description of what data to extract and the user goal' 
@@ -49,6 +51,28 @@ export const InteractiveScrapeRequestSchema = Type.Object({
 
 export type InteractiveScrapeRequest = Static<typeof InteractiveScrapeRequestSchema>;
 
+export const ImportScrapeRequestSchema = Type.Object({
+  target_urls: Type.Optional(Type.Array(Type.String({ format: 'uri' }), {
+    minItems: 1,
+    description: 'List of target URLs to process (optional when a sitemap is given)'
+  })),
+  sitemap: Type.Optional(SitemapSourceSchema),
+  user_objective: Type.Optional(Type.String({
+    minLength: 1,
+    description: 'Objective of the new job (default: the objective recorded in the package file, or the template description)'
+  })),
+  package: Type.Optional(Type.Object({}, {
+    additionalProperties: true,
+    description: 'A package file exported by GET /builds/:build_id/export, or a bare configuration package'
+  })),
+  template_id: Type.Optional(Type.String({
+    minLength: 1,
+    description: 'ID of a saved package template to start from (instead of package)'
+  }))
+});
+
+export type ImportScrapeRequest = Static<typeof ImportScrapeRequestSchema>;
+
 export const ScrapeProposalFeedbackSchema = Type.Object({
   approved: Type.Boolean({
     description: 'Whether the user approves the proposed scraping approach'
@@ -141,7 +165,16 @@ export const ScrapeResultsSchema = Type.Object({
   status: Type.String(),
   total_results: Type.Number(),
   results: Type.Array(Type.Any()),
-  execution_time_ms: Type.Number()
+  execution_time_ms: Type.Number(),
+  // Present when the package declares an expectedOutputSchema
+  conformance: Type.Optional(Type.Object({
+    totalRecords: Type.Number(),
+    conformingRecords: Type.Number(),
+    nonConformingRecords: Type.Number(),
+    conformanceRate: Type.Number(),
+    violationsByField: Type.Record(Type.String(), Type.Number()),
+    violationsByCode: Type.Record(Type.String(), Type.Number())
+  }))
 });
 
 export type ScrapeResults = Static<typeof ScrapeResultsSchema>;
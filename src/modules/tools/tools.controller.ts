@@ -0,0 +1,101 @@
+/**
+ * Tools Controller
+ *
+ * Provides API endpoints for discovering the registered tools (built-in and
+ * plugin tools) and for invoking a single tool in isolation
+ */
+
+import type { FastifyPluginAsync, FastifyInstance as BaseFastifyInstance } from 'fastify';
+import { ToolDescriptor } from '../../infrastructure/toolbox/toolbox.service.js';
+import {
+    listToolsSchema, ListToolsQuery, ListToolsResponse,
+    getToolSchema, ToolIdParams, ToolResponse,
+    invokeToolSchema, InvokeToolBody, InvokeToolResponse
+} from './tools.schema.js';
+
+interface ListToolsRoute {
+    Querystring: ListToolsQuery;
+    Reply: ListToolsResponse;
+}
+
+interface GetToolRoute {
+    Params: ToolIdParams;
+    Reply: ToolResponse;
+}
+
+interface InvokeToolRoute {
+    Params: ToolIdParams;
+    Body: InvokeToolBody;
+    Reply: InvokeToolResponse;
+}
+
+function toToolResponse(tool: ToolDescriptor): ToolResponse {
+    return {
+        id: tool.id,
+        tool_id: tool.toolId,
+        ...(tool.name ? { name: tool.name } : {}),
+        ...(tool.description ? { description: tool.description } : {}),
+        ...(tool.type ? { type: tool.type } : {}),
+        ...(tool.version ? { version: tool.version } : {}),
+        ...(tool.capabilities ? {
+            capabilities: {
+                js_rendering: tool.capabilities.jsRendering,
+                proxy_support: tool.capabilities.proxySupport,
+                cost_tier: tool.capabilities.costTier
+            }
+        } : {}),
+        input_schema: tool.mcp.inputSchema ?? {},
+        ...(tool.mcp.annotations ? { annotations: tool.mcp.annotations } : {})
+    };
+}
+
+const toolsController: FastifyPluginAsync = async (fastify: BaseFastifyInstance) => {
+
+    // GET /tools - List the registered tools
+    fastify.get<ListToolsRoute>(
+        '/',
+        { schema: listToolsSchema },
+        async (request, reply) => {
+            const tools = fastify.toolboxService.describeTools(request.query.type);
+            return reply.status(200).send({ tools: tools.map(toToolResponse) });
+        }
+    );
+
+    // GET /tools/:tool_id - Get a single tool
+    fastify.get<GetToolRoute>(
+        '/:tool_id',
+        { schema: getToolSchema },
+        async (request, reply) => {
+            const tool = fastify.toolboxService.describeTool(request.params.tool_id);
+            if (!tool) {
+                return reply.notFound(`Tool ${request.params.tool_id} not found.`);
+            }
+            return reply.status(200).send(toToolResponse(tool));
+        }
+    );
+
+    // POST /tools/:tool_id/invoke - Run one tool with ad-hoc parameters
+    fastify.post<InvokeToolRoute>(
+        '/:tool_id/invoke',
+        { schema: invokeToolSchema },
+        async (request, reply) => {
+            const { tool_id } = request.params;
+            if (!fastify.toolboxService.hasTool(tool_id)) {
+                return reply.notFound(`Tool ${tool_id} not found.`);
+            }
+
+            const startedAt = Date.now();
+            try {
+                const result = await fastify.toolboxService.callTool(tool_id, request.body.params);
+                return reply.status(200).send({ tool_id, duration_ms: Date.now() - startedAt, result });
+            } catch (error) {
+                fastify.log.error({ err: error }, `Invocation of tool ${tool_id} failed.`);
+                return reply.internalServerError(
+                    `Tool ${tool_id} failed: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }
+    );
+};
+
+export default toolsController;
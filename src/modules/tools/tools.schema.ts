@@ -0,0 +1,101 @@
+import { Static, Type } from '@sinclair/typebox';
+
+// --- Shared tool schemas ---
+
+export const ToolTypeSchema = Type.Union([
+    Type.Literal('scraper'),
+    Type.Literal('proxy'),
+    Type.Literal('anti_blocking'),
+    Type.Literal('captcha_solver')
+]);
+
+export const ToolCapabilitiesSchema = Type.Object({
+    js_rendering: Type.Boolean({ description: 'Executes page JavaScript (SPAs, client-side rendering)' }),
+    proxy_support: Type.Boolean({ description: 'Can route its requests through a proxy' }),
+    cost_tier: Type.Union([Type.Literal('low'), Type.Literal('medium'), Type.Literal('high')])
+});
+
+export const ToolSchema = Type.Object({
+    id: Type.String({ description: 'ID the tool is invoked with (its MCP name)' }),
+    tool_id: Type.String(),
+    name: Type.Optional(Type.String()),
+    description: Type.Optional(Type.String()),
+    type: Type.Optional(ToolTypeSchema),
+    version: Type.Optional(Type.String()),
+    capabilities: Type.Optional(ToolCapabilitiesSchema),
+    input_schema: Type.Record(Type.String(), Type.Unknown(), { description: 'JSON Schema of the tool parameters' }),
+    annotations: Type.Optional(Type.Record(Type.String(), Type.Unknown()))
+});
+
+export const ToolIdParamsSchema = Type.Object({
+    tool_id: Type.String({ description: 'The ID of the tool (see GET /tools)' })
+});
+
+export type ToolResponse = Static<typeof ToolSchema>;
+export type ToolIdParams = Static<typeof ToolIdParamsSchema>;
+
+// --- Schemas for GET /tools ---
+
+export const ListToolsQuerySchema = Type.Object({
+    type: Type.Optional(ToolTypeSchema)
+});
+
+export const ListToolsResponseSchema = Type.Object({
+    tools: Type.Array(ToolSchema)
+});
+
+export type ListToolsQuery = Static<typeof ListToolsQuerySchema>;
+export type ListToolsResponse = Static<typeof ListToolsResponseSchema>;
+
+export const listToolsSchema = {
+    description: 'List the registered tools the analysis can choose from, optionally filtered by type.',
+    tags: ['tools'],
+    summary: 'List Tools',
+    querystring: ListToolsQuerySchema,
+    response: {
+        200: ListToolsResponseSchema
+    }
+};
+
+// --- Schemas for GET /tools/:tool_id ---
+
+export const getToolSchema = {
+    description: 'Get the definition, input schema and capabilities of a tool.',
+    tags: ['tools'],
+    summary: 'Get Tool',
+    params: ToolIdParamsSchema,
+    response: {
+        200: ToolSchema,
+        404: Type.Object({ message: Type.String() })
+    }
+};
+
+// --- Schemas for POST /tools/:tool_id/invoke ---
+
+export const InvokeToolBodySchema = Type.Object({
+    params: Type.Record(Type.String(), Type.Unknown(), {
+        description: 'Tool parameters. Scrapers take the target URL as `url` next to their scraper parameters.'
+    })
+});
+
+export const InvokeToolResponseSchema = Type.Object({
+    tool_id: Type.String(),
+    duration_ms: Type.Number(),
+    result: Type.Unknown({ description: 'Whatever the tool returned' })
+});
+
+export type InvokeToolBody = Static<typeof InvokeToolBodySchema>;
+export type InvokeToolResponse = Static<typeof InvokeToolResponseSchema>;
+
+export const invokeToolSchema = {
+    description: 'Invoke a single tool with ad-hoc parameters, for testing and debugging.',
+    tags: ['tools'],
+    summary: 'Invoke Tool',
+    params: ToolIdParamsSchema,
+    body: InvokeToolBodySchema,
+    response: {
+        200: InvokeToolResponseSchema,
+        404: Type.Object({ message: Type.String() }),
+        500: Type.Object({ message: Type.String() })
+    }
+};
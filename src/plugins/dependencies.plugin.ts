@@ -8,6 +8,7 @@ declare module 'fastify' {
     mcpService: McpService;
     buildRepository: BuildRepository;
     toolboxService: ToolboxService;
+    toolPluginLoader: ToolPluginLoader;
     executionEngine: ExecutionEngineService;
     fullScrapeService: FullScrapeExecutionService;
   }
@@ -17,6 +18,8 @@ import { ExecutionEngineService } from '../infrastructure/execution/execution.se
 import { FullScrapeExecutionService } from '../infrastructure/execution/full-scrape.service.js';
 import { BuildRepository } from '../infrastructure/db/build.repository.js';
 import { ToolboxService } from '../infrastructure/toolbox/toolbox.service.js';
+import { ToolPluginLoader } from '../infrastructure/toolbox/tool-plugin-loader.js';
+import { browserPool } from '../infrastructure/browser/browser-pool.js';
 
 // Import other services if needed, e.g.:
 // import { AnotherService } from '../services/another.service.js';
@@ -56,6 +59,7 @@ const dependenciesPlugin: FastifyPluginAsync = async (fastify) => {
   try {
     // Instantiate ToolboxService
     const toolboxService = new ToolboxService();
+    toolboxService.registerDefaultTools();
     // Decorate the instance onto Fastify
     fastify.decorate('toolboxService', toolboxService);
     fastify.log.info('ToolboxService decorated successfully.');
@@ -63,7 +67,29 @@ const dependenciesPlugin: FastifyPluginAsync = async (fastify) => {
     fastify.log.error({ err: error }, 'Failed to instantiate or decorate ToolboxService.');
     throw new Error('ToolboxService initialization failed.');
   }
+
+  // --- Tool Plugins ---
+  try {
+    // Load site-specific tools from the plugin directory and hot-reload them on change
+    const toolPluginLoader = new ToolPluginLoader(fastify.toolboxService, {
+      directory: process.env.TOOL_PLUGINS_DIR || './tool-plugins'
+    });
+    await toolPluginLoader.loadAll();
+    if (process.env.TOOL_PLUGINS_WATCH !== 'false') {
+      await toolPluginLoader.watch();
+    }
+    fastify.decorate('toolPluginLoader', toolPluginLoader);
+    fastify.addHook('onClose', async () => toolPluginLoader.close());
+    fastify.log.info('ToolPluginLoader decorated successfully.');
+  } catch (error) {
+    fastify.log.error({ err: error }, 'Failed to load tool plugins.');
+    throw new Error('Tool plugin loading failed.');
+  }
   
+  // --- Browser Pool ---
+  // Shared by every Playwright execution; close its browsers with the server
+  fastify.addHook('onClose', async () => browserPool.close());
+
   // --- Execution Engine Service ---
   try {
     // Get toolbox from toolboxService
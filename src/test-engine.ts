@@ -78,8 +78,7 @@ async function runTest() {
     console.error('\n--- Unhandled Exception during Execution ---');
     console.error(error);
   } finally {
-    // Important: Ensure graceful cleanup of tools (like closing Playwright)
-    await executionEngine.cleanupTools();
+    // Tools (like Playwright) are cleaned up by the engine after each execution
     console.log('\n--- Test Execution Finished ---');
   }
 }
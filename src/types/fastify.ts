@@ -9,6 +9,7 @@ import { PrismaClient } from '../generated/prisma/index.js';
 import { McpService } from '../mcp-server/mcp.service.js';
 import { BuildRepository } from '../infrastructure/db/build.repository.js';
 import { ToolboxService } from '../infrastructure/toolbox/toolbox.service.js';
+import { ToolPluginLoader } from '../infrastructure/toolbox/tool-plugin-loader.js';
 import { ExecutionEngineService } from '../infrastructure/execution/execution.service.js';
 import { FullScrapeExecutionService } from '../infrastructure/execution/full-scrape.service.js';
 
@@ -28,6 +29,7 @@ export interface FastifyInstance extends BaseFastifyInstance {
   mcpService: McpService;
   buildRepository: BuildRepository;
   toolboxService: ToolboxService;
+  toolPluginLoader: ToolPluginLoader;
   executionEngine: ExecutionEngineService;
   fullScrapeService: FullScrapeExecutionService;
 }
@@ -0,0 +1,103 @@
+/**
+ * Tests for the OutputSchemaService
+ */
+import { describe, it, expect } from 'vitest';
+import { OutputSchemaService } from '../../../src/core/services/output-schema.service.js';
+import { OutputViolationCode } from '../../../src/core/domain/output-conformance.types.js';
+
+const schema = {
+  type: 'object' as const,
+  properties: {
+    title: { type: 'string' },
+    price: { type: 'number' },
+    stock: { type: 'integer' },
+    available: { type: 'boolean' },
+    tags: { type: 'array' }
+  },
+  required: ['title', 'price']
+};
+
+describe('OutputSchemaService', () => {
+  const service = new OutputSchemaService();
+
+  it('should coerce values to the declared types and add missing fields as null', () => {
+    const result = service.enforce({
+      success: true,
+      data: [{ title: 42, price: '1,299.50', stock: '7', available: 'Yes', tags: 'sale', extra: 'kept' }]
+    }, schema);
+
+    expect(result.data).toEqual([{
+      title: '42', price: 1299.5, stock: 7, available: true, tags: ['sale'], extra: 'kept'
+    }]);
+    expect(result.metadata?.schemaViolations).toEqual([[]]);
+
+    const sparse = service.enforce({ success: true, data: { title: 'A', price: 3 } }, schema);
+    expect(sparse.data).toEqual({ title: 'A', price: 3, stock: null, available: null, tags: null });
+  });
+
+  it('should attach per-record violations for failed coercions and missing required fields', () => {
+    const result = service.enforce({
+      success: true,
+      data: [
+        { title: 'Widget', price: 'call us', stock: '2.5' },
+        { title: '', price: 10 },
+        { title: 'Gadget', price: 5 }
+      ]
+    }, schema);
+
+    const violations = result.metadata?.schemaViolations;
+    expect(violations).toHaveLength(3);
+    expect(violations[0]).toEqual([
+      expect.objectContaining({ field: 'price', code: OutputViolationCode.TYPE_MISMATCH, expected: 'number', actual: 'string' }),
+      expect.objectContaining({ field: 'stock', code: OutputViolationCode.TYPE_MISMATCH, expected: 'integer' })
+    ]);
+    expect(violations[1]).toEqual([
+      expect.objectContaining({ field: 'title', code: OutputViolationCode.REQUIRED_MISSING })
+    ]);
+    expect(violations[2]).toEqual([]);
+    expect(result.data[0].price).toBe('call us');
+  });
+
+  it('should keep values that cannot be coerced as extracted', () => {
+    const result = service.enforce({
+      success: true,
+      data: [{ title: ['Desk lamp', 'LED'], price: '$12.99' }]
+    }, schema);
+
+    expect(result.data).toEqual([{ title: ['Desk lamp', 'LED'], price: '$12.99', stock: null, available: null, tags: null }]);
+    expect(result.metadata?.schemaViolations).toEqual([[
+      expect.objectContaining({ field: 'title', code: OutputViolationCode.TYPE_MISMATCH, expected: 'string', actual: 'array' }),
+      expect.objectContaining({ field: 'price', code: OutputViolationCode.TYPE_MISMATCH, expected: 'number', actual: 'string' })
+    ]]);
+  });
+
+  it('should leave results untouched without a schema or data', () => {
+    const result = { success: false, error: 'boom' };
+    expect(service.enforce(result, schema)).toBe(result);
+
+    const withData = { success: true, data: [{ title: 'A' }] };
+    expect(service.enforce(withData, undefined)).toBe(withData);
+  });
+
+  it('should summarize conformance across results and merge summaries', () => {
+    const first = service.enforce({ success: true, data: [{ title: 'A', price: 1 }, { title: null, price: 'x' }] }, schema);
+    const second = service.enforce({ success: true, data: [{ title: 'B', price: '2' }] }, schema);
+    const failed = { success: false, error: 'timeout' };
+
+    const summary = service.summarize([first, second, failed]);
+    expect(summary).toEqual({
+      totalRecords: 3,
+      conformingRecords: 2,
+      nonConformingRecords: 1,
+      conformanceRate: 0.6667,
+      violationsByField: { title: 1, price: 1 },
+      violationsByCode: { required_missing: 1, type_mismatch: 1 }
+    });
+
+    const merged = service.mergeSummaries([summary, service.summarize([second])]);
+    expect(merged.totalRecords).toBe(4);
+    expect(merged.conformingRecords).toBe(3);
+    expect(merged.conformanceRate).toBe(0.75);
+    expect(merged.violationsByField).toEqual({ title: 1, price: 1 });
+  });
+});
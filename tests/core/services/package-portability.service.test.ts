@@ -0,0 +1,49 @@
+/**
+ * Tests for the PackagePortabilityService
+ */
+import { describe, it, expect } from 'vitest';
+import { PackagePortabilityService } from '../../../src/core/services/package-portability.service.js';
+import { BadRequestError } from '../../../src/core/errors/index.js';
+import { PACKAGE_FILE_FORMAT } from '../../../src/core/domain/package-template.types.js';
+import { UniversalConfigurationPackageFormatV1 } from '../../../src/core/domain/configuration-package.types.js';
+
+const legacyPackage: UniversalConfigurationPackageFormatV1 = {
+  schemaVersion: '1.0',
+  description: 'Job titles from a Greenhouse board',
+  scraper: {
+    tool_id: 'scraper_fetch_cheerio_v1',
+    parameters: { selectors: { title: '.opening a' }, item_selector: '.opening' }
+  }
+};
+
+describe('PackagePortabilityService', () => {
+  const service = new PackagePortabilityService();
+
+  it('should round-trip an exported package file', () => {
+    const file = service.exportPackage(legacyPackage, { buildId: 'build-1', userObjective: 'All open jobs' });
+
+    expect(file.format).toBe(PACKAGE_FILE_FORMAT);
+    expect(file.package.schemaVersion).toBe('2.0');
+
+    const imported = service.importPackage(JSON.parse(JSON.stringify(file)));
+    expect(imported.package).toEqual(file.package);
+    expect(imported.source).toEqual({ buildId: 'build-1', userObjective: 'All open jobs' });
+  });
+
+  it('should accept bare packages and upgrade them', () => {
+    const imported = service.importPackage(legacyPackage);
+
+    expect(imported.source).toBeUndefined();
+    expect(imported.package.scraper.parameters.fields).toEqual({ title: { selector: '.opening a' } });
+  });
+
+  it('should reject unsupported files and invalid packages', () => {
+    expect(() => service.importPackage({ format: 'other-tool', formatVersion: 1, package: legacyPackage }))
+      .toThrow("Unsupported package file format 'other-tool'");
+    expect(() => service.importPackage({ format: PACKAGE_FILE_FORMAT, formatVersion: 99, package: legacyPackage }))
+      .toThrow("Unsupported package file version '99'");
+    expect(() => service.importPackage({ schemaVersion: '2.0', scraper: { tool_id: 'x', parameters: { fields: { a: {} } } } }))
+      .toThrow(BadRequestError);
+    expect(() => service.importPackage('not a package')).toThrow('Package file must contain a JSON object');
+  });
+});
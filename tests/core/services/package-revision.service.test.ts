@@ -0,0 +1,93 @@
+/**
+ * Tests for the PackageRevisionService
+ */
+import { describe, it, expect } from 'vitest';
+import { PackageRevisionService } from '../../../src/core/services/package-revision.service.js';
+import { PackageRevisionTrigger } from '../../../src/core/domain/package-revision.types.js';
+import { UniversalConfigurationPackageFormatV1, UniversalConfigurationPackageFormatV2 } from '../../../src/core/domain/configuration-package.types.js';
+
+const initialPackage: UniversalConfigurationPackageFormatV2 = {
+  schemaVersion: '2.0',
+  scraper: {
+    tool_id: 'scraper:fetch_cheerio_v1',
+    parameters: {
+      fields: {
+        title: { selector: 'h1' },
+        price: { selector: '.price' }
+      }
+    }
+  }
+};
+
+const refinedPackage: UniversalConfigurationPackageFormatV2 = {
+  schemaVersion: '2.0',
+  scraper: {
+    tool_id: 'scraper:playwright_stealth_v1',
+    parameters: {
+      fields: {
+        title: { selector: 'h1' },
+        price: { selector: ['.price-now', '.price'], type: 'number' },
+        sku: { selector: '[itemprop=sku]' }
+      },
+      wait_selector: '.price-now'
+    }
+  },
+  postProcessing: [{ type: 'trim' }]
+};
+
+describe('PackageRevisionService', () => {
+  const service = new PackageRevisionService();
+
+  it('should append numbered revisions and keep other metadata', () => {
+    const first = service.appendRevision(JSON.stringify({ source: 'ui' }), initialPackage, {
+      trigger: PackageRevisionTrigger.INITIAL_ANALYSIS
+    });
+    const second = service.appendRevision(first.metadata, refinedPackage, {
+      trigger: PackageRevisionTrigger.PROPOSAL_FEEDBACK,
+      feedback: 'Prices are missing'
+    });
+
+    expect(second.metadata.source).toBe('ui');
+    expect(service.readRevisions(second.metadata).map(r => [r.revision, r.trigger, r.feedback])).toEqual([
+      [1, PackageRevisionTrigger.INITIAL_ANALYSIS, undefined],
+      [2, PackageRevisionTrigger.PROPOSAL_FEEDBACK, 'Prices are missing']
+    ]);
+    // Revisions hold copies of the packages
+    expect(second.revision.package).toEqual(refinedPackage);
+    expect(second.revision.package).not.toBe(refinedPackage);
+  });
+
+  it('should record sample results on the latest revision only', () => {
+    let metadata = service.appendRevision(null, initialPackage, { trigger: PackageRevisionTrigger.INITIAL_ANALYSIS }).metadata;
+    metadata = service.appendRevision(metadata, refinedPackage, { trigger: PackageRevisionTrigger.SAMPLE_FEEDBACK }).metadata;
+
+    const updated = service.attachSampleResults(metadata, { overallStatus: 'completed', results: [] });
+
+    const revisions = service.readRevisions(updated);
+    expect(revisions[0].sampleResults).toBeUndefined();
+    expect(revisions[1].sampleResults).toEqual({ overallStatus: 'completed', results: [] });
+    expect(service.attachSampleResults({}, { results: [] })).toBeNull();
+  });
+
+  it('should upgrade stored 1.0 packages when reading', () => {
+    const legacyPackage: UniversalConfigurationPackageFormatV1 = {
+      schemaVersion: '1.0',
+      scraper: { tool_id: 'scraper:fetch_cheerio_v1', parameters: { selectors: { title: 'h1' } } }
+    };
+    const { metadata } = service.appendRevision(undefined, legacyPackage, { trigger: PackageRevisionTrigger.MANUAL_EDIT });
+
+    expect(service.readRevisions(metadata)[0].package.schemaVersion).toBe('2.0');
+  });
+
+  it('should diff packages field by field', () => {
+    expect(service.diff(initialPackage, refinedPackage)).toEqual([
+      { path: 'scraper.tool_id', change: 'changed', from: 'scraper:fetch_cheerio_v1', to: 'scraper:playwright_stealth_v1' },
+      { path: 'scraper.parameters.fields.price.selector', change: 'changed', from: '.price', to: ['.price-now', '.price'] },
+      { path: 'scraper.parameters.fields.price.type', change: 'added', to: 'number' },
+      { path: 'scraper.parameters.fields.sku', change: 'added', to: { selector: '[itemprop=sku]' } },
+      { path: 'scraper.parameters.wait_selector', change: 'added', to: '.price-now' },
+      { path: 'postProcessing', change: 'added', to: [{ type: 'trim' }] }
+    ]);
+    expect(service.diff(refinedPackage, refinedPackage)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for the PackageUpgradeService
+ */
+import { describe, it, expect } from 'vitest';
+import { PackageUpgradeService } from '../../../src/core/services/package-upgrade.service.js';
+import {
+  UniversalConfigurationPackageFormatV1,
+  UniversalConfigurationPackageFormatV2
+} from '../../../src/core/domain/configuration-package.types.js';
+
+const V1_PACKAGE: UniversalConfigurationPackageFormatV1 = {
+  schemaVersion: '1.0',
+  description: 'Extract product names and links',
+  scraper: {
+    tool_id: 'scraper_fetch_cheerio_v1',
+    parameters: {
+      selectors: { name: '.name', link: 'a.name' },
+      attribute: 'href',
+      item_selector: 'li.product',
+      timeout_ms: 5000
+    }
+  },
+  expectedOutputSchema: {
+    type: 'object',
+    properties: { name: { type: 'string' }, link: { type: 'string' } }
+  }
+};
+
+describe('PackageUpgradeService', () => {
+  const service = new PackageUpgradeService();
+
+  it('should convert 1.0 selectors into 2.0 field specs and keep other parameters', () => {
+    const upgraded = service.upgrade(V1_PACKAGE);
+
+    expect(upgraded.schemaVersion).toBe('2.0');
+    expect(upgraded.description).toBe(V1_PACKAGE.description);
+    expect(upgraded.expectedOutputSchema).toEqual(V1_PACKAGE.expectedOutputSchema);
+    expect(upgraded.scraper.tool_id).toBe('scraper_fetch_cheerio_v1');
+    expect(upgraded.scraper.parameters).toEqual({
+      fields: {
+        name: { selector: '.name', attribute: 'href' },
+        link: { selector: 'a.name', attribute: 'href' }
+      },
+      item_selector: 'li.product',
+      timeout_ms: 5000
+    });
+  });
+
+  it('should return 2.0 packages unchanged', () => {
+    const v2: UniversalConfigurationPackageFormatV2 = {
+      schemaVersion: '2.0',
+      scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { fields: { title: { selector: ['h1', '.title'] } } } }
+    };
+
+    expect(service.upgrade(v2)).toBe(v2);
+  });
+
+  it('should upgrade stored JSON strings and keep them as strings', () => {
+    const stored = service.upgradeStored(JSON.stringify(V1_PACKAGE));
+
+    expect(typeof stored).toBe('string');
+    expect(JSON.parse(stored).schemaVersion).toBe('2.0');
+    expect(JSON.parse(stored).scraper.parameters.fields.name).toEqual({ selector: '.name', attribute: 'href' });
+  });
+
+  it('should upgrade stored objects', () => {
+    const stored = service.upgradeStored(V1_PACKAGE as unknown);
+
+    expect((stored as UniversalConfigurationPackageFormatV2).schemaVersion).toBe('2.0');
+  });
+
+  it('should leave values that are not 1.0 packages untouched', () => {
+    expect(service.upgradeStored(null)).toBeNull();
+    expect(service.upgradeStored('not json')).toBe('not json');
+    const partial = JSON.stringify({ schemaVersion: '1.0', description: 'No scraper' });
+    expect(service.upgradeStored(partial)).toBe(partial);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the PackageValidationService
+ */
+import { describe, it, expect } from 'vitest';
+import { PackageValidationService } from '../../../src/core/services/package-validation.service.js';
+import { ToolboxService } from '../../../src/infrastructure/toolbox/toolbox.service.js';
+import { FetchCheerioScraper } from '../../../src/infrastructure/toolbox/fetch-cheerio.scraper.js';
+import { ProxyManagerTool } from '../../../src/infrastructure/toolbox/proxy-manager.tool.js';
+import { CaptchaSolverTool } from '../../../src/infrastructure/toolbox/captcha-solver.tool.js';
+
+function buildToolDefinitions() {
+  const toolbox = new ToolboxService();
+  toolbox.registerTool(new FetchCheerioScraper());
+  toolbox.registerTool(new ProxyManagerTool());
+  toolbox.registerTool(new CaptchaSolverTool());
+  return toolbox.listMcpTools();
+}
+
+describe('PackageValidationService', () => {
+  const service = new PackageValidationService();
+  const toolDefinitions = buildToolDefinitions();
+
+  it('should accept valid 1.0 and 2.0 packages', () => {
+    const v1 = {
+      schemaVersion: '1.0',
+      scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { selectors: { title: 'h1' }, attribute: 'href' } },
+      proxy: { tool_id: 'proxy_manager_v1', parameters: { proxy_list: ['http://proxy:8080'] } }
+    };
+    const v2 = {
+      schemaVersion: '2.0',
+      scraper: {
+        tool_id: 'scraper_fetch_cheerio_v1',
+        parameters: { fields: { title: { selector: ['h1', '.title'] }, price: { selector: '.price', type: 'number', default: 0 } } }
+      }
+    };
+
+    expect(service.validate(v1, { toolDefinitions })).toEqual({ valid: true, errors: [] });
+    expect(service.validate(v2, { toolDefinitions })).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should report structural problems with JSON pointer paths', () => {
+    const result = service.validate({ schemaVersion: '3.0', antiBlocking: [{ parameters: {} }] });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: '/schemaVersion', keyword: 'anyOf', message: "must be one of: '1.0', '2.0'" }),
+      expect.objectContaining({ path: '/scraper', keyword: 'required' }),
+      expect.objectContaining({ path: '/antiBlocking/0/tool_id', keyword: 'required' })
+    ]));
+  });
+
+  it('should validate version-specific scraper parameters', () => {
+    const result = service.validate({
+      schemaVersion: '2.0',
+      scraper: {
+        tool_id: 'scraper_fetch_cheerio_v1',
+        parameters: { fields: { price: { selector: [], type: 'money', mutliple: true } }, max_items: 0 }
+      }
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.path)).toEqual(expect.arrayContaining([
+      '/scraper/parameters/fields/price/selector',
+      '/scraper/parameters/fields/price/type',
+      '/scraper/parameters/fields/price/mutliple',
+      '/scraper/parameters/max_items'
+    ]));
+    expect(result.errors.filter(e => e.path === '/scraper/parameters/fields/price/selector')).toHaveLength(1);
+  });
+
+  it('should check tool IDs and parameters against each tool inputSchema', () => {
+    const result = service.validate({
+      schemaVersion: '1.0',
+      scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { selectors: { title: 'h1' }, timeout_ms: 'fast' } },
+      proxy: { tool_id: 'proxy_unknown_v1', parameters: {} }
+    }, { toolDefinitions });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: '/scraper/parameters/timeout_ms', message: 'must be number', keyword: 'type' },
+      { path: '/proxy/tool_id', message: "unknown tool 'proxy_unknown_v1'", keyword: 'tool' }
+    ]);
+  });
+
+  it('should not require runtime inputs such as the target URL in tool parameters', () => {
+    const result = service.validate({
+      schemaVersion: '1.0',
+      scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { selectors: { title: 'h1' } } },
+      proxy: { tool_id: 'proxy_manager_v1', parameters: { proxy_list: ['http://proxy.example.com:8080'] } }
+    }, { toolDefinitions });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should accept a captcha solver without the challenge it receives at runtime', () => {
+    const result = service.validate({
+      schemaVersion: '1.0',
+      scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { selectors: { title: 'h1' } } },
+      captchaSolver: { tool_id: 'captcha_solver_v1', parameters: { provider: 'mock' } }
+    }, { toolDefinitions });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+});
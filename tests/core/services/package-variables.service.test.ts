@@ -0,0 +1,59 @@
+/**
+ * Tests for the PackageVariablesService
+ */
+import { describe, it, expect } from 'vitest';
+import { PackageVariablesService } from '../../../src/core/services/package-variables.service.js';
+import { BadRequestError } from '../../../src/core/errors/index.js';
+import { UniversalConfigurationPackageFormatV2 } from '../../../src/core/domain/configuration-package.types.js';
+
+const searchPackage: UniversalConfigurationPackageFormatV2 = {
+  schemaVersion: '2.0',
+  variables: {
+    search_term: { description: 'Product search query' },
+    region: { default: 'us' }
+  },
+  scraper: {
+    tool_id: 'scraper_playwright_v1',
+    parameters: {
+      fields: { title: { selector: '.results[data-region="{{ region }}"] h2' } },
+      interaction_script: [{ action: 'fill', selector: '#search', value: '{{search_term}}' }],
+      pagination: { url_template: 'https://shop.example.com/s?q={{search_term|url}}&page={page}' }
+    }
+  }
+};
+
+describe('PackageVariablesService', () => {
+  const service = new PackageVariablesService();
+
+  it('should find variables used in the package and the target URLs', () => {
+    expect(service.findVariables([searchPackage, ['https://shop.example.com/{{region}}/{{page_size}}']]))
+      .toEqual(['region', 'search_term', 'page_size']);
+  });
+
+  it('should resolve supplied values over declared defaults', () => {
+    expect(service.resolve(searchPackage, [], { search_term: 'red shoes' }))
+      .toEqual({ region: 'us', search_term: 'red shoes' });
+    expect(service.resolve(searchPackage, [], { search_term: 'red shoes', region: 'de' }))
+      .toEqual({ region: 'de', search_term: 'red shoes' });
+  });
+
+  it('should reject runs that leave variables without a value', () => {
+    expect(() => service.resolve(searchPackage, ['https://shop.example.com/{{category}}']))
+      .toThrow('Missing values for package variables: search_term, category');
+    expect(() => service.resolve(searchPackage, [])).toThrow(BadRequestError);
+  });
+
+  it('should substitute the package and URL-encode values only with the url filter', () => {
+    const values = { search_term: 'red & blue', region: 'us' };
+    const pkg = service.applyToPackage(searchPackage, values);
+
+    expect(pkg.scraper.parameters.fields.title.selector).toBe('.results[data-region="us"] h2');
+    expect(pkg.scraper.parameters.interaction_script).toEqual([{ action: 'fill', selector: '#search', value: 'red & blue' }]);
+    expect(pkg.scraper.parameters.pagination?.url_template).toBe('https://shop.example.com/s?q=red%20%26%20blue&page={page}');
+    expect(pkg.variables).toEqual(searchPackage.variables);
+    expect(service.applyToUrls(['https://shop.example.com/search?q={{search_term|url}}'], values))
+      .toEqual(['https://shop.example.com/search?q=red%20%26%20blue']);
+    expect(service.applyToUrls(['{{base_url}}/search?q={{search_term|url}}&region={{region}}'], { ...values, base_url: 'https://shop.example.com' }))
+      .toEqual(['https://shop.example.com/search?q=red%20%26%20blue&region=us']);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for the PostProcessingService
+ */
+import { describe, it, expect } from 'vitest';
+import { PostProcessingService } from '../../../src/core/services/post-processing.service.js';
+import { ToolExecutionResult } from '../../../src/infrastructure/execution/tool.interface.js';
+
+describe('PostProcessingService', () => {
+  const service = new PostProcessingService();
+
+  it('should return the result unchanged when no transforms are configured', () => {
+    const result: ToolExecutionResult = { success: true, data: { title: '  Hello  ' } };
+
+    expect(service.apply(result, undefined)).toBe(result);
+    expect(service.apply(result, [])).toBe(result);
+  });
+
+  it('should trim and collapse whitespace on every field by default', () => {
+    const result = service.apply(
+      { success: true, data: { title: '  Big \n  Sale  ', tags: [' a ', ' b  c '], missing: null } },
+      [{ type: 'trim' }]
+    );
+
+    expect(result.data).toEqual({ title: 'Big Sale', tags: ['a', 'b c'], missing: null });
+  });
+
+  it('should capture regex groups by index or name, into a target field', () => {
+    const result = service.apply(
+      { success: true, data: { sku: 'SKU: AB-123 (new)', rating: 'Rated 4.5 of 5' } },
+      [
+        { type: 'regex', field: 'sku', pattern: 'SKU:\\s*([A-Z]+-\\d+)' },
+        { type: 'regex', field: 'rating', pattern: '(?<score>[\\d.]+) of', group: 'score', target: 'score' }
+      ]
+    );
+
+    expect(result.data).toEqual({ sku: 'AB-123', rating: 'Rated 4.5 of 5', score: '4.5' });
+  });
+
+  it('should parse localized numbers and currencies', () => {
+    const result = service.apply(
+      { success: true, data: { count: '1,234 reviews', eu: '1.234,50', fraction: '0.125', price: '€ 9,99', usd: 'US$1,299.00' } },
+      [
+        { type: 'number', field: ['count', 'eu', 'fraction'] },
+        { type: 'currency', field: 'price', currency_field: 'price_currency' },
+        { type: 'currency', field: 'usd', currency_field: 'usd_currency' }
+      ]
+    );
+
+    expect(result.data).toEqual({
+      count: 1234,
+      eu: 1234.5,
+      fraction: 0.125,
+      price: 9.99,
+      price_currency: 'EUR',
+      usd: 1299,
+      usd_currency: 'USD'
+    });
+  });
+
+  it('should parse dates to ISO 8601', () => {
+    const result = service.apply(
+      { success: true, data: { us: '03/05/2024', eu: '05/03/2024', iso: '2024-03-05', invalid: '31/02/2024', ts: '1709596800' } },
+      [
+        { type: 'date', field: ['us', 'iso'], date_only: true },
+        { type: 'date', field: ['eu', 'invalid'], day_first: true, date_only: true },
+        { type: 'date', field: 'ts' }
+      ]
+    );
+
+    expect(result.data).toEqual({
+      us: '2024-03-05',
+      eu: '2024-03-05',
+      iso: '2024-03-05',
+      invalid: null,
+      ts: '2024-03-05T00:00:00.000Z'
+    });
+  });
+
+  it('should resolve relative URLs against the page URL in each list record', () => {
+    const result = service.apply(
+      { success: true, data: [{ link: '/p/1' }, { link: 'https://cdn.example.org/x.png' }] },
+      [{ type: 'absolute_url', field: 'link' }],
+      'https://shop.example.com/catalog/page-2'
+    );
+
+    expect(result.data).toEqual([
+      { link: 'https://shop.example.com/p/1' },
+      { link: 'https://cdn.example.org/x.png' }
+    ]);
+  });
+
+  it('should split and join values', () => {
+    const result = service.apply(
+      { success: true, data: { tags: 'red, green,, blue', sizes: ['S', null, 'M'] } },
+      [
+        { type: 'split', field: 'tags', separator: ',' },
+        { type: 'join', field: 'sizes', separator: ' / ' }
+      ]
+    );
+
+    expect(result.data).toEqual({ tags: ['red', 'green', 'blue'], sizes: 'S / M' });
+  });
+
+  it('should record transform errors in metadata and keep the value', () => {
+    const result = service.apply(
+      { success: true, data: { title: 'abc' }, metadata: { url: 'https://example.com' } },
+      [{ type: 'regex', field: 'title', pattern: '(' }]
+    );
+
+    expect(result.data).toEqual({ title: 'abc' });
+    expect(result.metadata?.url).toBe('https://example.com');
+    expect(result.metadata?.postProcessingErrors).toHaveLength(1);
+    expect(result.metadata?.postProcessingErrors[0]).toContain("Transform #0 (regex) failed for field 'title'");
+  });
+});
@@ -18,6 +18,7 @@ import {
   FeedbackType
 } from '../../src/jobs/processors/index.js';
 import { ErrorCategory } from '../../src/core/domain/error-reporting.types.js';
+import { browserPool } from '../../src/infrastructure/browser/browser-pool.js';
 
 // Mock dependencies
 vi.mock('@prisma/client', () => {
@@ -198,7 +199,8 @@ describe('SampleGenerationProcessor', () => {
     );
     expect(mockExecutionEngine.executePackage).toHaveBeenCalledWith(
       expect.objectContaining({ schemaVersion: '1.0', description: 'Test config' }),
-      expect.arrayContaining(['https://example.com', 'https://example.org', 'https://example.net'])
+      expect.arrayContaining(['https://example.com', 'https://example.org', 'https://example.net']),
+      { concurrency: 3 }
     );
     expect(mockBuildRepository.updateSampleResults).toHaveBeenCalled();
     expect(mockBuildRepository.updateBuildStatus).toHaveBeenCalledWith(
@@ -404,7 +406,8 @@ describe('ExecutionProcessor', () => {
     );
     expect(mockExecutionEngine.executePackage).toHaveBeenCalledWith(
       expect.objectContaining({ schemaVersion: '1.0', description: 'Final config' }),
-      expect.arrayContaining(['https://example.com', 'https://example.org', 'https://example.net'])
+      expect.arrayContaining(['https://example.com', 'https://example.org', 'https://example.net']),
+      { concurrency: browserPool.getCapacity() }
     );
     expect(mockBuildRepository.updateBuildStatus).toHaveBeenCalledWith(
       'test-build-id',
@@ -448,7 +451,8 @@ describe('ExecutionProcessor', () => {
     expect(result).toBe(true);
     expect(mockExecutionEngine.executePackage).toHaveBeenCalledWith(
       expect.objectContaining({ schemaVersion: '1.0', description: 'Initial config' }),
-      expect.arrayContaining(['https://example.com'])
+      expect.arrayContaining(['https://example.com']),
+      { concurrency: browserPool.getCapacity() }
     );
   });
 });
@@ -0,0 +1,103 @@
+/**
+ * Tests for the BrowserPool
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Browser } from 'playwright';
+import { BrowserPool } from '../../../src/infrastructure/browser/browser-pool.js';
+
+// Minimal stand-in for a Playwright browser: contexts only need to close
+class FakeBrowser extends EventEmitter {
+  connected = true;
+  openContexts = 0;
+  isConnected() {
+    return this.connected;
+  }
+  async newContext() {
+    this.openContexts++;
+    return { close: async () => { this.openContexts--; } };
+  }
+  async close() {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+  crash() {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+}
+
+describe('BrowserPool', () => {
+  let launched: FakeBrowser[];
+  let pool: BrowserPool;
+
+  const createPool = (options: ConstructorParameters<typeof BrowserPool>[0] = {}) => new BrowserPool({
+    maxBrowsers: 2,
+    maxContextsPerBrowser: 2,
+    acquireTimeoutMs: 1000,
+    launch: async () => {
+      const browser = new FakeBrowser();
+      launched.push(browser);
+      return browser as unknown as Browser;
+    },
+    ...options
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    launched = [];
+    pool = createPool();
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should bound browsers and contexts and queue callers beyond the limit', async () => {
+    expect(pool.getCapacity()).toBe(4);
+    const leases = await Promise.all([1, 2, 3, 4].map(() => pool.acquireContext()));
+    expect(launched).toHaveLength(2);
+    expect(launched.map(browser => browser.openContexts)).toEqual([2, 2]);
+
+    let fifthAcquired = false;
+    const fifth = pool.acquireContext().then(lease => {
+      fifthAcquired = true;
+      return lease;
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(fifthAcquired).toBe(false);
+    expect(pool.getStats()).toMatchObject({ browsers: 2, activeContexts: 4, waiting: 1 });
+
+    await leases[0].release();
+    await (await fifth).release();
+    expect(launched).toHaveLength(2);
+    await Promise.all(leases.slice(1).map(lease => lease.release()));
+    expect(pool.getStats()).toMatchObject({ activeContexts: 0, waiting: 0 });
+  });
+
+  it('should replace crashed browsers on demand', async () => {
+    const lease = await pool.acquireContext();
+    launched[0].crash();
+    await lease.release();
+
+    await pool.withContext(async () => undefined);
+
+    expect(launched).toHaveLength(2);
+    expect(pool.getStats()).toMatchObject({ browsers: 1, crashed: 1, launched: 2 });
+  });
+
+  it('should close idle browsers and time out waiting callers', async () => {
+    await pool.close();
+    pool = createPool({ maxBrowsers: 1, maxContextsPerBrowser: 1, idleTimeoutMs: 0, acquireTimeoutMs: 20 });
+
+    const lease = await pool.acquireContext();
+    await expect(pool.acquireContext()).rejects.toThrow('Timed out after 20ms waiting for a browser context');
+    await lease.release();
+
+    await pool.runHealthCheck();
+    expect(launched[0].isConnected()).toBe(false);
+    expect(pool.getStats()).toMatchObject({ browsers: 0, recycled: 1, crashed: 0 });
+  });
+});
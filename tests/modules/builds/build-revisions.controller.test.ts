@@ -0,0 +1,186 @@
+/**
+ * Tests for the package revision endpoints of the builds controller
+ * (list, diff, rollback and manual package edits)
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import buildsController from '../../../src/modules/builds/builds.controller.js';
+import { ToolboxService } from '../../../src/infrastructure/toolbox/toolbox.service.js';
+import { SampleGenerationProcessor } from '../../../src/jobs/processors/index.js';
+import { packageRevisionService } from '../../../src/core/services/package-revision.service.js';
+import { PackageRevisionTrigger } from '../../../src/core/domain/package-revision.types.js';
+import { UniversalConfigurationPackageFormatV2 } from '../../../src/core/domain/configuration-package.types.js';
+import { BuildStatus, Prisma } from '../../../src/generated/prisma/index.js';
+
+const BUILD_ID = 'build-revisions-1';
+
+const generatedPackage: UniversalConfigurationPackageFormatV2 = {
+  schemaVersion: '2.0',
+  scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { fields: { title: { selector: 'h1' } } } }
+};
+
+const refinedPackage: UniversalConfigurationPackageFormatV2 = {
+  schemaVersion: '2.0',
+  scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { fields: { title: { selector: 'h1.product' }, price: { selector: '.price' } } } }
+};
+
+describe('BuildsController package revisions', () => {
+  let app: FastifyInstance;
+  let stored: Record<string, unknown>;
+  const prisma = {
+    build: {
+      findUnique: vi.fn(async () => stored),
+      update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => (stored = { ...stored, ...data }))
+    },
+    $queryRaw: vi.fn(async () => []),
+    $transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(prisma))
+  };
+  const processSamples = vi.spyOn(SampleGenerationProcessor.prototype, 'process');
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const toolboxService = new ToolboxService();
+    toolboxService.registerDefaultTools();
+
+    app = Fastify();
+    await app.register(sensible);
+    app.decorate('prisma', prisma);
+    app.decorate('toolboxService', toolboxService);
+    app.decorate('executionEngine', { executePackage: vi.fn() });
+    await app.register(buildsController, { prefix: '/builds' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    processSamples.mockResolvedValue(true);
+
+    const first = packageRevisionService.appendRevision({}, generatedPackage, { trigger: PackageRevisionTrigger.INITIAL_ANALYSIS });
+    const firstWithSamples = packageRevisionService.attachSampleResults(first.metadata, { overallStatus: 'completed', results: [] });
+    const second = packageRevisionService.appendRevision(firstWithSamples, refinedPackage, {
+      trigger: PackageRevisionTrigger.SAMPLE_FEEDBACK,
+      feedback: 'Also extract the price'
+    });
+    stored = {
+      id: BUILD_ID,
+      status: BuildStatus.CONFIRMED,
+      targetUrls: JSON.stringify(['https://shop.example.com/lamps']),
+      userObjective: 'Extract lamp titles and prices',
+      initialPackageJson: refinedPackage,
+      finalPackageJson: refinedPackage,
+      sampleResultsJson: null,
+      metadata: second.metadata
+    };
+  });
+
+  it('should list the revisions oldest first', async () => {
+    const response = await app.inject({ method: 'GET', url: `/builds/${BUILD_ID}/revisions` });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.current_revision).toBe(2);
+    expect(body.revisions.map((revision: { revision: number; trigger: string }) => [revision.revision, revision.trigger]))
+      .toEqual([[1, 'initial_analysis'], [2, 'sample_feedback']]);
+    expect(body.revisions[1].feedback).toBe('Also extract the price');
+  });
+
+  it('should diff two revisions and report unknown revisions', async () => {
+    const response = await app.inject({ method: 'GET', url: `/builds/${BUILD_ID}/revisions/diff?from=1&to=2` });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().changes).toEqual([
+      { path: 'scraper.parameters.fields.title.selector', change: 'changed', from: 'h1', to: 'h1.product' },
+      { path: 'scraper.parameters.fields.price', change: 'added', to: { selector: '.price' } }
+    ]);
+
+    const missing = await app.inject({ method: 'GET', url: `/builds/${BUILD_ID}/revisions/diff?from=1&to=7` });
+    expect(missing.statusCode).toBe(404);
+    expect(missing.json().message).toBe(`Revision 7 of build ${BUILD_ID} not found.`);
+  });
+
+  it('should roll back to an earlier revision as a new revision', async () => {
+    const response = await app.inject({ method: 'POST', url: `/builds/${BUILD_ID}/revisions/1/rollback` });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ build_id: BUILD_ID, status: BuildStatus.PENDING_USER_FEEDBACK, revision: 3, source_revision: 1 });
+    expect(stored.initialPackageJson).toEqual(generatedPackage);
+    const latest = packageRevisionService.readRevisions(stored.metadata).at(-1);
+    expect(latest).toMatchObject({ revision: 3, trigger: PackageRevisionTrigger.ROLLBACK, sourceRevision: 1 });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(processSamples).not.toHaveBeenCalled();
+  });
+
+  it('should regenerate the samples when rolling back to a revision without sample results', async () => {
+    await app.inject({ method: 'PUT', url: `/builds/${BUILD_ID}/package`, payload: generatedPackage });
+    stored.status = BuildStatus.PENDING_USER_FEEDBACK;
+    processSamples.mockClear();
+
+    const response = await app.inject({ method: 'POST', url: `/builds/${BUILD_ID}/revisions/3/rollback` });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toMatchObject({ status: BuildStatus.GENERATING_SAMPLES, revision: 4, source_revision: 3 });
+    expect(stored.sampleResultsJson).toBe(Prisma.DbNull);
+    expect(processSamples).toHaveBeenCalledWith(BUILD_ID);
+  });
+
+  it('should not roll back a build that is being processed', async () => {
+    stored.status = BuildStatus.GENERATING_SAMPLES;
+
+    const response = await app.inject({ method: 'POST', url: `/builds/${BUILD_ID}/revisions/1/rollback` });
+
+    expect(response.statusCode).toBe(409);
+    expect(prisma.build.update).not.toHaveBeenCalled();
+  });
+
+  it('should record a manual package edit and regenerate the samples', async () => {
+    const editedPackage = {
+      schemaVersion: '2.0',
+      scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { fields: { title: { selector: 'h1.product' }, price: { selector: '.price', type: 'number' } } } }
+    };
+
+    const response = await app.inject({ method: 'PUT', url: `/builds/${BUILD_ID}/package`, payload: editedPackage });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toMatchObject({ build_id: BUILD_ID, status: BuildStatus.GENERATING_SAMPLES, revision: 3 });
+    expect(stored.initialPackageJson).toEqual(editedPackage);
+    const latest = packageRevisionService.readRevisions(stored.metadata).at(-1);
+    expect(latest).toMatchObject({ revision: 3, trigger: PackageRevisionTrigger.MANUAL_EDIT, package: editedPackage });
+    expect(processSamples).toHaveBeenCalledWith(BUILD_ID);
+
+    const diff = await app.inject({ method: 'GET', url: `/builds/${BUILD_ID}/revisions/diff?from=2&to=3` });
+    expect(diff.json().changes).toEqual([{ path: 'scraper.parameters.fields.price.type', change: 'added', to: 'number' }]);
+  });
+
+  it('should reject an invalid package edit with its validation errors', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/builds/${BUILD_ID}/package`,
+      payload: { schemaVersion: '1.0', scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { selectors: { title: 42 } } } }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual({
+      message: 'Invalid configuration package: /scraper/parameters/selectors/title: must be string',
+      errors: [{ path: '/scraper/parameters/selectors/title', message: 'must be string', keyword: 'type' }]
+    });
+    expect(prisma.build.update).not.toHaveBeenCalled();
+    expect(processSamples).not.toHaveBeenCalled();
+  });
+
+  it('should not edit the package of a missing or busy build', async () => {
+    stored.status = BuildStatus.PROCESSING_FEEDBACK;
+    const busy = await app.inject({ method: 'PUT', url: `/builds/${BUILD_ID}/package`, payload: refinedPackage });
+    expect(busy.statusCode).toBe(409);
+
+    prisma.build.findUnique.mockResolvedValueOnce(null as unknown as Record<string, unknown>);
+    const missing = await app.inject({ method: 'PUT', url: '/builds/unknown/package', payload: refinedPackage });
+    expect(missing.statusCode).toBe(404);
+    expect(prisma.build.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for captcha detection and the solver flow
+ */
+import { describe, it, expect } from 'vitest';
+import { detectCaptcha, resolveCaptcha, CaptchaBlockedError } from '../../../src/infrastructure/captcha/captcha-detector.js';
+import { createExecutionContext } from '../../../src/infrastructure/execution/execution-context.js';
+
+const URL = 'https://shop.example.com/list';
+
+describe('detectCaptcha', () => {
+  it('should detect challenge iframes and interstitial pages', () => {
+    expect(detectCaptcha('<iframe src="https://www.google.com/recaptcha/api2/anchor?ar=1&k=site-key-1"></iframe>', URL, 403)).toMatchObject({
+      kind: 'recaptcha',
+      signal: 'challenge_iframe',
+      siteKey: 'site-key-1',
+      pageUrl: URL
+    });
+    expect(detectCaptcha('<h1>Are you a robot?</h1><iframe src="https://newassets.hcaptcha.com/captcha/v1/x/static/hcaptcha.html"></iframe>', URL, 200))
+      .toMatchObject({ kind: 'hcaptcha', signal: 'challenge_iframe' });
+    expect(detectCaptcha('<html><head><title>Just a moment...</title></head><script>window._cf_chl_opt={}</script></html>', URL, 503))
+      .toMatchObject({ kind: 'cloudflare_challenge', signal: 'interstitial_marker', statusCode: 503 });
+    expect(detectCaptcha('<div id="px-captcha"></div>', URL)).toMatchObject({ kind: 'perimeterx' });
+  });
+
+  it('should only treat widgets and challenge texts as a captcha on blocked responses', () => {
+    const contactForm = '<form><div class="g-recaptcha" data-sitekey="abc"></div><button>Send</button></form>';
+
+    expect(detectCaptcha(contactForm, URL, 200)).toBeNull();
+    expect(detectCaptcha(contactForm, URL, 403)).toMatchObject({ kind: 'recaptcha', signal: 'blocked_status', siteKey: 'abc' });
+    expect(detectCaptcha('<p>Please verify you are a human</p>', URL, 429)).toMatchObject({ kind: 'unknown', signal: 'blocked_status' });
+    expect(detectCaptcha('<p>Forbidden</p>', URL, 403)).toBeNull();
+  });
+
+  it('should ignore challenge iframes embedded in regular pages', () => {
+    const productPage = `
+      <h1>Desk Lamp</h1><p>19.50 EUR</p>
+      <form><iframe src="https://challenges.cloudflare.com/cdn-cgi/challenge-platform/turnstile/if/ov2/av0"></iframe></form>
+      <div class="grecaptcha-badge"><iframe src="https://www.google.com/recaptcha/api2/anchor?k=site-key-1&size=invisible"></iframe>
+        This site is protected by reCAPTCHA</div>`;
+
+    expect(detectCaptcha(productPage, URL, 200)).toBeNull();
+    expect(detectCaptcha(productPage, URL, 429)).toMatchObject({ kind: 'turnstile', signal: 'challenge_iframe' });
+  });
+});
+
+describe('resolveCaptcha', () => {
+  const challenge = detectCaptcha('<div id="px-captcha"></div>', URL)!;
+
+  it('should report a challenge cleared by the solution', async () => {
+    const context = createExecutionContext(URL);
+    context.solveCaptcha = async () => ({ token: 'token-1' });
+
+    const report = await resolveCaptcha(challenge, context, async solution => (solution.token === 'token-1' ? null : challenge));
+
+    expect(report).toEqual({ kind: 'perimeterx', signal: 'interstitial_marker', pageUrl: URL, solverInvoked: true, solved: true });
+  });
+
+  it('should throw a blocked error without a solver or when the challenge remains', async () => {
+    await expect(resolveCaptcha(challenge, createExecutionContext(URL), async () => null)).rejects.toMatchObject({
+      report: { solverInvoked: false, solved: false, error: 'no captcha solver configured' }
+    });
+
+    const context = createExecutionContext(URL);
+    context.solveCaptcha = async () => ({ token: 'rejected' });
+    const error = await resolveCaptcha(challenge, context, async () => challenge).catch(caught => caught);
+    expect(error).toBeInstanceOf(CaptchaBlockedError);
+    expect(error.report).toMatchObject({ solverInvoked: true, solved: false, error: 'the perimeterx challenge remained after applying the solution' });
+  });
+});
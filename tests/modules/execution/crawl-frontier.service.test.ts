@@ -0,0 +1,55 @@
+/**
+ * Tests for the CrawlFrontier
+ */
+import { describe, it, expect } from 'vitest';
+import { CrawlFrontier } from '../../../src/infrastructure/execution/services/crawl-frontier.service.js';
+
+describe('CrawlFrontier', () => {
+  it('should canonicalize URLs so that equivalent URLs are queued once', () => {
+    const frontier = new CrawlFrontier(['HTTPS://Shop.Example.com:443/catalog?b=2&a=1#top']);
+
+    expect(frontier.next(10)).toEqual([{ url: 'https://shop.example.com/catalog?a=1&b=2', depth: 0 }]);
+    expect(frontier.add('https://shop.example.com/catalog?a=1&b=2&utm_source=mail&gclid=x', 1)).toBe(false);
+    expect(frontier.add('https://shop.example.com/p/1#reviews', 1)).toBe(true);
+    expect(frontier.add('https://shop.example.com/p/1', 1)).toBe(false);
+    expect(frontier.getDiscoveredCount()).toBe(2);
+  });
+
+  it('should apply include/exclude patterns and stay on the seed domains by default', () => {
+    const frontier = new CrawlFrontier(['https://www.example.com/shoes'], {
+      include_patterns: ['/shoes/'],
+      exclude_patterns: ['\\?sort=']
+    });
+
+    expect(frontier.add('https://example.com/shoes/runner', 1)).toBe(true);
+    expect(frontier.add('https://www.example.com/about', 1)).toBe(false);
+    expect(frontier.add('https://www.example.com/shoes/?sort=price', 1)).toBe(false);
+    expect(frontier.add('https://other.com/shoes/runner', 1)).toBe(false);
+    expect(frontier.add('mailto:shop@example.com', 1)).toBe(false);
+
+    const openFrontier = new CrawlFrontier(['https://example.com/'], { same_domain: false });
+    expect(openFrontier.add('https://other.com/page', 1)).toBe(true);
+  });
+
+  it('should honor max_depth and max_urls', () => {
+    const frontier = new CrawlFrontier(['https://example.com/a', 'https://example.com/b'], { max_depth: 2, max_urls: 3 });
+
+    expect(frontier.shouldExpand(0)).toBe(true);
+    expect(frontier.shouldExpand(2)).toBe(false);
+    expect(frontier.add('https://example.com/c', 3)).toBe(false);
+    expect(frontier.add('https://example.com/c', 2)).toBe(true);
+    expect(frontier.add('https://example.com/d', 1)).toBe(false);
+    expect(frontier.shouldExpand(0)).toBe(false);
+    expect(frontier.next(10).map(entry => entry.url)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+      'https://example.com/c'
+    ]);
+    expect(frontier.hasPending()).toBe(false);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => new CrawlFrontier(['https://example.com/'], { include_patterns: ['(['] }))
+      .toThrow(/Invalid crawl include_patterns pattern/);
+  });
+});
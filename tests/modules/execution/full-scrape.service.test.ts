@@ -8,6 +8,8 @@ import { BuildRepository } from '../../../src/infrastructure/db/build.repository
 import { BuildStatus } from '../../../src/generated/prisma/index.js';
 import { createMockPrismaClient } from '../../utils/test-db-helper.js';
 import { UniversalConfigurationPackageFormatV1 } from '../../../src/core/domain/configuration-package.types.js';
+import { browserPool } from '../../../src/infrastructure/browser/browser-pool.js';
+import { ExecutionContext, createExecutionContext } from '../../../src/infrastructure/execution/execution-context.js';
 
 describe('FullScrapeExecutionService', () => {
   let fullScrapeService: FullScrapeExecutionService;
@@ -54,7 +56,9 @@ describe('FullScrapeExecutionService', () => {
     prisma = createMockPrismaClient();
     buildRepository = new BuildRepository(prisma);
     executionEngine = {
-      executePackage: vi.fn()
+      executePackage: vi.fn(),
+      withExecutionContext: vi.fn((_config: unknown, url: string, fn: (context: ExecutionContext) => Promise<unknown>) =>
+        fn(createExecutionContext(url)))
     } as unknown as ExecutionEngineService;
     
     // Create the service
@@ -228,4 +232,118 @@ describe('FullScrapeExecutionService', () => {
     
 });
 
+  it('should scrape the URLs of a batch concurrently, bounded by the browser pool', async () => {
+    vi.useRealTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(browserPool, 'getCapacity').mockReturnValue(2);
+    const urls = Array.from({ length: 5 }, (_, index) => `https://example.com/product${index + 1}`);
+    buildRepository.findBuildById = vi.fn().mockResolvedValue({ ...testBuild, targetUrlsList: urls });
+
+    let running = 0;
+    let maxRunning = 0;
+    (executionEngine.executePackage as any).mockImplementation(async (_config: unknown, [url]: string[]) => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, url.endsWith('1') ? 40 : 10));
+      running--;
+      return { results: [{ url, success: true, data: { title: url } }] };
+    });
+
+    await fullScrapeService.startScrape('test-build-id', testConfigPackage, { rateLimitRps: 100 });
+
+    await vi.waitFor(() => {
+      expect(fullScrapeService.getExecutionState('test-build-id')?.status).toBe('completed');
+    });
+    expect(maxRunning).toBe(2);
+    const state = fullScrapeService.getExecutionState('test-build-id');
+    expect(state?.progress).toMatchObject({ processedUrls: 5, successfulUrls: 5 });
+    // Results keep the order of the URLs although the first one finished last
+    expect(state?.results?.map(result => result.url)).toEqual(urls);
+  });
+
+  describe('crawl mode', () => {
+    const pages: { [url: string]: string } = {
+      'https://example.com/product1': '<a href="/p/1?utm_source=x">1</a><a href="/p/2#top">2</a><a href="/about">About</a>',
+      'https://example.com/product2': '<a href="https://example.com/p/2">2</a><a href="https://other.com/p/3">3</a>'
+    };
+
+    beforeEach(() => {
+      vi.useRealTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        url,
+        headers: new Headers({ 'content-type': 'text/html' }),
+        text: async () => pages[url] || ''
+      })));
+      (executionEngine.executePackage as any).mockImplementation(async (_config: unknown, urls: string[]) => ({
+        results: urls.map(url => ({ url, success: true, data: { title: url } }))
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should scrape the seeds and the deduplicated URLs discovered from them', async () => {
+      await fullScrapeService.startScrape('test-build-id', testConfigPackage, {
+        rateLimitRps: 100,
+        crawl: { max_depth: 1, include_patterns: ['/p/\\d+$'] }
+      });
+
+      await vi.waitFor(() => {
+        expect(fullScrapeService.getExecutionState('test-build-id')?.status).toBe('completed');
+      });
+
+      const scrapedUrls = (executionEngine.executePackage as any).mock.calls.map((call: unknown[]) => (call[1] as string[])[0]);
+      expect(scrapedUrls).toEqual([
+        'https://example.com/product1',
+        'https://example.com/product2',
+        'https://example.com/p/1',
+        'https://example.com/p/2'
+      ]);
+
+      const state = fullScrapeService.getExecutionState('test-build-id');
+      expect(state?.progress).toMatchObject({ totalUrls: 4, discoveredUrls: 4, processedUrls: 4 });
+      // Pages at the maximum depth are not fetched for links
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should request the pages for discovery with the execution context of the package', async () => {
+      (executionEngine.withExecutionContext as any).mockImplementation(
+        (_config: unknown, url: string, fn: (context: ExecutionContext) => Promise<unknown>) => {
+          const context = createExecutionContext(url);
+          context.fingerprint.userAgent = 'ProfileAgent/1.0';
+          context.cookies.push({ name: 'session', value: 'abc' });
+          return fn(context);
+        });
+
+      await fullScrapeService.startScrape('test-build-id', testConfigPackage, {
+        rateLimitRps: 100,
+        crawl: { max_depth: 1, include_patterns: ['/p/\\d+$'] }
+      });
+
+      await vi.waitFor(() => {
+        expect(fullScrapeService.getExecutionState('test-build-id')?.status).toBe('completed');
+      });
+
+      expect(executionEngine.withExecutionContext).toHaveBeenCalledWith(testConfigPackage, 'https://example.com/product1', expect.any(Function));
+      expect((fetch as any).mock.calls[0][1].headers).toMatchObject({ 'User-Agent': 'ProfileAgent/1.0', Cookie: 'session=abc' });
+    });
+
+    it('should use the seeds for discovery only when scrape_seeds is false', async () => {
+      await fullScrapeService.startScrape('test-build-id', {
+        ...testConfigPackage,
+        crawl: { include_patterns: ['/p/'], scrape_seeds: false }
+      }, { rateLimitRps: 100 });
+
+      await vi.waitFor(() => {
+        expect(fullScrapeService.getExecutionState('test-build-id')?.status).toBe('completed');
+      });
+
+      const scrapedUrls = (executionEngine.executePackage as any).mock.calls.map((call: unknown[]) => (call[1] as string[])[0]);
+      expect(scrapedUrls).toEqual(['https://example.com/p/1', 'https://example.com/p/2']);
+    });
+  });
+
 });
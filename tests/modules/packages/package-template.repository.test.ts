@@ -0,0 +1,68 @@
+/**
+ * Tests for the file-backed PackageTemplateRepository
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PackageTemplateRepository } from '../../../src/infrastructure/templates/package-template.repository.js';
+import { ConflictError } from '../../../src/core/errors/index.js';
+import { UniversalConfigurationPackageFormatV2 } from '../../../src/core/domain/configuration-package.types.js';
+
+const productPackage: UniversalConfigurationPackageFormatV2 = {
+  schemaVersion: '2.0',
+  scraper: {
+    tool_id: 'scraper_fetch_cheerio_v1',
+    parameters: { fields: { title: { selector: 'h1.product__title' }, price: { selector: '.price-item--regular' } } }
+  }
+};
+
+describe('PackageTemplateRepository', () => {
+  let directory: string;
+  let repository: PackageTemplateRepository;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'package-templates-'));
+    repository = new PackageTemplateRepository(path.join(directory, 'templates'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save templates under a slug of their name and read them back', async () => {
+    const template = await repository.create({
+      name: 'Shopify Product Page',
+      description: 'Title and price of a Shopify product',
+      tags: ['Shopify', 'e-commerce', 'shopify'],
+      package: productPackage,
+      sourceBuildId: 'build-1'
+    });
+
+    expect(template.id).toBe('shopify-product-page');
+    expect(template.tags).toEqual(['shopify', 'e-commerce']);
+    expect(await repository.findById('shopify-product-page')).toEqual(template);
+    expect(await repository.findById('../shopify-product-page')).toBeNull();
+  });
+
+  it('should reject duplicate names', async () => {
+    await repository.create({ name: 'Greenhouse job board', package: productPackage });
+
+    await expect(repository.create({ name: 'Greenhouse  Job Board!', package: productPackage }))
+      .rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should list templates by tag or search text and delete them', async () => {
+    expect(await repository.list()).toEqual([]);
+    await repository.create({ name: 'Shopify product page', tags: ['shopify'], package: productPackage });
+    await repository.create({ name: 'Greenhouse job board', description: 'Open positions', tags: ['jobs'], package: productPackage });
+    await writeFile(path.join(directory, 'templates', 'broken.json'), '{ not json');
+
+    expect((await repository.list()).map(t => t.id)).toEqual(['greenhouse-job-board', 'shopify-product-page']);
+    expect((await repository.list({ tag: 'Jobs' })).map(t => t.id)).toEqual(['greenhouse-job-board']);
+    expect((await repository.list({ search: 'positions' })).map(t => t.id)).toEqual(['greenhouse-job-board']);
+
+    expect(await repository.delete('shopify-product-page')).toBe(true);
+    expect(await repository.delete('shopify-product-page')).toBe(false);
+  });
+});
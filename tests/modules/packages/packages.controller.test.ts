@@ -0,0 +1,64 @@
+/**
+ * Tests for the packages controller (POST /packages/validate)
+ */
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import packagesController from '../../../src/modules/packages/packages.controller.js';
+import { ToolboxService } from '../../../src/infrastructure/toolbox/toolbox.service.js';
+
+describe('PackagesController', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const toolboxService = new ToolboxService();
+    toolboxService.registerDefaultTools();
+
+    app = Fastify();
+    app.decorate('toolboxService', toolboxService);
+    await app.register(packagesController, { prefix: '/packages' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should return valid for a correct package', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/packages/validate',
+      payload: {
+        schemaVersion: '2.0',
+        scraper: { tool_id: 'scraper_playwright_stealth_v1', parameters: { fields: { title: { selector: 'h1' } } } }
+      }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should return path-level errors for an invalid package', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/packages/validate',
+      payload: {
+        schemaVersion: '1.0',
+        scraper: { tool_id: 'scraper_fetch_cheerio_v1', parameters: { selectors: { title: 42 } } }
+      }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      valid: false,
+      errors: [{ path: '/scraper/parameters/selectors/title', message: 'must be string', keyword: 'type' }]
+    });
+  });
+
+  it('should reject bodies that are not JSON objects', async () => {
+    const response = await app.inject({ method: 'POST', url: '/packages/validate', payload: [1, 2] });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for POST /runs with package variables
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import runsController from '../../../src/modules/runs/runs.controller.js';
+import { BuildStatus, RunStatus } from '../../../src/generated/prisma/index.js';
+
+const BUILD_ID = '123e4567-e89b-12d3-a456-426614174000';
+const RUN_ID = '123e4567-e89b-12d3-a456-426614174001';
+
+const searchPackage = {
+  schemaVersion: '2.0',
+  variables: { region: { default: 'us' } },
+  scraper: {
+    tool_id: 'scraper_fetch_cheerio_v1',
+    parameters: { fields: { title: { selector: '.results[data-region="{{region}}"] h2' } } }
+  }
+};
+
+describe('RunsController with package variables', () => {
+  let app: FastifyInstance;
+  const executePackage = vi.fn();
+  const prisma = {
+    build: { findUnique: vi.fn() },
+    run: { create: vi.fn(), update: vi.fn() }
+  };
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    app = Fastify();
+    app.decorate('prisma', prisma);
+    app.decorate('executionEngine', { executePackage });
+    app.decorateRequest('user', null);
+    app.addHook('onRequest', async request => {
+      (request as typeof request & { user: { id: string } }).user = { id: 'user-1' };
+    });
+    await app.register(runsController, { prefix: '/runs' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.build.findUnique.mockResolvedValue({
+      id: BUILD_ID,
+      userId: 'user-1',
+      status: BuildStatus.CONFIRMED,
+      targetUrls: JSON.stringify(['https://shop.example.com/us/lamps']),
+      finalPackageJson: searchPackage
+    });
+    prisma.run.create.mockResolvedValue({ id: RUN_ID, buildId: BUILD_ID, status: RunStatus.PENDING, resultJson: null });
+    prisma.run.update.mockResolvedValue({ id: RUN_ID });
+    executePackage.mockResolvedValue({ overallStatus: 'completed', results: [] });
+  });
+
+  it('should execute the package and target URLs with the variables substituted', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/runs',
+      payload: { build_id: BUILD_ID, target_urls: ['https://shop.example.com/{{region}}/{{category}}'], variables: { region: 'de', category: 'lamps' } }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ run_id: RUN_ID, message: 'Run execution initiated.' });
+    await vi.waitFor(() => expect(prisma.run.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { status: RunStatus.COMPLETED, error: undefined }
+    })));
+
+    expect(executePackage).toHaveBeenCalledTimes(1);
+    const [configPackage, targetUrls] = executePackage.mock.calls[0];
+    expect(configPackage.scraper.parameters.fields.title.selector).toBe('.results[data-region="de"] h2');
+    expect(targetUrls).toEqual(['https://shop.example.com/de/lamps']);
+    expect(prisma.run.create).toHaveBeenCalledWith({ data: expect.objectContaining({ variables: { region: 'de', category: 'lamps' } }) });
+    await vi.waitFor(() => expect(prisma.run.update).toHaveBeenCalledWith({
+      where: { id: RUN_ID },
+      data: { resultJson: { overallStatus: 'completed', results: [] } }
+    }));
+  });
+
+  it('should reject a run that leaves a variable without a value', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/runs',
+      payload: { build_id: BUILD_ID, target_urls: ['https://shop.example.com/{{category}}'] }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toContain('category');
+    expect(executePackage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Tests for the run repository's handling of package variables
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { RunRepository } from '../../../src/infrastructure/db/run.repository.js';
+import { PrismaClient, RunStatus } from '../../../src/generated/prisma/index.js';
+
+describe('RunRepository', () => {
+  it('should store the variables of a new run in their own column', async () => {
+    const create = vi.fn().mockResolvedValue({ id: 'run-1' });
+    const repository = new RunRepository({ run: { create } } as unknown as PrismaClient);
+
+    await repository.createRun({ buildId: 'build-1', targetUrls: ['https://shop.example.com/de'], variables: { region: 'de' } });
+    await repository.createRun({ buildId: 'build-1', targetUrls: ['https://shop.example.com/us'], variables: {} });
+
+    expect(create).toHaveBeenNthCalledWith(1, {
+      data: {
+        buildId: 'build-1',
+        targetUrls: JSON.stringify(['https://shop.example.com/de']),
+        status: RunStatus.PENDING,
+        variables: { region: 'de' }
+      }
+    });
+    expect(create).toHaveBeenNthCalledWith(2, {
+      data: { buildId: 'build-1', targetUrls: JSON.stringify(['https://shop.example.com/us']), status: RunStatus.PENDING }
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the SitemapService
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gzipSync } from 'zlib';
+import { SitemapService } from '../../../src/infrastructure/sitemap/sitemap.service.js';
+import { BadRequestError } from '../../../src/core/errors/index.js';
+
+const urlset = (entries: { loc: string; lastmod?: string }[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  ${entries.map(e => `<url><loc>${e.loc}</loc>${e.lastmod ? `<lastmod>${e.lastmod}</lastmod>` : ''}</url>`).join('\n  ')}
+</urlset>`;
+
+const SITE: { [url: string]: string | Buffer } = {
+  'https://shop.example.com/robots.txt': [
+    'User-agent: *',
+    'Disallow: /cart',
+    'Sitemap: https://shop.example.com/sitemap_index.xml # main index',
+    'sitemap:https://shop.example.com/missing.xml'
+  ].join('\n'),
+  'https://shop.example.com/sitemap_index.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://shop.example.com/products.xml.gz</loc><lastmod>2024-06-01</lastmod></sitemap>
+  <sitemap><loc>https://shop.example.com/archive.xml</loc><lastmod>2019-01-01</lastmod></sitemap>
+</sitemapindex>`,
+  'https://shop.example.com/products.xml.gz': gzipSync(urlset([
+    { loc: 'https://shop.example.com/products/1', lastmod: '2024-05-20' },
+    { loc: 'https://shop.example.com/products/2', lastmod: '2023-01-10' },
+    { loc: 'https://shop.example.com/products/3' },
+    { loc: 'https://shop.example.com/blog/news', lastmod: '2024-05-21' }
+  ])),
+  'https://shop.example.com/archive.xml': urlset([{ loc: 'https://shop.example.com/products/old', lastmod: '2018-12-01' }])
+};
+
+describe('SitemapService', () => {
+  let service: SitemapService;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = new SitemapService();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const body = SITE[url];
+      return body === undefined ? new Response(null, { status: 404 }) : new Response(body);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should follow robots.txt, sitemap indexes and gzipped sitemaps', async () => {
+    const result = await service.harvest({ url: 'https://shop.example.com/robots.txt' });
+
+    expect(result.urls).toEqual([
+      'https://shop.example.com/products/1',
+      'https://shop.example.com/products/2',
+      'https://shop.example.com/products/3',
+      'https://shop.example.com/blog/news',
+      'https://shop.example.com/products/old'
+    ]);
+    expect(result.sitemapsRead).toEqual([
+      'https://shop.example.com/sitemap_index.xml',
+      'https://shop.example.com/products.xml.gz',
+      'https://shop.example.com/archive.xml'
+    ]);
+  });
+
+  it('should filter entries by pattern, lastmod and max_urls', async () => {
+    const result = await service.harvest({
+      url: 'https://shop.example.com/sitemap_index.xml',
+      include_patterns: ['/products/'],
+      lastmod_after: '2024-01-01T00:00:00Z'
+    });
+
+    // Entries without lastmod are kept; the archive sitemap is older than lastmod_after and is not fetched
+    expect(result.urls).toEqual(['https://shop.example.com/products/1', 'https://shop.example.com/products/3']);
+    expect(fetchMock).not.toHaveBeenCalledWith('https://shop.example.com/archive.xml', expect.anything());
+
+    const capped = await service.harvest({
+      url: 'https://shop.example.com/products.xml.gz',
+      exclude_patterns: ['/blog/'],
+      lastmod_before: '2024-01-01T00:00:00Z',
+      max_urls: 1
+    });
+    expect(capped.urls).toEqual(['https://shop.example.com/products/2']);
+  });
+
+  it('should merge sitemap URLs after explicit target URLs without duplicates', async () => {
+    const urls = await service.resolveTargetUrls(
+      ['https://shop.example.com/products/3', 'https://shop.example.com/'],
+      { url: 'https://shop.example.com/products.xml.gz', include_patterns: ['/products/'] }
+    );
+
+    expect(urls).toEqual([
+      'https://shop.example.com/products/3',
+      'https://shop.example.com/',
+      'https://shop.example.com/products/1',
+      'https://shop.example.com/products/2'
+    ]);
+  });
+
+  it('should reject unreadable sitemaps, invalid patterns and empty results', async () => {
+    await expect(service.harvest({ url: 'https://shop.example.com/missing.xml' }))
+      .rejects.toThrow('Failed to fetch https://shop.example.com/missing.xml: HTTP 404');
+    await expect(service.harvest({ url: 'https://shop.example.com/robots.txt', include_patterns: ['(['] }))
+      .rejects.toBeInstanceOf(BadRequestError);
+    await expect(service.resolveTargetUrls(undefined, {
+      url: 'https://shop.example.com/archive.xml',
+      include_patterns: ['/nothing/']
+    })).rejects.toThrow(/No URLs in the sitemap/);
+    await expect(service.resolveTargetUrls([], undefined)).rejects.toThrow('Either target_urls or sitemap must be provided');
+  });
+
+  it('should reject sitemaps larger than the size limit, compressed or not', async () => {
+    const small = new SitemapService(20000, 30000, 300);
+
+    await expect(small.harvest({ url: 'https://shop.example.com/sitemap_index.xml' }))
+      .rejects.toThrow('Sitemap https://shop.example.com/sitemap_index.xml is larger than 300 bytes');
+    // The gzipped sitemap downloads within the limit but inflates past it
+    await expect(small.harvest({ url: 'https://shop.example.com/products.xml.gz' }))
+      .rejects.toThrow(/Failed to fetch https:\/\/shop\.example\.com\/products\.xml\.gz/);
+  });
+
+  it('should stop reading sitemaps once the harvest runs out of time', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const fetchSite = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (url: string) => {
+      now += 20000;
+      return fetchSite(url);
+    });
+
+    const result = await service.harvest({ url: 'https://shop.example.com/robots.txt' });
+
+    expect(result.sitemapsRead).toEqual(['https://shop.example.com/sitemap_index.xml']);
+    expect(result.urls).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for the AntiBlockingTool
+ */
+import { describe, it, expect } from 'vitest';
+import { AntiBlockingTool } from '../../../src/infrastructure/toolbox/anti-blocking.tool.js';
+import { FINGERPRINT_PROFILES, isChromiumProfile } from '../../../src/infrastructure/toolbox/fingerprint-profiles.js';
+import { createExecutionContext, buildRequestHeaders } from '../../../src/infrastructure/execution/execution-context.js';
+
+describe('AntiBlockingTool', () => {
+  const createTool = async (parameters: Record<string, unknown>, random = () => 0) => {
+    const tool = new AntiBlockingTool(random);
+    await tool.initialize({ tool_id: 'anti_blocking_v1', parameters });
+    return tool;
+  };
+
+  it('should apply a consistent profile, locale and delay and record the strategies', async () => {
+    const tool = await createTool({ locale: 'de-DE', min_delay_ms: 100, max_delay_ms: 300, webglVendor: 'Custom Vendor' });
+    const context = createExecutionContext('https://example.com');
+
+    await tool.applyStrategies(context);
+
+    const profile = FINGERPRINT_PROFILES[0];
+    expect(context.fingerprint).toMatchObject({
+      userAgent: profile.userAgent,
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      screen: profile.screen,
+      platform: profile.platform,
+      webglVendor: 'Custom Vendor',
+      webglRenderer: profile.webglRenderer
+    });
+    expect(context.delays).toEqual({ minMs: 100, maxMs: 300 });
+    expect(context.metadata.antiBlocking).toEqual({
+      strategies: ['user_agent', 'client_hints', 'locale', 'human_delays', 'fingerprint'],
+      profile: profile.id,
+      locale: 'de-DE'
+    });
+
+    const headers = buildRequestHeaders({ 'User-Agent': 'Default', 'Accept-Language': 'en-US' }, context.targetUrl, context);
+    expect(headers).toMatchObject({
+      'User-Agent': profile.userAgent,
+      'Accept-Language': 'de-DE,de;q=0.9,en;q=0.8',
+      'Sec-CH-UA-Platform': '"Windows"'
+    });
+  });
+
+  it('should only apply the selected strategies and rotate profiles per URL', async () => {
+    const draws = [0, 0.99];
+    const tool = await createTool({ strategies: ['user_agent', 'client_hints'] }, () => draws.shift() ?? 0);
+    const first = createExecutionContext('https://example.com/1');
+    const second = createExecutionContext('https://example.com/2');
+
+    await tool.applyStrategies(first);
+    await tool.applyStrategies(second);
+
+    expect(first.fingerprint.userAgent).not.toBe(second.fingerprint.userAgent);
+    expect(second.fingerprint).toEqual({ userAgent: FINGERPRINT_PROFILES[FINGERPRINT_PROFILES.length - 1].userAgent });
+    expect(second.headers).toEqual({}); // The last profile is Safari, which sends no client hints
+    expect(second.delays).toEqual({ minMs: 0, maxMs: 0 });
+    expect(second.metadata.antiBlocking).toEqual({ strategies: ['user_agent'], profile: 'safari-macos' });
+
+    await expect(createTool({ strategies: ['teleport'] })).rejects.toThrow('Unknown strategies: teleport');
+  });
+
+  it('should only pick Chromium profiles for browser scrapers', async () => {
+    const draws = [0.99, 0.99];
+    const tool = await createTool({}, () => draws.shift() ?? 0);
+    const http = createExecutionContext('https://example.com/1');
+    const browser = createExecutionContext('https://example.com/2', true);
+
+    await tool.applyStrategies(http);
+    await tool.applyStrategies(browser);
+
+    const chromium = FINGERPRINT_PROFILES.filter(isChromiumProfile);
+    expect(http.metadata.antiBlocking).toMatchObject({ profile: 'safari-macos' });
+    expect(browser.metadata.antiBlocking).toMatchObject({ profile: chromium[chromium.length - 1].id });
+    expect(browser.fingerprint.userAgent).toContain('Chrome/');
+    expect(browser.headers['Sec-CH-UA']).toBeDefined();
+  });
+
+  it('should require the fingerprint strategy for screen and WebGL overrides', async () => {
+    await expect(createTool({ strategies: ['user_agent'], screen: { width: 1280, height: 800 }, webglVendor: 'Custom Vendor' }))
+      .rejects.toThrow('screen, webglVendor require the fingerprint strategy');
+    await expect(createTool({ strategies: ['fingerprint'], screen: { width: 1280, height: 800 } })).resolves.toBeDefined();
+  });
+});
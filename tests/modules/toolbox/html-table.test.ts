@@ -0,0 +1,117 @@
+/**
+ * Tests for HTML table reading and the HtmlTableScraper tool
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as cheerio from 'cheerio';
+import { readTable, tableToRecords } from '../../../src/infrastructure/toolbox/html-table.js';
+import { HtmlTableScraper } from '../../../src/infrastructure/toolbox/html-table.scraper.js';
+import { UniversalConfigurationPackageFormatV2 } from '../../../src/core/domain/configuration-package.types.js';
+
+const PAGE_HTML = `
+  <html><body>
+    <table id="prices">
+      <thead>
+        <tr><th rowspan="2">Model</th><th colspan="2">Dimensions</th><th rowspan="2">Price</th></tr>
+        <tr><th>Width</th><th>Height</th></tr>
+      </thead>
+      <tbody>
+        <tr><td><a href="/lamps/a1">A1</a></td><td>10 cm</td><td rowspan="2">30 cm</td><td>19.50</td></tr>
+        <tr><td><a href="/lamps/a2">A2</a></td><td>12 cm</td><td>24.00</td></tr>
+        <tr><td colspan="4">Discontinued</td></tr>
+        <tr><td>B1</td><td colspan="2">n/a</td><td>9.00</td></tr>
+      </tbody>
+    </table>
+    <div id="specs">
+      <table>
+        <tr><th colspan="2">General</th></tr>
+        <tr><th>Weight</th><td>1.2 kg</td></tr>
+        <tr><th>Color</th><td>Black</td></tr>
+      </table>
+    </div>
+  </body></html>
+`;
+
+const readFirst = (html: string, selector: string) => {
+  const $ = cheerio.load(html);
+  return readTable($, $(selector)[0]);
+};
+
+describe('readTable', () => {
+  it('should join multi-row headers and expand colspan/rowspan cells', () => {
+    const table = readFirst(PAGE_HTML, '#prices');
+
+    expect(table.columns.map(column => column.name)).toEqual(['Model', 'Dimensions / Width', 'Dimensions / Height', 'Price']);
+    expect(tableToRecords(table)).toEqual([
+      { Model: 'A1', 'Dimensions / Width': '10 cm', 'Dimensions / Height': '30 cm', Price: '19.50' },
+      { Model: 'A2', 'Dimensions / Width': '12 cm', 'Dimensions / Height': '30 cm', Price: '24.00' },
+      { Model: 'B1', 'Dimensions / Width': 'n/a', 'Dimensions / Height': 'n/a', Price: '9.00' }
+    ]);
+  });
+
+  it('should read a key-value spec sheet by columns and name headerless columns', () => {
+    expect(tableToRecords(readFirst(PAGE_HTML, '#specs table'))).toEqual([{ Weight: '1.2 kg', Color: 'Black' }]);
+
+    const plain = readFirst('<table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr></table>', 'table');
+    expect(tableToRecords(plain)).toEqual([{ column_1: 'a', column_2: 'b' }, { column_1: 'c', column_2: 'd' }]);
+  });
+});
+
+describe('HtmlTableScraper', () => {
+  let scraper: HtmlTableScraper;
+
+  const buildPackage = (parameters: Record<string, unknown>): UniversalConfigurationPackageFormatV2 => ({
+    schemaVersion: '2.0',
+    scraper: { tool_id: 'scraper_html_table_v1', parameters: parameters as UniversalConfigurationPackageFormatV2['scraper']['parameters'] }
+  });
+
+  beforeEach(() => {
+    scraper = new HtmlTableScraper();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => PAGE_HTML }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should map headers to fields with types, attributes and fallbacks', async () => {
+    const configPackage = buildPackage({
+      table_selector: '#prices',
+      fields: {
+        model: { selector: 'model' },
+        link: { selector: 'Model', attribute: 'href' },
+        width: { selector: 'Width' },
+        price: { selector: ['Price (EUR)', 'Price'], type: 'number' },
+        sizes: { selector: '/^dimensions/i', multiple: true },
+        stock: { selector: 'Stock', default: 'unknown' }
+      },
+      max_items: 2
+    });
+    await scraper.initialize(configPackage.scraper);
+
+    const result = await scraper.execute('https://shop.test/lamps', configPackage);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      { model: 'A1', link: '/lamps/a1', width: '10 cm', price: 19.5, sizes: ['10 cm', '30 cm'], stock: 'unknown' },
+      { model: 'A2', link: '/lamps/a2', width: '12 cm', price: 24, sizes: ['12 cm', '30 cm'], stock: 'unknown' }
+    ]);
+    expect(result.metadata?.tables).toEqual([
+      { columns: ['Model', 'Dimensions / Width', 'Dimensions / Height', 'Price'], rows: 3, transposed: false }
+    ]);
+  });
+
+  it('should fail when no table matches and reject invalid header patterns', async () => {
+    const configPackage = buildPackage({ fields: {}, table_index: 5 });
+    await scraper.initialize(configPackage.scraper);
+
+    const result = await scraper.execute('https://shop.test/lamps', configPackage);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("No table matched 'table' at index 5");
+    await expect(scraper.initialize(buildPackage({ fields: { price: { selector: '/[/' } } }).scraper))
+      .rejects.toThrow("Invalid header pattern '/[/'");
+  });
+});
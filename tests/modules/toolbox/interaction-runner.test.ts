@@ -0,0 +1,109 @@
+/**
+ * Tests for the interaction script runner
+ */
+import { describe, it, expect, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { runInteractionSteps, isInteractionScript } from '../../../src/infrastructure/toolbox/interaction-runner.js';
+import { InteractionStep } from '../../../src/core/domain/configuration-package.types.js';
+
+/**
+ * Minimal stand-in for a Playwright page: every locator action resolves,
+ * except on selectors listed as missing, which time out
+ */
+function createFakePage(missingSelectors: string[] = [], heights: number[] = [1000]) {
+  const calls: string[] = [];
+  const heightQueue = [...heights];
+  const locatorFor = (selector: string) => {
+    const act = (name: string) => vi.fn(async () => {
+      calls.push(`${name}:${selector}`);
+      if (missingSelectors.includes(selector)) {
+        throw new Error(`locator.${name}: Timeout exceeded.\nwaiting for locator('${selector}')`);
+      }
+    });
+    const first = {
+      click: act('click'),
+      fill: act('fill'),
+      press: act('press'),
+      waitFor: act('waitFor'),
+      selectOption: act('selectOption'),
+      hover: act('hover')
+    };
+    return { first: () => first };
+  };
+
+  const page = {
+    url: () => 'https://shop.example.com/',
+    locator: vi.fn(locatorFor),
+    keyboard: { press: vi.fn(async (key: string) => { calls.push(`keyboard:${key}`); }) },
+    waitForLoadState: vi.fn(async () => { calls.push('networkidle'); }),
+    waitForTimeout: vi.fn(async () => {}),
+    evaluate: vi.fn(async () => {
+      calls.push('scroll');
+      return heightQueue.length > 1 ? heightQueue.shift() : heightQueue[0];
+    })
+  };
+  return { page: page as unknown as Page, calls };
+}
+
+describe('runInteractionSteps', () => {
+  it('should run the steps in order and report each one', async () => {
+    const { page, calls } = createFakePage();
+    const steps: InteractionStep[] = [
+      { action: 'fill', selector: '#search', value: 'lamp' },
+      { action: 'press', key: 'Enter' },
+      { action: 'wait_for_network_idle' },
+      { action: 'select_option', selector: '#sort', value: 'price' },
+      { action: 'hover', selector: '.menu' },
+      { action: 'click', selector: '.tab-reviews' }
+    ];
+
+    const reports = await runInteractionSteps(page, steps);
+
+    expect(calls).toEqual([
+      'fill:#search',
+      'keyboard:Enter',
+      'networkidle',
+      'selectOption:#sort',
+      'hover:.menu',
+      'click:.tab-reviews'
+    ]);
+    expect(reports.map(r => [r.index, r.action, r.status])).toEqual([
+      [0, 'fill', 'completed'],
+      [1, 'press', 'completed'],
+      [2, 'wait_for_network_idle', 'completed'],
+      [3, 'select_option', 'completed'],
+      [4, 'hover', 'completed'],
+      [5, 'click', 'completed']
+    ]);
+  });
+
+  it('should continue after a failed optional step and skip the rest after a failed required step', async () => {
+    const { page, calls } = createFakePage(['#cookie-banner button', '.results']);
+    const steps: InteractionStep[] = [
+      { action: 'click', selector: '#cookie-banner button', optional: true },
+      { action: 'wait_for_selector', selector: '.results', timeout_ms: 500 },
+      { action: 'click', selector: '.next' }
+    ];
+
+    const reports = await runInteractionSteps(page, steps);
+
+    expect(reports.map(r => r.status)).toEqual(['failed', 'failed', 'skipped']);
+    expect(reports[1].error).toBe('locator.waitFor: Timeout exceeded.');
+    expect(calls).not.toContain('click:.next');
+  });
+
+  it('should scroll until the page height stops growing', async () => {
+    const { page, calls } = createFakePage([], [1000, 2000, 3000, 3000]);
+
+    const reports = await runInteractionSteps(page, [{ action: 'scroll_to_bottom', delay_ms: 0 }]);
+
+    expect(reports[0].status).toBe('completed');
+    expect(calls.filter(call => call === 'scroll')).toHaveLength(4);
+  });
+
+  it('should recognize step lists only', () => {
+    expect(isInteractionScript([{ action: 'click', selector: 'a' }])).toBe(true);
+    expect(isInteractionScript('click the button then scroll')).toBe(false);
+    expect(isInteractionScript([{ selector: 'a' }])).toBe(false);
+  });
+});
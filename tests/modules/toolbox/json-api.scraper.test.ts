@@ -0,0 +1,137 @@
+/**
+ * Tests for the JsonApiScraper tool
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JsonApiScraper } from '../../../src/infrastructure/toolbox/json-api.scraper.js';
+import { UniversalConfigurationPackageFormatV2, ScraperToolConfigurationV2 } from '../../../src/core/domain/configuration-package.types.js';
+import { createExecutionContext } from '../../../src/infrastructure/execution/execution-context.js';
+
+const PAGES: Record<string, unknown> = {
+  '': { data: { items: [{ id: 1, name: 'Widget', price: '10.5', tags: ['a', 'b'] }, { id: 2, name: 'Gadget', price: 20 }] }, meta: { next: 'c2' } },
+  c2: { data: { items: [{ id: 3, name: 'Doohickey', price: 5 }] }, meta: { next: 'c3' } },
+  c3: { data: { items: [] }, meta: { next: null } }
+};
+
+function buildPackage(parameters: Partial<ScraperToolConfigurationV2['parameters']>): UniversalConfigurationPackageFormatV2 {
+  return {
+    schemaVersion: '2.0',
+    scraper: {
+      tool_id: 'scraper_json_api_v1',
+      parameters: {
+        fields: {
+          id: { selector: '$.id', type: 'integer' },
+          name: { selector: ['$.title', '$.name'] },
+          price: { selector: '$.price', type: 'number' },
+          tags: { selector: '$.tags', multiple: true }
+        },
+        item_selector: '$.data.items',
+        ...parameters
+      }
+    }
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    text: async () => JSON.stringify(body)
+  };
+}
+
+describe('JsonApiScraper', () => {
+  let scraper: JsonApiScraper;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    scraper = new JsonApiScraper();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Query cursor: the page is selected by the 'cursor' parameter; body cursor: by the body's 'after'
+    fetchMock = vi.fn(async (url: string, init: { body?: string }) => {
+      const cursor = new URL(url).searchParams.get('cursor') ?? (init.body ? JSON.parse(init.body).after : undefined) ?? '';
+      return jsonResponse(PAGES[cursor]);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should extract one record per item with JSONPath fields', async () => {
+    const configPackage = buildPackage({});
+    await scraper.initialize(configPackage.scraper);
+
+    const result = await scraper.execute('https://api.example.com/products', configPackage);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      { id: 1, name: 'Widget', price: 10.5, tags: ['a', 'b'] },
+      { id: 2, name: 'Gadget', price: 20, tags: [] }
+    ]);
+    expect(result.metadata).toEqual({ itemCount: 2 });
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'GET', body: undefined });
+  });
+
+  it('should follow query cursors until a response has none', async () => {
+    const configPackage = buildPackage({ cursor_pagination: { cursor_path: '$.meta.next', stop_on_empty: false } });
+    await scraper.initialize(configPackage.scraper);
+
+    const result = await scraper.execute('https://api.example.com/products?limit=2', configPackage);
+
+    expect((result.data as { id: number }[]).map(record => record.id)).toEqual([1, 2, 3]);
+    expect(result.metadata?.pagination).toEqual({
+      pagesScraped: 3,
+      pageUrls: [
+        'https://api.example.com/products?limit=2',
+        'https://api.example.com/products?limit=2&cursor=c2',
+        'https://api.example.com/products?limit=2&cursor=c3'
+      ],
+      stopReason: 'no_next_page'
+    });
+  });
+
+  it('should send the method, headers and a JSON body with the cursor in it', async () => {
+    const configPackage = buildPackage({
+      method: 'post',
+      headers: { 'x-api-key': 'secret', accept: 'application/vnd.api+json' },
+      body: { query: 'all' },
+      cursor_pagination: { cursor_path: '$.meta.next', cursor_param: 'after', cursor_in: 'body' }
+    });
+    await scraper.initialize(configPackage.scraper);
+    const context = createExecutionContext('https://api.example.com/search');
+    context.headers = { 'X-Trace': 'abc' };
+
+    const result = await scraper.execute('https://api.example.com/search', configPackage, context);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.pagination).toMatchObject({ pagesScraped: 3, stopReason: 'empty_page' });
+    expect(fetchMock.mock.calls.map(([, init]) => init.body)).toEqual([
+      JSON.stringify({ query: 'all' }),
+      JSON.stringify({ query: 'all', after: 'c2' }),
+      JSON.stringify({ query: 'all', after: 'c3' })
+    ]);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'secret', accept: 'application/vnd.api+json', 'X-Trace': 'abc' }
+    });
+  });
+
+  it('should reject malformed JSONPaths on initialization and non-JSON responses on execution', async () => {
+    await expect(scraper.initialize(buildPackage({ item_selector: '$.data[' }).scraper))
+      .rejects.toThrow("Invalid JSONPath '$.data[': unclosed '['");
+    await expect(scraper.initialize(buildPackage({ cursor_pagination: { cursor_path: '$.meta.next', cursor_in: 'body' } }).scraper))
+      .rejects.toThrow('A body cursor cannot be sent with GET');
+
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers({ 'content-type': 'text/html' }), text: async () => '<html></html>' });
+    const configPackage = buildPackage({});
+    await scraper.initialize(configPackage.scraper);
+    const result = await scraper.execute('https://api.example.com/products', configPackage);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Response is not valid JSON (text/html)');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for the JSONPath evaluator
+ */
+import { describe, it, expect } from 'vitest';
+import { queryJsonPath } from '../../../src/infrastructure/toolbox/json-path.js';
+
+const STORE = {
+  store: {
+    books: [
+      { title: 'Dune', price: 9.5, tags: ['scifi'], author: { name: 'Herbert' } },
+      { title: 'Emma', price: 12, author: { name: 'Austen' } },
+      { title: 'Ulysses', price: 20, tags: [], author: { name: 'Joyce' } }
+    ],
+    'opening hours': '9-17'
+  }
+};
+
+describe('queryJsonPath', () => {
+  it('should resolve dot, bracket, index and slice selectors', () => {
+    expect(queryJsonPath(STORE, '$.store.books[0].title')).toEqual(['Dune']);
+    expect(queryJsonPath(STORE, "$['store']['opening hours']")).toEqual(['9-17']);
+    expect(queryJsonPath(STORE, 'store.books[-1].title')).toEqual(['Ulysses']);
+    expect(queryJsonPath(STORE, '$.store.books[0:2].title')).toEqual(['Dune', 'Emma']);
+    expect(queryJsonPath(STORE, '$.store.books[*].author.name')).toEqual(['Herbert', 'Austen', 'Joyce']);
+    expect(queryJsonPath(STORE, '$..name')).toEqual(['Herbert', 'Austen', 'Joyce']);
+    expect(queryJsonPath(STORE, '$.store.missing')).toEqual([]);
+  });
+
+  it('should filter items with comparisons, existence checks and boolean operators', () => {
+    expect(queryJsonPath(STORE, '$.store.books[?(@.price > 10)].title')).toEqual(['Emma', 'Ulysses']);
+    expect(queryJsonPath(STORE, '$.store.books[?(@.tags)].title')).toEqual(['Dune', 'Ulysses']);
+    expect(queryJsonPath(STORE, "$.store.books[?(@.author.name == 'Austen' || @.price <= 9.5)].title")).toEqual(['Dune', 'Emma']);
+    expect(queryJsonPath(STORE, '$.store.books[?(@.price >= 12 && @.price != 20)].title')).toEqual(['Emma']);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => queryJsonPath(STORE, '$.store.books[0')).toThrow("Invalid JSONPath '$.store.books[0': unclosed '['");
+    expect(() => queryJsonPath(STORE, '$.store.books[?@.price]')).toThrow('filters must be written as [?(...)]');
+  });
+});
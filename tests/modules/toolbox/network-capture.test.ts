@@ -0,0 +1,92 @@
+/**
+ * Tests for the Playwright scraper's network capture
+ */
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Page, Response } from 'playwright';
+import { NetworkCapture, toUrlPattern } from '../../../src/infrastructure/toolbox/network-capture.js';
+import { extractJsonRecord, selectJsonItems } from '../../../src/infrastructure/toolbox/json-extractor.js';
+
+// Stands in for a page: emits responses and resolves waitForResponse on the next matching one
+class FakePage extends EventEmitter {
+  waitForResponse(predicate: (response: Response) => boolean, options: { timeout: number }): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timeout')), options.timeout);
+      this.on('response', response => {
+        if (predicate(response)) {
+          clearTimeout(timer);
+          resolve(response);
+        }
+      });
+    });
+  }
+}
+
+function fakeResponse(url: string, body: string, resourceType = 'fetch', delayMs = 0): Response {
+  return {
+    url: () => url,
+    status: () => 200,
+    request: () => ({ resourceType: () => resourceType, method: () => 'GET' }),
+    body: () => new Promise(resolve => setTimeout(() => resolve(Buffer.from(body)), delayMs))
+  } as unknown as Response;
+}
+
+describe('NetworkCapture', () => {
+  it('should record matching JSON responses in arrival order and skip the rest', async () => {
+    const page = new FakePage();
+    const capture = new NetworkCapture(page as unknown as Page, { url_patterns: ['*/api/products*', '/graphql$/'] });
+    capture.start();
+
+    page.emit('response', fakeResponse('https://shop.test/api/products?page=1', '{"items":[{"name":"Lamp"}]}', 'xhr', 20));
+    page.emit('response', fakeResponse('https://shop.test/graphql', '{"data":{"total":2}}'));
+    page.emit('response', fakeResponse('https://shop.test/api/products/feed', '<html></html>'));
+    page.emit('response', fakeResponse('https://shop.test/api/products.js', '{}', 'script'));
+    page.emit('response', fakeResponse('https://shop.test/api/users', '{}'));
+
+    const responses = await capture.settle();
+
+    expect(responses.map(response => response.body)).toEqual([{ items: [{ name: 'Lamp' }] }, { data: { total: 2 } }]);
+    expect(capture.report('https://shop.test/')).toEqual({
+      url: 'https://shop.test/',
+      responses: [
+        { url: 'https://shop.test/api/products?page=1', method: 'GET', status: 200 },
+        { url: 'https://shop.test/graphql', method: 'GET', status: 200 }
+      ],
+      skipped: 1
+    });
+
+    capture.reset();
+    capture.stop();
+    page.emit('response', fakeResponse('https://shop.test/api/products?page=2', '{}'));
+    expect(capture.getResponses()).toEqual([]);
+  });
+
+  it('should wait for a first matching response before extraction', async () => {
+    const page = new FakePage();
+    const capture = new NetworkCapture(page as unknown as Page, { url_patterns: ['*/api/*'], wait_timeout_ms: 1000 });
+    capture.start();
+
+    setTimeout(() => page.emit('response', fakeResponse('https://shop.test/api/late', '{"ok":true}')), 20);
+
+    await expect(capture.settle()).resolves.toEqual([{ url: 'https://shop.test/api/late', method: 'GET', status: 200, body: { ok: true } }]);
+  });
+
+  it('should extract network fields from the captured bodies with JSONPath', () => {
+    const bodies = [{ props: { products: [{ name: 'Lamp', price: 19.5, tags: ['new'] }, { name: 'Desk', price: 120 }] } }];
+
+    const items = selectJsonItems(bodies, '$..products', 1);
+    expect(items).toEqual([{ name: 'Lamp', price: 19.5, tags: ['new'] }]);
+    expect(extractJsonRecord(items[0], {
+      name: { selector: '$.name', source: 'network' },
+      price: { selector: '$.price', type: 'number', source: 'network' },
+      tags: { selector: '$.tags', multiple: true, source: 'network' },
+      sku: { selector: '$.sku', default: 'n/a', source: 'network' }
+    })).toEqual({ data: { name: 'Lamp', price: 19.5, tags: ['new'], sku: 'n/a' }, unmatched: ['sku'] });
+  });
+
+  it('should treat /.../ patterns as regular expressions and others as globs', () => {
+    expect(toUrlPattern('/\\/api\\/v\\d+\\//i').test('https://x.test/API/v2/items')).toBe(true);
+    expect(toUrlPattern('https://x.test/api/*').test('https://x.test/api/items?page=2')).toBe(true);
+    expect(toUrlPattern('https://x.test/api/*').test('https://x.test/apix')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for evaluate_script evaluation and merging
+ */
+import { describe, it, expect, vi } from 'vitest';
+import vm from 'node:vm';
+import type { Page } from 'playwright';
+import { evaluatePageScript, mergeScriptResult } from '../../../src/infrastructure/toolbox/page-script.js';
+
+type RouteHandler = (route: { abort: (errorCode?: string) => Promise<void> }) => Promise<void>;
+
+// Stands in for the browser: evaluates the expression in a separate context and keeps the
+// page's routes. Without string code generation the context behaves like a page whose
+// Content-Security-Policy lacks 'unsafe-eval' (eval and new Function throw an EvalError).
+function createPage(options: { csp?: boolean } = {}) {
+  const routes: RouteHandler[] = [];
+  const context = vm.createContext(
+    { setTimeout, fetch: () => Promise.resolve(), document: { title: 'Desk Lamp' } },
+    options.csp ? { codeGeneration: { strings: false, wasm: false } } : {}
+  );
+  const page = {
+    route: vi.fn(async (_url: string, handler: RouteHandler) => { routes.push(handler); }),
+    unroute: vi.fn(async (_url: string, handler: RouteHandler) => { routes.splice(routes.indexOf(handler), 1); }),
+    evaluate: vi.fn(async (expression: string) => vm.runInContext(expression, context))
+  };
+  return { page: page as unknown as Page, routes, evaluate: page.evaluate };
+}
+
+describe('evaluatePageScript', () => {
+  it('should run the script as an async function body and return plain data', async () => {
+    const { page } = createPage();
+    const result = await evaluatePageScript(page, `
+      const price = await Promise.resolve(19.5);
+      return { price, when: new Date(0) };
+    `);
+
+    expect(result).toEqual({ price: 19.5, when: '1970-01-01T00:00:00.000Z' });
+    await expect(evaluatePageScript(page, 'const x = 1;')).resolves.toBeNull();
+  });
+
+  it('should shadow network APIs and surface script errors', async () => {
+    const { page } = createPage();
+
+    await expect(evaluatePageScript(page, 'return typeof fetch;')).resolves.toBe('undefined');
+    await expect(evaluatePageScript(page, 'throw new Error("no product data");')).rejects.toThrow('no product data');
+  });
+
+  it('should abort the page requests while the script runs', async () => {
+    const { page, routes, evaluate } = createPage();
+    const abort = vi.fn().mockResolvedValue(undefined);
+    evaluate.mockImplementationOnce(async () => {
+      expect(routes).toHaveLength(1);
+      await routes[0]({ abort });
+      return 'done';
+    });
+
+    await expect(evaluatePageScript(page, 'return "done";')).resolves.toBe('done');
+    expect(abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(routes).toHaveLength(0);
+  });
+
+  it('should run on pages whose Content-Security-Policy forbids eval', async () => {
+    const { page } = createPage({ csp: true });
+
+    await expect(evaluatePageScript(page, 'return { title: document.title };')).resolves.toEqual({ title: 'Desk Lamp' });
+    await expect(evaluatePageScript(page, 'return new Function("return 1")();')).rejects.toThrow('Code generation from strings disallowed');
+  });
+
+  it('should time out scripts that never settle', async () => {
+    const { page, routes } = createPage();
+    await expect(evaluatePageScript(page, 'await new Promise(() => {});', 50))
+      .rejects.toThrow('evaluate_script timed out after 50ms');
+    expect(routes).toHaveLength(0);
+
+    const hungPage = { ...createPage().page, evaluate: () => new Promise(() => {}) } as unknown as Page;
+    await expect(evaluatePageScript(hungPage, 'return 1;', 50)).rejects.toThrow('timed out');
+  });
+});
+
+describe('mergeScriptResult', () => {
+  it('should merge objects into records and arrays by index in list mode', () => {
+    expect(mergeScriptResult({ title: 'Lamp', sku: null }, { sku: 'L-1' })).toEqual({ title: 'Lamp', sku: 'L-1' });
+    expect(mergeScriptResult([{ title: 'A' }, { title: 'B' }], [{ rank: 1 }, { rank: 2 }]))
+      .toEqual([{ title: 'A', rank: 1 }, { title: 'B', rank: 2 }]);
+    expect(mergeScriptResult([{ title: 'A' }], { currency: 'EUR' })).toEqual([{ title: 'A', currency: 'EUR' }]);
+    expect(mergeScriptResult({ title: 'Lamp' }, null)).toEqual({ title: 'Lamp' });
+  });
+
+  it('should reject results that cannot be merged', () => {
+    expect(() => mergeScriptResult({ title: 'Lamp' }, 'Lamp')).toThrow('evaluate_script must return an object, got string');
+    expect(() => mergeScriptResult({ title: 'Lamp' }, [{ a: 1 }])).toThrow('got an array');
+  });
+});
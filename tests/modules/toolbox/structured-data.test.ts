@@ -0,0 +1,129 @@
+/**
+ * Tests for structured data parsing and the StructuredDataScraper tool
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseStructuredData, flattenEntity } from '../../../src/infrastructure/toolbox/structured-data.js';
+import { StructuredDataScraper } from '../../../src/infrastructure/toolbox/structured-data.scraper.js';
+import { UniversalConfigurationPackageFormatV2 } from '../../../src/core/domain/configuration-package.types.js';
+
+const PRODUCT_HTML = `
+  <html><head>
+    <meta property="og:title" content="Desk Lamp | Shop">
+    <meta property="og:image" content="https://shop.test/lamp-1.jpg">
+    <meta property="og:image" content="https://shop.test/lamp-2.jpg">
+    <meta property="product:price:amount" content="19.50">
+    <meta name="twitter:card" content="summary_large_image">
+    <script type="application/ld+json">
+      { "@context": "https://schema.org", "@graph": [
+        { "@type": "BreadcrumbList", "itemListElement": [{ "@type": "ListItem", "position": 1, "name": "Lighting" }] },
+        { "@type": ["Product", "Thing"], "name": "Desk Lamp", "sku": "L-1",
+          "offers": { "@type": "Offer", "price": 19.5, "priceCurrency": "EUR" } }
+      ] }
+    </script>
+    <script type="application/ld+json">{ invalid</script>
+  </head><body>
+    <div itemscope itemtype="http://schema.org/JobPosting">
+      <h1 itemprop="title">Lamp Designer</h1>
+      <a itemprop="url" href="/jobs/7">Apply</a>
+      <time itemprop="datePosted" datetime="2024-05-01">May 1</time>
+      <div itemprop="hiringOrganization" itemscope itemtype="https://schema.org/Organization">
+        <span itemprop="name">Lumen Ltd</span>
+      </div>
+      <span itemprop="skills">CAD</span><span itemprop="skills">Lighting</span>
+    </div>
+    <article vocab="https://schema.org/" typeof="Article">
+      <h2 property="headline">Choosing a lamp</h2>
+      <span property="author" typeof="Person"><span property="name">Ada</span></span>
+      <meta property="datePublished" content="2024-04-02">
+    </article>
+  </body></html>
+`;
+
+describe('parseStructuredData', () => {
+  it('should normalize JSON-LD, microdata and RDFa entities and the meta tags', () => {
+    const document = parseStructuredData(PRODUCT_HTML, 'https://shop.test/lamp');
+
+    expect(document.entities).toEqual([
+      { '@type': 'BreadcrumbList', '@source': 'json-ld', itemListElement: [{ '@type': 'ListItem', position: 1, name: 'Lighting' }] },
+      { '@type': 'Product', '@source': 'json-ld', name: 'Desk Lamp', sku: 'L-1', offers: { '@type': 'Offer', price: 19.5, priceCurrency: 'EUR' } },
+      {
+        '@type': 'JobPosting',
+        '@source': 'microdata',
+        title: 'Lamp Designer',
+        url: 'https://shop.test/jobs/7',
+        datePosted: '2024-05-01',
+        hiringOrganization: { '@type': 'Organization', name: 'Lumen Ltd' },
+        skills: ['CAD', 'Lighting']
+      },
+      { '@type': 'Article', '@source': 'rdfa', headline: 'Choosing a lamp', author: { '@type': 'Person', name: 'Ada' }, datePublished: '2024-04-02' }
+    ]);
+    expect(document.opengraph).toEqual({
+      title: 'Desk Lamp | Shop',
+      image: ['https://shop.test/lamp-1.jpg', 'https://shop.test/lamp-2.jpg'],
+      'product:price:amount': '19.50'
+    });
+    expect(document.twitter).toEqual({ card: 'summary_large_image' });
+    expect(document.errors).toHaveLength(1);
+  });
+
+  it('should flatten nested entities into dotted keys', () => {
+    expect(flattenEntity({ '@type': 'Product', name: 'Lamp', offers: { price: 19.5 }, colors: ['red', 'blue'], reviews: [{ rating: 5 }] }))
+      .toEqual({ '@type': 'Product', name: 'Lamp', 'offers.price': 19.5, colors: ['red', 'blue'], reviews: '[{"rating":5}]' });
+  });
+});
+
+describe('StructuredDataScraper', () => {
+  let scraper: StructuredDataScraper;
+
+  const buildPackage = (parameters: Record<string, unknown>): UniversalConfigurationPackageFormatV2 => ({
+    schemaVersion: '2.0',
+    scraper: { tool_id: 'scraper_structured_data_v1', parameters: parameters as UniversalConfigurationPackageFormatV2['scraper']['parameters'] }
+  });
+
+  beforeEach(() => {
+    scraper = new StructuredDataScraper();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => PRODUCT_HTML }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the entities of entity_types as flattened records without fields', async () => {
+    const configPackage = buildPackage({ entity_types: ['schema:Product'] });
+    await scraper.initialize(configPackage.scraper);
+
+    const result = await scraper.execute('https://shop.test/lamp', configPackage);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([{
+      '@type': 'Product', '@source': 'json-ld', name: 'Desk Lamp', sku: 'L-1',
+      'offers.@type': 'Offer', 'offers.price': 19.5, 'offers.priceCurrency': 'EUR'
+    }]);
+    expect(result.metadata?.structuredData).toMatchObject({ jsonLd: 2, microdata: 1, rdfa: 1, opengraph: 3, twitter: 1 });
+  });
+
+  it('should extract fields with JSONPaths over the structured data document', async () => {
+    const configPackage = buildPackage({
+      fields: {
+        name: { selector: ["$.entities[?(@['@type'] == 'Product')].name", '$.opengraph.title'] },
+        price: { selector: "$.entities[?(@['@type'] == 'Product')].offers.price", type: 'number' },
+        images: { selector: '$.opengraph.image', multiple: true },
+        employer: { selector: '$..hiringOrganization.name' }
+      }
+    });
+    await scraper.initialize(configPackage.scraper);
+
+    const result = await scraper.execute('https://shop.test/lamp', configPackage);
+
+    expect(result.data).toEqual({
+      name: 'Desk Lamp',
+      price: 19.5,
+      images: ['https://shop.test/lamp-1.jpg', 'https://shop.test/lamp-2.jpg'],
+      employer: 'Lumen Ltd'
+    });
+  });
+});
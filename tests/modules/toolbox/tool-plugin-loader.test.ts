@@ -0,0 +1,79 @@
+/**
+ * Tests for the ToolPluginLoader
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, utimes } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ToolPluginLoader } from '../../../src/infrastructure/toolbox/tool-plugin-loader.js';
+import { ToolboxService } from '../../../src/infrastructure/toolbox/toolbox.service.js';
+
+// A plugin module exporting a scraper class that returns a fixed title
+const scraperPlugin = (toolId: string, title: string) => `
+export default class SiteScraper {
+  toolId = '${toolId}';
+  name = 'Site scraper';
+  async initialize() {}
+  async execute(url) { return { success: true, url, data: { title: '${title}' } }; }
+}
+`;
+
+describe('ToolPluginLoader', () => {
+  let directory: string;
+  let toolbox: ToolboxService;
+  let loader: ToolPluginLoader;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'tool-plugins-'));
+    toolbox = new ToolboxService();
+    loader = new ToolPluginLoader(toolbox, { directory });
+  });
+
+  afterEach(async () => {
+    await loader.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should register valid plugins and reject invalid ones', async () => {
+    await writeFile(path.join(directory, 'acme.mjs'), scraperPlugin('scraper_acme_v1', 'Acme'));
+    await writeFile(path.join(directory, 'broken.mjs'), 'export default class NotATool { toolId = "broken"; }');
+    await writeFile(path.join(directory, 'notes.txt'), 'not a plugin');
+
+    const plugins = await loader.loadAll();
+
+    expect(plugins.map(p => [path.basename(p.file), p.tools])).toEqual([
+      ['acme.mjs', ['scraper_acme_v1']],
+      ['broken.mjs', []]
+    ]);
+    expect(plugins[1].error).toBe("Tool 'broken' does not implement initialize()");
+    expect(toolbox.listTools().map(tool => tool.toolId)).toEqual(['scraper_acme_v1']);
+  });
+
+  it('should reload changed plugins and unregister removed ones', async () => {
+    const file = path.join(directory, 'acme.mjs');
+    await writeFile(file, scraperPlugin('scraper_acme_v1', 'Old'));
+    await loader.loadAll();
+
+    await writeFile(file, scraperPlugin('scraper_acme_v2', 'New'));
+    await utimes(file, new Date(), new Date(Date.now() + 1000)); // Ensure a new module cache key
+    await loader.loadFile(file);
+
+    expect(toolbox.hasTool('scraper_acme_v1')).toBe(false);
+    expect(await toolbox.callTool('scraper_acme_v2', { url: 'https://acme.example.com' }))
+      .toEqual({ success: true, url: 'https://acme.example.com', data: { title: 'New' } });
+
+    await loader.unloadFile(file);
+    expect(toolbox.listTools()).toEqual([]);
+    expect(loader.listPlugins()).toEqual([]);
+  });
+
+  it('should not let plugins replace tools registered elsewhere', async () => {
+    toolbox.registerDefaultTools();
+    await writeFile(path.join(directory, 'override.mjs'), scraperPlugin('scraper_fetch_cheerio_v1', 'Override'));
+
+    const [plugin] = await loader.loadAll();
+
+    expect(plugin.error).toBe("Tool 'scraper_fetch_cheerio_v1' is already registered");
+    expect(toolbox.listTools()).toHaveLength(8);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for the tools controller (GET /tools, GET /tools/:tool_id, POST /tools/:tool_id/invoke)
+ */
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import toolsController from '../../../src/modules/tools/tools.controller.js';
+import { ToolboxService } from '../../../src/infrastructure/toolbox/toolbox.service.js';
+
+describe('ToolsController', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const toolboxService = new ToolboxService();
+    toolboxService.registerDefaultTools();
+
+    app = Fastify();
+    await app.register(sensible);
+    app.decorate('toolboxService', toolboxService);
+    await app.register(toolsController, { prefix: '/tools' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should list tools filtered by type', async () => {
+    const response = await app.inject({ method: 'GET', url: '/tools?type=scraper' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().tools.map((tool: { id: string }) => tool.id))
+      .toEqual(['scraper_fetch_cheerio_v1', 'scraper_playwright_stealth_v1', 'scraper_json_api_v1', 'scraper_structured_data_v1', 'scraper_html_table_v1']);
+  });
+
+  it('should describe a tool with its capabilities and input schema', async () => {
+    const response = await app.inject({ method: 'GET', url: '/tools/scraper_playwright_stealth_v1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      id: 'scraper_playwright_stealth_v1',
+      type: 'scraper',
+      version: '1',
+      capabilities: { js_rendering: true, proxy_support: true, cost_tier: 'high' },
+      input_schema: { type: 'object' }
+    });
+
+    const missing = await app.inject({ method: 'GET', url: '/tools/unknown_tool' });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('should invoke a tool through the toolbox', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/tools/proxy_manager_v1/invoke',
+      payload: { params: { targetUrl: 'https://example.com', proxy_list: ['http://proxy.example.com:8080'] } }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ tool_id: 'proxy_manager_v1', result: 'http://proxy.example.com:8080' });
+  });
+});
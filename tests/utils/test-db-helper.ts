@@ -73,7 +73,7 @@ export function createTestRepositories(prisma: PrismaClient) {
  * can use the complete schema without database errors.
  */
 export function createMockPrismaClient() {
-  return {
+  const client = {
     build: {
       findUnique: vi.fn(),
       findFirst: vi.fn(),
@@ -123,7 +123,9 @@ export function createMockPrismaClient() {
     },
     $connect: vi.fn(),
     $disconnect: vi.fn(),
-    $transaction: vi.fn().mockImplementation((callback) => callback()),
+    // Interactive transactions run against the mock itself
+    $transaction: vi.fn().mockImplementation((callback) => callback(client)),
     $queryRaw: vi.fn(),
-  } as unknown as PrismaClient;
+  };
+  return client as unknown as PrismaClient;
 }